@@ -0,0 +1,212 @@
+// Agent Decision Policies for ClawCiv
+// A policy sees an observation of one agent and its surroundings and returns the
+// actions that agent takes this tick. The engine validates and applies them.
+
+import type { Specialization } from '../engine/Game.ts';
+import type { TribeConfig } from '../systems/TribeConfig.ts';
+import type { SpyMission } from '../systems/Spy.ts';
+import type { ExchangeResource, OrderSide, Quote } from '../economy/Exchange.ts';
+import type { ProductionRecipe, ResourceTokenLaunch } from '../economy/ResourceTokens.ts';
+import type { EscrowCondition, EscrowStatus } from '../economy/Escrow.ts';
+import type { TaxRates } from '../economy/Fiscal.ts';
+import type { Collateral, LenderKind, LoanStatus } from '../economy/Lending.ts';
+import type { Tile } from '../engine/WorldMap.ts';
+import type { JourneyGoal, JourneyPurpose } from '../systems/Movement.ts';
+
+export type Direction = 'left' | 'right' | 'up' | 'down';
+export type TravelPurpose = 'explore' | 'gather' | 'quest' | 'migrate';
+export type ApproachPurpose = 'meet' | 'battle';
+
+export type AgentAction =
+  | { type: 'idle' }
+  | { type: 'move'; direction: Direction }                 // Walk into the neighbouring grid cell
+  | { type: 'travel'; x: number; y: number; purpose?: TravelPurpose } // Walk the cheapest route to a grid cell
+  | { type: 'approach'; targetId: string; purpose?: ApproachPurpose } // Walk up to another agent; a battle ends in an attack
+  | { type: 'gather'; resource: 'food' | 'materials' }     // Needs farming / mining skill
+  | { type: 'research'; techId?: string }                  // Needs research skill; techId also spends tribe resources on a tech
+  | { type: 'trade'; targetId: string }                    // Needs trade skill on both sides
+  | { type: 'attack'; targetId: string }                   // Needs combat skill
+  | { type: 'diplomacy'; targetId: string }                // Needs diplomacy skill
+  | { type: 'ability' }                                    // Specialization ability
+  | { type: 'claim' }                                      // Claim the current grid cell for the tribe
+  | { type: 'build'; buildingType: string }                // Needs building skill; paid by the tribe
+  | { type: 'pray' }                                       // Needs a tribe religion
+  | { type: 'spy'; targetTribe: string; mission: SpyMission['type'] }
+  | { type: 'order'; resource: ExchangeResource; side: OrderSide; price: number; quantity: number } // Limit order in $CLAW per unit
+  | { type: 'cancel_order'; orderId: string }             // Returns the order's escrow
+  | { type: 'launch_token'; launch: ResourceTokenLaunch }  // Costs a $CLAW launch fee
+  | { type: 'mint_token'; symbol: string; amount: number } // Needs mint authority; consumes the token's recipe
+  | { type: 'transfer_token'; symbol: string; targetId: string; amount: number }
+  | { type: 'create_escrow'; payeeId: string; amount: number; condition: EscrowCondition; durationDays: number; description?: string }
+  | { type: 'deliver'; contractId: string }                // Payee hands over resources for a delivery contract
+  | { type: 'dispute'; contractId: string }                // Freezes the contract until tribe governance rules
+  | { type: 'offer_loan'; amount: number; interestRate: number; termDays: number; collateralRatio?: number } // Needs 500 $CLAW
+  | { type: 'take_loan'; offerId: string; amount: number; collateral?: Collateral }
+  | { type: 'repay_loan'; loanId: string; amount: number }
+  | { type: 'deposit'; orgId: string; amount: number }     // With a corporation or cooperative
+  | { type: 'withdraw_deposit'; orgId: string; amount: number };
+
+export type ActionType = AgentAction['type'];
+
+export const ACTION_TYPES: ActionType[] = [
+  'idle', 'move', 'travel', 'approach', 'gather', 'research', 'trade', 'attack',
+  'diplomacy', 'ability', 'claim', 'build', 'pray', 'spy', 'order', 'cancel_order',
+  'launch_token', 'mint_token', 'transfer_token',
+  'create_escrow', 'deliver', 'dispute',
+  'offer_loan', 'take_loan', 'repay_loan', 'deposit', 'withdraw_deposit'
+];
+
+export const TRAVEL_PURPOSES: TravelPurpose[] = ['explore', 'gather', 'quest', 'migrate'];
+export const APPROACH_PURPOSES: ApproachPurpose[] = ['meet', 'battle'];
+
+export interface NearbyAgentView {
+  id: string;
+  name: string;
+  tribe: string;
+  distance: number;
+  skills: string[];
+  specialization: Specialization;
+  resources: { food: number; energy: number; materials: number; knowledge: number; socialCapital: number };
+  isAlly: boolean;
+  isEnemy: boolean;
+  canFight: boolean; // False when tribes have a pact that forbids combat
+}
+
+export interface OpenOrderView {
+  id: string;
+  resource: ExchangeResource;
+  side: OrderSide;
+  price: number;
+  remaining: number;
+}
+
+export interface EscrowView {
+  id: string;
+  role: 'payer' | 'payee';
+  counterparty: string;
+  amount: number;
+  condition: EscrowCondition;
+  delivered: number;
+  deadline: number;
+  status: EscrowStatus;
+}
+
+export interface LoanView {
+  id: string;
+  role: 'lender' | 'borrower';
+  counterparty: string;
+  outstanding: number;
+  installment: number;
+  nextDueDay: number;
+  missedPayments: number;
+  status: LoanStatus;
+}
+
+export interface LoanOfferView {
+  id: string;
+  lender: string;
+  lenderKind: LenderKind;
+  amount: number;           // Still available
+  interestRate: number;
+  termDays: number;
+  collateralRatio: number;
+  minCreditScore: number;
+}
+
+export interface ResourceTokenView {
+  symbol: string;
+  name: string;
+  issuer: string;
+  recipe: ProductionRecipe;
+  mintable: number; // How many this agent could mint right now
+}
+
+// The tile under the agent; farming follows fertility and mining stops when the deposit runs out
+export type TileView = Pick<Tile, 'biome' | 'elevation' | 'fertility' | 'deposit'>;
+
+// A tile within sight, with what it costs this agent's tribe to walk into it
+export interface TerrainView extends TileView {
+  x: number;
+  y: number;
+  moveCost: number;
+  crowding: number;   // People standing here over how many the cell feeds; above 1 is crowded
+}
+
+export interface JourneyView {
+  goal: JourneyGoal;
+  purpose: JourneyPurpose;
+  destination: { x: number; y: number }; // Last cell on the route
+  stepsLeft: number;
+}
+
+export interface TribeView {
+  name: string;
+  tendencies: TribeConfig['tendencies'];
+  population: number;
+  resources: { food: number; materials: number; knowledge: number; socialCapital: number };
+  availableTechs: string[];
+  buildableTypes: string[]; // Building types the tribe can afford and has the tech for
+  religion: string | null;
+  government: string;
+  taxRates: TaxRates;
+  territory: {
+    cells: number;
+    provinces: string[];
+    borders: { x: number; y: number }[];  // Held cells next to land the tribe doesn't hold
+    frontier: { x: number; y: number }[]; // Cells just outside the tribe's land
+    contested: { x: number; y: number; challenger: string; owner: string | null; days: number }[];
+  };
+  capacity: {
+    supported: number;           // People the tribe's land can feed
+    load: number;                // Population over that; above 1 is overpopulated
+    overpopulated: boolean;
+    crowdedProvinces: string[];  // Provinces holding more members than they feed
+  };
+}
+
+export interface AgentObservation {
+  day: number;
+  season: string;
+  gridSize: number;
+  interactionRange: number; // Max distance for trade/attack/diplomacy targets
+  tribes: string[];
+  self: {
+    id: string;
+    name: string;
+    tribe: string;
+    x: number;                            // Grid cell under worldX/worldZ
+    y: number;
+    worldX: number;
+    worldZ: number;
+    resources: { food: number; energy: number; materials: number; knowledge: number; socialCapital: number };
+    skills: string[];
+    specialization: Specialization;
+    level: number;
+    experience: number;
+    balance: number;
+    isSpy: boolean;
+    openOrders: OpenOrderView[];
+    tokens: { [symbol: string]: number }; // Resource token balances
+    escrows: EscrowView[];                // Open and disputed contracts the agent is party to
+    loans: LoanView[];                    // Active loans the agent lent or borrowed
+    creditScore: number;                  // 0-100
+    deposits: { orgId: string; amount: number }[];
+    tile: TileView | null;
+    journey: JourneyView | null;          // Where the agent is walking, if anywhere
+    questTargets: { questId: string; x: number; y: number }[]; // Cells the agent's quests send it to next
+  };
+  tribe: TribeView;
+  nearby: NearbyAgentView[]; // Sorted by distance
+  terrain: TerrainView[];    // Tiles within sight, nearest first
+  market: { [resource in ExchangeResource]: Quote };
+  resourceTokens: ResourceTokenView[];
+  loanOffers: LoanOfferView[]; // Open offers from the agent's tribe
+}
+
+export type PolicyName = 'random' | 'utility';
+
+export interface AgentPolicy {
+  readonly name: string;
+  // Actions are applied in order; invalid ones are skipped
+  decide(observation: AgentObservation): AgentAction[];
+}
@@ -0,0 +1,43 @@
+// External Policy for ClawCiv
+// Plays back actions submitted by out-of-process agents; any agent without a
+// submission for this tick falls back to the built-in policy
+
+import { AgentPolicy, AgentObservation, AgentAction } from './AgentPolicy.ts';
+
+export class ExternalPolicy implements AgentPolicy {
+  readonly name: string;
+  private fallback: AgentPolicy;
+  private pending: Map<string, AgentAction[]> = new Map();
+
+  constructor(fallback: AgentPolicy) {
+    this.fallback = fallback;
+    this.name = `external(${fallback.name})`;
+  }
+
+  getFallback(): AgentPolicy {
+    return this.fallback;
+  }
+
+  submit(agentId: string, actions: AgentAction[]): void {
+    this.pending.set(agentId, actions);
+  }
+
+  hasSubmission(agentId: string): boolean {
+    return this.pending.has(agentId);
+  }
+
+  // Drop submissions that weren't consumed (e.g. the agent died before acting)
+  clear(): void {
+    this.pending.clear();
+  }
+
+  decide(observation: AgentObservation): AgentAction[] {
+    const actions = this.pending.get(observation.self.id);
+    if (actions) {
+      this.pending.delete(observation.self.id);
+      return actions;
+    }
+
+    return this.fallback.decide(observation);
+  }
+}
@@ -0,0 +1,84 @@
+// Random Policy for ClawCiv
+// The original hard-coded agent behaviour: work every skill, interact with whoever
+// is close, random-walk, and occasionally claim territory
+
+import { Random } from '../engine/Random.ts';
+import { AgentPolicy, AgentObservation, AgentAction, Direction } from './AgentPolicy.ts';
+import { EXCHANGE_RESOURCES } from '../economy/Exchange.ts';
+
+const DIRECTIONS: Direction[] = ['left', 'right', 'up', 'down'];
+
+export class RandomPolicy implements AgentPolicy {
+  readonly name = 'random';
+  private random: Random;
+
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
+  decide(observation: AgentObservation): AgentAction[] {
+    const { self } = observation;
+    const actions: AgentAction[] = [];
+
+    // Diplomacy first, then trade, then combat with anyone in reach
+    for (const other of observation.nearby) {
+      if (other.distance > observation.interactionRange) break;
+
+      const hostile = other.tribe !== self.tribe || other.isEnemy;
+      if (self.skills.includes('diplomacy') && ((other.tribe === self.tribe && !other.isAlly) || other.isEnemy)) {
+        actions.push({ type: 'diplomacy', targetId: other.id });
+      } else if (self.skills.includes('trade') && other.skills.includes('trade')) {
+        actions.push({ type: 'trade', targetId: other.id });
+      } else if (hostile && self.skills.includes('combat') && other.canFight) {
+        actions.push({ type: 'attack', targetId: other.id });
+      }
+    }
+
+    // Use special ability 10% of the time
+    if (self.specialization !== 'none' && this.random.next() < 0.1) {
+      actions.push({ type: 'ability' });
+    }
+
+    // Traders take a surplus or a shortage to the exchange now and then
+    if (self.skills.includes('trade') && this.random.next() < 0.2) {
+      const order = this.marketOrder(observation);
+      if (order) actions.push(order);
+    }
+
+    // Work every skill the agent has
+    if (self.skills.includes('farming')) actions.push({ type: 'gather', resource: 'food' });
+    if (self.skills.includes('mining')) actions.push({ type: 'gather', resource: 'materials' });
+    if (self.skills.includes('research')) actions.push({ type: 'research' });
+
+    // Move randomly
+    actions.push({ type: 'move', direction: DIRECTIONS[Math.floor(this.random.next() * DIRECTIONS.length)] });
+
+    // Claim territory for tribe (5% chance per move)
+    if (this.random.next() < 0.05) {
+      actions.push({ type: 'claim' });
+    }
+
+    return actions;
+  }
+
+  // Sell 10 of the largest surplus or bid for the scarcest resource, near the mid price
+  private marketOrder(observation: AgentObservation): AgentAction | null {
+    const { self, market } = observation;
+    const byAmount = [...EXCHANGE_RESOURCES].sort((a, b) => self.resources[a] - self.resources[b]);
+    const price = (resource: typeof byAmount[number]) =>
+      Math.round(market[resource].mid * (0.95 + this.random.next() * 0.1) * 100) / 100;
+
+    const surplus = byAmount[byAmount.length - 1];
+    if (this.random.next() < 0.5 && self.resources[surplus] > 50) {
+      return { type: 'order', resource: surplus, side: 'ask', price: price(surplus), quantity: 10 };
+    }
+
+    const scarce = byAmount[0];
+    const bid = price(scarce);
+    const quantity = Math.min(10, Math.floor(self.balance / Math.max(0.01, bid)));
+    if (self.resources[scarce] < 50 && quantity > 0) {
+      return { type: 'order', resource: scarce, side: 'bid', price: bid, quantity };
+    }
+    return null;
+  }
+}
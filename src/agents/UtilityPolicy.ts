@@ -0,0 +1,289 @@
+// Utility Policy for ClawCiv
+// Scores each candidate action from the agent's needs and its tribe's tendencies
+// (aggression, cooperation, exploration, innovation, trade) and picks the best
+
+import { Random } from '../engine/Random.ts';
+import { AgentPolicy, AgentObservation, AgentAction, NearbyAgentView, TerrainView } from './AgentPolicy.ts';
+import { EXCHANGE_RESOURCES } from '../economy/Exchange.ts';
+
+const SPY_MISSIONS = ['gather_intel', 'steal_tech', 'sabotage_building', 'disinformation'] as const;
+
+export class UtilityPolicy implements AgentPolicy {
+  readonly name = 'utility';
+  private random: Random;
+
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
+  decide(observation: AgentObservation): AgentAction[] {
+    const actions: AgentAction[] = [];
+    const { self, tribe } = observation;
+    const t = {
+      aggression: tribe.tendencies.aggression / 100,
+      cooperation: tribe.tendencies.cooperation / 100,
+      exploration: tribe.tendencies.exploration / 100,
+      innovation: tribe.tendencies.innovation / 100,
+      trade: tribe.tendencies.trade / 100
+    };
+
+    // One social action per neighbour in reach, taken with probability equal to its utility
+    for (const other of observation.nearby) {
+      if (other.distance > observation.interactionRange) break;
+      const best = this.bestSocialAction(observation, other, t);
+      if (best && this.random.next() < best.score) {
+        actions.push(best.action);
+      }
+    }
+
+    if (self.specialization !== 'none' && this.random.next() < 0.1) {
+      actions.push({ type: 'ability' });
+    }
+
+    const work = this.bestWorkAction(observation, t);
+    if (work) actions.push(work);
+
+    const finance = this.financeAction(observation, t);
+    if (finance) actions.push(finance);
+
+    // Walk over to someone worth dealing with, or head for a quest, better ground or somewhere new
+    const approach = this.approachAction(observation, t);
+    if (approach) actions.push(approach);
+    const travel = this.travelAction(observation, t);
+    if (travel) actions.push(travel);
+
+    // Explorers stake claims more often, above all out on the frontier, where a border cell is under pressure
+    // or when the tribe has outgrown its land
+    const pressing = this.onContestedGround(observation) || observation.tribe.capacity.overpopulated;
+    if (this.random.next() < (pressing ? 0.5 : 0.1) * t.exploration) {
+      actions.push({ type: 'claim' });
+    }
+
+    return actions;
+  }
+
+  private bestWorkAction(observation: AgentObservation, t: { [key: string]: number }): AgentAction | null {
+    const { self, tribe } = observation;
+    const candidates: { action: AgentAction; score: number }[] = [];
+
+    // Hunger dominates everything else
+    const hunger = Math.max(0, (100 - self.resources.food) / 100);
+
+    if (self.skills.includes('farming')) {
+      const fertility = self.tile?.fertility ?? 0.5;
+      candidates.push({ action: { type: 'gather', resource: 'food' }, score: 0.4 + hunger * 1.5 + (fertility - 0.5) * 0.4 });
+    }
+    if (self.skills.includes('mining') && (self.tile?.deposit ?? 1) > 0) {
+      candidates.push({ action: { type: 'gather', resource: 'materials' }, score: 0.4 + t.aggression * 0.3 });
+    }
+    if (self.skills.includes('research')) {
+      // Only rarely spend tribe resources on a tech; studying alone still yields knowledge
+      const techId = tribe.availableTechs.length > 0 && this.random.next() < 0.05 * t.innovation
+        ? tribe.availableTechs[Math.floor(this.random.next() * tribe.availableTechs.length)]
+        : undefined;
+      candidates.push({ action: techId ? { type: 'research', techId } : { type: 'research' }, score: 0.3 + t.innovation * 0.7 });
+    }
+    if (self.skills.includes('building') && tribe.buildableTypes.length > 0) {
+      const buildingType = tribe.buildableTypes[Math.floor(this.random.next() * tribe.buildableTypes.length)];
+      candidates.push({ action: { type: 'build', buildingType }, score: 0.2 + t.cooperation * 0.4 });
+    }
+    if (tribe.religion) {
+      const lonely = self.resources.socialCapital < 50 ? 0.2 : 0;
+      candidates.push({ action: { type: 'pray' }, score: 0.1 + t.cooperation * 0.2 + lonely });
+    }
+
+    if (self.skills.includes('trade')) {
+      const order = this.marketOrder(observation);
+      if (order) candidates.push({ action: order.action, score: 0.2 + t.trade * 0.4 + order.urgency });
+    }
+
+    const rivals = observation.tribes.filter(other => other !== self.tribe);
+    if (rivals.length > 0 && this.random.next() < 0.02 * t.aggression) {
+      const targetTribe = rivals[Math.floor(this.random.next() * rivals.length)];
+      const mission = SPY_MISSIONS[Math.floor(this.random.next() * SPY_MISSIONS.length)];
+      candidates.push({ action: { type: 'spy', targetTribe, mission }, score: 0.5 + t.aggression * 0.5 });
+    }
+
+    if (candidates.length === 0) return null;
+
+    // Small jitter breaks ties so tribes aren't perfectly predictable
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const candidate of candidates) {
+      const score = candidate.score + this.random.next() * 0.1;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best.action;
+  }
+
+  // One neighbour out of reach, approached with probability half its utility; a fight means marching to battle
+  private approachAction(observation: AgentObservation, t: { [key: string]: number }): AgentAction | null {
+    for (const other of observation.nearby) {
+      if (other.distance <= observation.interactionRange) continue;
+      const best = this.bestSocialAction(observation, other, t);
+      if (best && this.random.next() < best.score * 0.5) {
+        return { type: 'approach', targetId: other.id, purpose: best.action.type === 'attack' ? 'battle' : 'meet' };
+      }
+    }
+    return null;
+  }
+
+  // Quests come first; crowded agents move off to ground that can feed them, workers leave barren or mined-out
+  // ground for the best tile in sight; explorers wander, and an overpopulated tribe sends more of them out
+  private travelAction(observation: AgentObservation, t: { [key: string]: number }): AgentAction | null {
+    const { self } = observation;
+    if (self.journey) return null;
+
+    const quest = self.questTargets[0];
+    if (quest && this.random.next() < 0.5) {
+      return { type: 'travel', x: quest.x, y: quest.y, purpose: 'quest' };
+    }
+
+    const here = observation.terrain.find(tile => tile.x === self.x && tile.y === self.y);
+    if (here && here.crowding > 1) {
+      const ground = this.bestGround(observation);
+      if (ground && ground.crowding < here.crowding) return { type: 'travel', x: ground.x, y: ground.y, purpose: 'migrate' };
+    }
+
+    if (this.isPoorGround(observation)) {
+      const ground = this.bestGround(observation);
+      if (ground) return { type: 'travel', x: ground.x, y: ground.y, purpose: 'gather' };
+    }
+
+    // Explorers push out along the tribe's frontier when it's in sight
+    const elsewhere = observation.terrain.filter(tile => tile.x !== self.x || tile.y !== self.y);
+    const frontier = elsewhere.filter(tile => observation.tribe.territory.frontier.some(f => f.x === tile.x && f.y === tile.y));
+    const options = frontier.length > 0 ? frontier : elsewhere;
+    const restless = observation.tribe.capacity.overpopulated ? 0.3 : 0;
+    if (options.length > 0 && this.random.next() < 0.1 + t.exploration * 0.4 + restless) {
+      const tile = options[Math.floor(this.random.next() * options.length)];
+      return { type: 'travel', x: tile.x, y: tile.y, purpose: 'explore' };
+    }
+    return null;
+  }
+
+  // The tile in sight that best suits the agent's work once the walk there and the crowd on it are counted;
+  // null if none beats standing still
+  private bestGround(observation: AgentObservation): TerrainView | null {
+    const { self } = observation;
+    const value = (tile: TerrainView) => {
+      let worth = 0;
+      if (self.skills.includes('farming')) worth += tile.fertility;
+      if (self.skills.includes('mining')) worth += Math.min(1, tile.deposit / 10000);
+      const steps = Math.abs(tile.x - self.x) + Math.abs(tile.y - self.y);
+      return worth - steps * tile.moveCost * 0.05 - Math.max(0, tile.crowding - 1) * 0.5;
+    };
+
+    let best: TerrainView | null = null;
+    let bestValue = -Infinity;
+    for (const tile of observation.terrain) {
+      const tileValue = value(tile);
+      if (tileValue > bestValue) {
+        best = tile;
+        bestValue = tileValue;
+      }
+    }
+    return best && (best.x !== self.x || best.y !== self.y) ? best : null;
+  }
+
+  private onContestedGround(observation: AgentObservation): boolean {
+    const { self, tribe } = observation;
+    const here = (cell: { x: number; y: number }) => cell.x === self.x && cell.y === self.y;
+    return tribe.territory.frontier.some(here) || tribe.territory.contested.some(here);
+  }
+
+  private isPoorGround(observation: AgentObservation): boolean {
+    const { self } = observation;
+    if (!self.tile) return false;
+    if (self.skills.includes('mining') && self.tile.deposit <= 0) return true;
+    return self.skills.includes('farming') && self.tile.fertility < 0.3;
+  }
+
+  // Buy what the agent is short of, paying up when it's badly short, or sell down a large surplus.
+  // Skips resources the agent already has an order resting on.
+  private marketOrder(observation: AgentObservation): { action: AgentAction; urgency: number } | null {
+    const { self, market } = observation;
+    const resting = new Set(self.openOrders.map(o => o.resource));
+    const byAmount = EXCHANGE_RESOURCES.filter(r => !resting.has(r))
+      .sort((a, b) => self.resources[a] - self.resources[b]);
+    if (byAmount.length === 0) return null;
+
+    const scarce = byAmount[0];
+    const shortage = Math.max(0, (50 - self.resources[scarce]) / 50);
+    if (shortage > 0) {
+      const price = Math.round(market[scarce].mid * (1 + shortage * 0.1) * 100) / 100;
+      const quantity = Math.min(10, Math.floor(self.balance / price));
+      if (quantity > 0) {
+        return { action: { type: 'order', resource: scarce, side: 'bid', price, quantity }, urgency: shortage * 0.5 };
+      }
+    }
+
+    const surplus = byAmount[byAmount.length - 1];
+    if (self.resources[surplus] > 150) {
+      const price = Math.round(market[surplus].mid * 0.98 * 100) / 100;
+      return { action: { type: 'order', resource: surplus, side: 'ask', price, quantity: 10 }, urgency: 0.1 };
+    }
+    return null;
+  }
+
+  // Borrow when nearly broke, pay loans off once flush, and lend out a fortune
+  private financeAction(observation: AgentObservation, t: { [key: string]: number }): AgentAction | null {
+    const { self, market } = observation;
+    const borrowed = self.loans.filter(l => l.role === 'borrower');
+    const debt = borrowed.reduce((sum, l) => sum + l.outstanding, 0);
+
+    if (borrowed.length > 0 && self.balance > debt + 200) {
+      return { type: 'repay_loan', loanId: borrowed[0].id, amount: borrowed[0].outstanding };
+    }
+
+    if (borrowed.length === 0 && self.balance < 50) {
+      // Pledge the most valuable holding, with a little margin over what the offer asks for
+      const holding = EXCHANGE_RESOURCES.reduce((a, b) =>
+        self.resources[b] * market[b].mid > self.resources[a] * market[a].mid ? b : a);
+      for (const offer of observation.loanOffers) {
+        if (offer.lender === self.id || offer.minCreditScore > self.creditScore) continue;
+        const amount = Math.min(offer.amount, 100);
+        const needed = amount * offer.collateralRatio * 1.01;
+        if (needed <= 0) return { type: 'take_loan', offerId: offer.id, amount };
+        if (self.resources[holding] * market[holding].mid < needed) continue;
+        const pledge = Math.min(self.resources[holding], Math.ceil(needed / market[holding].mid));
+        return { type: 'take_loan', offerId: offer.id, amount, collateral: { type: 'resource', resource: holding, amount: pledge } };
+      }
+    }
+
+    if (self.skills.includes('trade') && self.balance > 1500 && this.random.next() < 0.05 * t.trade &&
+        !observation.loanOffers.some(o => o.lender === self.id)) {
+      return { type: 'offer_loan', amount: 300, interestRate: 0.15, termDays: 60, collateralRatio: 1 };
+    }
+    return null;
+  }
+
+  private bestSocialAction(
+    observation: AgentObservation,
+    other: NearbyAgentView,
+    t: { [key: string]: number }
+  ): { action: AgentAction; score: number } | null {
+    const { self } = observation;
+    const candidates: { action: AgentAction; score: number }[] = [];
+
+    if (self.skills.includes('diplomacy') && ((other.tribe === self.tribe && !other.isAlly) || other.isEnemy)) {
+      candidates.push({ action: { type: 'diplomacy', targetId: other.id }, score: t.cooperation });
+    }
+    if (self.skills.includes('trade') && other.skills.includes('trade')) {
+      candidates.push({ action: { type: 'trade', targetId: other.id }, score: t.trade });
+    }
+    if (self.skills.includes('combat') && other.canFight && (other.tribe !== self.tribe || other.isEnemy)) {
+      // Pick fights we expect to win
+      const ours = self.resources.energy * 0.5 + self.resources.materials * 0.3;
+      const theirs = other.resources.energy * 0.5 + other.resources.materials * 0.3;
+      const odds = ours / Math.max(1, ours + theirs);
+      candidates.push({ action: { type: 'attack', targetId: other.id }, score: t.aggression * odds * 2 });
+    }
+
+    if (candidates.length === 0) return null;
+    return candidates.reduce((a, b) => (b.score > a.score ? b : a));
+  }
+}
@@ -0,0 +1,370 @@
+// Agent Bridge for ClawCiv
+// Local HTTP/WebSocket server that lets out-of-process agents observe and act.
+// Each tick: send observations -> wait for actions (up to the deadline) -> GameEngine.tick()
+
+import { createServer, Server, IncomingMessage, ServerResponse } from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GameEngine, Agent } from '../engine/Game.ts';
+import { ExternalPolicy } from '../agents/ExternalPolicy.ts';
+import { ClientMessage, ServerMessage } from './Protocol.ts';
+
+export interface AgentBridgeOptions {
+  port?: number;
+  host?: string;            // Defaults to loopback; the bridge has no authentication
+  deadlineMs?: number;      // How long to wait for actions each tick
+  tickIntervalMs?: number;  // Minimum wall time per tick (0 = as fast as agents answer)
+}
+
+interface ClientSession {
+  id: string;
+  name: string;
+  socket: WebSocket;
+  agents: Set<string>;
+  tribes: Set<string>;
+}
+
+interface PendingTick {
+  day: number;
+  expected: Set<string>;
+  resolve: () => void;
+}
+
+export class AgentBridge {
+  private engine: GameEngine;
+  private port: number;
+  private host: string;
+  private deadlineMs: number;
+  private tickIntervalMs: number;
+  private server: Server;
+  private wss: WebSocketServer;
+  private clients: Map<WebSocket, ClientSession> = new Map();
+  private policies: Map<string, ExternalPolicy> = new Map();
+  private pendingTick: PendingTick | null = null;
+  private clientIdCounter = 0;
+  private running = false;
+
+  constructor(engine: GameEngine, options: AgentBridgeOptions = {}) {
+    this.engine = engine;
+    this.port = options.port ?? 8787;
+    this.host = options.host ?? '127.0.0.1';
+    this.deadlineMs = options.deadlineMs ?? 500;
+    this.tickIntervalMs = options.tickIntervalMs ?? 0;
+
+    // Wrap each tribe's current policy so it becomes the timeout fallback
+    for (const tribe of engine.getTribes()) {
+      const policy = new ExternalPolicy(engine.getAgentPolicy(tribe));
+      this.policies.set(tribe, policy);
+      engine.setAgentPolicy(policy, tribe);
+    }
+
+    this.server = createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+    // Errors re-emitted from the HTTP server; listen failures already reject start()
+    this.wss.on('error', (error) => console.error(`Agent bridge error: ${error.message}`));
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (!this.server.listening) return;
+    this.pendingTick?.resolve();
+    for (const socket of this.clients.keys()) {
+      socket.close();
+    }
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  getAddress(): { host: string; port: number } {
+    const address = this.server.address();
+    const port = address && typeof address === 'object' ? address.port : this.port;
+    return { host: this.host, port };
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  // Run ticks until `days` have passed (or forever) or stop() is called
+  async run(days?: number, onTick?: (day: number) => void): Promise<void> {
+    this.running = true;
+    const target = days === undefined ? Infinity : this.engine.getDay() + days;
+
+    while (this.running && this.engine.getDay() < target) {
+      const started = Date.now();
+      await this.step();
+      onTick?.(this.engine.getDay());
+
+      // Always yield to the event loop so sockets and HTTP get serviced between ticks
+      const remaining = this.tickIntervalMs - (Date.now() - started);
+      await new Promise(resolve => (remaining > 0 ? setTimeout(resolve, remaining) : setImmediate(resolve)));
+    }
+    this.running = false;
+  }
+
+  // Advance one tick, giving connected agents until the deadline to act
+  async step(): Promise<void> {
+    const day = this.engine.getDay() + 1;
+    const controlled = new Map<ClientSession, string[]>();
+    const expected = new Set<string>();
+
+    for (const session of this.clients.values()) {
+      const agentIds = this.getControlledAgents(session).map(a => a.id);
+      controlled.set(session, agentIds);
+      agentIds.forEach(id => expected.add(id));
+
+      this.send(session.socket, {
+        type: 'observe',
+        day,
+        deadlineMs: this.deadlineMs,
+        observations: agentIds.map(id => this.engine.getObservation(id)!).filter(Boolean)
+      });
+    }
+
+    if (expected.size > 0) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => done(), this.deadlineMs);
+        const done = () => {
+          clearTimeout(timer);
+          this.pendingTick = null;
+          resolve();
+        };
+        this.pendingTick = { day, expected, resolve: done };
+      });
+    }
+
+    const submitted = new Set<string>();
+    for (const id of expected) {
+      const agent = this.findAgent(id);
+      if (agent && this.policies.get(agent.tribe)?.hasSubmission(id)) submitted.add(id);
+    }
+
+    this.engine.tick();
+    for (const policy of this.policies.values()) {
+      policy.clear();
+    }
+
+    const messages = this.engine.getState().messages.filter(m => m.timestamp === day);
+    for (const [session, agentIds] of controlled) {
+      if (!this.clients.has(session.socket)) continue;
+      this.send(session.socket, {
+        type: 'tick',
+        day,
+        messages,
+        timedOut: agentIds.filter(id => !submitted.has(id)),
+        died: agentIds.filter(id => !this.findAgent(id)?.alive)
+      });
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const session: ClientSession = {
+      id: `client-${++this.clientIdCounter}`,
+      name: 'anonymous',
+      socket,
+      agents: new Set(),
+      tribes: new Set()
+    };
+    this.clients.set(socket, session);
+
+    socket.on('message', (data) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send(socket, { type: 'error', message: 'Invalid JSON' });
+        return;
+      }
+      this.handleClientMessage(session, message);
+    });
+
+    socket.on('close', () => this.dropSession(socket));
+
+    // A malformed frame or a broken connection only costs the client its session, never the simulation
+    socket.on('error', () => {
+      this.dropSession(socket);
+      socket.terminate();
+    });
+  }
+
+  // Forget a client and stop waiting on its agents this tick
+  private dropSession(socket: WebSocket): void {
+    if (!this.clients.delete(socket)) return;
+    this.checkPendingTick();
+  }
+
+  private handleClientMessage(session: ClientSession, message: ClientMessage): void {
+    switch (message?.type) {
+      case 'hello':
+        this.handleHello(session, message);
+        break;
+
+      case 'actions': {
+        if (!this.pendingTick || this.pendingTick.day !== message.day) {
+          this.send(session.socket, { type: 'error', message: `Not accepting actions for day ${message.day}` });
+          return;
+        }
+
+        for (const [agentId, actions] of Object.entries(message.actions || {})) {
+          const agent = this.findAgent(agentId);
+          if (!agent || !this.pendingTick.expected.has(agentId) || !this.isControlledBy(session, agent)) {
+            this.send(session.socket, { type: 'error', message: `Agent ${agentId} is not yours to control` });
+            continue;
+          }
+          if (!Array.isArray(actions)) {
+            this.send(session.socket, { type: 'error', message: `Actions for ${agentId} must be an array` });
+            continue;
+          }
+          this.policies.get(agent.tribe)!.submit(agentId, actions);
+        }
+        this.checkPendingTick();
+        break;
+      }
+
+      default:
+        this.send(session.socket, { type: 'error', message: `Unknown message type: ${(message as any)?.type}` });
+    }
+  }
+
+  private handleHello(session: ClientSession, message: { name?: string; agents?: string[]; tribe?: string }): void {
+    session.name = message.name || session.name;
+    const rejected: string[] = [];
+
+    if (message.tribe) {
+      const taken = Array.from(this.clients.values()).some(s => s !== session && s.tribes.has(message.tribe!));
+      if (this.engine.getTribes().includes(message.tribe) && !taken) {
+        session.tribes.add(message.tribe);
+      } else {
+        this.send(session.socket, { type: 'error', message: `Tribe ${message.tribe} is unknown or already controlled` });
+      }
+    }
+
+    for (const agentId of message.agents || []) {
+      const agent = this.findAgent(agentId);
+      const owner = agent ? this.getController(agent) : undefined;
+      if (!agent || !agent.alive || (owner && owner !== session)) {
+        rejected.push(agentId);
+      } else {
+        session.agents.add(agentId);
+      }
+    }
+
+    this.send(session.socket, {
+      type: 'welcome',
+      clientId: session.id,
+      agents: this.getControlledAgents(session).map(a => a.id),
+      rejected,
+      tribes: Array.from(session.tribes),
+      deadlineMs: this.deadlineMs
+    });
+  }
+
+  // Resolve the wait early once every expected agent has acted
+  private checkPendingTick(): void {
+    const pending = this.pendingTick;
+    if (!pending) return;
+
+    const stillConnected = new Set<string>();
+    for (const session of this.clients.values()) {
+      this.getControlledAgents(session).forEach(a => stillConnected.add(a.id));
+    }
+
+    for (const id of pending.expected) {
+      const agent = this.findAgent(id);
+      if (!agent || !stillConnected.has(id)) continue;
+      if (!this.policies.get(agent.tribe)?.hasSubmission(id)) return;
+    }
+    pending.resolve();
+  }
+
+  private getControlledAgents(session: ClientSession): Agent[] {
+    return this.engine.getAliveAgents().filter(agent => this.isControlledBy(session, agent));
+  }
+
+  private isControlledBy(session: ClientSession, agent: Agent): boolean {
+    return session.agents.has(agent.id) || session.tribes.has(agent.tribe);
+  }
+
+  private getController(agent: Agent): ClientSession | undefined {
+    for (const session of this.clients.values()) {
+      if (this.isControlledBy(session, agent)) return session;
+    }
+    return undefined;
+  }
+
+  private findAgent(agentId: string): Agent | undefined {
+    return this.engine.getState().agents.find(a => a.id === agentId);
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    try {
+      this.routeHttp(req, res);
+    } catch (error) {
+      // Thrown inside the request listener this would end the whole process, not just the request
+      console.error(`Agent bridge request failed: ${(error as Error).message}`);
+      if (res.writableEnded) return;
+      if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal error' }));
+    }
+  }
+
+  // Read-only HTTP endpoints for dashboards and agents that just want to poll
+  private routeHttp(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const json = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'GET') {
+      json(405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const observationMatch = url.pathname.match(/^\/agents\/([^/]+)\/observation$/);
+    if (url.pathname === '/health') {
+      json(200, { ok: true, day: this.engine.getDay(), clients: this.clients.size, deadlineMs: this.deadlineMs });
+    } else if (url.pathname === '/agents') {
+      json(200, this.engine.getAliveAgents().map(agent => ({
+        ...agent,
+        alliances: Array.from(agent.alliances),
+        enemies: Array.from(agent.enemies)
+      })));
+    } else if (observationMatch) {
+      let agentId: string;
+      try {
+        agentId = decodeURIComponent(observationMatch[1]);
+      } catch {
+        json(400, { error: 'Malformed agent id' });
+        return;
+      }
+      const observation = this.engine.getObservation(agentId);
+      if (observation) {
+        json(200, observation);
+      } else {
+        json(404, { error: 'Agent not found or dead' });
+      }
+    } else if (url.pathname === '/messages') {
+      const limit = Number(url.searchParams.get('limit')) || 20;
+      json(200, this.engine.getMessages(limit));
+    } else {
+      json(404, { error: 'Not found' });
+    }
+  }
+}
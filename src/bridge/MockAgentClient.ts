@@ -0,0 +1,114 @@
+// Mock Agent Client for ClawCiv
+// Minimal external agent for exercising the bridge: answers every observation with
+// a local policy, optionally after a delay (to test deadlines and fallbacks)
+
+import { WebSocket } from 'ws';
+import { AgentPolicy, AgentAction, AgentObservation } from '../agents/AgentPolicy.ts';
+import { UtilityPolicy } from '../agents/UtilityPolicy.ts';
+import { ServerMessage, WelcomeMessage, ClientMessage } from './Protocol.ts';
+
+export interface MockAgentClientOptions {
+  url: string;
+  name?: string;
+  tribe?: string;
+  agents?: string[];
+  policy?: AgentPolicy;
+  delayMs?: number;       // Wait this long before answering each observation
+  onMessage?: (message: ServerMessage) => void;
+}
+
+export interface MockAgentStats {
+  observations: number;
+  actionsSent: number;
+  ticks: number;
+  timedOut: number;
+  errors: string[];
+}
+
+export class MockAgentClient {
+  private options: MockAgentClientOptions;
+  private policy: AgentPolicy;
+  private socket: WebSocket | null = null;
+  private stats: MockAgentStats = { observations: 0, actionsSent: 0, ticks: 0, timedOut: 0, errors: [] };
+
+  constructor(options: MockAgentClientOptions) {
+    this.options = options;
+    this.policy = options.policy ?? new UtilityPolicy();
+  }
+
+  // Connects and claims agents; resolves with the server's welcome
+  connect(): Promise<WelcomeMessage> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url);
+      this.socket = socket;
+
+      socket.once('error', reject);
+      socket.on('open', () => {
+        this.send({
+          type: 'hello',
+          name: this.options.name ?? 'mock-agent',
+          tribe: this.options.tribe,
+          agents: this.options.agents
+        });
+      });
+
+      socket.on('message', (data) => {
+        const message: ServerMessage = JSON.parse(data.toString());
+        this.options.onMessage?.(message);
+
+        switch (message.type) {
+          case 'welcome':
+            // Past the handshake, errors are recorded instead of rejecting, so they can't go unhandled
+            socket.off('error', reject);
+            socket.on('error', (error) => this.stats.errors.push(error.message));
+            resolve(message);
+            break;
+          case 'observe':
+            this.handleObserve(message.day, message.observations);
+            break;
+          case 'tick':
+            this.stats.ticks++;
+            this.stats.timedOut += message.timedOut.length;
+            break;
+          case 'error':
+            this.stats.errors.push(message.message);
+            break;
+        }
+      });
+    });
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  getStats(): MockAgentStats {
+    return { ...this.stats, errors: [...this.stats.errors] };
+  }
+
+  private handleObserve(day: number, observations: AgentObservation[]): void {
+    this.stats.observations += observations.length;
+
+    const respond = () => {
+      const actions: { [agentId: string]: AgentAction[] } = {};
+      for (const observation of observations) {
+        actions[observation.self.id] = this.policy.decide(observation);
+      }
+      this.stats.actionsSent += observations.length;
+      this.send({ type: 'actions', day, actions });
+    };
+
+    if (this.options.delayMs) {
+      setTimeout(respond, this.options.delayMs);
+    } else {
+      respond();
+    }
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
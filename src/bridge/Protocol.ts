@@ -0,0 +1,59 @@
+// External Agent Protocol for ClawCiv
+// JSON messages exchanged over the agent bridge WebSocket (one message per frame)
+
+import type { AgentAction, AgentObservation } from '../agents/AgentPolicy.ts';
+import type { Message } from '../engine/Game.ts';
+
+// Client -> server
+
+// Claim agents to control, by id and/or by whole tribe
+export interface HelloMessage {
+  type: 'hello';
+  name?: string;
+  agents?: string[];
+  tribe?: string;
+}
+
+// Decisions for the tick announced by the last 'observe' (same day)
+export interface ActionsMessage {
+  type: 'actions';
+  day: number;
+  actions: { [agentId: string]: AgentAction[] };
+}
+
+export type ClientMessage = HelloMessage | ActionsMessage;
+
+// Server -> client
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  clientId: string;
+  agents: string[];      // Agent ids granted to this client
+  rejected: string[];    // Requested ids that are unknown or controlled by someone else
+  tribes: string[];      // Tribes granted to this client (includes agents born later)
+  deadlineMs: number;
+}
+
+// Sent before each tick; act before the deadline or the built-in policy decides
+export interface ObserveMessage {
+  type: 'observe';
+  day: number;
+  deadlineMs: number;
+  observations: AgentObservation[];
+}
+
+// Sent after each tick resolves
+export interface TickMessage {
+  type: 'tick';
+  day: number;
+  messages: Message[];   // Everything that happened on this day
+  timedOut: string[];    // This client's agents that missed the deadline
+  died: string[];        // This client's agents that died this tick
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ServerMessage = WelcomeMessage | ObserveMessage | TickMessage | ErrorMessage;
@@ -0,0 +1,323 @@
+#!/usr/bin/env node
+// ClawCiv Command Line Interface
+// Usage: clawciv run --days 2000 --seed 42 --out run.json
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { HeadlessRunner, RunOptions } from '../engine/HeadlessRunner.ts';
+import { GameEngine, GameEngineOptions } from '../engine/Game.ts';
+import { WorldConfigOptions, WORLD_PRESETS } from '../engine/WorldConfig.ts';
+import { AgentBridge } from '../bridge/AgentBridge.ts';
+import { MockAgentClient } from '../bridge/MockAgentClient.ts';
+import { RandomPolicy } from '../agents/RandomPolicy.ts';
+import { UtilityPolicy } from '../agents/UtilityPolicy.ts';
+import { EvmLedger, generateErc20Source } from '../economy/EvmLedger.ts';
+
+const USAGE = `Usage: clawciv <command> [options]
+
+Commands:
+  run                    Simulate headlessly and write a JSON report
+  serve                  Run the simulation behind the local agent bridge
+  mock-agent             Connect a mock external agent to a running bridge
+  token-source           Print the Solidity source of the $CLAW ERC-20 for local dev chains
+
+World options (run, serve):
+  --seed <n>             PRNG seed for a reproducible run
+  --world <preset>       Start from a preset: ${Object.keys(WORLD_PRESETS).join(', ')} (default: default)
+  --tribes <a,b,...>     Tribes to simulate (default: Alpha,Beta,Gamma)
+  --tribe-count <n>      Generate this many tribes instead of naming them
+  --agents <n>           Agents per tribe (default: 20)
+  --grid-size <n>        Map grid cells per side (default: 10)
+  --policy <name>        Agent decision policy: random or utility (default: random)
+  --supply <mode>        $CLAW supply: fixed or inflationary (default: fixed)
+  --debug                Check $CLAW ledger invariants every tick
+
+run options:
+  --days <n>             Number of days (ticks) to simulate (default: 1000)
+  --out <file>           Write the JSON result to a file instead of stdout
+  --snapshot-every <n>   Days between stat snapshots (default: 100)
+  --state                Include the full serialized game state in the result
+  --quiet                Suppress progress output on stderr
+  --rpc-url <url>        Settle $CLAW on a local anvil/hardhat node after the run
+  --token-address <addr> Deployed token-source contract to settle against
+  --bytecode <file>      Deploy the compiled token-source contract from this hex file instead
+  --node <kind>          Dev node RPC flavour: anvil or hardhat (default: anvil)
+
+serve options:
+  --port <n>             Port to listen on (default: 8787)
+  --host <addr>          Interface to bind (default: 127.0.0.1)
+  --deadline <ms>        Per-tick decision deadline for external agents (default: 500)
+  --interval <ms>        Minimum wall time per tick (default: 0)
+  --days <n>             Stop after this many days (default: run until interrupted)
+
+mock-agent options:
+  --url <ws-url>         Bridge address (default: ws://127.0.0.1:8787)
+  --tribe <name>         Control every agent of this tribe
+  --ids <a,b,...>        Control these agent ids
+  --delay <ms>           Delay before answering each observation
+  --policy <name>        Policy the mock agent uses (default: utility)
+
+token-source options:
+  --name <name>          Token name (default: ClawCiv)
+  --symbol <symbol>      Token symbol (default: CLAW)
+
+  -h, --help             Show this help
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`clawciv: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseInteger(flag: string, value: string | undefined, min: number): number {
+  if (value === undefined) fail(`${flag} requires a value`);
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) fail(`${flag} must be an integer >= ${min}, got "${value}"`);
+  return parsed;
+}
+
+function parseList(flag: string, value: string | undefined): string[] {
+  if (!value) fail(`${flag} requires a comma-separated list`);
+  return value.split(',').map(t => t.trim()).filter(t => t.length > 0);
+}
+
+function parsePolicy(value: string | undefined): 'random' | 'utility' {
+  if (value !== 'random' && value !== 'utility') fail(`--policy must be "random" or "utility", got "${value}"`);
+  return value;
+}
+
+// Splits argv into --flag value pairs; boolean flags map to 'true'
+function parseFlags(args: string[], booleans: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '-h' || flag === '--help') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (!flag.startsWith('--')) fail(`unexpected argument "${flag}"`);
+    if (booleans.includes(flag)) {
+      flags.set(flag, 'true');
+    } else {
+      if (args[i + 1] === undefined) fail(`${flag} requires a value`);
+      flags.set(flag, args[++i]);
+    }
+  }
+  return flags;
+}
+
+function checkFlags(flags: Map<string, string>, allowed: string[]): void {
+  for (const flag of flags.keys()) {
+    if (!allowed.includes(flag)) fail(`unknown option "${flag}"`);
+  }
+}
+
+function parseWorldOptions(flags: Map<string, string>): GameEngineOptions {
+  const options: GameEngineOptions = {};
+  if (flags.has('--seed')) options.seed = parseInteger('--seed', flags.get('--seed'), 0);
+  if (flags.has('--policy')) options.policy = parsePolicy(flags.get('--policy'));
+  if (flags.has('--supply')) {
+    const supply = flags.get('--supply');
+    if (supply !== 'fixed' && supply !== 'inflationary') fail(`--supply must be fixed or inflationary, got "${supply}"`);
+    options.supplyMode = supply;
+  }
+  if (flags.has('--debug')) options.debug = true;
+
+  const preset = flags.get('--world') ?? 'default';
+  if (!WORLD_PRESETS[preset]) fail(`--world must be one of ${Object.keys(WORLD_PRESETS).join(', ')}, got "${preset}"`);
+  if (flags.has('--tribes') && flags.has('--tribe-count')) fail('--tribes and --tribe-count cannot be combined');
+
+  const world: WorldConfigOptions = { ...WORLD_PRESETS[preset] };
+  if (flags.has('--tribes')) world.tribes = parseList('--tribes', flags.get('--tribes'));
+  if (flags.has('--tribe-count')) world.tribeCount = parseInteger('--tribe-count', flags.get('--tribe-count'), 1);
+  if (flags.has('--agents')) world.agentsPerTribe = parseInteger('--agents', flags.get('--agents'), 1);
+  if (flags.has('--grid-size')) world.gridSize = parseInteger('--grid-size', flags.get('--grid-size'), 1);
+  options.world = world;
+  return options;
+}
+
+const WORLD_FLAGS = ['--seed', '--world', '--tribes', '--tribe-count', '--agents', '--grid-size', '--policy', '--supply', '--debug'];
+
+const CHAIN_FLAGS = ['--rpc-url', '--token-address', '--bytecode', '--node'];
+
+// Ledger factory for --rpc-url; the EvmLedger is handed back through `created`
+function parseChainOptions(flags: Map<string, string>, created: (ledger: EvmLedger) => void): GameEngineOptions['ledger'] {
+  const rpcUrl = flags.get('--rpc-url');
+  if (!rpcUrl) {
+    if (CHAIN_FLAGS.some(flag => flags.has(flag))) fail('--token-address, --bytecode and --node require --rpc-url');
+    return undefined;
+  }
+  if (!flags.has('--token-address') && !flags.has('--bytecode')) fail('--rpc-url requires --token-address or --bytecode');
+  const node = flags.get('--node') ?? 'anvil';
+  if (node !== 'anvil' && node !== 'hardhat') fail(`--node must be anvil or hardhat, got "${node}"`);
+
+  return (random, world, supplyMode) => {
+    const ledger = new EvmLedger({ rpcUrl, tokenAddress: flags.get('--token-address'), node }, random, world, supplyMode);
+    created(ledger);
+    return ledger;
+  };
+}
+
+async function runCommand(args: string[]): Promise<void> {
+  const flags = parseFlags(args, ['--state', '--quiet', '--debug']);
+  checkFlags(flags, [...WORLD_FLAGS, ...CHAIN_FLAGS, '--days', '--out', '--snapshot-every', '--state', '--quiet']);
+  let chainLedger: EvmLedger | undefined;
+
+  const options: RunOptions = {
+    ...parseWorldOptions(flags),
+    days: flags.has('--days') ? parseInteger('--days', flags.get('--days'), 1) : 1000,
+    includeFinalState: flags.has('--state'),
+    ledger: parseChainOptions(flags, ledger => { chainLedger = ledger; })
+  };
+  if (flags.has('--snapshot-every')) {
+    options.snapshotEvery = parseInteger('--snapshot-every', flags.get('--snapshot-every'), 1);
+  }
+  const out = flags.get('--out');
+  const quiet = flags.has('--quiet');
+
+  if (!quiet) {
+    options.onSnapshot = (snapshot) => {
+      process.stderr.write(`day ${snapshot.day}/${options.days}: ${snapshot.alive} alive\n`);
+    };
+  }
+
+  let runner: HeadlessRunner;
+  try {
+    runner = new HeadlessRunner(options);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  // Bring the chain level with the books before the first tick
+  if (chainLedger) {
+    const bytecodeFile = flags.get('--bytecode');
+    if (bytecodeFile) {
+      const address = await chainLedger.deploy(readFileSync(bytecodeFile, 'utf8').trim());
+      if (!quiet) process.stderr.write(`Deployed $CLAW token at ${address}\n`);
+    }
+    const corrections = await chainLedger.reconcile();
+    if (!quiet) process.stderr.write(`Reconciled ${corrections} on-chain balance(s) with the books\n`);
+  }
+
+  const started = Date.now();
+  const result = runner.run();
+  const json = JSON.stringify(result, null, 2);
+
+  if (out) {
+    writeFileSync(out, json + '\n');
+  } else {
+    process.stdout.write(json + '\n');
+  }
+
+  if (!quiet) {
+    const victory = result.victory ? `, victory on day ${result.victory.day}` : '';
+    process.stderr.write(`Simulated ${options.days} days in ${Date.now() - started}ms${victory}${out ? ` -> ${out}` : ''}\n`);
+  }
+
+  if (chainLedger) {
+    const pending = chainLedger.getPendingCount();
+    const report = await chainLedger.settle();
+    const mismatches = await chainLedger.audit();
+    process.stderr.write(`Settled ${report.settled}/${pending} $CLAW movement(s) on ${chainLedger.getTokenAddress()}; ` +
+      `${report.failed.length} failed, ${mismatches.length} balance(s) differ from the books\n`);
+    for (const { entry, error } of report.failed.slice(0, 5)) {
+      process.stderr.write(`  ${entry.kind} ${entry.amount} ${entry.from} -> ${entry.to}: ${error}\n`);
+    }
+    if (report.failed.length > 0 || mismatches.length > 0) process.exitCode = 1;
+  }
+}
+
+function tokenSourceCommand(args: string[]): void {
+  const flags = parseFlags(args, []);
+  checkFlags(flags, ['--name', '--symbol']);
+  try {
+    process.stdout.write(generateErc20Source(flags.get('--name'), flags.get('--symbol')));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+}
+
+async function serveCommand(args: string[]): Promise<void> {
+  const flags = parseFlags(args, ['--debug']);
+  checkFlags(flags, [...WORLD_FLAGS, '--port', '--host', '--deadline', '--interval', '--days']);
+
+  let engine: GameEngine;
+  try {
+    engine = new GameEngine(parseWorldOptions(flags));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const bridge = new AgentBridge(engine, {
+    port: flags.has('--port') ? parseInteger('--port', flags.get('--port'), 0) : undefined,
+    host: flags.get('--host'),
+    deadlineMs: flags.has('--deadline') ? parseInteger('--deadline', flags.get('--deadline'), 1) : undefined,
+    tickIntervalMs: flags.has('--interval') ? parseInteger('--interval', flags.get('--interval'), 0) : undefined
+  });
+  const days = flags.has('--days') ? parseInteger('--days', flags.get('--days'), 1) : undefined;
+
+  await bridge.start();
+  const { host, port } = bridge.getAddress();
+  process.stderr.write(`Agent bridge listening on ws://${host}:${port} (HTTP: /health /agents /agents/:id/observation /messages)\n`);
+
+  process.once('SIGINT', () => {
+    bridge.stop();
+  });
+
+  await bridge.run(days, (day) => {
+    if (day % 100 === 0) {
+      process.stderr.write(`day ${day}: ${engine.getAliveAgents().length} alive, ${bridge.getClientCount()} client(s)\n`);
+    }
+  });
+  await bridge.stop();
+}
+
+async function mockAgentCommand(args: string[]): Promise<void> {
+  const flags = parseFlags(args, []);
+  checkFlags(flags, ['--url', '--tribe', '--ids', '--delay', '--policy']);
+
+  const policyName = flags.has('--policy') ? parsePolicy(flags.get('--policy')) : 'utility';
+
+  const client = new MockAgentClient({
+    url: flags.get('--url') ?? 'ws://127.0.0.1:8787',
+    tribe: flags.get('--tribe'),
+    agents: flags.has('--ids') ? parseList('--ids', flags.get('--ids')) : undefined,
+    delayMs: flags.has('--delay') ? parseInteger('--delay', flags.get('--delay'), 0) : undefined,
+    policy: policyName === 'random' ? new RandomPolicy() : new UtilityPolicy(),
+    onMessage: (message) => {
+      if (message.type === 'error') process.stderr.write(`server error: ${message.message}\n`);
+      if (message.type === 'tick' && message.day % 100 === 0) {
+        const stats = client.getStats();
+        process.stderr.write(`day ${message.day}: ${stats.actionsSent} decisions sent, ${stats.timedOut} timed out\n`);
+      }
+    }
+  });
+
+  const welcome = await client.connect();
+  process.stderr.write(`Connected as ${welcome.clientId}, controlling ${welcome.agents.length} agent(s)\n`);
+  process.once('SIGINT', () => client.close());
+}
+
+function main(argv: string[]): void {
+  const [command, ...rest] = argv;
+
+  if (!command || command === '-h' || command === '--help') {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const handlers: { [command: string]: (args: string[]) => void | Promise<void> } = {
+    'run': runCommand,
+    'serve': serveCommand,
+    'mock-agent': mockAgentCommand,
+    'token-source': tokenSourceCommand
+  };
+  const handler = handlers[command];
+  if (!handler) fail(`unknown command "${command}"`);
+
+  Promise.resolve(handler(rest)).catch(error => {
+    process.stderr.write(`clawciv: ${(error as Error).message}\n`);
+    process.exit(1);
+  });
+}
+
+main(process.argv.slice(2));
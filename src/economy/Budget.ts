@@ -0,0 +1,172 @@
+// Budget System for ClawCiv
+// Tribe governments spend their treasuries: every budget period a share of the treasury is appropriated
+// across welfare, research grants, building subsidies, military pay and festivals. Government type sets the
+// defaults and enacted policies shift them. Funded programmes feed back into research speed, construction
+// speed, mercenary loyalty and festival success.
+
+import type { GovType } from '../systems/Governance.ts';
+import { FiscalSystem } from './Fiscal.ts';
+import { Ledger } from './Ledger.ts';
+
+export type BudgetCategory = 'welfare' | 'research' | 'buildings' | 'military' | 'festivals';
+
+export type BudgetAllocation = { [category in BudgetCategory]: number };
+
+export interface BudgetPlan {
+  spendRate: number;            // Share of the treasury appropriated each period
+  allocation: BudgetAllocation; // Shares of the appropriation, summing to 1
+}
+
+export interface TribeProgrammes {
+  researchBoost: number;        // Knowledge multiplier from research grants, until the next period
+  constructionBoost: number;    // Construction speed multiplier from building subsidies
+  festivalFund: number;         // Appropriated for festivals but not yet spent
+  lastAppropriation: BudgetAllocation;
+}
+
+export const BUDGET_CATEGORIES: BudgetCategory[] = ['welfare', 'research', 'buildings', 'military', 'festivals'];
+
+const GOVERNMENT_BUDGETS: { [type in GovType]: BudgetPlan } = {
+  tribal: { spendRate: 0.05, allocation: { welfare: 0.3, research: 0.1, buildings: 0.2, military: 0.2, festivals: 0.2 } },
+  chiefdom: { spendRate: 0.06, allocation: { welfare: 0.2, research: 0.1, buildings: 0.3, military: 0.3, festivals: 0.1 } },
+  democracy: { spendRate: 0.1, allocation: { welfare: 0.35, research: 0.25, buildings: 0.2, military: 0.1, festivals: 0.1 } },
+  republic: { spendRate: 0.1, allocation: { welfare: 0.25, research: 0.25, buildings: 0.25, military: 0.15, festivals: 0.1 } },
+  technocracy: { spendRate: 0.1, allocation: { welfare: 0.15, research: 0.5, buildings: 0.25, military: 0.05, festivals: 0.05 } },
+  dictatorship: { spendRate: 0.12, allocation: { welfare: 0.05, research: 0.1, buildings: 0.2, military: 0.55, festivals: 0.1 } },
+  monarchy: { spendRate: 0.08, allocation: { welfare: 0.15, research: 0.1, buildings: 0.25, military: 0.3, festivals: 0.2 } },
+  anarchy: { spendRate: 0, allocation: { welfare: 0.2, research: 0.2, buildings: 0.2, military: 0.2, festivals: 0.2 } }
+};
+
+// Policies scale the spend rate and individual categories; allocations are renormalized afterwards
+const POLICY_BUDGET_MODIFIERS: { [policyId: string]: { spendRate?: number; allocation?: Partial<BudgetAllocation> } } = {
+  welfare_state: { spendRate: 1.3, allocation: { welfare: 2 } },
+  austerity: { spendRate: 0.5 },
+  militarism: { allocation: { military: 2 } },
+  pacifism: { allocation: { military: 0.3 } },
+  science_funding: { allocation: { research: 2 } },
+  tradition: { allocation: { festivals: 1.5 } }
+};
+
+export class BudgetSystem {
+  private tokenSystem: Ledger;
+  private fiscalSystem: FiscalSystem;
+  private programmes: Map<string, TribeProgrammes> = new Map();
+
+  private readonly MAX_RESEARCH_BOOST = 0.5;      // Research grants add at most +50% knowledge
+  private readonly MAX_CONSTRUCTION_BOOST = 1;    // Subsidies at most double construction speed
+  private readonly GRANT_PER_RESEARCHER = 25;     // $CLAW per researcher for the full research boost
+  private readonly SUBSIDY_PER_SITE = 100;        // $CLAW per building site for the full construction boost
+
+  constructor(tokenSystem: Ledger, fiscalSystem: FiscalSystem) {
+    this.tokenSystem = tokenSystem;
+    this.fiscalSystem = fiscalSystem;
+  }
+
+  getPlan(govType: GovType, policies: string[]): BudgetPlan {
+    const defaults = GOVERNMENT_BUDGETS[govType] ?? GOVERNMENT_BUDGETS.tribal;
+    let spendRate = defaults.spendRate;
+    const allocation = { ...defaults.allocation };
+
+    for (const policyId of policies) {
+      const modifier = POLICY_BUDGET_MODIFIERS[policyId];
+      if (!modifier) continue;
+      spendRate *= modifier.spendRate ?? 1;
+      for (const category of BUDGET_CATEGORIES) {
+        allocation[category] *= modifier.allocation?.[category] ?? 1;
+      }
+    }
+
+    const total = BUDGET_CATEGORIES.reduce((sum, category) => sum + allocation[category], 0);
+    for (const category of BUDGET_CATEGORIES) {
+      allocation[category] = total > 0 ? allocation[category] / total : 0;
+    }
+    return { spendRate: Math.min(0.5, spendRate), allocation };
+  }
+
+  // Split this period's share of the treasury across categories. Nothing moves until it is spent.
+  appropriate(tribe: string, govType: GovType, policies: string[]): BudgetAllocation {
+    const plan = this.getPlan(govType, policies);
+    const available = this.tokenSystem.getTreasuryBalance(tribe) * plan.spendRate;
+    const amounts = {} as BudgetAllocation;
+    for (const category of BUDGET_CATEGORIES) {
+      amounts[category] = Math.floor(available * plan.allocation[category] * 100) / 100;
+    }
+
+    const programmes = this.getProgrammes(tribe);
+    programmes.lastAppropriation = { ...amounts };
+    programmes.festivalFund += amounts.festivals;
+    return amounts;
+  }
+
+  // Share `amount` equally among recipients from the treasury. Returns the total paid.
+  payMembers(tribe: string, category: BudgetCategory, recipients: string[], amount: number): number {
+    if (recipients.length === 0 || !(amount > 0)) return 0;
+
+    const share = Math.floor(amount / recipients.length * 100) / 100;
+    let paid = 0;
+    for (const recipient of recipients) {
+      paid += this.tokenSystem.payFromTreasury(tribe, recipient, share, `${tribe} ${category} budget`);
+    }
+    this.fiscalSystem.recordSpending(tribe, category, paid);
+    return paid;
+  }
+
+  // Spend treasury $CLAW outside the tribe, e.g. mercenary wages. Returns what was spent.
+  spend(tribe: string, category: BudgetCategory, amount: number, reason: string): number {
+    const spent = this.tokenSystem.spendTreasury(tribe, amount, reason);
+    this.fiscalSystem.recordSpending(tribe, category, spent);
+    return spent;
+  }
+
+  // Research grants paid this period set next period's knowledge multiplier
+  fundResearch(tribe: string, granted: number, researchers: number): void {
+    const full = Math.max(1, researchers) * this.GRANT_PER_RESEARCHER;
+    this.getProgrammes(tribe).researchBoost = 1 + Math.min(this.MAX_RESEARCH_BOOST, this.MAX_RESEARCH_BOOST * granted / full);
+  }
+
+  // Subsidies paid this period set next period's construction speed
+  fundConstruction(tribe: string, subsidy: number, sites: number): void {
+    const full = Math.max(1, sites) * this.SUBSIDY_PER_SITE;
+    this.getProgrammes(tribe).constructionBoost = 1 + Math.min(this.MAX_CONSTRUCTION_BOOST, this.MAX_CONSTRUCTION_BOOST * subsidy / full);
+  }
+
+  // Spend the whole festival fund; returns the amount for the festival to use
+  drawFestivalFund(tribe: string): number {
+    const programmes = this.getProgrammes(tribe);
+    const spent = this.spend(tribe, 'festivals', programmes.festivalFund, `${tribe} festival budget`);
+    programmes.festivalFund = 0;
+    return spent;
+  }
+
+  getResearchBoost(tribe: string): number {
+    return this.programmes.get(tribe)?.researchBoost ?? 1;
+  }
+
+  getConstructionBoost(tribe: string): number {
+    return this.programmes.get(tribe)?.constructionBoost ?? 1;
+  }
+
+  getProgrammes(tribe: string): TribeProgrammes {
+    let programmes = this.programmes.get(tribe);
+    if (!programmes) {
+      programmes = {
+        researchBoost: 1,
+        constructionBoost: 1,
+        festivalFund: 0,
+        lastAppropriation: { welfare: 0, research: 0, buildings: 0, military: 0, festivals: 0 }
+      };
+      this.programmes.set(tribe, programmes);
+    }
+    return programmes;
+  }
+
+  public serialize(): any {
+    return {
+      programmes: Array.from(this.programmes.entries())
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.programmes = new Map(data.programmes || []);
+  }
+}
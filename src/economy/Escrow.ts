@@ -0,0 +1,250 @@
+// Escrow System for ClawCiv
+// Service payments between agents: $CLAW locks when a contract is made, releases to the payee once its
+// deliverable condition holds, and refunds the payer at the deadline. Disputes go to tribe governance.
+
+import { Random } from '../engine/Random.ts';
+import { Ledger } from './Ledger.ts';
+import { ExchangeResource, EXCHANGE_RESOURCES } from './Exchange.ts';
+
+export type EscrowCondition =
+  | { type: 'resource_delivered'; resource: ExchangeResource; amount: number } // Payee hands the payer resources
+  | { type: 'building_completed'; buildingId: string }
+  | { type: 'quest_completed'; questId: string }                       // Quest bounties
+  | { type: 'mercenary_contract'; contractId: string };                // Paid once the company serves out its term
+
+export type EscrowStatus = 'open' | 'disputed' | 'released' | 'refunded' | 'split';
+
+export type EscrowRuling = 'release' | 'refund' | 'split';
+
+export interface EscrowContract {
+  id: string;
+  payer: string;          // Token account that funds the contract
+  payee: string;
+  amount: number;         // $CLAW locked
+  condition: EscrowCondition;
+  description: string;
+  tribe: string;          // Whose governance hears disputes
+  createdDay: number;
+  deadline: number;       // Refunded if the condition still fails on this day
+  delivered: number;      // Progress on resource_delivered contracts
+  status: EscrowStatus;
+  disputedBy?: string;
+  disputedDay?: number;
+  settledDay?: number;
+}
+
+export interface EscrowSettlement {
+  contract: EscrowContract;
+  outcome: 'released' | 'refunded' | 'split';
+  via: 'condition' | 'expiry' | 'ruling' | 'withdrawn';
+  reason?: string;
+}
+
+export interface CreateEscrowResult {
+  contract: EscrowContract | null;
+  error?: string;
+}
+
+// How far along a contract's condition is, from 0 (nothing done) to 1 (fulfilled)
+export type ConditionProgress = (contract: EscrowContract) => number;
+
+// Decides a dispute for the contract's tribe, given how far along the condition is
+export type DisputeResolver = (contract: EscrowContract, progress: number) => { ruling: EscrowRuling; reason: string };
+
+export class EscrowSystem {
+  private tokenSystem: Ledger;
+  private random: Random;
+  private contracts: Map<string, EscrowContract> = new Map();
+  private contractIdCounter = 0;
+
+  static readonly ESCROW_ACCOUNT = 'ESCROW_CONTRACTS';
+  private readonly DISPUTE_REVIEW_DAYS = 3; // Governance rules this long after a dispute is raised
+  private readonly MAX_DURATION_DAYS = 365;
+  private readonly KEEP_SETTLED = 200;      // Settled contracts kept for lookups, oldest dropped first
+
+  constructor(tokenSystem: Ledger, random: Random = new Random()) {
+    this.tokenSystem = tokenSystem;
+    this.random = random;
+    this.tokenSystem.openAccount(EscrowSystem.ESCROW_ACCOUNT);
+  }
+
+  // Returns why a contract can't be created, or null if it can
+  validateContract(payer: string, payee: string, amount: number, condition: EscrowCondition, durationDays: number): string | null {
+    if (payer === payee) return 'payer and payee must differ';
+    if (!Number.isFinite(amount) || amount <= 0) return 'amount must be positive';
+    if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > this.MAX_DURATION_DAYS) {
+      return `duration must be 1-${this.MAX_DURATION_DAYS} days`;
+    }
+    if (!condition || typeof condition !== 'object') return 'condition is required';
+
+    switch (condition.type) {
+      case 'resource_delivered':
+        if (!EXCHANGE_RESOURCES.includes(condition.resource)) return 'unknown resource';
+        if (!(typeof condition.amount === 'number' && condition.amount > 0)) return 'delivery amount must be positive';
+        break;
+      case 'building_completed':
+        if (!condition.buildingId) return 'buildingId is required';
+        break;
+      case 'quest_completed':
+        if (!condition.questId) return 'questId is required';
+        break;
+      case 'mercenary_contract':
+        if (!condition.contractId) return 'contractId is required';
+        break;
+      default:
+        return 'unknown condition';
+    }
+
+    if (this.tokenSystem.getBalance(payer) < amount) return 'insufficient $CLAW';
+    return null;
+  }
+
+  // Lock the payer's $CLAW behind a condition. `tribe` is the jurisdiction for disputes.
+  createContract(
+    payer: string,
+    payee: string,
+    amount: number,
+    condition: EscrowCondition,
+    durationDays: number,
+    tribe: string,
+    currentDay: number,
+    description: string = ''
+  ): CreateEscrowResult {
+    const error = this.validateContract(payer, payee, amount, condition, durationDays);
+    if (error) return { contract: null, error };
+
+    const id = `escrow-${this.contractIdCounter++}-${this.random.now()}`;
+    if (!this.tokenSystem.transfer(payer, EscrowSystem.ESCROW_ACCOUNT, amount, `Escrow ${id}`)) {
+      return { contract: null, error: 'insufficient $CLAW' };
+    }
+    this.tokenSystem.openAccount(payee);
+
+    const contract: EscrowContract = {
+      id,
+      payer,
+      payee,
+      amount,
+      condition: { ...condition },
+      description,
+      tribe,
+      createdDay: currentDay,
+      deadline: currentDay + durationDays,
+      delivered: 0,
+      status: 'open'
+    };
+    this.contracts.set(id, contract);
+    return { contract };
+  }
+
+  getContract(contractId: string): EscrowContract | undefined {
+    return this.contracts.get(contractId);
+  }
+
+  getAllContracts(): EscrowContract[] {
+    return Array.from(this.contracts.values());
+  }
+
+  // Open and disputed contracts, i.e. the ones still holding $CLAW
+  getActiveContracts(): EscrowContract[] {
+    return this.getAllContracts().filter(c => c.status === 'open' || c.status === 'disputed');
+  }
+
+  getContractsFor(accountId: string): EscrowContract[] {
+    return this.getAllContracts().filter(c => c.payer === accountId || c.payee === accountId);
+  }
+
+  getLockedTotal(): number {
+    return this.getActiveContracts().reduce((sum, c) => sum + c.amount, 0);
+  }
+
+  // Count resources the payee handed over toward a resource_delivered contract
+  recordDelivery(contractId: string, amount: number): boolean {
+    const contract = this.contracts.get(contractId);
+    if (!contract || contract.status !== 'open' || contract.condition.type !== 'resource_delivered') return false;
+    if (!(amount > 0)) return false;
+
+    contract.delivered += amount;
+    return true;
+  }
+
+  // Either party can freeze a contract and take it to governance
+  dispute(contractId: string, by: string, currentDay: number): boolean {
+    const contract = this.contracts.get(contractId);
+    if (!contract || contract.status !== 'open') return false;
+    if (by !== contract.payer && by !== contract.payee) return false;
+
+    contract.status = 'disputed';
+    contract.disputedBy = by;
+    contract.disputedDay = currentDay;
+    return true;
+  }
+
+  // The payee can walk away from an open contract, returning the funds to the payer
+  withdraw(contractId: string, payee: string, currentDay: number): EscrowSettlement | null {
+    const contract = this.contracts.get(contractId);
+    if (!contract || contract.status !== 'open' || contract.payee !== payee) return null;
+    return this.settle(contract, 'refund', 'withdrawn', currentDay);
+  }
+
+  // Called once per tick: release fulfilled contracts, refund expired ones and rule on disputes
+  update(currentDay: number, progressOf: ConditionProgress, resolveDispute: DisputeResolver): EscrowSettlement[] {
+    const settlements: EscrowSettlement[] = [];
+
+    for (const contract of this.getActiveContracts()) {
+      if (contract.status === 'disputed') {
+        if (currentDay - contract.disputedDay! < this.DISPUTE_REVIEW_DAYS) continue;
+        const { ruling, reason } = resolveDispute(contract, progressOf(contract));
+        settlements.push({ ...this.settle(contract, ruling, 'ruling', currentDay), reason });
+        continue;
+      }
+
+      if (progressOf(contract) >= 1) {
+        settlements.push(this.settle(contract, 'release', 'condition', currentDay));
+      } else if (currentDay >= contract.deadline) {
+        settlements.push(this.settle(contract, 'refund', 'expiry', currentDay));
+      }
+    }
+
+    if (settlements.length > 0) this.pruneSettled();
+    return settlements;
+  }
+
+  private settle(contract: EscrowContract, ruling: EscrowRuling, via: EscrowSettlement['via'], currentDay: number): EscrowSettlement {
+    const escrow = EscrowSystem.ESCROW_ACCOUNT;
+    if (ruling === 'release') {
+      this.tokenSystem.transfer(escrow, contract.payee, contract.amount, `Escrow released ${contract.id}`);
+      contract.status = 'released';
+    } else if (ruling === 'refund') {
+      this.tokenSystem.transfer(escrow, contract.payer, contract.amount, `Escrow refunded ${contract.id}`);
+      contract.status = 'refunded';
+    } else {
+      const half = Math.round(contract.amount * 50) / 100;
+      this.tokenSystem.transfer(escrow, contract.payee, half, `Escrow split ${contract.id}`);
+      this.tokenSystem.transfer(escrow, contract.payer, contract.amount - half, `Escrow split ${contract.id}`);
+      contract.status = 'split';
+    }
+    contract.settledDay = currentDay;
+
+    const outcome = contract.status as EscrowSettlement['outcome'];
+    return { contract, outcome, via };
+  }
+
+  private pruneSettled(): void {
+    const settled = this.getAllContracts().filter(c => c.settledDay !== undefined);
+    for (const contract of settled.slice(0, Math.max(0, settled.length - this.KEEP_SETTLED))) {
+      this.contracts.delete(contract.id);
+    }
+  }
+
+  public serialize(): any {
+    return {
+      contracts: Array.from(this.contracts.entries()),
+      contractIdCounter: this.contractIdCounter
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.contracts = new Map(data.contracts || []);
+    this.contractIdCounter = data.contractIdCounter || 0;
+  }
+}
@@ -0,0 +1,338 @@
+// EVM Settlement Ledger for ClawCiv
+// Keeps the in-memory $CLAW books the simulation reads every tick, and settles each transfer, mint and burn
+// on a local JSON-RPC dev node (anvil or hardhat) running the generated ERC-20 contract. Never point this at a
+// live chain: agent wallets are impersonated through the dev node's RPC instead of holding private keys.
+
+import { createHash } from 'node:crypto';
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+import { TokenSystem, SupplyMode } from './Token.ts';
+import type { LedgerEntry } from './Ledger.ts';
+
+export interface EvmLedgerOptions {
+  rpcUrl: string;             // e.g. http://127.0.0.1:8545
+  tokenAddress?: string;      // A deployed ClawCiv token; otherwise call deploy() first
+  operator?: string;          // Token owner that mints and burns (default: the node's first unlocked account)
+  node?: 'anvil' | 'hardhat'; // Which dev node RPC namespace to use for impersonation (default: anvil)
+  walletSeed?: string;        // Salt for the deterministic wallet addresses (default: 'clawciv')
+}
+
+export interface SettlementReport {
+  settled: number;
+  failed: { entry: LedgerEntry; error: string }[];
+}
+
+export interface BalanceMismatch {
+  accountId: string;
+  address: string;
+  book: number;
+  chain: number;
+}
+
+const DECIMALS = 18;
+const NANO = 10n ** 9n;           // Book amounts are rounded to 1e-9 $CLAW on chain
+const GAS_FUNDING = '0x56bc75e2d63100000'; // 100 ETH for each impersonated wallet
+
+// 4-byte selectors of the generated contract's functions
+const SELECTORS = {
+  transfer: 'a9059cbb',  // transfer(address,uint256)
+  balanceOf: '70a08231', // balanceOf(address)
+  mint: '40c10f19',      // mint(address,uint256)
+  burn: '9dc29fac'       // burn(address,uint256)
+};
+
+// Minimal JSON-RPC 2.0 client over HTTP
+export class JsonRpcClient {
+  private url: string;
+  private nextId = 1;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async call<T = any>(method: string, params: any[] = []): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params })
+    });
+    if (!response.ok) throw new Error(`${method} failed: HTTP ${response.status}`);
+
+    const body = await response.json() as { result?: T; error?: { message: string } };
+    if (body.error) throw new Error(`${method} failed: ${body.error.message}`);
+    return body.result as T;
+  }
+}
+
+// Solidity source for the token EvmLedger settles against. The deployer becomes the owner,
+// the only account allowed to mint and burn. Compile it (solc --bin, forge build) and pass the bytecode to deploy().
+export function generateErc20Source(name: string = 'ClawCiv', symbol: string = 'CLAW'): string {
+  if (!/^[A-Za-z0-9 ]+$/.test(name)) throw new Error(`token name must be letters, digits and spaces, got "${name}"`);
+  if (!/^[A-Z0-9]+$/.test(symbol)) throw new Error(`token symbol must be uppercase letters and digits, got "${symbol}"`);
+
+  return `// SPDX-License-Identifier: MIT
+// Generated by ClawCiv's EvmLedger for local dev chains. Do not deploy to a live network.
+pragma solidity ^0.8.20;
+
+contract ${symbol}Token {
+    string public constant name = "${name}";
+    string public constant symbol = "${symbol}";
+    uint8 public constant decimals = ${DECIMALS};
+    uint256 public totalSupply;
+    address public immutable owner;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+
+    function transfer(address to, uint256 value) external returns (bool) {
+        _move(msg.sender, to, value);
+        return true;
+    }
+
+    function approve(address spender, uint256 value) external returns (bool) {
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool) {
+        require(allowance[from][msg.sender] >= value, "allowance");
+        allowance[from][msg.sender] -= value;
+        _move(from, to, value);
+        return true;
+    }
+
+    function mint(address to, uint256 value) external onlyOwner {
+        totalSupply += value;
+        balanceOf[to] += value;
+        emit Transfer(address(0), to, value);
+    }
+
+    function burn(address from, uint256 value) external onlyOwner {
+        require(balanceOf[from] >= value, "balance");
+        balanceOf[from] -= value;
+        totalSupply -= value;
+        emit Transfer(from, address(0), value);
+    }
+
+    function _move(address from, address to, uint256 value) private {
+        require(balanceOf[from] >= value, "balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+}
+`;
+}
+
+export function toTokenUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 1e9)) * NANO;
+}
+
+export function fromTokenUnits(units: bigint): number {
+  return Number(units / NANO) / 1e9;
+}
+
+function encodeAddress(address: string): string {
+  return address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+function encodeUint(value: bigint): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+// The books stay authoritative for the simulation, which can't wait on a chain mid-tick. Movements queue up
+// as they happen and settle() replays them on chain in order; reconcile() squares the chain with the books.
+export class EvmLedger extends TokenSystem {
+  private rpc: JsonRpcClient;
+  private tokenAddress: string | null;
+  private operator: string | null;
+  private namespace: 'anvil' | 'hardhat';
+  private walletSeed: string;
+  private pending: LedgerEntry[] = [];
+  private impersonated: Set<string> = new Set();
+
+  constructor(options: EvmLedgerOptions, random: Random = new Random(), world: WorldConfig = createWorldConfig(), supplyMode: SupplyMode = 'fixed') {
+    super(random, world, supplyMode);
+    this.rpc = new JsonRpcClient(options.rpcUrl);
+    this.tokenAddress = options.tokenAddress ?? null;
+    this.operator = options.operator ?? null;
+    this.namespace = options.node ?? 'anvil';
+    this.walletSeed = options.walletSeed ?? 'clawciv';
+  }
+
+  protected record(entry: LedgerEntry): void {
+    this.pending.push(entry);
+  }
+
+  // Deterministic wallet for an account id: the same seed and id always give the same address
+  public walletFor(accountId: string): string {
+    return '0x' + createHash('sha256').update(`${this.walletSeed}:${accountId}`).digest('hex').slice(-40);
+  }
+
+  public getTokenAddress(): string | null {
+    return this.tokenAddress;
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  // Deploy the compiled generateErc20Source() contract from the operator and settle against it
+  public async deploy(bytecode: string): Promise<string> {
+    const data = bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+    const receipt = await this.sendTransaction({ from: await this.getOperator(), data });
+    if (!receipt.contractAddress) throw new Error('deployment receipt has no contract address');
+    this.tokenAddress = receipt.contractAddress;
+    return receipt.contractAddress;
+  }
+
+  // Replay queued movements on chain, oldest first. Failed entries are reported and dropped;
+  // run reconcile() afterwards to repair the chain.
+  public async settle(): Promise<SettlementReport> {
+    const batch = this.pending;
+    this.pending = [];
+    const report: SettlementReport = { settled: 0, failed: [] };
+
+    for (const entry of batch) {
+      try {
+        await this.settleEntry(entry);
+        report.settled++;
+      } catch (error) {
+        report.failed.push({ entry, error: (error as Error).message });
+      }
+    }
+    return report;
+  }
+
+  // Compare every account and treasury with its on-chain balance
+  public async audit(): Promise<BalanceMismatch[]> {
+    const mismatches: BalanceMismatch[] = [];
+    for (const [accountId, book] of this.getBookBalances()) {
+      const address = this.walletFor(accountId);
+      const onChain = await this.balanceOfUnits(address);
+      if (this.differs(onChain, book)) {
+        mismatches.push({ accountId, address, book, chain: fromTokenUnits(onChain) });
+      }
+    }
+    return mismatches;
+  }
+
+  // Mint or burn on chain until it matches the books, dropping anything still queued. Use it once after
+  // deploy() to bring genesis balances on chain, and after loading a save. Returns the number of corrections.
+  public async reconcile(): Promise<number> {
+    this.pending = [];
+    const operator = await this.getOperator();
+    const token = this.requireToken();
+    let corrections = 0;
+
+    for (const [accountId, book] of this.getBookBalances()) {
+      const address = this.walletFor(accountId);
+      const onChain = await this.balanceOfUnits(address);
+      const target = toTokenUnits(book);
+      if (!this.differs(onChain, book)) continue;
+
+      const data = onChain < target
+        ? '0x' + SELECTORS.mint + encodeAddress(address) + encodeUint(target - onChain)
+        : '0x' + SELECTORS.burn + encodeAddress(address) + encodeUint(onChain - target);
+      await this.sendTransaction({ from: operator, to: token, data });
+      corrections++;
+    }
+    return corrections;
+  }
+
+  public async getOnChainBalance(accountId: string): Promise<number> {
+    return fromTokenUnits(await this.balanceOfUnits(this.walletFor(accountId)));
+  }
+
+  // The chain isn't part of a save; reconcile() after loading
+  public deserialize(data: any): void {
+    super.deserialize(data);
+    this.pending = [];
+  }
+
+  private getBookBalances(): Map<string, number> {
+    const balances = new Map<string, number>();
+    for (const [id, account] of this.accounts) balances.set(id, account.balance);
+    for (const [tribe, treasury] of this.treasuries) balances.set(`${tribe}_TREASURY`, treasury.balance);
+    return balances;
+  }
+
+  // Book balances are sums of floating point rewards, so ignore drift in the last few digits
+  private differs(onChain: bigint, book: number): boolean {
+    return Math.abs(fromTokenUnits(onChain) - book) > 1e-9 * Math.max(1, Math.abs(book));
+  }
+
+  private async settleEntry(entry: LedgerEntry): Promise<void> {
+    const token = this.requireToken();
+    const units = toTokenUnits(entry.amount);
+    if (units === 0n) return;
+
+    if (entry.kind === 'mint') {
+      const data = '0x' + SELECTORS.mint + encodeAddress(this.walletFor(entry.to)) + encodeUint(units);
+      await this.sendTransaction({ from: await this.getOperator(), to: token, data });
+    } else if (entry.kind === 'burn') {
+      const data = '0x' + SELECTORS.burn + encodeAddress(this.walletFor(entry.from)) + encodeUint(units);
+      await this.sendTransaction({ from: await this.getOperator(), to: token, data });
+    } else {
+      const from = this.walletFor(entry.from);
+      await this.impersonate(from);
+      const data = '0x' + SELECTORS.transfer + encodeAddress(this.walletFor(entry.to)) + encodeUint(units);
+      await this.sendTransaction({ from, to: token, data });
+    }
+  }
+
+  private async balanceOfUnits(address: string): Promise<bigint> {
+    const data = '0x' + SELECTORS.balanceOf + encodeAddress(address);
+    const result = await this.rpc.call<string>('eth_call', [{ to: this.requireToken(), data }, 'latest']);
+    return BigInt(result === '0x' ? 0 : result);
+  }
+
+  // Let the dev node sign for a wallet with no key, and give it gas money
+  private async impersonate(address: string): Promise<void> {
+    if (this.impersonated.has(address)) return;
+    await this.rpc.call(`${this.namespace}_impersonateAccount`, [address]);
+    await this.rpc.call(`${this.namespace}_setBalance`, [address, GAS_FUNDING]);
+    this.impersonated.add(address);
+  }
+
+  private async getOperator(): Promise<string> {
+    if (!this.operator) {
+      const accounts = await this.rpc.call<string[]>('eth_accounts');
+      if (!accounts || accounts.length === 0) throw new Error('node has no unlocked accounts; pass an operator');
+      this.operator = accounts[0];
+    }
+    return this.operator;
+  }
+
+  private requireToken(): string {
+    if (!this.tokenAddress) throw new Error('no token contract; pass tokenAddress or call deploy()');
+    return this.tokenAddress;
+  }
+
+  // Send and wait for the receipt; dev nodes usually mine instantly but may be on an interval
+  private async sendTransaction(tx: { from: string; to?: string; data: string }): Promise<any> {
+    const hash = await this.rpc.call<string>('eth_sendTransaction', [tx]);
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const receipt = await this.rpc.call<any>('eth_getTransactionReceipt', [hash]);
+      if (receipt) {
+        if (receipt.status !== '0x1') throw new Error(`transaction ${hash} reverted`);
+        return receipt;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`transaction ${hash} was not mined`);
+  }
+}
@@ -0,0 +1,402 @@
+// Resource Exchange for ClawCiv
+// One limit order book per resource, quoted in $CLAW. Bids escrow $CLAW, asks escrow the resource,
+// and fills settle through the ledger's transfer and the holders' resources.
+
+import { Ledger } from './Ledger.ts';
+
+export type ExchangeResource = 'food' | 'energy' | 'materials' | 'knowledge' | 'socialCapital';
+
+export const EXCHANGE_RESOURCES: ExchangeResource[] = ['food', 'energy', 'materials', 'knowledge', 'socialCapital'];
+
+export type OrderSide = 'bid' | 'ask';
+
+// Anything with a resource stockpile and a token account of the same id (agents, organizations)
+export interface ResourceHolder {
+  resources: { [resource in ExchangeResource]?: number };
+}
+
+export interface Order {
+  id: string;
+  owner: string;          // Token account id of the agent or organization
+  resource: ExchangeResource;
+  side: OrderSide;
+  price: number;          // $CLAW per unit
+  quantity: number;
+  remaining: number;
+  escrow: number;         // $CLAW still held for a bid
+  day: number;
+  seq: number;            // Time priority within a price level
+}
+
+export interface Fill {
+  resource: ExchangeResource;
+  price: number;
+  quantity: number;
+  buyer: string;
+  seller: string;
+  takerSide: OrderSide;
+  day: number;
+}
+
+export interface PriceCandle {
+  day: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface Quote {
+  bid: number | null;     // Best bid
+  ask: number | null;     // Best ask
+  last: number;           // Last fill price (reference price before any fills)
+  mid: number;            // Last fill price, clamped into the spread when both sides are quoted
+}
+
+export interface PlaceOrderResult {
+  order: Order | null;    // Resting remainder, null when fully filled or rejected
+  fills: Fill[];
+  error?: string;
+}
+
+// Starting prices before any trading (the old TradeRouteSystem defaults)
+const REFERENCE_PRICES: { [resource in ExchangeResource]: number } = {
+  food: 2,
+  energy: 3,
+  materials: 4,
+  knowledge: 8,
+  socialCapital: 5
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export class ExchangeSystem {
+  private tokenSystem: Ledger;
+  private resolveHolder: (owner: string) => ResourceHolder | undefined;
+  private bids: Map<ExchangeResource, Order[]> = new Map(); // Best (highest) first
+  private asks: Map<ExchangeResource, Order[]> = new Map(); // Best (lowest) first
+  private restingOrders: Map<string, Order> = new Map();       // By id, for cancels
+  private ordersByOwner: Map<string, Order[]> = new Map();     // Oldest first, for per-trader lookups
+  private lastPrices: { [resource in ExchangeResource]: number } = { ...REFERENCE_PRICES };
+  private fills: Fill[] = [];
+  private candles: Map<ExchangeResource, PriceCandle[]> = new Map();
+  private orderIdCounter = 0;
+
+  static readonly ESCROW_ACCOUNT = 'EXCHANGE_ESCROW';
+  private readonly MAX_FILLS = 500;
+  private readonly MAX_CANDLES = 365;
+  private readonly ORDER_TTL_DAYS = 10;
+  private readonly MAX_QUANTITY = 1000;
+
+  constructor(tokenSystem: Ledger, resolveHolder: (owner: string) => ResourceHolder | undefined) {
+    this.tokenSystem = tokenSystem;
+    this.resolveHolder = resolveHolder;
+    this.tokenSystem.openAccount(ExchangeSystem.ESCROW_ACCOUNT);
+    for (const resource of EXCHANGE_RESOURCES) {
+      this.bids.set(resource, []);
+      this.asks.set(resource, []);
+      this.candles.set(resource, []);
+    }
+  }
+
+  // Returns why an order can't be placed, or null if it can
+  validateOrder(owner: string, resource: string, side: string, price: number, quantity: number): string | null {
+    if (!EXCHANGE_RESOURCES.includes(resource as ExchangeResource)) return 'unknown resource';
+    if (side !== 'bid' && side !== 'ask') return 'side must be bid or ask';
+    if (!Number.isFinite(price) || roundCents(price) <= 0) return 'price must be positive';
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > this.MAX_QUANTITY) {
+      return `quantity must be a whole number from 1 to ${this.MAX_QUANTITY}`;
+    }
+
+    const holder = this.resolveHolder(owner);
+    if (!holder) return 'unknown trader';
+    if (side === 'bid' && this.tokenSystem.getBalance(owner) < roundCents(roundCents(price) * quantity)) {
+      return 'insufficient $CLAW';
+    }
+    if (side === 'ask' && (holder.resources[resource as ExchangeResource] || 0) < quantity) {
+      return `insufficient ${resource}`;
+    }
+    return null;
+  }
+
+  // Match against the opposite side at resting prices, then rest whatever is left
+  placeOrder(owner: string, resource: ExchangeResource, side: OrderSide, price: number, quantity: number, day: number): PlaceOrderResult {
+    const error = this.validateOrder(owner, resource, side, price, quantity);
+    if (error) return { order: null, fills: [], error };
+
+    price = roundCents(price);
+    this.tokenSystem.openAccount(owner); // Organizations trade through an account named after them
+
+    const order: Order = {
+      id: `order-${this.orderIdCounter++}`,
+      owner,
+      resource,
+      side,
+      price,
+      quantity,
+      remaining: quantity,
+      escrow: 0,
+      day,
+      seq: this.orderIdCounter
+    };
+
+    // Lock up what the order could spend
+    if (side === 'bid') {
+      order.escrow = roundCents(price * quantity);
+      if (!this.tokenSystem.transfer(owner, ExchangeSystem.ESCROW_ACCOUNT, order.escrow, `Bid ${quantity} ${resource} @ ${price}`)) {
+        return { order: null, fills: [], error: 'insufficient $CLAW' };
+      }
+    } else {
+      this.resolveHolder(owner)!.resources[resource]! -= quantity;
+    }
+
+    const fills = this.match(order, day);
+
+    if (order.remaining > 0) {
+      this.insert(order);
+      return { order, fills };
+    }
+    this.release(order);
+    return { order: null, fills };
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const order = this.restingOrders.get(orderId);
+    if (!order) return false;
+
+    const book = this.getBook(order);
+    book.splice(book.indexOf(order), 1);
+    this.unindex(order);
+    this.release(order);
+    return true;
+  }
+
+  cancelAllFor(owner: string): number {
+    const orders = this.getOpenOrders(owner);
+    for (const order of orders) this.cancelOrder(order.id);
+    return orders.length;
+  }
+
+  // Cancel every resting order that matches, returning its escrow
+  cancelOrdersWhere(predicate: (order: Order) => boolean): number {
+    const matching = Array.from(this.restingOrders.values()).filter(predicate).map(o => o.id);
+    for (const id of matching) this.cancelOrder(id);
+    return matching.length;
+  }
+
+  // Cancel orders that have rested too long. Called once per day.
+  expireOrders(day: number): number {
+    return this.cancelOrdersWhere(order => day - order.day >= this.ORDER_TTL_DAYS);
+  }
+
+  getQuote(resource: ExchangeResource): Quote {
+    const bid = this.bids.get(resource)![0]?.price ?? null;
+    const ask = this.asks.get(resource)![0]?.price ?? null;
+    const last = this.lastPrices[resource];
+
+    // A one-sided book says nothing a fill hasn't; otherwise stay inside the spread around the last trade
+    let mid = last;
+    if (bid !== null && ask !== null) mid = Math.min(ask, Math.max(bid, last));
+
+    return { bid, ask, last, mid };
+  }
+
+  getMidPrices(): { [resource in ExchangeResource]: number } {
+    const prices = {} as { [resource in ExchangeResource]: number };
+    for (const resource of EXCHANGE_RESOURCES) {
+      prices[resource] = this.getQuote(resource).mid;
+    }
+    return prices;
+  }
+
+  // Aggregated price levels, best first
+  getOrderBook(resource: ExchangeResource, depth: number = 10): { bids: { price: number; quantity: number }[]; asks: { price: number; quantity: number }[] } {
+    const levels = (orders: Order[]) => {
+      const result: { price: number; quantity: number }[] = [];
+      for (const order of orders) {
+        const last = result[result.length - 1];
+        if (last && last.price === order.price) {
+          last.quantity += order.remaining;
+        } else if (result.length < depth) {
+          result.push({ price: order.price, quantity: order.remaining });
+        } else {
+          break;
+        }
+      }
+      return result;
+    };
+    return { bids: levels(this.bids.get(resource)!), asks: levels(this.asks.get(resource)!) };
+  }
+
+  getOpenOrders(owner: string): Order[] {
+    return [...(this.ordersByOwner.get(owner) ?? [])];
+  }
+
+  getRecentFills(resource?: ExchangeResource, limit: number = 50): Fill[] {
+    const fills = resource ? this.fills.filter(f => f.resource === resource) : this.fills;
+    return fills.slice(-limit);
+  }
+
+  // Daily OHLC candles built from fills, oldest first
+  getPriceHistory(resource: ExchangeResource, days?: number): PriceCandle[] {
+    const candles = this.candles.get(resource) || [];
+    return days === undefined ? [...candles] : candles.slice(-days);
+  }
+
+  private match(taker: Order, day: number): Fill[] {
+    const fills: Fill[] = [];
+    const book = taker.side === 'bid' ? this.asks.get(taker.resource)! : this.bids.get(taker.resource)!;
+
+    let i = 0;
+    while (taker.remaining > 0 && i < book.length) {
+      const maker = book[i];
+      const crosses = taker.side === 'bid' ? maker.price <= taker.price : maker.price >= taker.price;
+      if (!crosses) break;
+
+      // Never trade with yourself
+      if (maker.owner === taker.owner) {
+        i++;
+        continue;
+      }
+
+      const quantity = Math.min(taker.remaining, maker.remaining);
+      const bid = taker.side === 'bid' ? taker : maker;
+      const ask = taker.side === 'bid' ? maker : taker;
+      this.settle(bid, ask, maker.price, quantity);
+
+      const fill: Fill = {
+        resource: taker.resource,
+        price: maker.price,
+        quantity,
+        buyer: bid.owner,
+        seller: ask.owner,
+        takerSide: taker.side,
+        day
+      };
+      fills.push(fill);
+      this.recordFill(fill);
+
+      if (maker.remaining === 0) {
+        book.splice(i, 1);
+        this.unindex(maker);
+        this.release(maker);
+      }
+    }
+
+    return fills;
+  }
+
+  // Pay the seller from the bid's escrow and deliver the resource to the buyer
+  private settle(bid: Order, ask: Order, price: number, quantity: number): void {
+    const cost = Math.min(bid.escrow, roundCents(price * quantity));
+    if (cost > 0) {
+      this.tokenSystem.transfer(ExchangeSystem.ESCROW_ACCOUNT, ask.owner, cost, `Sold ${quantity} ${ask.resource} @ ${price}`);
+      bid.escrow = roundCents(bid.escrow - cost);
+    }
+
+    const buyer = this.resolveHolder(bid.owner);
+    if (buyer) buyer.resources[bid.resource] = (buyer.resources[bid.resource] || 0) + quantity;
+
+    bid.remaining -= quantity;
+    ask.remaining -= quantity;
+  }
+
+  // Return whatever an order still holds: unspent $CLAW for bids, unsold resources for asks
+  private release(order: Order): void {
+    if (order.side === 'bid') {
+      if (order.escrow > 0) {
+        this.tokenSystem.transfer(ExchangeSystem.ESCROW_ACCOUNT, order.owner, order.escrow, `Bid refund ${order.id}`);
+        order.escrow = 0;
+      }
+    } else if (order.remaining > 0) {
+      const holder = this.resolveHolder(order.owner);
+      if (holder) holder.resources[order.resource] = (holder.resources[order.resource] || 0) + order.remaining;
+      order.remaining = 0;
+    }
+  }
+
+  private getBook(order: Order): Order[] {
+    return order.side === 'bid' ? this.bids.get(order.resource)! : this.asks.get(order.resource)!;
+  }
+
+  private insert(order: Order): void {
+    const book = this.getBook(order);
+    this.index(order);
+    const worse = order.side === 'bid'
+      ? (o: Order) => o.price < order.price
+      : (o: Order) => o.price > order.price;
+    // Books are sorted best price first, so binary search for the first worse-priced order; equal prices keep time priority
+    let low = 0;
+    let high = book.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (worse(book[mid])) high = mid;
+      else low = mid + 1;
+    }
+    book.splice(low, 0, order);
+  }
+
+  // Orders only ever rest in seq order, so appending keeps each owner's list oldest first
+  private index(order: Order): void {
+    this.restingOrders.set(order.id, order);
+    const owned = this.ordersByOwner.get(order.owner);
+    if (owned) owned.push(order);
+    else this.ordersByOwner.set(order.owner, [order]);
+  }
+
+  private unindex(order: Order): void {
+    this.restingOrders.delete(order.id);
+    const owned = this.ordersByOwner.get(order.owner);
+    if (!owned) return;
+    owned.splice(owned.indexOf(order), 1);
+    if (owned.length === 0) this.ordersByOwner.delete(order.owner);
+  }
+
+  private recordFill(fill: Fill): void {
+    this.lastPrices[fill.resource] = fill.price;
+    this.fills.push(fill);
+    if (this.fills.length > this.MAX_FILLS) this.fills.shift();
+
+    const candles = this.candles.get(fill.resource)!;
+    const candle = candles[candles.length - 1];
+    if (candle && candle.day === fill.day) {
+      candle.high = Math.max(candle.high, fill.price);
+      candle.low = Math.min(candle.low, fill.price);
+      candle.close = fill.price;
+      candle.volume += fill.quantity;
+    } else {
+      candles.push({ day: fill.day, open: fill.price, high: fill.price, low: fill.price, close: fill.price, volume: fill.quantity });
+      if (candles.length > this.MAX_CANDLES) candles.shift();
+    }
+  }
+
+  public serialize(): any {
+    return {
+      bids: Array.from(this.bids.entries()),
+      asks: Array.from(this.asks.entries()),
+      lastPrices: this.lastPrices,
+      fills: this.fills,
+      candles: Array.from(this.candles.entries()),
+      orderIdCounter: this.orderIdCounter
+    };
+  }
+
+  public deserialize(data: any): void {
+    for (const resource of EXCHANGE_RESOURCES) {
+      this.bids.set(resource, []);
+      this.asks.set(resource, []);
+      this.candles.set(resource, []);
+    }
+    for (const [resource, orders] of data.bids || []) this.bids.set(resource, orders);
+    for (const [resource, orders] of data.asks || []) this.asks.set(resource, orders);
+    for (const [resource, candles] of data.candles || []) this.candles.set(resource, candles);
+    this.restingOrders.clear();
+    this.ordersByOwner.clear();
+    const resting = [...this.bids.values(), ...this.asks.values()].flat().sort((a, b) => a.seq - b.seq);
+    for (const order of resting) this.index(order);
+    this.lastPrices = { ...REFERENCE_PRICES, ...(data.lastPrices || {}) };
+    this.fills = data.fills || [];
+    this.orderIdCounter = data.orderIdCounter || 0;
+  }
+}
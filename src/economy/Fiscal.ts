@@ -0,0 +1,182 @@
+// Fiscal System for ClawCiv
+// Per-tribe $CLAW taxation: income and wealth taxes on members, sales tax on exchange fills and tariffs on
+// trade route deliveries. Rates follow the government's tax rate and enacted policies, and every $CLAW
+// collected or paid out is booked in the tribe's budget ledger.
+
+import { Ledger } from './Ledger.ts';
+
+export type TaxKind = 'income' | 'wealth' | 'sales' | 'tariff';
+
+export interface TaxRates {
+  income: number;  // Share of $CLAW earned since the last collection
+  wealth: number;  // Share of the balance, per collection
+  sales: number;   // Share of a sale's value, paid by the seller
+  tariff: number;  // Share of the value a trade route delivers, paid by the exporting tribe's treasury
+}
+
+export interface BudgetPeriod {
+  startDay: number;
+  endDay: number | null;                  // null while the period is still open
+  revenue: { [source: string]: number };  // Tax kinds, plus non-tax income such as rent
+  spending: { [category: string]: number };
+}
+
+export interface TribeBudget {
+  tribe: string;
+  current: BudgetPeriod;
+  history: BudgetPeriod[];  // Closed periods, oldest first
+  totalRevenue: number;
+  totalSpending: number;
+}
+
+export interface TaxCollection {
+  tribe: string;
+  income: number;
+  wealth: number;
+  taxpayers: number;
+}
+
+// Taxpayer shape used by collectTaxes; agents satisfy it
+export interface Taxpayer {
+  id: string;
+  tribe: string;
+  alive: boolean;
+}
+
+// How each kind of tax scales with the government's overall tax rate
+const RATE_SCALE: TaxRates = { income: 1, wealth: 0.02, sales: 0.2, tariff: 0.5 };
+
+// Policies that shift particular taxes, as multipliers on the scaled rate
+const POLICY_TAX_MODIFIERS: { [policyId: string]: Partial<TaxRates> } = {
+  free_trade: { sales: 0.5, tariff: 0 },
+  protectionism: { tariff: 3 },
+  welfare_state: { wealth: 2 },
+  austerity: { wealth: 0.5 }
+};
+
+export class FiscalSystem {
+  private tokenSystem: Ledger;
+  private budgets: Map<string, TribeBudget> = new Map();
+  private lastEarned: Map<string, number> = new Map(); // Taxpayer -> totalEarned at the last collection
+
+  private readonly MAX_RATE = 0.5;
+  private readonly HISTORY_PERIODS = 36;
+
+  constructor(tokenSystem: Ledger, tribes: string[] = []) {
+    this.tokenSystem = tokenSystem;
+    for (const tribe of tribes) this.getBudget(tribe);
+  }
+
+  // Effective rates for a tribe from its government's tax rate (policies included) and enacted policies
+  getRates(taxRate: number, policies: string[]): TaxRates {
+    const rates = {} as TaxRates;
+    for (const kind of Object.keys(RATE_SCALE) as TaxKind[]) {
+      let rate = Math.max(0, taxRate) * RATE_SCALE[kind];
+      for (const policyId of policies) {
+        const modifier = POLICY_TAX_MODIFIERS[policyId]?.[kind];
+        if (modifier !== undefined) rate *= modifier;
+      }
+      rates[kind] = Math.min(this.MAX_RATE, rate);
+    }
+    return rates;
+  }
+
+  // Periodic income and wealth taxes on a tribe's living members. Closes the tribe's budget period.
+  collectTaxes(tribe: string, taxpayers: Taxpayer[], rates: TaxRates, currentDay: number): TaxCollection {
+    const result: TaxCollection = { tribe, income: 0, wealth: 0, taxpayers: 0 };
+
+    for (const taxpayer of taxpayers) {
+      if (taxpayer.tribe !== tribe || !taxpayer.alive) continue;
+      const account = this.tokenSystem.getAccount(taxpayer.id);
+      if (!account) continue;
+
+      // Earnings are measured from the last collection; the first one only sets the baseline
+      const earned = account.totalEarned - (this.lastEarned.get(taxpayer.id) ?? account.totalEarned);
+      const incomeTax = this.levy(taxpayer.id, tribe, 'income', earned * rates.income);
+      const wealthTax = this.levy(taxpayer.id, tribe, 'wealth', this.tokenSystem.getBalance(taxpayer.id) * rates.wealth);
+      this.lastEarned.set(taxpayer.id, account.totalEarned);
+
+      result.income += incomeTax;
+      result.wealth += wealthTax;
+      if (incomeTax + wealthTax > 0) result.taxpayers++;
+    }
+
+    this.closePeriod(tribe, currentDay);
+    return result;
+  }
+
+  // Take up to `amount` $CLAW from an account for its tribe's treasury. Returns what was collected.
+  levy(accountId: string, tribe: string, kind: TaxKind, amount: number): number {
+    if (!(amount > 0)) return 0;
+    const collected = this.tokenSystem.collectTax(accountId, tribe, Math.round(amount * 100) / 100, `${kind} tax (${tribe})`);
+    if (collected > 0) this.recordRevenue(tribe, kind, collected);
+    return collected;
+  }
+
+  // The importing tribe charges the exporter's treasury on the value a route delivers
+  levyTariff(fromTribe: string, toTribe: string, value: number, rate: number): number {
+    if (fromTribe === toTribe || !(value > 0) || !(rate > 0)) return 0;
+    const paid = this.tokenSystem.transferTreasury(fromTribe, toTribe, Math.round(value * rate * 100) / 100, `Tariff (${fromTribe} -> ${toTribe})`);
+    if (paid > 0) {
+      this.recordRevenue(toTribe, 'tariff', paid);
+      this.recordSpending(fromTribe, 'tariffs', paid);
+    }
+    return paid;
+  }
+
+  recordRevenue(tribe: string, source: string, amount: number): void {
+    if (!(amount > 0)) return;
+    const budget = this.getBudget(tribe);
+    budget.current.revenue[source] = (budget.current.revenue[source] || 0) + amount;
+    budget.totalRevenue += amount;
+  }
+
+  recordSpending(tribe: string, category: string, amount: number): void {
+    if (!(amount > 0)) return;
+    const budget = this.getBudget(tribe);
+    budget.current.spending[category] = (budget.current.spending[category] || 0) + amount;
+    budget.totalSpending += amount;
+  }
+
+  getBudget(tribe: string): TribeBudget {
+    let budget = this.budgets.get(tribe);
+    if (!budget) {
+      budget = { tribe, current: this.newPeriod(0), history: [], totalRevenue: 0, totalSpending: 0 };
+      this.budgets.set(tribe, budget);
+    }
+    return budget;
+  }
+
+  getAllBudgets(): TribeBudget[] {
+    return Array.from(this.budgets.values());
+  }
+
+  // Forget a taxpayer that died or left
+  removeTaxpayer(accountId: string): void {
+    this.lastEarned.delete(accountId);
+  }
+
+  private closePeriod(tribe: string, currentDay: number): void {
+    const budget = this.getBudget(tribe);
+    budget.current.endDay = currentDay;
+    budget.history.push(budget.current);
+    if (budget.history.length > this.HISTORY_PERIODS) budget.history.shift();
+    budget.current = this.newPeriod(currentDay);
+  }
+
+  private newPeriod(startDay: number): BudgetPeriod {
+    return { startDay, endDay: null, revenue: {}, spending: {} };
+  }
+
+  public serialize(): any {
+    return {
+      budgets: Array.from(this.budgets.entries()),
+      lastEarned: Array.from(this.lastEarned.entries())
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.budgets = new Map(data.budgets || []);
+    this.lastEarned = new Map(data.lastEarned || []);
+  }
+}
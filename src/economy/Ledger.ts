@@ -0,0 +1,55 @@
+// Ledger interface for ClawCiv
+// The $CLAW operations the engine and its systems rely on. TokenSystem keeps the books in memory;
+// EvmLedger keeps the same books and also settles every movement on a local EVM dev node.
+
+import type { Random } from '../engine/Random.ts';
+import type { WorldConfig } from '../engine/WorldConfig.ts';
+import type { SupplyMode, TokenAccount, TribeTreasury } from './Token.ts';
+
+// One movement of $CLAW. Treasuries appear as `${tribe}_TREASURY`; mints come from and burns go to 'SYSTEM'.
+export interface LedgerEntry {
+  kind: 'transfer' | 'mint' | 'burn';
+  from: string;
+  to: string;
+  amount: number;
+  reason: string;
+}
+
+export interface Ledger {
+  getSupplyMode(): SupplyMode;
+  createAgentAccount(agentId: string, tribe: string): void;
+  openAccount(accountId: string): void;
+  openHumanAccount(humanId: string): string;
+  isHumanAccount(accountId: string): boolean;
+  getHumanAccounts(): TokenAccount[];
+  getBalance(agentId: string): number;
+  getAccount(agentId: string): TokenAccount | undefined;
+  transfer(from: string, to: string, amount: number, reason?: string): boolean;
+  mint(agentId: string, amount: number, reason: string): boolean;
+  burn(agentId: string, amount: number, reason: string): boolean;
+  payReward(agentId: string, amount: number, reason: string): number;
+  payTreasury(from: string, tribe: string, amount: number, reason: string): boolean;
+  collectTax(from: string, tribe: string, amount: number, reason: string): number;
+  transferTreasury(fromTribe: string, toTribe: string, amount: number, reason: string): number;
+  payFromTreasury(tribe: string, to: string, amount: number, reason: string): number;
+  spendTreasury(tribe: string, amount: number, reason: string): number;
+  earnTokens(agentId: string, amount: number, action: string): number;
+  spendTokens(agentId: string, amount: number, purchase: string): boolean;
+  getTreasuryBalance(tribe: string): number;
+  getTribeTreasury(tribe: string): TribeTreasury | undefined;
+  getTotalSupply(): number;
+  getTotalBurned(): number;
+  getRewardPoolBalance(): number;
+  getMarketStats(): {
+    totalSupply: number;
+    totalAccounts: number;
+    totalTransactions: number;
+    treasuries: { [tribe: string]: number };
+  };
+  checkInvariants(): string[];
+  serialize(): any;
+  deserialize(data: any): void;
+}
+
+// Lets callers pick a backend, e.g. GameEngineOptions.ledger
+export type LedgerFactory = (random: Random, world: WorldConfig, supplyMode: SupplyMode) => Ledger;
@@ -0,0 +1,508 @@
+// Lending System for ClawCiv
+// Credit between accounts: tribe treasuries, corporations, cooperatives and wealthy agents post loan offers,
+// borrowers pledge collateral and repay in installments every 10 days. Missed installments cost credit score
+// and, after three in a row, default the loan. Lending organizations also take deposits, which depositors
+// pull out all at once when the loan book sours and reserves run thin.
+
+import { Random } from '../engine/Random.ts';
+import { Ledger } from './Ledger.ts';
+import type { ExchangeResource } from './Exchange.ts';
+import type { Item } from '../systems/Inventory.ts';
+import type { ArtifactRarity } from '../systems/Artifacts.ts';
+
+export type LenderKind = 'treasury' | 'organization' | 'agent';
+
+export type Collateral =
+  | { type: 'resource'; resource: ExchangeResource; amount: number }
+  | { type: 'item'; itemId: string; item?: Item }  // The item itself is held with the loan once pledged
+  | { type: 'artifact'; artifactId: string };      // Must belong to the borrower's tribe
+
+export type LoanStatus = 'active' | 'repaid' | 'defaulted';
+
+export interface LoanTerms {
+  amount: number;           // $CLAW on offer; each loan taken reduces it
+  interestRate: number;     // Flat interest over the life of the loan, e.g. 0.1 = 10%
+  termDays: number;
+  collateralRatio: number;  // Collateral value required per $CLAW borrowed; 0 for unsecured loans
+  minCreditScore: number;
+}
+
+export interface LoanOffer extends LoanTerms {
+  id: string;
+  lender: string;           // Account id, or the tribe for treasury offers
+  lenderKind: LenderKind;
+  tribe: string;            // Lender's tribe
+  createdDay: number;
+  expiresDay: number;
+}
+
+export interface Loan {
+  id: string;
+  offerId: string;
+  lender: string;
+  lenderKind: LenderKind;
+  lenderTribe: string;
+  borrower: string;
+  borrowerTribe: string;
+  principal: number;
+  interestRate: number;
+  totalDue: number;         // Principal plus interest
+  repaid: number;
+  installment: number;
+  nextDueDay: number;
+  maturityDay: number;
+  arrears: number;          // Unpaid part of missed installments, due with the next one
+  missedPayments: number;   // In a row; reset by a full payment
+  collateral: Collateral | null;
+  collateralValue: number;  // Valued when pledged
+  status: LoanStatus;
+  issuedDay: number;
+  closedDay?: number;
+}
+
+export interface LoanPayment {
+  loan: Loan;
+  amount: number;
+  missed: boolean;
+}
+
+export interface BankRun {
+  orgId: string;
+  withdrawn: number;
+  shortfall: number;        // Deposits the organization could not pay back
+}
+
+export interface LendingUpdate {
+  payments: LoanPayment[];
+  repaid: Loan[];
+  defaults: Loan[];
+  runs: BankRun[];
+}
+
+export interface OfferLoanResult {
+  offer: LoanOffer | null;
+  error?: string;
+}
+
+export interface TakeLoanResult {
+  loan: Loan | null;
+  error?: string;
+}
+
+// What each artifact rarity is worth as collateral, in $CLAW
+export const ARTIFACT_COLLATERAL_VALUES: { [rarity in ArtifactRarity]: number } = {
+  common: 100,
+  uncommon: 250,
+  rare: 600,
+  epic: 1500,
+  legendary: 4000
+};
+
+export class LendingSystem {
+  private tokenSystem: Ledger;
+  private random: Random;
+  private offers: Map<string, LoanOffer> = new Map();
+  private loans: Map<string, Loan> = new Map();
+  private creditScores: Map<string, number> = new Map();
+  private deposits: Map<string, Map<string, number>> = new Map(); // Organization -> depositor -> $CLAW
+  private lastDefault: Map<string, number> = new Map();           // Lender -> day a borrower last defaulted on it
+  private loanIdCounter = 0;
+
+  static readonly INSTALLMENT_DAYS = 10;
+  static readonly DEFAULT_CREDIT_SCORE = 50;
+  static readonly MIN_AGENT_LENDER_BALANCE = 500; // Agents below this can't lend
+  private readonly MAX_MISSED_PAYMENTS = 3;       // Missed installments in a row before a loan defaults
+  private readonly MAX_TERM_DAYS = 365;
+  private readonly MAX_INTEREST_RATE = 1;
+  private readonly OFFER_DAYS = 30;               // Offers lapse after this long
+  private readonly PANIC_RESERVE_RATIO = 0.5;     // Depositors run when reserves cover less than this share
+  private readonly PANIC_MEMORY_DAYS = 30;        // ...and a borrower defaulted on the organization this recently
+  private readonly KEEP_CLOSED = 200;             // Closed loans kept for lookups, oldest dropped first
+
+  constructor(tokenSystem: Ledger, random: Random = new Random()) {
+    this.tokenSystem = tokenSystem;
+    this.random = random;
+  }
+
+  // Returns why an offer can't be posted, or null if it can
+  validateOffer(lender: string, lenderKind: LenderKind, terms: LoanTerms): string | null {
+    if (!Number.isFinite(terms.amount) || terms.amount <= 0) return 'amount must be positive';
+    if (!(terms.interestRate >= 0 && terms.interestRate <= this.MAX_INTEREST_RATE)) {
+      return `interest rate must be 0-${this.MAX_INTEREST_RATE}`;
+    }
+    if (!Number.isInteger(terms.termDays) || terms.termDays < LendingSystem.INSTALLMENT_DAYS || terms.termDays > this.MAX_TERM_DAYS) {
+      return `term must be ${LendingSystem.INSTALLMENT_DAYS}-${this.MAX_TERM_DAYS} days`;
+    }
+    if (!(terms.collateralRatio >= 0)) return 'collateral ratio must not be negative';
+    if (!(terms.minCreditScore >= 0 && terms.minCreditScore <= 100)) return 'minimum credit score must be 0-100';
+
+    const balance = this.getLenderBalance(lender, lenderKind);
+    if (lenderKind === 'agent' && balance < LendingSystem.MIN_AGENT_LENDER_BALANCE) {
+      return `agents need ${LendingSystem.MIN_AGENT_LENDER_BALANCE} $CLAW to lend`;
+    }
+    return balance >= terms.amount ? null : 'insufficient $CLAW';
+  }
+
+  // Post an offer. Nothing is locked; the lender must still have the $CLAW when a borrower takes it.
+  offerLoan(lender: string, lenderKind: LenderKind, tribe: string, terms: LoanTerms, currentDay: number): OfferLoanResult {
+    const error = this.validateOffer(lender, lenderKind, terms);
+    if (error) return { offer: null, error };
+
+    if (lenderKind !== 'treasury') this.tokenSystem.openAccount(lender);
+    const offer: LoanOffer = {
+      id: `offer-${this.loanIdCounter++}-${this.random.now()}`,
+      lender,
+      lenderKind,
+      tribe,
+      amount: terms.amount,
+      interestRate: terms.interestRate,
+      termDays: terms.termDays,
+      collateralRatio: terms.collateralRatio,
+      minCreditScore: terms.minCreditScore,
+      createdDay: currentDay,
+      expiresDay: currentDay + this.OFFER_DAYS
+    };
+    this.offers.set(offer.id, offer);
+    return { offer };
+  }
+
+  withdrawOffer(offerId: string): boolean {
+    return this.offers.delete(offerId);
+  }
+
+  getOffer(offerId: string): LoanOffer | undefined {
+    return this.offers.get(offerId);
+  }
+
+  getOffers(tribe?: string): LoanOffer[] {
+    const offers = Array.from(this.offers.values());
+    return tribe ? offers.filter(o => o.tribe === tribe) : offers;
+  }
+
+  getOffersBy(lender: string): LoanOffer[] {
+    return this.getOffers().filter(o => o.lender === lender);
+  }
+
+  // Returns why the borrower can't take this loan, or null if they can
+  validateLoan(borrower: string, offerId: string, amount: number, collateralValue: number): string | null {
+    const offer = this.offers.get(offerId);
+    if (!offer) return 'no such offer';
+    if (offer.lender === borrower) return 'cannot borrow from yourself';
+    if (!Number.isFinite(amount) || amount <= 0) return 'amount must be positive';
+    if (amount > offer.amount) return 'amount exceeds the offer';
+    if (this.getCreditScore(borrower) < offer.minCreditScore) return 'credit score too low';
+    if (collateralValue < amount * offer.collateralRatio) return 'not enough collateral';
+    if (this.getLenderBalance(offer.lender, offer.lenderKind) < amount) return 'lender cannot fund the loan';
+    return null;
+  }
+
+  // Pay out a loan against an offer. The caller has already taken the collateral into custody.
+  takeLoan(
+    borrower: string,
+    borrowerTribe: string,
+    offerId: string,
+    amount: number,
+    collateral: Collateral | null,
+    collateralValue: number,
+    currentDay: number
+  ): TakeLoanResult {
+    const error = this.validateLoan(borrower, offerId, amount, collateralValue);
+    if (error) return { loan: null, error };
+
+    const offer = this.offers.get(offerId)!;
+    const id = `loan-${this.loanIdCounter++}-${this.random.now()}`;
+    this.tokenSystem.openAccount(borrower);
+    if (this.pay(offer.lender, offer.lenderKind, borrower, 'agent', amount, `Loan ${id}`) < amount) {
+      return { loan: null, error: 'lender cannot fund the loan' };
+    }
+
+    const installments = Math.ceil(offer.termDays / LendingSystem.INSTALLMENT_DAYS);
+    const totalDue = Math.round(amount * (1 + offer.interestRate) * 100) / 100;
+    const loan: Loan = {
+      id,
+      offerId,
+      lender: offer.lender,
+      lenderKind: offer.lenderKind,
+      lenderTribe: offer.tribe,
+      borrower,
+      borrowerTribe,
+      principal: amount,
+      interestRate: offer.interestRate,
+      totalDue,
+      repaid: 0,
+      installment: Math.ceil(totalDue / installments * 100) / 100,
+      nextDueDay: currentDay + LendingSystem.INSTALLMENT_DAYS,
+      maturityDay: currentDay + installments * LendingSystem.INSTALLMENT_DAYS,
+      arrears: 0,
+      missedPayments: 0,
+      collateral,
+      collateralValue,
+      status: 'active',
+      issuedDay: currentDay
+    };
+    this.loans.set(id, loan);
+
+    offer.amount = Math.round((offer.amount - amount) * 100) / 100;
+    if (offer.amount <= 0) this.offers.delete(offerId);
+    return { loan };
+  }
+
+  // Pay down a loan early, arrears first. Returns what was paid.
+  repay(loanId: string, amount: number, currentDay: number): number {
+    const loan = this.loans.get(loanId);
+    if (!loan || loan.status !== 'active' || !(amount > 0)) return 0;
+
+    const paid = this.pay(loan.borrower, 'agent', loan.lender, loan.lenderKind, Math.min(amount, this.getOutstanding(loan)), `Repayment ${loan.id}`);
+    loan.repaid += paid;
+    loan.arrears = Math.max(0, loan.arrears - paid);
+    if (loan.arrears === 0) loan.missedPayments = 0;
+    if (this.getOutstanding(loan) <= 0) this.close(loan, 'repaid', currentDay);
+    return paid;
+  }
+
+  getLoan(loanId: string): Loan | undefined {
+    return this.loans.get(loanId);
+  }
+
+  getAllLoans(): Loan[] {
+    return Array.from(this.loans.values());
+  }
+
+  getActiveLoans(): Loan[] {
+    return this.getAllLoans().filter(l => l.status === 'active');
+  }
+
+  getLoansFor(accountId: string): Loan[] {
+    return this.getAllLoans().filter(l => l.borrower === accountId || l.lender === accountId);
+  }
+
+  // $CLAW still owed on a loan
+  getOutstanding(loan: Loan): number {
+    return Math.max(0, Math.round((loan.totalDue - loan.repaid) * 100) / 100);
+  }
+
+  getDebt(borrower: string): number {
+    return this.getActiveLoans().filter(l => l.borrower === borrower).reduce((sum, l) => sum + this.getOutstanding(l), 0);
+  }
+
+  // 0-100. Full installments raise it, missed ones and defaults lower it.
+  getCreditScore(accountId: string): number {
+    return this.creditScores.get(accountId) ?? LendingSystem.DEFAULT_CREDIT_SCORE;
+  }
+
+  adjustCreditScore(accountId: string, delta: number): number {
+    const score = Math.max(0, Math.min(100, this.getCreditScore(accountId) + delta));
+    this.creditScores.set(accountId, score);
+    return score;
+  }
+
+  // Put an active loan into default, e.g. when its borrower dies or goes bankrupt. Outstanding debt is written off.
+  defaultLoan(loanId: string, currentDay: number): Loan | null {
+    const loan = this.loans.get(loanId);
+    if (!loan || loan.status !== 'active') return null;
+    this.close(loan, 'defaulted', currentDay);
+    return loan;
+  }
+
+  // Hand a lender's outstanding loans to its tribe's treasury, e.g. when the lender goes bankrupt
+  assignLoans(lender: string, tribe: string): number {
+    let assigned = 0;
+    for (const loan of this.getActiveLoans()) {
+      if (loan.lender !== lender) continue;
+      loan.lender = tribe;
+      loan.lenderKind = 'treasury';
+      loan.lenderTribe = tribe;
+      assigned++;
+    }
+    for (const offer of this.getOffersBy(lender)) this.offers.delete(offer.id);
+    return assigned;
+  }
+
+  // Lending organizations take deposits from agents
+  deposit(orgId: string, depositor: string, amount: number): boolean {
+    if (!(amount > 0) || orgId === depositor) return false;
+    this.tokenSystem.openAccount(orgId);
+    if (!this.tokenSystem.transfer(depositor, orgId, amount, `Deposit with ${orgId}`)) return false;
+
+    const book = this.deposits.get(orgId) ?? new Map<string, number>();
+    book.set(depositor, (book.get(depositor) || 0) + amount);
+    this.deposits.set(orgId, book);
+    return true;
+  }
+
+  // Pay back up to `amount` of a deposit from the organization's reserves. Returns what was paid.
+  withdraw(orgId: string, depositor: string, amount: number): number {
+    const book = this.deposits.get(orgId);
+    const held = book?.get(depositor) || 0;
+    const wanted = Math.min(amount, held);
+    if (!book || !(wanted > 0)) return 0;
+
+    const paid = Math.min(wanted, this.tokenSystem.getBalance(orgId));
+    if (paid > 0 && !this.tokenSystem.transfer(orgId, depositor, paid, `Withdrawal from ${orgId}`)) return 0;
+
+    const left = held - paid;
+    if (left > 1e-9) book.set(depositor, left);
+    else book.delete(depositor);
+    return paid;
+  }
+
+  getDeposit(orgId: string, depositor: string): number {
+    return this.deposits.get(orgId)?.get(depositor) || 0;
+  }
+
+  getDepositTotal(orgId: string): number {
+    let total = 0;
+    for (const amount of this.deposits.get(orgId)?.values() ?? []) total += amount;
+    return total;
+  }
+
+  // Organizations an agent has money deposited with
+  getDepositsOf(depositor: string): { orgId: string; amount: number }[] {
+    const held: { orgId: string; amount: number }[] = [];
+    for (const [orgId, book] of this.deposits) {
+      const amount = book.get(depositor);
+      if (amount) held.push({ orgId, amount });
+    }
+    return held;
+  }
+
+  // Settle what a bankrupt organization owes its depositors from whatever $CLAW it has left, pro rata.
+  // Returns the deposits left unpaid.
+  liquidateDeposits(orgId: string): number {
+    const book = this.deposits.get(orgId);
+    if (!book) return 0;
+
+    const total = this.getDepositTotal(orgId);
+    const share = total > 0 ? Math.min(1, this.tokenSystem.getBalance(orgId) / total) : 0;
+    let unpaid = 0;
+    for (const [depositor, amount] of book) {
+      const owed = Math.floor(amount * share * 100) / 100;
+      if (owed > 0) this.tokenSystem.transfer(orgId, depositor, owed, `Liquidation of ${orgId}`);
+      unpaid += amount - owed;
+    }
+    this.deposits.delete(orgId);
+    return unpaid;
+  }
+
+  // Called once per tick: collect installments that fall due, default loans missed too often, lapse old
+  // offers and let depositors run on lenders that look shaky
+  update(currentDay: number): LendingUpdate {
+    const result: LendingUpdate = { payments: [], repaid: [], defaults: [], runs: [] };
+
+    for (const offer of this.getOffers()) {
+      if (currentDay >= offer.expiresDay) this.offers.delete(offer.id);
+    }
+
+    for (const loan of this.getActiveLoans()) {
+      if (currentDay < loan.nextDueDay) continue;
+
+      const outstanding = this.getOutstanding(loan);
+      const due = currentDay >= loan.maturityDay ? outstanding : Math.min(outstanding, loan.installment + loan.arrears);
+      const paid = this.pay(loan.borrower, 'agent', loan.lender, loan.lenderKind, due, `Installment ${loan.id}`);
+      loan.repaid += paid;
+      loan.nextDueDay += LendingSystem.INSTALLMENT_DAYS;
+
+      const missed = paid + 1e-9 < due;
+      if (missed) {
+        loan.arrears = Math.round((due - paid) * 100) / 100;
+        loan.missedPayments++;
+        this.adjustCreditScore(loan.borrower, -5);
+      } else {
+        loan.arrears = 0;
+        loan.missedPayments = 0;
+        this.adjustCreditScore(loan.borrower, 1);
+      }
+      result.payments.push({ loan, amount: paid, missed });
+
+      if (this.getOutstanding(loan) <= 0) {
+        this.close(loan, 'repaid', currentDay);
+        result.repaid.push(loan);
+      } else if (loan.missedPayments >= this.MAX_MISSED_PAYMENTS) {
+        this.close(loan, 'defaulted', currentDay);
+        result.defaults.push(loan);
+      }
+    }
+
+    for (const orgId of this.deposits.keys()) {
+      const run = this.checkBankRun(orgId, currentDay);
+      if (run) result.runs.push(run);
+    }
+
+    if (result.repaid.length + result.defaults.length > 0) this.pruneClosed();
+    return result;
+  }
+
+  // Depositors panic when a borrower recently defaulted on the organization and reserves can't cover
+  // half its deposits. Everyone withdraws in full; whatever can't be paid is the shortfall.
+  private checkBankRun(orgId: string, currentDay: number): BankRun | null {
+    const total = this.getDepositTotal(orgId);
+    if (total <= 0) return null;
+
+    const defaulted = this.lastDefault.get(orgId);
+    if (defaulted === undefined || currentDay - defaulted > this.PANIC_MEMORY_DAYS) return null;
+    if (this.tokenSystem.getBalance(orgId) >= total * this.PANIC_RESERVE_RATIO) return null;
+
+    let withdrawn = 0;
+    for (const [depositor, amount] of Array.from(this.deposits.get(orgId)!.entries())) {
+      withdrawn += this.withdraw(orgId, depositor, amount);
+    }
+    return { orgId, withdrawn, shortfall: Math.max(0, total - withdrawn) };
+  }
+
+  private close(loan: Loan, status: 'repaid' | 'defaulted', currentDay: number): void {
+    loan.status = status;
+    loan.closedDay = currentDay;
+    if (status === 'repaid') {
+      this.adjustCreditScore(loan.borrower, 5);
+    } else {
+      this.adjustCreditScore(loan.borrower, -25);
+      this.lastDefault.set(loan.lender, currentDay);
+    }
+  }
+
+  private getLenderBalance(lender: string, lenderKind: LenderKind): number {
+    return lenderKind === 'treasury' ? this.tokenSystem.getTreasuryBalance(lender) : this.tokenSystem.getBalance(lender);
+  }
+
+  // Move up to `amount` between accounts or treasuries. Returns what moved.
+  private pay(from: string, fromKind: LenderKind, to: string, toKind: LenderKind, amount: number, reason: string): number {
+    const rounded = Math.round(amount * 100) / 100;
+    if (!(rounded > 0)) return 0;
+
+    if (fromKind === 'treasury') return this.tokenSystem.payFromTreasury(from, to, rounded, reason);
+
+    const paid = Math.min(rounded, this.tokenSystem.getBalance(from));
+    if (!(paid > 0)) return 0;
+    const moved = toKind === 'treasury'
+      ? this.tokenSystem.payTreasury(from, to, paid, reason)
+      : this.tokenSystem.transfer(from, to, paid, reason);
+    return moved ? paid : 0;
+  }
+
+  private pruneClosed(): void {
+    const closed = this.getAllLoans().filter(l => l.closedDay !== undefined);
+    for (const loan of closed.slice(0, Math.max(0, closed.length - this.KEEP_CLOSED))) {
+      this.loans.delete(loan.id);
+    }
+  }
+
+  public serialize(): any {
+    return {
+      offers: Array.from(this.offers.entries()),
+      loans: Array.from(this.loans.entries()),
+      creditScores: Array.from(this.creditScores.entries()),
+      deposits: Array.from(this.deposits.entries()).map(([orgId, book]) => [orgId, Array.from(book.entries())]),
+      lastDefault: Array.from(this.lastDefault.entries()),
+      loanIdCounter: this.loanIdCounter
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.offers = new Map(data.offers || []);
+    this.loans = new Map(data.loans || []);
+    this.creditScores = new Map(data.creditScores || []);
+    this.deposits = new Map((data.deposits || []).map(([orgId, book]: [string, [string, number][]]) => [orgId, new Map(book)]));
+    this.lastDefault = new Map(data.lastDefault || []);
+    this.loanIdCounter = data.loanIdCounter || 0;
+  }
+}
@@ -0,0 +1,290 @@
+// Prediction Markets for ClawCiv
+// Humans bet $CLAW on how the simulation turns out. Each market asks one observable question with two or more
+// outcomes and is priced by a logarithmic market scoring rule (LMSR) market maker funded by its creator.
+// On the resolution day the engine reads the answer from its own state and every winning share pays 1 $CLAW.
+
+import { Random } from '../engine/Random.ts';
+import { Ledger } from './Ledger.ts';
+
+export type MarketQuestion =
+  | { type: 'tech_researched'; tribe: string; techId: string }  // Yes / No
+  | { type: 'tribe_eliminated'; tribe?: string }                // Yes / No; any tribe when omitted
+  | { type: 'first_wonder'; wonders: string[] }                 // Each wonder name, then 'Other' and 'None'
+  | { type: 'largest_population'; tribes: string[] };           // Each tribe
+
+export type PredictionMarketStatus = 'open' | 'resolved';
+
+export interface PredictionMarket {
+  id: string;
+  title: string;
+  question: MarketQuestion;
+  outcomes: string[];
+  shares: number[];          // Outstanding shares per outcome
+  liquidity: number;         // LMSR b; the creator's worst-case loss is b * ln(outcomes)
+  pool: number;              // $CLAW this market holds
+  creator: string;
+  createdDay: number;
+  resolutionDay: number;
+  status: PredictionMarketStatus;
+  winner?: number;           // Outcome index once resolved
+  positions: { [accountId: string]: number[] };
+  volume: number;            // $CLAW traded
+}
+
+export interface MarketTrade {
+  market: PredictionMarket;
+  accountId: string;
+  outcome: number;
+  shares: number;            // Negative for sales
+  cost: number;              // $CLAW paid, or received for sales, before the fee
+  fee: number;
+}
+
+export interface MarketResolution {
+  market: PredictionMarket;
+  winner: number;
+  paidOut: number;
+  returnedToCreator: number;
+}
+
+export interface CreateMarketResult {
+  market: PredictionMarket | null;
+  error?: string;
+}
+
+export interface TradeResult {
+  trade: MarketTrade | null;
+  error?: string;
+}
+
+// Index of the winning outcome, read from engine state on the resolution day
+export type QuestionResolver = (market: PredictionMarket) => number;
+
+export const YES_NO = ['Yes', 'No'];
+
+export class PredictionMarketSystem {
+  private tokenSystem: Ledger;
+  private random: Random;
+  private markets: Map<string, PredictionMarket> = new Map();
+  private marketIdCounter = 0;
+
+  static readonly MARKET_ACCOUNT = 'PREDICTION_MARKETS';
+  private readonly FEE_RATE = 0.01;         // Paid to the market's creator on every trade
+  private readonly MIN_LIQUIDITY = 10;
+  private readonly MAX_OUTCOMES = 10;
+  private readonly KEEP_RESOLVED = 100;     // Resolved markets kept for lookups, oldest dropped first
+
+  constructor(tokenSystem: Ledger, random: Random = new Random()) {
+    this.tokenSystem = tokenSystem;
+    this.random = random;
+    this.tokenSystem.openAccount(PredictionMarketSystem.MARKET_ACCOUNT);
+  }
+
+  // What funding a market with this liquidity costs its creator up front
+  getSubsidy(liquidity: number, outcomeCount: number): number {
+    return Math.ceil(liquidity * Math.log(outcomeCount) * 100) / 100;
+  }
+
+  // Returns why a market can't be created, or null if it can
+  validateMarket(creator: string, outcomes: string[], liquidity: number, resolutionDay: number, currentDay: number): string | null {
+    if (outcomes.length < 2 || outcomes.length > this.MAX_OUTCOMES) return `markets need 2-${this.MAX_OUTCOMES} outcomes`;
+    if (new Set(outcomes).size !== outcomes.length) return 'outcomes must differ';
+    if (!Number.isFinite(liquidity) || liquidity < this.MIN_LIQUIDITY) return `liquidity must be at least ${this.MIN_LIQUIDITY}`;
+    if (!Number.isInteger(resolutionDay) || resolutionDay <= currentDay) return 'resolution day must be in the future';
+    return this.tokenSystem.getBalance(creator) >= this.getSubsidy(liquidity, outcomes.length) ? null : 'insufficient $CLAW';
+  }
+
+  // The creator funds the market maker's worst-case loss; whatever is left after payouts goes back to them
+  createMarket(
+    creator: string,
+    title: string,
+    question: MarketQuestion,
+    outcomes: string[],
+    liquidity: number,
+    resolutionDay: number,
+    currentDay: number
+  ): CreateMarketResult {
+    const error = this.validateMarket(creator, outcomes, liquidity, resolutionDay, currentDay);
+    if (error) return { market: null, error };
+
+    const id = `market-${this.marketIdCounter++}-${this.random.now()}`;
+    const subsidy = this.getSubsidy(liquidity, outcomes.length);
+    if (!this.tokenSystem.transfer(creator, PredictionMarketSystem.MARKET_ACCOUNT, subsidy, `Market maker subsidy ${id}`)) {
+      return { market: null, error: 'insufficient $CLAW' };
+    }
+
+    const market: PredictionMarket = {
+      id,
+      title,
+      question,
+      outcomes: [...outcomes],
+      shares: outcomes.map(() => 0),
+      liquidity,
+      pool: subsidy,
+      creator,
+      createdDay: currentDay,
+      resolutionDay,
+      status: 'open',
+      positions: {},
+      volume: 0
+    };
+    this.markets.set(id, market);
+    return { market };
+  }
+
+  getMarket(marketId: string): PredictionMarket | undefined {
+    return this.markets.get(marketId);
+  }
+
+  getAllMarkets(): PredictionMarket[] {
+    return Array.from(this.markets.values());
+  }
+
+  getOpenMarkets(): PredictionMarket[] {
+    return this.getAllMarkets().filter(m => m.status === 'open');
+  }
+
+  // Shares an account holds in each outcome
+  getPosition(marketId: string, accountId: string): number[] {
+    const market = this.markets.get(marketId);
+    if (!market) return [];
+    return market.positions[accountId] ? [...market.positions[accountId]] : market.outcomes.map(() => 0);
+  }
+
+  // Implied probability of each outcome
+  getPrices(marketId: string): number[] {
+    const market = this.markets.get(marketId);
+    if (!market) return [];
+    const weights = this.weights(market.shares, market.liquidity);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+  }
+
+  // $CLAW it costs to buy `shares` of an outcome (negative shares: what a sale returns, as a negative number), before fees
+  quote(marketId: string, outcome: number, shares: number): number {
+    const market = this.markets.get(marketId);
+    if (!market || !(outcome >= 0 && outcome < market.outcomes.length)) return NaN;
+    const after = [...market.shares];
+    after[outcome] += shares;
+    return this.cost(after, market.liquidity) - this.cost(market.shares, market.liquidity);
+  }
+
+  buy(marketId: string, accountId: string, outcome: number, shares: number): TradeResult {
+    const error = this.validateTrade(marketId, outcome, shares);
+    if (error) return { trade: null, error };
+
+    const market = this.markets.get(marketId)!;
+    const cost = Math.ceil(this.quote(marketId, outcome, shares) * 100) / 100;
+    const fee = Math.ceil(cost * this.FEE_RATE * 100) / 100;
+    if (this.tokenSystem.getBalance(accountId) < cost + fee) return { trade: null, error: 'insufficient $CLAW' };
+
+    this.tokenSystem.transfer(accountId, PredictionMarketSystem.MARKET_ACCOUNT, cost, `Bought ${shares} "${market.outcomes[outcome]}" in ${market.id}`);
+    if (fee > 0) this.tokenSystem.transfer(accountId, market.creator, fee, `Market fee ${market.id}`);
+
+    market.shares[outcome] += shares;
+    market.pool += cost;
+    market.volume += cost;
+    const position = market.positions[accountId] ?? market.outcomes.map(() => 0);
+    position[outcome] += shares;
+    market.positions[accountId] = position;
+    return { trade: { market, accountId, outcome, shares, cost, fee } };
+  }
+
+  sell(marketId: string, accountId: string, outcome: number, shares: number): TradeResult {
+    const error = this.validateTrade(marketId, outcome, shares);
+    if (error) return { trade: null, error };
+
+    const market = this.markets.get(marketId)!;
+    const held = market.positions[accountId]?.[outcome] ?? 0;
+    if (held < shares) return { trade: null, error: 'not enough shares' };
+
+    // Round proceeds down so the pool always covers the remaining shares
+    const proceeds = Math.floor(-this.quote(marketId, outcome, -shares) * 100) / 100;
+    const fee = Math.ceil(proceeds * this.FEE_RATE * 100) / 100;
+    this.tokenSystem.transfer(PredictionMarketSystem.MARKET_ACCOUNT, accountId, proceeds, `Sold ${shares} "${market.outcomes[outcome]}" in ${market.id}`);
+    if (fee > 0) this.tokenSystem.transfer(accountId, market.creator, Math.min(fee, this.tokenSystem.getBalance(accountId)), `Market fee ${market.id}`);
+
+    market.shares[outcome] -= shares;
+    market.pool -= proceeds;
+    market.volume += proceeds;
+    market.positions[accountId][outcome] -= shares;
+    return { trade: { market, accountId, outcome, shares: -shares, cost: proceeds, fee } };
+  }
+
+  // Called once per tick: resolve every market whose resolution day has come
+  update(currentDay: number, resolve: QuestionResolver): MarketResolution[] {
+    const resolutions: MarketResolution[] = [];
+
+    for (const market of this.getOpenMarkets()) {
+      if (currentDay < market.resolutionDay) continue;
+
+      const winner = resolve(market);
+      let paidOut = 0;
+      for (const [accountId, position] of Object.entries(market.positions)) {
+        const payout = position[winner];
+        if (!(payout > 0)) continue;
+        this.tokenSystem.transfer(PredictionMarketSystem.MARKET_ACCOUNT, accountId, payout, `Payout ${market.id}: ${market.outcomes[winner]}`);
+        paidOut += payout;
+      }
+
+      // Cap at the account balance so float drift in the pool can't fail the refund
+      const leftover = Math.max(0, Math.min(market.pool - paidOut, this.tokenSystem.getBalance(PredictionMarketSystem.MARKET_ACCOUNT)));
+      if (leftover > 0) {
+        this.tokenSystem.transfer(PredictionMarketSystem.MARKET_ACCOUNT, market.creator, leftover, `Market maker refund ${market.id}`);
+      }
+      market.pool = 0;
+      market.status = 'resolved';
+      market.winner = winner;
+      resolutions.push({ market, winner, paidOut, returnedToCreator: leftover });
+    }
+
+    if (resolutions.length > 0) this.pruneResolved();
+    return resolutions;
+  }
+
+  // $CLAW held for open markets
+  getLockedTotal(): number {
+    return this.getAllMarkets().reduce((sum, m) => sum + m.pool, 0);
+  }
+
+  private validateTrade(marketId: string, outcome: number, shares: number): string | null {
+    const market = this.markets.get(marketId);
+    if (!market) return 'no such market';
+    if (market.status !== 'open') return 'market is closed';
+    if (!Number.isInteger(outcome) || outcome < 0 || outcome >= market.outcomes.length) return 'invalid outcome';
+    if (!Number.isFinite(shares) || shares <= 0) return 'shares must be positive';
+    return null;
+  }
+
+  // exp(q_i / b), shifted by the largest exponent so big positions don't overflow
+  private weights(shares: number[], liquidity: number): number[] {
+    const top = Math.max(...shares) / liquidity;
+    return shares.map(q => Math.exp(q / liquidity - top));
+  }
+
+  // LMSR cost function C(q) = b * ln(sum exp(q_i / b))
+  private cost(shares: number[], liquidity: number): number {
+    const top = Math.max(...shares) / liquidity;
+    const sum = this.weights(shares, liquidity).reduce((total, w) => total + w, 0);
+    return liquidity * (top + Math.log(sum));
+  }
+
+  private pruneResolved(): void {
+    const resolved = this.getAllMarkets().filter(m => m.status === 'resolved');
+    for (const market of resolved.slice(0, Math.max(0, resolved.length - this.KEEP_RESOLVED))) {
+      this.markets.delete(market.id);
+    }
+  }
+
+  public serialize(): any {
+    return {
+      markets: Array.from(this.markets.entries()),
+      marketIdCounter: this.marketIdCounter
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.markets = new Map(data.markets || []);
+    this.marketIdCounter = data.marketIdCounter || 0;
+  }
+}
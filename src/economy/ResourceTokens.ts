@@ -0,0 +1,331 @@
+// Resource Tokens for ClawCiv
+// Agents and organizations launch their own fungible tokens ($WHEAT, $BREAD) backed by a production recipe.
+// Minting consumes the recipe's resources and burns its input tokens, so supply chains are burn-to-craft.
+
+import { Random } from '../engine/Random.ts';
+import { TokenAccount } from './Token.ts';
+import { Ledger } from './Ledger.ts';
+
+export type RecipeResource = 'food' | 'energy' | 'materials' | 'knowledge' | 'socialCapital';
+
+// What it costs to mint one unit
+export interface ProductionRecipe {
+  resources?: { [resource in RecipeResource]?: number }; // Taken from the minter's stockpile
+  tokens?: { [symbol: string]: number };                  // Other resource tokens burned by the minter
+  requiredSkill?: string;                                  // Agents need this skill to mint
+}
+
+export interface ResourceTokenLaunch {
+  symbol: string;          // 2-10 capitals or digits, e.g. 'WHEAT'
+  name: string;
+  icon?: string;
+  recipe: ProductionRecipe;
+  maxSupply: number;       // Cap on tokens in circulation
+  maxMintPerDay?: number;  // Cap on tokens minted per day across all minters
+  mintAuthority?: string[]; // Accounts allowed to mint; the issuer alone when omitted
+}
+
+export interface ResourceToken {
+  symbol: string;
+  name: string;
+  icon: string;
+  issuer: string;          // Agent or organization that launched it
+  launchedDay: number;
+  recipe: ProductionRecipe;
+  maxSupply: number;
+  maxMintPerDay: number | null;
+  mintAuthority: string[];
+  totalSupply: number;     // In circulation
+  totalMinted: number;
+  totalBurned: number;
+  mintedToday: number;
+  mintDay: number;
+}
+
+// The agent or organization a mint draws its resources and skills from
+export interface TokenMinter {
+  resources: { [resource in RecipeResource]?: number };
+  skills?: string[];
+}
+
+export interface LaunchResult {
+  token: ResourceToken | null;
+  error?: string;
+}
+
+export interface MintResult {
+  minted: number;
+  error?: string;
+}
+
+const RECIPE_RESOURCES: RecipeResource[] = ['food', 'energy', 'materials', 'knowledge', 'socialCapital'];
+
+export class ResourceTokenRegistry {
+  private random: Random;
+  private tokenSystem: Ledger;
+  private tokens: Map<string, ResourceToken> = new Map();
+  private accounts: Map<string, Map<string, TokenAccount>> = new Map(); // symbol -> holder -> account
+
+  private readonly LAUNCH_FEE = 50; // $CLAW, spent through TokenSystem.spendTokens
+  private readonly MAX_TRANSACTIONS = 50; // Per account, oldest dropped first
+
+  constructor(tokenSystem: Ledger, random: Random = new Random()) {
+    this.tokenSystem = tokenSystem;
+    this.random = random;
+  }
+
+  getLaunchFee(): number {
+    return this.LAUNCH_FEE;
+  }
+
+  // Returns why a launch would be rejected, or null if it can go ahead
+  validateLaunch(issuer: string, launch: ResourceTokenLaunch): string | null {
+    if (!launch || typeof launch !== 'object') return 'launch must be an object';
+    if (!/^[A-Z][A-Z0-9]{1,9}$/.test(launch.symbol || '')) return 'symbol must be 2-10 capital letters or digits';
+    if (launch.symbol === 'CLAW' || this.tokens.has(launch.symbol)) return `symbol ${launch.symbol} is taken`;
+    if (typeof launch.name !== 'string' || launch.name.trim() === '') return 'name is required';
+    if (!Number.isInteger(launch.maxSupply) || launch.maxSupply < 1) return 'maxSupply must be a positive whole number';
+    if (launch.maxMintPerDay !== undefined && (!Number.isInteger(launch.maxMintPerDay) || launch.maxMintPerDay < 1)) {
+      return 'maxMintPerDay must be a positive whole number';
+    }
+    if (launch.mintAuthority !== undefined && (!Array.isArray(launch.mintAuthority) || launch.mintAuthority.length === 0)) {
+      return 'mintAuthority must list at least one account';
+    }
+
+    // Every token must cost something to make, or it's just printing money
+    const recipe = launch.recipe || {};
+    const resources = Object.entries(recipe.resources || {});
+    const inputs = Object.entries(recipe.tokens || {});
+    if (resources.length === 0 && inputs.length === 0) return 'recipe must consume resources or tokens';
+    for (const [resource, amount] of resources) {
+      if (!RECIPE_RESOURCES.includes(resource as RecipeResource)) return `unknown resource ${resource}`;
+      if (!(typeof amount === 'number' && amount > 0)) return `recipe amount for ${resource} must be positive`;
+    }
+    for (const [symbol, amount] of inputs) {
+      if (!this.tokens.has(symbol)) return `recipe input ${symbol} is not a launched token`;
+      if (!(Number.isInteger(amount) && amount > 0)) return `recipe amount for ${symbol} must be a positive whole number`;
+    }
+
+    if (this.tokenSystem.getBalance(issuer) < this.LAUNCH_FEE) return `launch costs ${this.LAUNCH_FEE} $CLAW`;
+    return null;
+  }
+
+  launch(issuer: string, launch: ResourceTokenLaunch, day: number): LaunchResult {
+    const error = this.validateLaunch(issuer, launch);
+    if (error) return { token: null, error };
+    if (!this.tokenSystem.spendTokens(issuer, this.LAUNCH_FEE, `Launch $${launch.symbol}`)) {
+      return { token: null, error: `launch costs ${this.LAUNCH_FEE} $CLAW` };
+    }
+
+    const token: ResourceToken = {
+      symbol: launch.symbol,
+      name: launch.name.trim(),
+      icon: launch.icon || '🪙',
+      issuer,
+      launchedDay: day,
+      recipe: {
+        resources: { ...(launch.recipe.resources || {}) },
+        tokens: { ...(launch.recipe.tokens || {}) },
+        requiredSkill: launch.recipe.requiredSkill
+      },
+      maxSupply: launch.maxSupply,
+      maxMintPerDay: launch.maxMintPerDay ?? null,
+      mintAuthority: launch.mintAuthority ? [...new Set(launch.mintAuthority)] : [issuer],
+      totalSupply: 0,
+      totalMinted: 0,
+      totalBurned: 0,
+      mintedToday: 0,
+      mintDay: day
+    };
+
+    this.tokens.set(token.symbol, token);
+    this.accounts.set(token.symbol, new Map());
+    return { token };
+  }
+
+  getToken(symbol: string): ResourceToken | undefined {
+    return this.tokens.get(symbol);
+  }
+
+  getAllTokens(): ResourceToken[] {
+    return Array.from(this.tokens.values());
+  }
+
+  getTokensByIssuer(issuer: string): ResourceToken[] {
+    return this.getAllTokens().filter(t => t.issuer === issuer);
+  }
+
+  // Only the issuer can change who may mint
+  setMintAuthority(symbol: string, issuer: string, accounts: string[]): boolean {
+    const token = this.tokens.get(symbol);
+    if (!token || token.issuer !== issuer || accounts.length === 0) return false;
+    token.mintAuthority = [...new Set(accounts)];
+    return true;
+  }
+
+  canMint(symbol: string, accountId: string): boolean {
+    return this.tokens.get(symbol)?.mintAuthority.includes(accountId) ?? false;
+  }
+
+  // Largest amount `minter` could mint right now, limited by caps, resources and input tokens
+  getMintable(symbol: string, minterId: string, minter: TokenMinter, day: number): number {
+    const token = this.tokens.get(symbol);
+    if (!token || !token.mintAuthority.includes(minterId)) return 0;
+    if (token.recipe.requiredSkill && !minter.skills?.includes(token.recipe.requiredSkill)) return 0;
+
+    let mintable = token.maxSupply - token.totalSupply;
+    if (token.maxMintPerDay !== null) {
+      const mintedToday = token.mintDay === day ? token.mintedToday : 0;
+      mintable = Math.min(mintable, token.maxMintPerDay - mintedToday);
+    }
+    for (const [resource, amount] of Object.entries(token.recipe.resources || {}) as [RecipeResource, number][]) {
+      mintable = Math.min(mintable, Math.floor((minter.resources[resource] || 0) / amount));
+    }
+    for (const [input, amount] of Object.entries(token.recipe.tokens || {})) {
+      mintable = Math.min(mintable, Math.floor(this.getBalance(input, minterId) / amount));
+    }
+    return Math.max(0, mintable);
+  }
+
+  // Mint by following the recipe: consume resources, burn input tokens, credit the minter
+  mint(symbol: string, minterId: string, minter: TokenMinter, amount: number, day: number): MintResult {
+    const token = this.tokens.get(symbol);
+    if (!token) return { minted: 0, error: `unknown token ${symbol}` };
+    if (!Number.isInteger(amount) || amount < 1) return { minted: 0, error: 'amount must be a positive whole number' };
+    if (!token.mintAuthority.includes(minterId)) return { minted: 0, error: `not a mint authority for ${symbol}` };
+    if (token.recipe.requiredSkill && !minter.skills?.includes(token.recipe.requiredSkill)) {
+      return { minted: 0, error: `requires ${token.recipe.requiredSkill}` };
+    }
+
+    if (amount > this.getMintable(symbol, minterId, minter, day)) {
+      return { minted: 0, error: 'supply cap reached or recipe inputs missing' };
+    }
+
+    for (const [resource, perUnit] of Object.entries(token.recipe.resources || {}) as [RecipeResource, number][]) {
+      minter.resources[resource] = (minter.resources[resource] || 0) - perUnit * amount;
+    }
+    for (const [input, perUnit] of Object.entries(token.recipe.tokens || {})) {
+      this.burn(input, minterId, perUnit * amount, `Crafted into $${symbol}`);
+    }
+
+    const account = this.getOrOpenAccount(symbol, minterId);
+    account.balance += amount;
+    account.totalEarned += amount;
+    this.record(account, { from: 'MINT', to: minterId, amount, reason: 'Minted' }, `mint-${this.random.now()}-${minterId}`);
+
+    if (token.mintDay !== day) {
+      token.mintDay = day;
+      token.mintedToday = 0;
+    }
+    token.totalSupply += amount;
+    token.totalMinted += amount;
+    token.mintedToday += amount;
+    return { minted: amount };
+  }
+
+  getBalance(symbol: string, accountId: string): number {
+    return this.accounts.get(symbol)?.get(accountId)?.balance || 0;
+  }
+
+  // Every resource token balance an account holds
+  getBalances(accountId: string): { [symbol: string]: number } {
+    const balances: { [symbol: string]: number } = {};
+    for (const [symbol, holders] of this.accounts) {
+      const balance = holders.get(accountId)?.balance || 0;
+      if (balance > 0) balances[symbol] = balance;
+    }
+    return balances;
+  }
+
+  getAccount(symbol: string, accountId: string): TokenAccount | undefined {
+    return this.accounts.get(symbol)?.get(accountId);
+  }
+
+  getHolders(symbol: string): { accountId: string; balance: number }[] {
+    return Array.from(this.accounts.get(symbol)?.values() || [])
+      .filter(a => a.balance > 0)
+      .map(a => ({ accountId: a.agentId, balance: a.balance }))
+      .sort((a, b) => b.balance - a.balance);
+  }
+
+  transfer(symbol: string, from: string, to: string, amount: number, reason: string = 'Transfer'): boolean {
+    const holders = this.accounts.get(symbol);
+    const fromAccount = holders?.get(from);
+    if (!holders || !fromAccount || from === to) return false;
+    if (!Number.isInteger(amount) || amount < 1 || fromAccount.balance < amount) return false;
+
+    const toAccount = this.getOrOpenAccount(symbol, to);
+    fromAccount.balance -= amount;
+    fromAccount.totalSpent += amount;
+    toAccount.balance += amount;
+    toAccount.totalEarned += amount;
+
+    const transaction = { from, to, amount, reason };
+    this.record(fromAccount, transaction, `tx-${this.random.now()}-${from}-${to}`);
+    this.record(toAccount, transaction, `tx-${this.random.now()}-${to}-${from}`);
+    return true;
+  }
+
+  // Destroy tokens, e.g. when a crafting recipe consumes them
+  burn(symbol: string, accountId: string, amount: number, reason: string): boolean {
+    const token = this.tokens.get(symbol);
+    const account = this.accounts.get(symbol)?.get(accountId);
+    if (!token || !account || amount <= 0 || account.balance < amount) return false;
+
+    account.balance -= amount;
+    account.totalSpent += amount;
+    token.totalSupply -= amount;
+    token.totalBurned += amount;
+    this.record(account, { from: accountId, to: 'BURN', amount, reason }, `burn-${this.random.now()}-${accountId}`);
+    return true;
+  }
+
+  // Per-token conservation: balances add up to supply, and supply is minted minus burned
+  checkInvariants(): string[] {
+    const violations: string[] = [];
+    for (const token of this.tokens.values()) {
+      let held = 0;
+      for (const [id, account] of this.accounts.get(token.symbol) || []) {
+        if (!(account.balance >= 0)) violations.push(`$${token.symbol} account ${id} has balance ${account.balance}`);
+        held += account.balance;
+      }
+      if (held !== token.totalSupply) {
+        violations.push(`$${token.symbol} accounts hold ${held} but supply is ${token.totalSupply}`);
+      }
+      if (token.totalSupply !== token.totalMinted - token.totalBurned) {
+        violations.push(`$${token.symbol} supply ${token.totalSupply} differs from minted ${token.totalMinted} minus burned ${token.totalBurned}`);
+      }
+      if (token.totalSupply > token.maxSupply) {
+        violations.push(`$${token.symbol} supply ${token.totalSupply} exceeds its cap ${token.maxSupply}`);
+      }
+    }
+    return violations;
+  }
+
+  private getOrOpenAccount(symbol: string, accountId: string): TokenAccount {
+    const holders = this.accounts.get(symbol)!;
+    let account = holders.get(accountId);
+    if (!account) {
+      account = { agentId: accountId, balance: 0, totalEarned: 0, totalSpent: 0, transactions: [] };
+      holders.set(accountId, account);
+    }
+    return account;
+  }
+
+  private record(account: TokenAccount, transaction: { from: string; to: string; amount: number; reason: string }, id: string): void {
+    account.transactions.push({ id, ...transaction, timestamp: this.random.now() });
+    if (account.transactions.length > this.MAX_TRANSACTIONS) account.transactions.shift();
+  }
+
+  public serialize(): any {
+    return {
+      tokens: Array.from(this.tokens.entries()),
+      accounts: Array.from(this.accounts.entries()).map(([symbol, holders]) => [symbol, Array.from(holders.entries())])
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.tokens = new Map(data.tokens || []);
+    this.accounts = new Map((data.accounts || []).map(([symbol, holders]: [string, any]) => [symbol, new Map(holders)]));
+  }
+}
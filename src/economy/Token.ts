@@ -1,8 +1,13 @@
 // ClawCiv Token Economy
 // $CLAW token system for agent and human interaction
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+import type { Ledger, LedgerEntry } from './Ledger.ts';
+
 export interface TokenAccount {
   agentId: string;
+  tribe?: string; // Set for agent accounts; rewards fall back to this tribe's treasury
   balance: number;
   totalEarned: number;
   totalSpent: number;
@@ -25,15 +30,29 @@ export interface TribeTreasury {
   totalTaxCollected: number;
 }
 
-export class TokenSystem {
-  private accounts: Map<string, TokenAccount>;
-  private treasuries: Map<string, TribeTreasury>;
+// 'fixed': the whole supply exists at genesis and rewards are paid out of the reward pool.
+// 'inflationary': the original behaviour, where every reward mints new $CLAW.
+export type SupplyMode = 'fixed' | 'inflationary';
+
+// The in-memory ledger. Every balance movement also goes through record(), which backends can override.
+export class TokenSystem implements Ledger {
+  private random: Random;
+  protected accounts: Map<string, TokenAccount>;
+  protected treasuries: Map<string, TribeTreasury>;
   private totalSupply: number;
-  private readonly TRIBES = ['Alpha', 'Beta', 'Gamma'];
+  private totalBurned: number = 0;
+  private supplyMode: SupplyMode;
+  private world: WorldConfig;
   private readonly INITIAL_SUPPLY = 1000000; // 1 million $CLAW
   private readonly AGENT_STARTING_BALANCE = 100;
-
-  constructor() {
+  private readonly TREASURY_STARTING_BALANCE = 10000;
+  static readonly REWARD_POOL = 'REWARD_POOL';
+  static readonly HUMAN_PREFIX = 'human:'; // Human accounts live in their own namespace
+
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig(), supplyMode: SupplyMode = 'fixed') {
+    this.random = random;
+    this.world = world;
+    this.supplyMode = supplyMode;
     this.accounts = new Map();
     this.treasuries = new Map();
     this.totalSupply = 0;
@@ -42,23 +61,47 @@ export class TokenSystem {
 
   private initialize(): void {
     // Initialize tribe treasuries
-    for (const tribe of this.TRIBES) {
+    for (const tribe of this.world.tribes) {
       this.treasuries.set(tribe, {
         tribe,
-        balance: 10000, // Each tribe starts with 10,000 $CLAW
-        members: 50,
+        balance: this.TREASURY_STARTING_BALANCE,
+        members: this.world.agentsPerTribe,
         totalTaxCollected: 0
       });
-      this.totalSupply += 10000;
+      this.totalSupply += this.TREASURY_STARTING_BALANCE;
     }
+
+    // Genesis: everything not held by treasuries goes to the reward pool. Nothing is minted after this.
+    if (this.supplyMode === 'fixed') {
+      const pool = Math.max(0, this.INITIAL_SUPPLY - this.totalSupply);
+      this.openAccount(TokenSystem.REWARD_POOL);
+      this.accounts.get(TokenSystem.REWARD_POOL)!.balance = pool;
+      this.totalSupply += pool;
+    }
+  }
+
+  // Called after every movement of $CLAW; genesis balances are not recorded
+  protected record(_entry: LedgerEntry): void {}
+
+  public getSupplyMode(): SupplyMode {
+    return this.supplyMode;
   }
 
   public createAgentAccount(agentId: string, tribe: string): void {
-    if (this.accounts.has(agentId)) return;
+    if (this.accounts.has(agentId) || agentId.startsWith(TokenSystem.HUMAN_PREFIX)) return;
+
+    if (this.supplyMode === 'fixed') {
+      // The starting grant comes out of the reward pool
+      this.openAccount(agentId);
+      this.accounts.get(agentId)!.tribe = tribe;
+      this.payReward(agentId, this.AGENT_STARTING_BALANCE, 'Initial agent grant');
+      return;
+    }
 
     // Mint initial tokens for agent
     const account: TokenAccount = {
       agentId,
+      tribe,
       balance: this.AGENT_STARTING_BALANCE,
       totalEarned: this.AGENT_STARTING_BALANCE,
       totalSpent: 0,
@@ -67,16 +110,53 @@ export class TokenSystem {
 
     // Record initial mint
     account.transactions.push({
-      id: `mint-${Date.now()}-${agentId}`,
+      id: `mint-${this.random.now()}-${agentId}`,
       from: 'SYSTEM',
       to: agentId,
       amount: this.AGENT_STARTING_BALANCE,
       reason: 'Initial agent grant',
-      timestamp: Date.now()
+      timestamp: this.random.now()
     });
 
     this.accounts.set(agentId, account);
     this.totalSupply += this.AGENT_STARTING_BALANCE;
+    this.record({ kind: 'mint', from: 'SYSTEM', to: agentId, amount: this.AGENT_STARTING_BALANCE, reason: 'Initial agent grant' });
+  }
+
+  // Open an empty account (organizations, escrow pools) - nothing is minted. Human ids go through openHumanAccount.
+  public openAccount(accountId: string): void {
+    if (this.accounts.has(accountId) || accountId.startsWith(TokenSystem.HUMAN_PREFIX)) return;
+    this.createEmptyAccount(accountId);
+  }
+
+  // Open an empty account for a human player and return its id. Human ids are prefixed so they can never
+  // collide with an agent, organization or pool account.
+  public openHumanAccount(humanId: string): string {
+    const accountId = TokenSystem.humanAccountId(humanId);
+    if (!this.accounts.has(accountId)) this.createEmptyAccount(accountId);
+    return accountId;
+  }
+
+  public isHumanAccount(accountId: string): boolean {
+    return accountId.startsWith(TokenSystem.HUMAN_PREFIX) && this.accounts.has(accountId);
+  }
+
+  public getHumanAccounts(): TokenAccount[] {
+    return Array.from(this.accounts.values()).filter(account => account.agentId.startsWith(TokenSystem.HUMAN_PREFIX));
+  }
+
+  static humanAccountId(humanId: string): string {
+    return humanId.startsWith(TokenSystem.HUMAN_PREFIX) ? humanId : `${TokenSystem.HUMAN_PREFIX}${humanId}`;
+  }
+
+  private createEmptyAccount(accountId: string): void {
+    this.accounts.set(accountId, {
+      agentId: accountId,
+      balance: 0,
+      totalEarned: 0,
+      totalSpent: 0,
+      transactions: []
+    });
   }
 
   public getBalance(agentId: string): number {
@@ -97,39 +177,77 @@ export class TokenSystem {
     toAccount.totalEarned += amount;
 
     const transaction: TokenTransaction = {
-      id: `tx-${Date.now()}-${from}-${to}`,
+      id: `tx-${this.random.now()}-${from}-${to}`,
       from,
       to,
       amount,
       reason,
-      timestamp: Date.now()
+      timestamp: this.random.now()
     };
 
     fromAccount.transactions.push(transaction);
     toAccount.transactions.push({
       ...transaction,
-      id: `tx-${Date.now()}-${to}-${from}`
+      id: `tx-${this.random.now()}-${to}-${from}`
     });
+    this.record({ kind: 'transfer', from, to, amount, reason });
 
     return true;
   }
 
-  public mint(agentId: string, amount: number, reason: string): void {
+  // Only possible in inflationary mode; a fixed supply is created once at genesis
+  public mint(agentId: string, amount: number, reason: string): boolean {
     const account = this.accounts.get(agentId);
-    if (!account) return;
+    if (!account || this.supplyMode === 'fixed') return false;
 
     account.balance += amount;
     account.totalEarned += amount;
     this.totalSupply += amount;
 
     account.transactions.push({
-      id: `mint-${Date.now()}-${agentId}`,
+      id: `mint-${this.random.now()}-${agentId}`,
       from: 'SYSTEM',
       to: agentId,
       amount,
       reason,
-      timestamp: Date.now()
+      timestamp: this.random.now()
+    });
+    this.record({ kind: 'mint', from: 'SYSTEM', to: agentId, amount, reason });
+    return true;
+  }
+
+  // Pay a reward out of the reward pool, topping up from the agent's tribe treasury when the pool runs dry.
+  // Returns the amount actually paid, which may be less than asked once both are empty.
+  public payReward(agentId: string, amount: number, reason: string): number {
+    const account = this.accounts.get(agentId);
+    const pool = this.accounts.get(TokenSystem.REWARD_POOL);
+    if (!account || !pool || amount <= 0) return 0;
+
+    const fromPool = Math.min(amount, pool.balance);
+    const treasury = account.tribe ? this.treasuries.get(account.tribe) : undefined;
+    const fromTreasury = treasury ? Math.min(amount - fromPool, treasury.balance) : 0;
+    const paid = fromPool + fromTreasury;
+    if (paid <= 0) return 0;
+
+    // The pool's side isn't logged: it pays out on almost every action
+    pool.balance -= fromPool;
+    pool.totalSpent += fromPool;
+    if (treasury) treasury.balance -= fromTreasury;
+
+    account.balance += paid;
+    account.totalEarned += paid;
+    account.transactions.push({
+      id: `reward-${this.random.now()}-${agentId}`,
+      from: fromTreasury > 0 ? `${account.tribe}_TREASURY` : TokenSystem.REWARD_POOL,
+      to: agentId,
+      amount: paid,
+      reason,
+      timestamp: this.random.now()
     });
+    if (fromPool > 0) this.record({ kind: 'transfer', from: TokenSystem.REWARD_POOL, to: agentId, amount: fromPool, reason });
+    if (fromTreasury > 0) this.record({ kind: 'transfer', from: `${account.tribe}_TREASURY`, to: agentId, amount: fromTreasury, reason });
+
+    return paid;
   }
 
   public burn(agentId: string, amount: number, reason: string): boolean {
@@ -138,51 +256,135 @@ export class TokenSystem {
 
     account.balance -= amount;
     this.totalSupply -= amount;
+    this.totalBurned += amount;
 
     account.transactions.push({
-      id: `burn-${Date.now()}-${agentId}`,
+      id: `burn-${this.random.now()}-${agentId}`,
       from: agentId,
       to: 'SYSTEM',
       amount,
       reason,
-      timestamp: Date.now()
+      timestamp: this.random.now()
+    });
+    this.record({ kind: 'burn', from: agentId, to: 'SYSTEM', amount, reason });
+
+    return true;
+  }
+
+  // Move $CLAW from an account into a tribe treasury (rent, fees); all or nothing like transfer
+  public payTreasury(from: string, tribe: string, amount: number, reason: string): boolean {
+    const account = this.accounts.get(from);
+    const treasury = this.treasuries.get(tribe);
+    if (!account || !treasury) return false;
+    if (amount <= 0 || account.balance < amount) return false;
+
+    account.balance -= amount;
+    account.totalSpent += amount;
+    treasury.balance += amount;
+
+    account.transactions.push({
+      id: `tx-${this.random.now()}-${from}-${tribe}`,
+      from,
+      to: `${tribe}_TREASURY`,
+      amount,
+      reason,
+      timestamp: this.random.now()
     });
+    this.record({ kind: 'transfer', from, to: `${tribe}_TREASURY`, amount, reason });
 
     return true;
   }
 
-  public collectTax(tribe: string): number {
+  // Take up to `amount` from an account as tax for a tribe's treasury; returns what was collected
+  public collectTax(from: string, tribe: string, amount: number, reason: string): number {
+    const account = this.accounts.get(from);
     const treasury = this.treasuries.get(tribe);
-    if (!treasury) return 0;
-
-    // Collect 5% tax from all tribe members' earnings
-    const TAX_RATE = 0.05;
-    let totalCollected = 0;
-
-    for (const [agentId, account] of this.accounts) {
-      // Get agent's tribe from agentId (simplified - in real system would look up agent)
-      // For now, just collect from everyone based on recent earnings
-      if (account.totalEarned > 0) {
-        const tax = Math.floor(account.balance * TAX_RATE * 0.01); // Small percentage of current balance
-        if (tax > 0 && account.balance >= tax) {
-          account.balance -= tax;
-          treasury.balance += tax;
-          treasury.totalTaxCollected += tax;
-          totalCollected += tax;
-
-          account.transactions.push({
-            id: `tax-${Date.now()}-${agentId}`,
-            from: agentId,
-            to: `${tribe}_TREASURY`,
-            amount: tax,
-            reason: `Tribe tax (${tribe})`,
-            timestamp: Date.now()
-          });
-        }
-      }
+    if (!account || !treasury || !(amount > 0)) return 0;
+
+    const tax = Math.min(amount, account.balance);
+    if (tax <= 0) return 0;
+
+    account.balance -= tax;
+    account.totalSpent += tax;
+    treasury.balance += tax;
+    treasury.totalTaxCollected += tax;
+
+    account.transactions.push({
+      id: `tax-${this.random.now()}-${from}`,
+      from,
+      to: `${tribe}_TREASURY`,
+      amount: tax,
+      reason,
+      timestamp: this.random.now()
+    });
+    this.record({ kind: 'transfer', from, to: `${tribe}_TREASURY`, amount: tax, reason });
+
+    return tax;
+  }
+
+  // Move up to `amount` between tribe treasuries (tariffs); returns what was moved
+  public transferTreasury(fromTribe: string, toTribe: string, amount: number, reason: string): number {
+    const from = this.treasuries.get(fromTribe);
+    const to = this.treasuries.get(toTribe);
+    if (!from || !to || fromTribe === toTribe || !(amount > 0)) return 0;
+
+    const moved = Math.min(amount, from.balance);
+    if (moved <= 0) return 0;
+
+    from.balance -= moved;
+    to.balance += moved;
+    this.record({ kind: 'transfer', from: `${fromTribe}_TREASURY`, to: `${toTribe}_TREASURY`, amount: moved, reason });
+
+    return moved;
+  }
+
+  // Pay up to `amount` from a tribe treasury into an account (welfare, grants, wages); returns what was paid
+  public payFromTreasury(tribe: string, to: string, amount: number, reason: string): number {
+    const treasury = this.treasuries.get(tribe);
+    const account = this.accounts.get(to);
+    if (!treasury || !account || !(amount > 0)) return 0;
+
+    const paid = Math.min(amount, treasury.balance);
+    if (paid <= 0) return 0;
+
+    treasury.balance -= paid;
+    account.balance += paid;
+    account.totalEarned += paid;
+    account.transactions.push({
+      id: `treasury-${this.random.now()}-${to}`,
+      from: `${tribe}_TREASURY`,
+      to,
+      amount: paid,
+      reason,
+      timestamp: this.random.now()
+    });
+    this.record({ kind: 'transfer', from: `${tribe}_TREASURY`, to, amount: paid, reason });
+
+    return paid;
+  }
+
+  // Spend up to `amount` of a treasury outside the ledger (mercenary wages, festivals). With a fixed supply
+  // the $CLAW is recycled into the reward pool; otherwise it is burned. Returns what was spent.
+  public spendTreasury(tribe: string, amount: number, reason: string): number {
+    const treasury = this.treasuries.get(tribe);
+    if (!treasury || !(amount > 0)) return 0;
+
+    const spent = Math.min(amount, treasury.balance);
+    if (spent <= 0) return 0;
+
+    treasury.balance -= spent;
+    if (this.supplyMode === 'fixed') {
+      const pool = this.accounts.get(TokenSystem.REWARD_POOL)!;
+      pool.balance += spent;
+      pool.totalEarned += spent;
+      this.record({ kind: 'transfer', from: `${tribe}_TREASURY`, to: TokenSystem.REWARD_POOL, amount: spent, reason });
+    } else {
+      this.totalSupply -= spent;
+      this.totalBurned += spent;
+      this.record({ kind: 'burn', from: `${tribe}_TREASURY`, to: 'SYSTEM', amount: spent, reason });
     }
 
-    return totalCollected;
+    return spent;
   }
 
   public getTreasuryBalance(tribe: string): number {
@@ -193,6 +395,40 @@ export class TokenSystem {
     return this.totalSupply;
   }
 
+  public getTotalBurned(): number {
+    return this.totalBurned;
+  }
+
+  public getRewardPoolBalance(): number {
+    return this.getBalance(TokenSystem.REWARD_POOL);
+  }
+
+  // Conservation check: every $CLAW in existence sits in exactly one account or treasury.
+  // Returns readable violations; empty when the ledger balances.
+  public checkInvariants(): string[] {
+    const violations: string[] = [];
+    let held = 0;
+
+    for (const [id, account] of this.accounts) {
+      if (!(account.balance >= 0)) violations.push(`account ${id} has balance ${account.balance}`);
+      held += account.balance;
+    }
+    for (const [tribe, treasury] of this.treasuries) {
+      if (!(treasury.balance >= 0)) violations.push(`${tribe} treasury has balance ${treasury.balance}`);
+      held += treasury.balance;
+    }
+
+    // Rewards can be fractional, so allow for floating point drift
+    if (Math.abs(held - this.totalSupply) > 1e-6 * Math.max(1, this.totalSupply)) {
+      violations.push(`accounts and treasuries hold ${held} but total supply is ${this.totalSupply}`);
+    }
+    if (this.supplyMode === 'fixed' && Math.abs(this.totalSupply + this.totalBurned - this.INITIAL_SUPPLY) > 1e-6 * this.INITIAL_SUPPLY) {
+      violations.push(`supply ${this.totalSupply} plus burned ${this.totalBurned} differs from the genesis supply ${this.INITIAL_SUPPLY}`);
+    }
+
+    return violations;
+  }
+
   public getAccount(agentId: string): TokenAccount | undefined {
     return this.accounts.get(agentId);
   }
@@ -201,13 +437,19 @@ export class TokenSystem {
     return this.treasuries.get(tribe);
   }
 
-  // Agent earns tokens through actions
-  public earnTokens(agentId: string, amount: number, action: string): void {
-    this.mint(agentId, amount, `Earned from ${action}`);
+  // Agent earns tokens through actions. Returns the amount actually received.
+  public earnTokens(agentId: string, amount: number, action: string): number {
+    if (this.supplyMode === 'fixed') {
+      return this.payReward(agentId, amount, `Earned from ${action}`);
+    }
+    return this.mint(agentId, amount, `Earned from ${action}`) ? amount : 0;
   }
 
-  // Agent spends tokens on upgrades
+  // Agent spends tokens on upgrades. With a fixed supply the payment is recycled into the reward pool.
   public spendTokens(agentId: string, amount: number, purchase: string): boolean {
+    if (this.supplyMode === 'fixed') {
+      return this.transfer(agentId, TokenSystem.REWARD_POOL, amount, `Purchased: ${purchase}`);
+    }
     return this.burn(agentId, amount, `Purchased: ${purchase}`);
   }
 
@@ -239,12 +481,26 @@ export class TokenSystem {
   public serialize(): any {
     return {
       accounts: Array.from(this.accounts.entries()),
-      treasuries: Array.from(this.treasuries.entries())
+      treasuries: Array.from(this.treasuries.entries()),
+      totalSupply: this.totalSupply,
+      totalBurned: this.totalBurned,
+      supplyMode: this.supplyMode
     };
   }
 
   public deserialize(data: any): void {
     this.accounts = new Map(data.accounts);
     this.treasuries = new Map(data.treasuries);
+
+    // Older saves predate fixed supply and never stored the supply; recount it from balances
+    this.supplyMode = data.supplyMode ?? 'inflationary';
+    this.totalBurned = data.totalBurned ?? 0;
+    if (data.totalSupply !== undefined) {
+      this.totalSupply = data.totalSupply;
+    } else {
+      this.totalSupply = 0;
+      for (const account of this.accounts.values()) this.totalSupply += account.balance;
+      for (const treasury of this.treasuries.values()) this.totalSupply += treasury.balance;
+    }
   }
 }
@@ -0,0 +1,52 @@
+// Event Bus for ClawCiv
+// Systems publish typed SimEvents; the chat log, achievements, renderers and exporters subscribe
+
+import { SimEvent, SimEventMap, SimEventOf, SimEventType } from './SimEvents.ts';
+
+export type SimEventHandler<T extends SimEventType> = (event: SimEventOf<T>) => void;
+
+export class EventBus {
+  private handlers: Map<SimEventType, Set<(event: SimEvent) => void>> = new Map();
+  private wildcardHandlers: Set<(event: SimEvent) => void> = new Set();
+
+  // Listen for one event type; returns an unsubscribe function
+  subscribe<T extends SimEventType>(type: T, handler: SimEventHandler<T>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    const wrapped = handler as unknown as (event: SimEvent) => void;
+    handlers.add(wrapped);
+    return () => {
+      handlers!.delete(wrapped);
+    };
+  }
+
+  // Listen for every event, in publish order
+  subscribeAll(handler: (event: SimEvent) => void): () => void {
+    this.wildcardHandlers.add(handler);
+    return () => {
+      this.wildcardHandlers.delete(handler);
+    };
+  }
+
+  // Deliver synchronously: wildcard subscribers first, then type subscribers, each in subscription order
+  publish<T extends SimEventType>(type: T, day: number, payload: SimEventMap[T]): SimEventOf<T> {
+    const event = { type, day, ...payload } as SimEventOf<T>;
+
+    for (const handler of this.wildcardHandlers) {
+      handler(event as SimEvent);
+    }
+    for (const handler of this.handlers.get(type) || []) {
+      handler(event as SimEvent);
+    }
+
+    return event;
+  }
+
+  clear(): void {
+    this.handlers.clear();
+    this.wildcardHandlers.clear();
+  }
+}
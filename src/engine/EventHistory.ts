@@ -0,0 +1,269 @@
+// Event History for ClawCiv
+// Append-only store of every SimEvent, indexed by type, tribe and agent, with retention and compaction
+
+import { EventCategory, SimEvent, SimEventType, SIM_EVENT_CATEGORIES } from './SimEvents.ts';
+
+export interface HistoryRetention {
+  maxEvents?: number;     // Oldest events beyond this are compacted away
+  maxAgeDays?: number;    // Events older than this many days are compacted away
+  compactEvery?: number;  // Days between automatic compactions
+}
+
+export interface HistoryQuery {
+  type?: SimEventType | EventCategory | (SimEventType | EventCategory)[];
+  tribe?: string;
+  agentId?: string;
+  fromDay?: number;       // Inclusive
+  toDay?: number;         // Inclusive
+  limit?: number;         // Keep only the most recent matches
+  newestFirst?: boolean;
+}
+
+// Per-type counts for a day whose individual events were compacted
+export interface DaySummary {
+  day: number;
+  counts: { [type in SimEventType]?: number };
+}
+
+const DEFAULT_RETENTION: Required<HistoryRetention> = {
+  maxEvents: 20000,
+  maxAgeDays: Infinity,
+  compactEvery: 25
+};
+
+// Payload fields that name the tribes and agents an event involves
+const TRIBE_FIELDS = ['tribe', 'attackerTribe', 'defenderTribe', 'proposer', 'recipient'];
+const AGENT_FIELDS = ['agentId', 'attackerId', 'defenderId', 'partnerId', 'allyId', 'otherId', 'buyer', 'seller', 'issuer', 'payer', 'payee', 'lender', 'borrower', 'creator', 'trader'];
+
+export class EventHistory {
+  private entries: SimEvent[] = [];
+  private firstSeq = 0; // Sequence number of entries[0]
+  private byType: Map<SimEventType, number[]> = new Map();
+  private byTribe: Map<string, number[]> = new Map();
+  private byAgent: Map<string, number[]> = new Map();
+  private summaries: Map<number, DaySummary> = new Map();
+  private retention: Required<HistoryRetention>;
+  private lastCompactionDay = 0;
+
+  constructor(retention: HistoryRetention = {}) {
+    this.retention = { ...DEFAULT_RETENTION, ...retention };
+    if (!(this.retention.maxEvents > 0) || !(this.retention.maxAgeDays > 0) || !(this.retention.compactEvery >= 1)) {
+      throw new Error('History retention limits must be positive');
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  record(event: SimEvent): void {
+    const seq = this.firstSeq + this.entries.length;
+    this.entries.push(event);
+    this.indexEvent(event, seq);
+  }
+
+  query(filter: HistoryQuery = {}): SimEvent[] {
+    const fromDay = filter.fromDay ?? -Infinity;
+    const toDay = filter.toDay ?? Infinity;
+    const types = this.resolveTypes(filter.type);
+
+    // Start from the narrowest index, then check the remaining conditions per event
+    const candidates: number[][] = [];
+    if (types) candidates.push(this.mergeSeqs(types.map(type => this.byType.get(type) || [])));
+    if (filter.tribe !== undefined) candidates.push(this.byTribe.get(filter.tribe) || []);
+    if (filter.agentId !== undefined) candidates.push(this.byAgent.get(filter.agentId) || []);
+
+    let matches: SimEvent[];
+    if (candidates.length > 0) {
+      candidates.sort((a, b) => a.length - b.length);
+      matches = candidates[0]
+        .map(seq => this.entries[seq - this.firstSeq])
+        .filter(event => event.day >= fromDay && event.day <= toDay &&
+          (!types || types.includes(event.type)) &&
+          (filter.tribe === undefined || this.tribesOf(event).includes(filter.tribe)) &&
+          (filter.agentId === undefined || this.agentsOf(event).includes(filter.agentId)));
+    } else {
+      // Entries are appended in day order, so a day range is a contiguous slice
+      matches = this.entries.slice(this.lowerBound(fromDay), this.lowerBound(toDay + 1));
+    }
+
+    if (filter.limit !== undefined) {
+      matches = matches.slice(Math.max(0, matches.length - filter.limit));
+    }
+    return filter.newestFirst ? matches.reverse() : matches;
+  }
+
+  // Event counts per type over a day range, including days that were already compacted
+  countByType(fromDay: number = -Infinity, toDay: number = Infinity): { [type in SimEventType]?: number } {
+    const counts: { [type in SimEventType]?: number } = {};
+
+    for (const summary of this.summaries.values()) {
+      if (summary.day < fromDay || summary.day > toDay) continue;
+      for (const [type, count] of Object.entries(summary.counts) as [SimEventType, number][]) {
+        counts[type] = (counts[type] || 0) + count;
+      }
+    }
+    for (const event of this.query({ fromDay, toDay })) {
+      counts[event.type] = (counts[event.type] || 0) + 1;
+    }
+
+    return counts;
+  }
+
+  getDaySummaries(): DaySummary[] {
+    return Array.from(this.summaries.values()).sort((a, b) => a.day - b.day);
+  }
+
+  getOldestDay(): number | null {
+    return this.entries.length > 0 ? this.entries[0].day : null;
+  }
+
+  // Called once per tick; compacts when the configured interval has passed
+  compactIfDue(currentDay: number): number {
+    if (currentDay - this.lastCompactionDay < this.retention.compactEvery) return 0;
+    return this.compact(currentDay);
+  }
+
+  // Fold events outside the retention window into per-day summaries. Returns how many were removed.
+  compact(currentDay: number): number {
+    this.lastCompactionDay = currentDay;
+
+    const cutoffDay = currentDay - this.retention.maxAgeDays;
+    let removeCount = this.lowerBound(cutoffDay);
+    removeCount = Math.max(removeCount, this.entries.length - this.retention.maxEvents);
+    if (removeCount <= 0) return 0;
+
+    for (const event of this.entries.slice(0, removeCount)) {
+      let summary = this.summaries.get(event.day);
+      if (!summary) {
+        summary = { day: event.day, counts: {} };
+        this.summaries.set(event.day, summary);
+      }
+      summary.counts[event.type] = (summary.counts[event.type] || 0) + 1;
+    }
+
+    this.entries = this.entries.slice(removeCount);
+    this.firstSeq += removeCount;
+    this.rebuildIndexes();
+    return removeCount;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.firstSeq = 0;
+    this.summaries.clear();
+    this.lastCompactionDay = 0;
+    this.rebuildIndexes();
+  }
+
+  private indexEvent(event: SimEvent, seq: number): void {
+    this.addToIndex(this.byType, event.type, seq);
+    for (const tribe of this.tribesOf(event)) {
+      this.addToIndex(this.byTribe, tribe, seq);
+    }
+    for (const agentId of this.agentsOf(event)) {
+      this.addToIndex(this.byAgent, agentId, seq);
+    }
+  }
+
+  private addToIndex<K>(index: Map<K, number[]>, key: K, seq: number): void {
+    const seqs = index.get(key);
+    if (seqs) {
+      seqs.push(seq);
+    } else {
+      index.set(key, [seq]);
+    }
+  }
+
+  private rebuildIndexes(): void {
+    this.byType.clear();
+    this.byTribe.clear();
+    this.byAgent.clear();
+    this.entries.forEach((event, i) => this.indexEvent(event, this.firstSeq + i));
+  }
+
+  private tribesOf(event: SimEvent): string[] {
+    const tribes: string[] = [];
+    for (const field of TRIBE_FIELDS) {
+      const tribe = (event as any)[field];
+      if (typeof tribe === 'string' && !tribes.includes(tribe)) tribes.push(tribe);
+    }
+    return tribes;
+  }
+
+  private agentsOf(event: SimEvent): string[] {
+    const agents: string[] = [];
+    for (const field of AGENT_FIELDS) {
+      const agentId = (event as any)[field];
+      if (typeof agentId === 'string' && !agents.includes(agentId)) agents.push(agentId);
+    }
+    if (event.type === 'DiseaseSpread') {
+      for (const agentId of event.infected) {
+        if (!agents.includes(agentId)) agents.push(agentId);
+      }
+    }
+    return agents;
+  }
+
+  // Expand categories into concrete event types
+  private resolveTypes(type: HistoryQuery['type']): SimEventType[] | null {
+    if (type === undefined) return null;
+
+    const resolved = new Set<SimEventType>();
+    for (const name of Array.isArray(type) ? type : [type]) {
+      if (name in SIM_EVENT_CATEGORIES) {
+        resolved.add(name as SimEventType);
+        continue;
+      }
+      for (const [eventType, category] of Object.entries(SIM_EVENT_CATEGORIES) as [SimEventType, EventCategory][]) {
+        if (category === name) resolved.add(eventType);
+      }
+    }
+    return Array.from(resolved);
+  }
+
+  // Merge ascending sequence lists into one ascending list
+  private mergeSeqs(lists: number[][]): number[] {
+    if (lists.length === 1) return lists[0];
+    return lists.flat().sort((a, b) => a - b);
+  }
+
+  // Index of the first entry on or after `day`
+  private lowerBound(day: number): number {
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.entries[mid].day < day) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+
+  public serialize(): any {
+    return {
+      entries: this.entries,
+      firstSeq: this.firstSeq,
+      summaries: Array.from(this.summaries.entries()),
+      retention: {
+        ...this.retention,
+        maxAgeDays: this.retention.maxAgeDays === Infinity ? null : this.retention.maxAgeDays
+      },
+      lastCompactionDay: this.lastCompactionDay
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.entries = data.entries || [];
+    this.firstSeq = data.firstSeq || 0;
+    this.summaries = new Map(data.summaries || []);
+    if (data.retention) {
+      this.retention = { ...DEFAULT_RETENTION, ...data.retention, maxAgeDays: data.retention.maxAgeDays ?? Infinity };
+    }
+    this.lastCompactionDay = data.lastCompactionDay || 0;
+    this.rebuildIndexes();
+  }
+}
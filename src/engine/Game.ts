@@ -1,17 +1,18 @@
 // ClawCiv Game Engine
 // Autonomous AI civilization simulation
 
-import { TokenSystem } from '../economy/Token.js';
-import { TerritorySystem } from '../systems/Territory.js';
+import { TokenSystem, SupplyMode } from '../economy/Token.js';
+import { Ledger, LedgerFactory } from '../economy/Ledger.ts';
+import { TerritorySystem, TribeTerritories, Province, InfluenceSource } from '../systems/Territory.js';
 import { TechTree } from '../systems/TechTree.js';
 import { BuildingSystem, Building } from '../systems/Buildings.js';
 import { AchievementSystem } from '../systems/Achievements.ts';
 import { EventSystem } from '../systems/Events.ts';
-import { QuestSystem } from '../systems/Quests.ts';
+import { QuestSystem, Quest } from '../systems/Quests.ts';
 import { DiplomacySystem } from '../systems/Diplomacy.ts';
 import { SeasonSystem } from '../systems/Seasons.ts';
 import { TribeConfigSystem } from '../systems/TribeConfig.ts';
-import { OrganizationSystem } from '../systems/Organizations.ts';
+import { OrganizationSystem, Organization } from '../systems/Organizations.ts';
 import { GovernanceSystem } from '../systems/Governance.ts';
 import { SpySystem } from '../systems/Spy.ts';
 import { ArtifactSystem } from '../systems/Artifacts.ts';
@@ -21,9 +22,32 @@ import { DiseaseSystem } from '../systems/Disease.ts';
 import { WonderSystem } from '../systems/Wonders.ts';
 import { TradeRouteSystem } from '../systems/TradeRoutes.ts';
 import { MercenarySystem } from '../systems/Mercenaries.ts';
-import { PopulationSystem } from '../systems/Population.ts';
+import { PopulationSystem, PopulationEvent } from '../systems/Population.ts';
 import { InventorySystem } from '../systems/Inventory.ts';
 import { WeatherSystem } from '../systems/Weather.ts';
+import { CarryingCapacitySystem, CapacityModifiers, TribeCapacity, RegionCapacity } from '../systems/CarryingCapacity.ts';
+import { MovementSystem, Journey, JourneyGoal, JourneyPurpose, StepCost, TERRAIN_COSTS, ROAD_COST_MULTIPLIER, ENEMY_TERRITORY_COST_MULTIPLIER } from '../systems/Movement.ts';
+import { SpawnQueue, SpawnSubmission, UpvoteMode } from '../systems/SpawnQueue.ts';
+import { UpkeepSystem } from '../systems/Upkeep.ts';
+import { ResourceTokenRegistry, ResourceTokenLaunch, LaunchResult, MintResult } from '../economy/ResourceTokens.ts';
+import { FiscalSystem, TaxRates, TribeBudget } from '../economy/Fiscal.ts';
+import { BudgetSystem, BudgetAllocation, TribeProgrammes } from '../economy/Budget.ts';
+import { EscrowSystem, EscrowCondition, EscrowContract, CreateEscrowResult } from '../economy/Escrow.ts';
+import { PredictionMarketSystem, PredictionMarket, MarketQuestion, CreateMarketResult, TradeResult, YES_NO } from '../economy/PredictionMarket.ts';
+import { LendingSystem, Loan, LoanOffer, LoanTerms, Collateral, LenderKind, OfferLoanResult, TakeLoanResult, ARTIFACT_COLLATERAL_VALUES } from '../economy/Lending.ts';
+import { ExchangeSystem, ExchangeResource, OrderSide, Fill, PlaceOrderResult, EXCHANGE_RESOURCES } from '../economy/Exchange.ts';
+import { Random } from './Random.ts';
+import { SpatialIndex } from './SpatialIndex.ts';
+import { EventBus } from './EventBus.ts';
+import { EventHistory, HistoryRetention } from './EventHistory.ts';
+import { SAVE_VERSION, loadSave, encodeState, decodeState } from './SaveFormat.ts';
+import { SimEventMap, SimEventType } from './SimEvents.ts';
+import { projectMessage } from './MessageProjection.ts';
+import { WorldConfig, WorldConfigOptions, TribeCenter, TileCoord, TileBounds, WorldPoint, createWorldConfig, clampToWorld, clampTile, worldToTile, tileBounds, tileCenter } from './WorldConfig.ts';
+import { Tile, generateWorldMap, getTile, getFarmingYield, getMiningYield, extractDeposit } from './WorldMap.ts';
+import { AgentPolicy, AgentAction, AgentObservation, TribeView, TileView, TerrainView, JourneyView, PolicyName, Direction, ACTION_TYPES, TRAVEL_PURPOSES, APPROACH_PURPOSES } from '../agents/AgentPolicy.ts';
+import { RandomPolicy } from '../agents/RandomPolicy.ts';
+import { UtilityPolicy } from '../agents/UtilityPolicy.ts';
 
 export interface Message {
   id: string;
@@ -41,11 +65,11 @@ export interface Agent {
   id: string;
   name: string;
   tribe: string;
-  x: number;
-  y: number;
-  worldX: number; // Actual 3D world X position
-  worldZ: number; // Actual 3D world Z position
-  targetAgentId?: string; // Agent this agent is moving toward (for attack/defend)
+  x: number; // Grid column under worldX/worldZ; derived, so move agents with placeAgent
+  y: number; // Grid row under worldX/worldZ
+  worldX: number; // Authoritative position in the 3D world
+  worldZ: number;
+  targetAgentId?: string; // Agent this agent is walking toward to fight (attack/defend)
   resources: {
     food: number;
     energy: number;
@@ -62,24 +86,75 @@ export interface Agent {
   enemies: Set<string>;
   level: number;
   experience: number;
+  exiled?: boolean; // Left the tribe over unpaid upkeep (also not alive)
+  owner?: string; // Token account of the human who deployed this agent
+}
+
+export interface SpawnAgentOptions {
+  tribe: string;
+  name?: string;
+  skills?: string[]; // Random loadout if omitted
+  owner?: string;
+  parents?: { father?: string; mother?: string };
 }
 
 export interface GameState {
   agents: Agent[];
-  grid: number[][];
+  grid: Tile[][]; // Terrain, by row: grid[y][x]
   day: number;
   territories: Map<string, number[][]>;
   messages: Message[];
   buildings: Building[];
 }
 
+export interface GameEngineOptions {
+  seed?: number; // Seeds every system's PRNG; omit for a non-reproducible run
+  world?: WorldConfigOptions; // Tribes, population and map size (default: 3 tribes x 20 agents)
+  tribes?: string[]; // Shorthand for world.tribes
+  agentsPerTribe?: number; // Shorthand for world.agentsPerTribe
+  policy?: PolicyName; // Decision policy for every tribe (default: 'random')
+  upvoteMode?: UpvoteMode; // Whether spawn queue upvotes burn or escrow $CLAW (default: 'escrow')
+  history?: HistoryRetention; // How long the event history keeps individual events
+  supplyMode?: SupplyMode; // Fixed $CLAW supply paid from a reward pool, or minted rewards (default: 'fixed')
+  ledger?: LedgerFactory; // $CLAW backend, e.g. an EvmLedger for a local dev chain (default: in-memory TokenSystem)
+  debug?: boolean; // Check ledger invariants after every tick and throw on violation
+}
+
 export class GameEngine {
   private state: GameState;
-  private readonly GRID_SIZE = 10;
-  private readonly INITIAL_AGENTS = 60; // 20 per tribe
-  private readonly AGENTS_PER_TRIBE = 20;
-  private readonly TRIBES = ['Alpha', 'Beta', 'Gamma'];
-  private tokenSystem: TokenSystem;
+  private random: Random;
+  private readonly world: WorldConfig;
+  private readonly GRID_SIZE: number;
+  private readonly AGENTS_PER_TRIBE: number;
+  private readonly TRIBES: string[];
+  private readonly INTERACTION_RANGE = 1;
+  private readonly PERCEPTION_RANGE = 50;
+  private readonly MAX_ACTIONS_PER_TICK = 12;
+  private readonly BASE_MOVEMENT = 1.5;         // Movement points per day before season and weather; plains cost 1
+  private readonly SIGHT_RADIUS = 2;            // Grid cells around an agent it can see the terrain of
+  // Grid step for each 'move' direction; a Map so unknown directions from clients can't hit Object.prototype
+  private readonly DIRECTION_STEPS = new Map<Direction, [number, number]>([
+    ['left', [-1, 0]], ['right', [1, 0]], ['up', [0, -1]], ['down', [0, 1]]
+  ]);
+  // Influence each kind of presence projects over the territory grid: strength at its own cell and how far it reaches
+  private readonly INFLUENCE = {
+    member: { strength: 1, radius: 1 },
+    building: { strength: 3, radius: 2 },
+    fortress: { strength: 12, radius: 3 },
+    road: { strength: 0.5, radius: 0 }
+  };
+  private readonly WELFARE_LINE = 20;           // $CLAW balance below which members get welfare
+  private readonly FESTIVAL_BUDGET_MIN = 300;   // Festival fund needed before the treasury pays for one
+  private readonly TREASURY_CREDIT_SHARE = 0.05; // Share of the treasury each government offers as loans per period
+  private readonly TREASURY_LOAN_TERMS = { interestRate: 0.1, termDays: 60, collateralRatio: 0.5, minCreditScore: 30 };
+  private readonly SKILLS = [
+    'farming', 'mining', 'research', 'trade', 'combat',
+    'building', 'diplomacy', 'crafting', 'leadership'
+  ];
+  // Tribe centers in world space
+  private readonly TRIBE_CENTERS: Map<string, TribeCenter>;
+  private nextAgentId = 0;
+  private tokenSystem: Ledger;
   private territorySystem: TerritorySystem;
   private techTrees: Map<string, TechTree>;
   private buildingSystem: BuildingSystem;
@@ -102,114 +177,108 @@ export class GameEngine {
   private populationSystem: PopulationSystem;
   private inventorySystem: InventorySystem;
   private weatherSystem: WeatherSystem;
+  private movementSystem: MovementSystem;
+  private carryingCapacitySystem: CarryingCapacitySystem;
+  private spawnQueue: SpawnQueue;
+  private upkeepSystem: UpkeepSystem;
+  private exchangeSystem: ExchangeSystem;
+  private resourceTokenRegistry: ResourceTokenRegistry;
+  private escrowSystem: EscrowSystem;
+  private fiscalSystem: FiscalSystem;
+  private budgetSystem: BudgetSystem;
+  private lendingSystem: LendingSystem;
+  private predictionMarkets: PredictionMarketSystem;
   private victoryAchieved: boolean = false;
-
-  constructor() {
-    this.tokenSystem = new TokenSystem();
-    this.territorySystem = new TerritorySystem();
-    this.buildingSystem = new BuildingSystem();
-    this.achievementSystem = new AchievementSystem();
+  private defaultPolicy: AgentPolicy;
+  private tribePolicies: Map<string, AgentPolicy> = new Map();
+  private tribeViews: Map<string, TribeView> = new Map(); // Rebuilt every tick
+  private tribeViewsDay: number = -1;
+  private stepCosts: Map<string, StepCost> = new Map(); // Per tribe, rebuilt every tick
+  private stepCostsDay: number = -1;
+  private agentIndex: SpatialIndex<Agent>; // worldX/worldZ grid for proximity queries
+  private agentsById: Map<string, Agent> = new Map(); // Every agent, living or dead; agents are never removed
+  private events: EventBus = new EventBus();
+  private history: EventHistory;
+  private readonly debug: boolean;
+
+  constructor(options: GameEngineOptions = {}) {
+    // One shared PRNG so a seed reproduces the whole simulation
+    this.random = new Random(options.seed);
+    this.world = createWorldConfig({
+      ...options.world,
+      ...(options.tribes && { tribes: options.tribes }),
+      ...(options.agentsPerTribe !== undefined && { agentsPerTribe: options.agentsPerTribe })
+    });
+    this.TRIBES = this.world.tribes;
+    this.AGENTS_PER_TRIBE = this.world.agentsPerTribe;
+    this.GRID_SIZE = this.world.gridSize;
+    this.TRIBE_CENTERS = new Map(Object.entries(this.world.tribeCenters));
+    // The chat log is the first subscriber so messages keep their old order
+    this.events.subscribeAll(event => {
+      const message = projectMessage(event, () => this.random.now());
+      if (message) this.state.messages.push(message);
+    });
+    this.history = new EventHistory(options.history);
+    this.events.subscribeAll(event => this.history.record(event));
+    this.debug = options.debug ?? false;
+    const createLedger: LedgerFactory = options.ledger ?? ((random, world, mode) => new TokenSystem(random, world, mode));
+    this.tokenSystem = createLedger(this.random, this.world, options.supplyMode ?? 'fixed');
+    this.territorySystem = new TerritorySystem(this.world);
+    this.buildingSystem = new BuildingSystem(this.random);
+    this.achievementSystem = new AchievementSystem(this.world);
     this.achievementSystem.setGameEngine(this);
-    this.eventSystem = new EventSystem();
-    this.questSystem = new QuestSystem();
-    this.diplomacySystem = new DiplomacySystem();
-    this.seasonSystem = new SeasonSystem();
-    this.tribeConfigSystem = new TribeConfigSystem();
-    this.organizationSystem = new OrganizationSystem();
-    this.governanceSystem = new GovernanceSystem();
-    this.spySystem = new SpySystem();
-    this.artifactSystem = new ArtifactSystem();
-    this.festivalSystem = new FestivalSystem();
-    this.religionSystem = new ReligionSystem();
-    this.diseaseSystem = new DiseaseSystem();
-    this.wonderSystem = new WonderSystem();
-    this.tradeRouteSystem = new TradeRouteSystem();
-    this.mercenarySystem = new MercenarySystem();
-    this.populationSystem = new PopulationSystem();
-    this.inventorySystem = new InventorySystem();
-    this.weatherSystem = new WeatherSystem();
+    this.achievementSystem.subscribe(this.events);
+    this.eventSystem = new EventSystem(this.random);
+    this.questSystem = new QuestSystem(this.random, this.world);
+    this.diplomacySystem = new DiplomacySystem(this.random, this.world);
+    this.seasonSystem = new SeasonSystem(this.random);
+    this.tribeConfigSystem = new TribeConfigSystem(this.random, this.world);
+    this.organizationSystem = new OrganizationSystem(this.random);
+    this.governanceSystem = new GovernanceSystem(this.random, this.world);
+    this.spySystem = new SpySystem(this.random);
+    this.artifactSystem = new ArtifactSystem(this.random);
+    this.festivalSystem = new FestivalSystem(this.random);
+    this.religionSystem = new ReligionSystem(this.random, this.world);
+    this.diseaseSystem = new DiseaseSystem(this.random);
+    this.wonderSystem = new WonderSystem(this.random);
+    this.tradeRouteSystem = new TradeRouteSystem(this.random, this.world);
+    this.mercenarySystem = new MercenarySystem(this.random);
+    this.populationSystem = new PopulationSystem(this.random, this.world);
+    this.inventorySystem = new InventorySystem(this.random);
+    this.weatherSystem = new WeatherSystem(this.random, this.world);
+    this.movementSystem = new MovementSystem(this.world, this.INTERACTION_RANGE);
+    this.carryingCapacitySystem = new CarryingCapacitySystem(this.world);
+    this.spawnQueue = new SpawnQueue(this.tokenSystem, options.upvoteMode ?? 'escrow', this.random);
+    this.upkeepSystem = new UpkeepSystem(this.tokenSystem);
+    this.exchangeSystem = new ExchangeSystem(this.tokenSystem, id => this.findHolder(id));
+    this.resourceTokenRegistry = new ResourceTokenRegistry(this.tokenSystem, this.random);
+    this.inventorySystem.setTokenRegistry(this.resourceTokenRegistry);
+    this.escrowSystem = new EscrowSystem(this.tokenSystem, this.random);
+    this.fiscalSystem = new FiscalSystem(this.tokenSystem, this.TRIBES);
+    this.budgetSystem = new BudgetSystem(this.tokenSystem, this.fiscalSystem);
+    this.lendingSystem = new LendingSystem(this.tokenSystem, this.random);
+    this.predictionMarkets = new PredictionMarketSystem(this.tokenSystem, this.random);
+    this.defaultPolicy = this.createPolicy(options.policy ?? 'random');
     this.techTrees = new Map();
     // Create tech tree for each tribe
     for (const tribe of this.TRIBES) {
       this.techTrees.set(tribe, new TechTree());
     }
     this.state = this.initializeState();
+    this.agentsById = new Map(this.state.agents.map(a => [a.id, a]));
+    this.agentIndex = new SpatialIndex<Agent>(agent => ({ x: agent.worldX, z: agent.worldZ }), this.PERCEPTION_RANGE);
+    this.agentIndex.rebuild(this.state.agents.filter(a => a.alive));
   }
 
   private initializeState(): GameState {
-    // Create 10x10 grid
-    const grid = Array(this.GRID_SIZE).fill(0).map(() =>
-      Array(this.GRID_SIZE).fill(0)
-    );
+    // Generate the terrain before anyone stands on it
+    const grid = generateWorldMap(this.GRID_SIZE, this.random);
 
-    // Create 150 agents (50 per tribe) with tribe territories
+    // Create the starting agents for each tribe
     const agents: Agent[] = [];
-    let agentId = 0;
-
-    // Define tribe centers in world space (1000x1000 world)
-    const tribeCenters = new Map<string, { x: number; z: number }>([
-      ['Alpha', { x: -350, z: -350 }],
-      ['Beta', { x: 350, z: -350 }],
-      ['Gamma', { x: 0, z: 350 }]
-    ]);
-
     for (const tribe of this.TRIBES) {
-      const center = tribeCenters.get(tribe)!;
-
       for (let i = 0; i < this.AGENTS_PER_TRIBE; i++) {
-        const id = `agent-${agentId++}`;
-        const skills = this.generateSkills();
-        const specialization = this.determineSpecialization(skills);
-        const tribeConfig = this.tribeConfigSystem.getTribeConfig(tribe);
-
-        // Position agents around their tribe center with some spread
-        const spread = 250; // Tribe territory spread (less tight)
-        const worldX = center.x + (Math.random() - 0.5) * spread;
-        const worldZ = center.z + (Math.random() - 0.5) * spread;
-
-        // Apply tribe-specific starting bonuses
-        const startingResources = tribeConfig ? tribeConfig.startingBonus : {
-          food: 100,
-          energy: 100,
-          materials: 50,
-          knowledge: 0,
-          socialCapital: 50
-        };
-
-        agents.push({
-          id: id,
-          name: this.generateAgentName(tribe),
-          tribe,
-          x: Math.floor(Math.random() * this.GRID_SIZE),
-          y: Math.floor(Math.random() * this.GRID_SIZE),
-          worldX: worldX,
-          worldZ: worldZ,
-          resources: {
-            food: startingResources.food || 100,
-            energy: startingResources.energy || 100,
-            materials: startingResources.materials || 50,
-            knowledge: startingResources.knowledge || 0,
-            socialCapital: startingResources.socialCapital || 50
-          },
-          skills,
-          specialization,
-          alive: true,
-          alliances: new Set(),
-          enemies: new Set(),
-          level: 1,
-          experience: 0
-        });
-
-        // Create token account for this agent
-        this.tokenSystem.createAgentAccount(agentId, tribe);
-
-        // Register agent with population system
-        this.populationSystem.registerAgent(id, tribe, 0);
-
-        // Create inventory with starting items
-        const startingItems = this.inventorySystem.generateItem(1, 'common', 'tool');
-        const startingConsumable = this.inventorySystem.generateItem(1, 'common', 'consumable');
-        this.inventorySystem.createInventory(id, [startingItems, startingConsumable]);
+        agents.push(this.createAgent({ tribe }, 0));
       }
     }
 
@@ -223,14 +292,74 @@ export class GameEngine {
     };
   }
 
+  // Builds a new agent and registers it with the token, population and inventory systems
+  private createAgent(options: SpawnAgentOptions, day: number): Agent {
+    const { tribe } = options;
+    const center = this.TRIBE_CENTERS.get(tribe)!;
+    const id = `agent-${this.nextAgentId++}`;
+    const skills = options.skills ? [...options.skills] : this.generateSkills();
+    const specialization = this.determineSpecialization(skills);
+    const tribeConfig = this.tribeConfigSystem.getTribeConfig(tribe);
+
+    // Position agents around their tribe center with some spread
+    const spread = 250 * this.world.worldSize / 1000; // Tribe territory spread (less tight)
+    const worldX = center.x + (this.random.next() - 0.5) * spread;
+    const worldZ = center.z + (this.random.next() - 0.5) * spread;
+
+    // Apply tribe-specific starting bonuses
+    const startingResources = tribeConfig ? tribeConfig.startingBonus : {
+      food: 100,
+      energy: 100,
+      materials: 50,
+      knowledge: 0,
+      socialCapital: 50
+    };
+
+    const agent: Agent = {
+      id,
+      name: options.name ?? this.generateAgentName(tribe),
+      tribe,
+      x: 0,
+      y: 0,
+      worldX: 0,
+      worldZ: 0,
+      resources: {
+        food: startingResources.food || 100,
+        energy: startingResources.energy || 100,
+        materials: startingResources.materials || 50,
+        knowledge: startingResources.knowledge || 0,
+        socialCapital: startingResources.socialCapital || 50
+      },
+      skills,
+      specialization,
+      alive: true,
+      alliances: new Set(),
+      enemies: new Set(),
+      level: 1,
+      experience: 0
+    };
+    if (options.owner) agent.owner = options.owner;
+    this.placeAgent(agent, worldX, worldZ);
+
+    // Create token account for this agent
+    this.tokenSystem.createAgentAccount(id, tribe);
+
+    // Register agent with population system
+    this.populationSystem.registerAgent(id, tribe, day, options.parents);
+
+    // Create inventory with starting items
+    const startingItems = this.inventorySystem.generateItem(1, 'common', 'tool');
+    const startingConsumable = this.inventorySystem.generateItem(1, 'common', 'consumable');
+    this.inventorySystem.createInventory(id, [startingItems, startingConsumable]);
+
+    return agent;
+  }
+
   private generateSkills(): string[] {
-    const skills = [
-      'farming', 'mining', 'research', 'trade', 'combat',
-      'building', 'diplomacy', 'crafting', 'leadership'
-    ];
+    const skills = [...this.SKILLS];
     // Each agent gets 2-3 random skills
-    const numSkills = 2 + Math.floor(Math.random() * 2);
-    const shuffled = skills.sort(() => Math.random() - 0.5);
+    const numSkills = 2 + Math.floor(this.random.next() * 2);
+    const shuffled = skills.sort(() => this.random.next() - 0.5);
     return shuffled.slice(0, numSkills);
   }
 
@@ -266,15 +395,7 @@ export class GameEngine {
       // Bonus for leveling up
       this.tokenSystem.earnTokens(agent.id, agent.level * 50, 'level_up');
 
-      this.state.messages.push({
-        id: `levelup-${Date.now()}-${agent.id}`,
-        agentId: agent.id,
-        agentName: agent.name,
-        tribe: agent.tribe,
-        content: `⬆️ ${agent.name} reached Level ${agent.level}!`,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('AgentLeveledUp', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, level: agent.level });
     }
   }
 
@@ -309,9 +430,6 @@ export class GameEngine {
   private useSpecialAbility(agent: Agent): void {
     if (agent.specialization === 'none') return;
 
-    // Only use special ability 10% of the time
-    if (Math.random() > 0.1) return;
-
     switch (agent.specialization) {
       case 'healer':
         // Heal nearby allies
@@ -379,16 +497,18 @@ export class GameEngine {
 
     const suffixes = ['ian', 'ara', 'on', 'ix', 'us', 'is', 'or', 'a'];
 
-    const tribePrefixes = prefixes[tribe as keyof typeof prefixes] || prefixes['Alpha'];
-    const prefix = tribePrefixes[Math.floor(Math.random() * tribePrefixes.length)];
-    const suffix = suffixes[Math.floor(Math.random() * suffixes.length)];
+    // Tribes beyond the original three borrow a naming style in turn
+    const styles = Object.values(prefixes);
+    const tribePrefixes = prefixes[tribe as keyof typeof prefixes] || styles[Math.max(0, this.TRIBES.indexOf(tribe)) % styles.length];
+    const prefix = tribePrefixes[Math.floor(this.random.next() * tribePrefixes.length)];
+    const suffix = suffixes[Math.floor(this.random.next() * suffixes.length)];
 
     return prefix + suffix;
   }
 
   private generateDialogue(agent: Agent, action: string): string | null {
     // Only 15% chance to speak each tick to avoid spam
-    if (Math.random() > 0.15) return null;
+    if (this.random.next() > 0.15) return null;
 
     const dialogues = {
       'farming': [
@@ -453,85 +573,236 @@ export class GameEngine {
     let dialogueType = action;
     if (agent.resources.food < 30 || agent.resources.energy < 30) {
       dialogueType = 'low_resources';
-    } else if (Math.random() > 0.7) {
+    } else if (this.random.next() > 0.7) {
       dialogueType = 'celebration';
     }
 
     const options = dialogues[dialogueType as keyof typeof dialogues] || dialogues['greeting'];
-    return options[Math.floor(Math.random() * options.length)];
+    return options[Math.floor(this.random.next() * options.length)];
   }
 
-  private getNearbyAgents(agent: Agent, range: number = 50): Agent[] {
-    return this.state.agents.filter(other => {
-      if (other.id === agent.id || !other.alive) return false;
+  // The only way agent positions change: clamps to the map and keeps the grid cell in step with the world position
+  private placeAgent(agent: Agent, worldX: number, worldZ: number): void {
+    const position = clampToWorld(this.world, worldX, worldZ);
+    const tile = worldToTile(this.world, position.x, position.z);
+    agent.worldX = position.x;
+    agent.worldZ = position.z;
+    agent.x = tile.x;
+    agent.y = tile.y;
+  }
 
-      // Use world positions for proximity
-      const dx = other.worldX - agent.worldX;
-      const dz = other.worldZ - agent.worldZ;
-      const distance = Math.sqrt(dx * dx + dz * dz);
+  private getNearbyAgents(agent: Agent, range: number = 50): Agent[] {
+    // Use world positions for proximity
+    return this.agentIndex.queryRadius(agent.worldX, agent.worldZ, range)
+      .filter(other => other.id !== agent.id && other.alive);
+  }
 
-      return distance <= range;
-    });
+  // Re-read every position once per tick rather than tracking each move; unchanged cells cost nothing
+  private syncAgentIndex(): void {
+    for (const agent of this.state.agents) {
+      if (agent.alive) {
+        this.agentIndex.update(agent);
+      } else {
+        this.agentIndex.remove(agent);
+      }
+    }
   }
 
+  // Both traders take their surplus to the exchange and bid for what they lack; whoever is on the book fills them
   private handleTrade(agent: Agent, other: Agent): boolean {
     if (!agent.skills.includes('trade') || !other.skills.includes('trade')) {
       return false;
     }
 
-    // Find resources to trade
-    const resources = ['food', 'energy', 'materials', 'knowledge'] as const;
-    const agentHas = resources.find(r => agent.resources[r] > 50);
-    const otherHas = resources.find(r => other.resources[r] > 50);
+    // Whoever posts first is the maker and sets the fill price, so alternate at random
+    const [first, second] = this.random.next() < 0.5 ? [agent, other] : [other, agent];
+    const firstFills = this.postTradeOrders(first);
+    const secondFills = this.postTradeOrders(second);
+    const agentFills = agent === first ? firstFills : secondFills;
+    const otherFills = agent === first ? secondFills : firstFills;
 
-    if (!agentHas || !otherHas || agentHas === otherHas) {
+    if (agentFills.length === 0 && otherFills.length === 0) {
       return false;
     }
 
-    // Execute trade
-    const tradeAmount = 10;
-    agent.resources[agentHas] -= tradeAmount;
-    agent.resources[otherHas] += tradeAmount;
-    other.resources[otherHas] -= tradeAmount;
-    other.resources[agentHas] += tradeAmount;
-
     // Generate trade messages
+    const fill = agentFills[0] || otherFills[0];
+    const verb = fill.seller === agent.id ? 'Sold' : fill.buyer === agent.id ? 'Bought' : 'Traded';
     const tradeDialogues = [
-      `Traded ${tradeAmount} ${agentHas} for ${tradeAmount} ${otherHas} with ${other.name}!`,
-      `Excellent trade with ${other.name}!`,
-      `Deal struck with ${other.name} - ${agentHas} for ${otherHas}!`
+      `${verb} ${fill.quantity} ${fill.resource} at ${fill.price} $CLAW each!`,
+      `Good prices at the market today with ${other.name}!`,
+      `The ${fill.resource} market is moving - ${fill.price} $CLAW!`
     ];
 
-    agent.currentMessage = tradeDialogues[Math.floor(Math.random() * tradeDialogues.length)];
+    agent.currentMessage = tradeDialogues[Math.floor(this.random.next() * tradeDialogues.length)];
     agent.messageTimer = 5;
 
-    this.state.messages.push({
-      id: `trade-${Date.now()}-${agent.id}`,
+    this.emit('TradeCompleted', {
       agentId: agent.id,
       agentName: agent.name,
       tribe: agent.tribe,
-      content: agent.currentMessage,
-      timestamp: this.state.day,
-      type: 'trade'
+      partnerId: other.id,
+      partnerName: other.name,
+      fills: agentFills.length + otherFills.length,
+      text: agent.currentMessage
     });
 
-    // Reward successful trade with diplomacy and tribe modifiers
+    // Reward traders whose orders filled, with diplomacy and tribe modifiers
     const diplomacyMod = this.diplomacySystem.getTradeModifier(agent.tribe, other.tribe);
-    const agentTribeMod = this.tribeConfigSystem.getTradeModifier(agent.tribe);
-    const otherTribeMod = this.tribeConfigSystem.getTradeModifier(other.tribe);
-    const tokenReward = Math.round(10 * diplomacyMod * agentTribeMod);
-    const tokenRewardOther = Math.round(10 * diplomacyMod * otherTribeMod);
-    this.tokenSystem.earnTokens(agent.id, tokenReward, 'trade');
-    this.tokenSystem.earnTokens(other.id, tokenRewardOther, 'trade');
+    if (agentFills.length > 0) {
+      const tokenReward = Math.round(10 * diplomacyMod * this.tribeConfigSystem.getTradeModifier(agent.tribe));
+      this.tokenSystem.earnTokens(agent.id, tokenReward, 'trade');
+    }
+    if (otherFills.length > 0) {
+      const tokenRewardOther = Math.round(10 * diplomacyMod * this.tribeConfigSystem.getTradeModifier(other.tribe));
+      this.tokenSystem.earnTokens(other.id, tokenRewardOther, 'trade');
+    }
 
     return true;
   }
 
+  // Ask for the largest surplus and bid for the scarcest resource, near the current mid price.
+  // Big surpluses sell a little cheaper and shortages pay a little more, so prices follow supply and demand.
+  private postTradeOrders(agent: Agent): Fill[] {
+    const fills: Fill[] = [];
+    const byAmount = [...EXCHANGE_RESOURCES].sort((a, b) => agent.resources[a] - agent.resources[b]);
+    const surplus = byAmount[byAmount.length - 1];
+    const scarce = byAmount[0];
+    const jitter = () => 0.95 + this.random.next() * 0.1;
+
+    if (agent.resources[surplus] > 50) {
+      const price = this.exchangeSystem.getQuote(surplus).mid * jitter() * (agent.resources[surplus] > 150 ? 0.95 : 1);
+      fills.push(...this.submitOrder(agent.id, surplus, 'ask', price, 10).fills);
+    }
+
+    if (scarce !== surplus && agent.resources[scarce] < 50) {
+      const price = this.exchangeSystem.getQuote(scarce).mid * jitter() * (agent.resources[scarce] < 20 ? 1.1 : 1);
+      const quantity = Math.min(10, Math.floor(this.tokenSystem.getBalance(agent.id) / Math.max(0.01, price)));
+      if (quantity > 0) {
+        fills.push(...this.submitOrder(agent.id, scarce, 'bid', price, quantity).fills);
+      }
+    }
+
+    return fills;
+  }
+
+  // Agents and organizations both hold resources and trade from an account named after their id
+  private findHolder(id: string): Agent | Organization | undefined {
+    return this.agentsById.get(id) ?? this.organizationSystem.getOrganization(id);
+  }
+
+  // Disputes are heard by the payer's tribe, or the payee's when the payer is a human account
+  private getJurisdiction(payer: string, payee: string): string {
+    return this.findHolderTribe(payer) ?? this.findHolderTribe(payee) ?? this.TRIBES[0];
+  }
+
+  private findHolderTribe(id: string): string | undefined {
+    const holder = this.findHolder(id);
+    return holder ? holder.tribe : undefined;
+  }
+
+  // How much of an escrow contract's deliverable is done, from 0 to 1
+  private getEscrowProgress(contract: EscrowContract): number {
+    const condition = contract.condition;
+    switch (condition.type) {
+      case 'resource_delivered':
+        return Math.min(1, contract.delivered / condition.amount);
+      case 'building_completed': {
+        const building = this.buildingSystem.getBuilding(condition.buildingId);
+        return building ? Math.min(1, building.constructionProgress / 100) : 0;
+      }
+      case 'quest_completed': {
+        const quest = this.questSystem.getQuest(condition.questId);
+        if (!quest) return 0;
+        return quest.status === 'completed' ? 1 : Math.min(0.99, quest.progress / Math.max(1, quest.maxProgress));
+      }
+      case 'mercenary_contract': {
+        const mercenaries = this.mercenarySystem.getContract(condition.contractId);
+        if (!mercenaries) return 0;
+        if (mercenaries.status === 'completed') return 1;
+        return mercenaries.status === 'active' ? Math.min(0.99, mercenaries.daysServed / mercenaries.contractDays) : 0;
+      }
+    }
+    return 0;
+  }
+
+  private updateEscrow(): void {
+    const settlements = this.escrowSystem.update(
+      this.state.day,
+      contract => this.getEscrowProgress(contract),
+      (contract, progress) => this.governanceSystem.resolveDispute(contract.tribe, progress)
+    );
+    for (const { contract, outcome, via, reason } of settlements) {
+      this.emit('EscrowSettled', {
+        contractId: contract.id,
+        payer: contract.payer,
+        payee: contract.payee,
+        amount: contract.amount,
+        tribe: contract.tribe,
+        outcome,
+        via,
+        reason
+      });
+    }
+  }
+
+  // Place an order on the exchange and report its fills as MarketFill events
+  private submitOrder(owner: string, resource: ExchangeResource, side: OrderSide, price: number, quantity: number): PlaceOrderResult {
+    const result = this.exchangeSystem.placeOrder(owner, resource, side, price, quantity, this.state.day);
+    for (const fill of result.fills) {
+      this.emit('MarketFill', {
+        resource: fill.resource,
+        price: fill.price,
+        quantity: fill.quantity,
+        buyer: fill.buyer,
+        seller: fill.seller,
+        takerSide: fill.takerSide
+      });
+      // The seller owes sales tax to its own tribe
+      const seller = this.findHolder(fill.seller);
+      if (seller) {
+        this.fiscalSystem.levy(fill.seller, seller.tribe, 'sales', fill.price * fill.quantity * this.getTaxRates(seller.tribe).sales);
+      }
+    }
+    return result;
+  }
+
+  // Organizations sell down large stockpiles and restock what they're short of, once a day
+  private runOrganizationTrading(): void {
+    for (const org of this.organizationSystem.getAllOrganizations()) {
+      if (this.exchangeSystem.getOpenOrders(org.id).length > 0) continue;
+
+      for (const resource of EXCHANGE_RESOURCES) {
+        const mid = this.exchangeSystem.getQuote(resource).mid;
+        if (org.resources[resource] > 200) {
+          this.submitOrder(org.id, resource, 'ask', mid * 1.02, 20);
+        } else if (org.resources[resource] < 50) {
+          const quantity = Math.min(20, Math.floor(this.tokenSystem.getBalance(org.id) / (mid * 0.98)));
+          if (quantity > 0) this.submitOrder(org.id, resource, 'bid', mid * 0.98, quantity);
+        }
+      }
+    }
+  }
+
+  // Daily exchange housekeeping: drop stale and orphaned orders, let orgs quote, then publish mid prices
+  private updateExchange(): void {
+    this.exchangeSystem.expireOrders(this.state.day);
+    const departed = new Set(this.state.agents.filter(a => !a.alive).map(a => a.id));
+    this.exchangeSystem.cancelOrdersWhere(order => departed.has(order.owner));
+    this.runOrganizationTrading();
+    this.tradeRouteSystem.setMarketPrices(this.exchangeSystem.getMidPrices());
+  }
+
+  // Agents only turn on their own tribe once they've made enemies of each other
+  private canAttack(attacker: Agent, target: Agent): boolean {
+    return target.tribe !== attacker.tribe || attacker.enemies.has(target.id);
+  }
+
   private handleCombat(attacker: Agent, defender: Agent): boolean {
     if (!attacker.skills.includes('combat')) return false;
 
     // Same tribe rarely fights
-    if (attacker.tribe === defender.tribe && Math.random() > 0.1) {
+    if (attacker.tribe === defender.tribe && this.random.next() > 0.1) {
       return false;
     }
 
@@ -548,6 +819,7 @@ export class GameEngine {
     for (const ally of nearbyAllies.slice(0, 3)) { // Up to 3 allies help
       if (ally.tribe === defender.tribe && ally.skills.includes('combat')) {
         ally.targetAgentId = attacker.id;
+        this.startJourney(ally, { type: 'agent', agentId: attacker.id }, 'battle');
       }
     }
 
@@ -562,7 +834,7 @@ export class GameEngine {
     const attackPower = (attacker.resources.energy * 0.5 + attacker.resources.materials * 0.3) * attackerCombatMod * attackerGovEffects.militaryPower * attackerArtifacts.combatBoost;
     const defensePower = (defender.resources.energy * 0.5 + defender.resources.materials * 0.3) * defenderCombatMod * defenderGovEffects.militaryPower * defenderArtifacts.defenseBoost;
 
-    const attackerWins = attackPower > defensePower * (0.8 + Math.random() * 0.4);
+    const attackerWins = attackPower > defensePower * (0.8 + this.random.next() * 0.4);
 
     if (attackerWins) {
       // Attacker steals resources
@@ -583,28 +855,22 @@ export class GameEngine {
       // Add to enemies
       defender.enemies.add(attacker.id);
 
-      this.state.messages.push({
-        id: `combat-${Date.now()}-${attacker.id}`,
-        agentId: attacker.id,
-        agentName: attacker.name,
-        tribe: attacker.tribe,
-        content: `Defeated ${defender.name} in combat and took ${Math.round(stolenFood)} food, ${Math.round(stolenMaterials)} materials!`,
-        timestamp: this.state.day,
-        type: 'combat'
+      this.emit('CombatResolved', {
+        attackerId: attacker.id,
+        attackerName: attacker.name,
+        attackerTribe: attacker.tribe,
+        defenderId: defender.id,
+        defenderName: defender.name,
+        defenderTribe: defender.tribe,
+        winner: 'attacker',
+        foodTaken: stolenFood,
+        materialsTaken: stolenMaterials
       });
 
       // Check if defender dies
       if (defender.resources.food <= 0) {
         defender.alive = false;
-        this.state.messages.push({
-          id: `death-${Date.now()}-${defender.id}`,
-          agentId: defender.id,
-          agentName: defender.name,
-          tribe: defender.tribe,
-          content: `${defender.name} has fallen in battle!`,
-          timestamp: this.state.day,
-          type: 'combat'
-        });
+        this.emit('AgentDied', { agentId: defender.id, agentName: defender.name, tribe: defender.tribe, cause: 'combat', detail: attacker.id });
       }
     } else {
       // Defender wins
@@ -618,14 +884,16 @@ export class GameEngine {
       attacker.targetAgentId = undefined;
       defender.targetAgentId = undefined;
 
-      this.state.messages.push({
-        id: `combat-${Date.now()}-${defender.id}`,
-        agentId: defender.id,
-        agentName: defender.name,
-        tribe: defender.tribe,
-        content: `Successfully defended against ${attacker.name}!`,
-        timestamp: this.state.day,
-        type: 'combat'
+      this.emit('CombatResolved', {
+        attackerId: attacker.id,
+        attackerName: attacker.name,
+        attackerTribe: attacker.tribe,
+        defenderId: defender.id,
+        defenderName: defender.name,
+        defenderTribe: defender.tribe,
+        winner: 'defender',
+        foodTaken: 0,
+        materialsTaken: 0
       });
     }
 
@@ -640,7 +908,7 @@ export class GameEngine {
 
     // Form alliance with same tribe
     if (agent.tribe === other.tribe && !agent.alliances.has(other.id)) {
-      if (Math.random() > 0.6) {
+      if (this.random.next() > 0.6) {
         agent.alliances.add(other.id);
         other.alliances.add(agent.id);
         agent.resources.socialCapital += 10;
@@ -652,17 +920,16 @@ export class GameEngine {
           `Strong bond formed with ${other.name}!`
         ];
 
-        agent.currentMessage = diplomacyDialogues[Math.floor(Math.random() * diplomacyDialogues.length)];
+        agent.currentMessage = diplomacyDialogues[Math.floor(this.random.next() * diplomacyDialogues.length)];
         agent.messageTimer = 5;
 
-        this.state.messages.push({
-          id: `diplomacy-${Date.now()}-${agent.id}`,
+        this.emit('AllianceFormed', {
           agentId: agent.id,
           agentName: agent.name,
           tribe: agent.tribe,
-          content: agent.currentMessage,
-          timestamp: this.state.day,
-          type: 'diplomacy'
+          allyId: other.id,
+          allyName: other.name,
+          text: agent.currentMessage
         });
 
         // Reward successful alliance
@@ -674,7 +941,7 @@ export class GameEngine {
     }
 
     // Try to make peace with enemy
-    if (agent.enemies.has(other.id) && Math.random() > 0.7) {
+    if (agent.enemies.has(other.id) && this.random.next() > 0.7) {
       agent.enemies.delete(other.id);
       other.enemies.delete(agent.id);
       agent.resources.socialCapital += 20;
@@ -682,15 +949,7 @@ export class GameEngine {
       agent.currentMessage = `Made peace with ${other.name}!`;
       agent.messageTimer = 5;
 
-      this.state.messages.push({
-        id: `diplomacy-${Date.now()}-${agent.id}`,
-        agentId: agent.id,
-        agentName: agent.name,
-        tribe: agent.tribe,
-        content: `Diplomatic success! Peace established with ${other.name}.`,
-        timestamp: this.state.day,
-        type: 'diplomacy'
-      });
+      this.emit('PeaceMade', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, otherId: other.id, otherName: other.name });
 
       // Reward successful peace treaty
       this.tokenSystem.earnTokens(agent.id, 25, 'peace_treaty');
@@ -702,38 +961,19 @@ export class GameEngine {
     return false;
   }
 
-  private handleAgentInteractions(agent: Agent): void {
-    const nearby = this.getNearbyAgents(agent, 1);
-
-    for (const other of nearby) {
-      // Try diplomacy first
-      if (this.handleDiplomacy(agent, other)) continue;
-
-      // Try trade
-      if (this.handleTrade(agent, other)) continue;
-
-      // Try combat (only with enemies or different tribes)
-      if (agent.tribe !== other.tribe || agent.enemies.has(other.id)) {
-        if (this.handleCombat(agent, other)) continue;
-      }
-    }
-  }
-
   public tick(): void {
     this.state.day++;
+    this.syncAgentIndex();
 
     // Check achievements and victory (only if not already won)
     if (!this.victoryAchieved) {
       const newlyUnlocked = this.achievementSystem.checkAchievements(this);
       for (const achievement of newlyUnlocked) {
-        this.addMessage({
-          id: `achievement-${achievement.id}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: 'Global',
-          content: `🏆 Achievement Unlocked: ${achievement.icon} ${achievement.name} - ${achievement.description}`,
-          timestamp: this.state.day,
-          type: 'celebration'
+        this.emit('AchievementUnlocked', {
+          achievementId: achievement.id,
+          name: achievement.name,
+          icon: achievement.icon,
+          description: achievement.description
         });
       }
 
@@ -741,29 +981,19 @@ export class GameEngine {
       const victory = this.achievementSystem.checkVictory(this);
       if (victory && victory.victory) {
         this.victoryAchieved = true;
-        this.addMessage({
-          id: `victory-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: 'Global',
-          content: `🎉 VICTORY! ${victory.reason}`,
-          timestamp: this.state.day,
-          type: 'celebration'
-        });
+        this.emit('VictoryAchieved', { winner: victory.winner, reason: victory.reason });
       }
     }
 
     // Check for random events
     const newEvent = this.eventSystem.checkForEvent(this.state);
     if (newEvent) {
-      this.addMessage({
-        id: `event-${newEvent.id}-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: `${newEvent.icon} ${newEvent.name}: ${newEvent.description}`,
-        timestamp: this.state.day,
-        type: newEvent.type === 'disaster' ? 'combat' : 'celebration'
+      this.emit('WorldEventStarted', {
+        eventId: newEvent.id,
+        name: newEvent.name,
+        icon: newEvent.icon,
+        description: newEvent.description,
+        category: newEvent.type
       });
 
       // Apply event effects to all agents
@@ -773,15 +1003,7 @@ export class GameEngine {
       if (results.casualties.length > 0) {
         const deadAgents = this.state.agents.filter(a => results.casualties.includes(a.id));
         for (const agent of deadAgents) {
-          this.addMessage({
-            id: `death-${Date.now()}-${agent.id}`,
-            agentId: agent.id,
-            agentName: agent.name,
-            tribe: agent.tribe,
-            content: `${agent.name} perished in the ${newEvent.name}!`,
-            timestamp: this.state.day,
-            type: 'combat'
-          });
+          this.emit('AgentDied', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, cause: 'event', detail: newEvent.name });
         }
       }
     }
@@ -789,40 +1011,16 @@ export class GameEngine {
     // Update active events
     const expiredEvents = this.eventSystem.updateActiveEvents();
     for (const event of expiredEvents) {
-      this.addMessage({
-        id: `event-end-${event.id}-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: `${event.icon} The ${event.name} has ended.`,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('WorldEventEnded', { eventId: event.id, name: event.name, icon: event.icon });
     }
 
     // Advance season and weather
     const seasonUpdate = this.seasonSystem.advanceDay();
     if (seasonUpdate.seasonChanged) {
-      this.addMessage({
-        id: `season-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: `🌍 The season has changed to ${seasonUpdate.newSeason!.emoji} ${seasonUpdate.newSeason!.name}!`,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('SeasonChanged', { season: seasonUpdate.newSeason!.name, emoji: seasonUpdate.newSeason!.emoji });
     }
     if (seasonUpdate.weatherChanged && !seasonUpdate.seasonChanged) {
-      this.addMessage({
-        id: `weather-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: `🌦️ Weather changed to ${seasonUpdate.newWeather!.emoji} ${seasonUpdate.newWeather!.name}`,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('WeatherChanged', { weather: seasonUpdate.newWeather!.name, emoji: seasonUpdate.newWeather!.emoji });
     }
 
     // Update buildings and apply benefits
@@ -831,7 +1029,7 @@ export class GameEngine {
     this.state.buildings = buildings;
 
     for (const building of buildings) {
-      this.buildingSystem.updateBuilding(building.id);
+      this.buildingSystem.updateBuilding(building.id, this.budgetSystem.getConstructionBoost(building.tribe));
 
       // Apply benefits to tribe if construction complete
       if (building.constructionProgress >= 100) {
@@ -847,16 +1045,26 @@ export class GameEngine {
       }
     }
 
+    // Agents pay their daily $CLAW upkeep before acting
+    this.runUpkeep();
+
+    // Work out how many people each cell and tribe can feed before anyone gathers
+    this.updateCarryingCapacity();
+
     // Each agent takes action
+    this.tribeViews.clear();
+    this.tribeViewsDay = this.state.day;
+    this.refreshStepCosts();
     for (const agent of this.state.agents) {
       if (!agent.alive) continue;
       this.agentAction(agent);
     }
 
-    // Decay territories occasionally (every 10 days)
-    if (this.state.day % 10 === 0) {
-      this.territorySystem.decayTerritories();
-    }
+    // Everyone with somewhere to be walks the day's distance
+    this.updateMovement();
+
+    // Influence pushes borders around; cells change hands only after days of dominance
+    this.updateTerritory();
 
     // Update diplomacy and generate AI proposals occasionally (every 15 days)
     if (this.state.day % 15 === 0) {
@@ -876,15 +1084,7 @@ export class GameEngine {
             const evaluation = this.diplomacySystem.evaluateProposal(proposal1, 0);
             if (evaluation.accept) {
               this.diplomacySystem.respondToProposal(proposal1.id, true);
-              this.addMessage({
-                id: `diplomacy-${proposal1.id}`,
-                agentId: 'system',
-                agentName: 'System',
-                tribe: tribe1,
-                content: `🤝 ${tribe1} and ${tribe2} have formed a ${proposal1.type.replace('_', ' ')}!`,
-                timestamp: this.state.day,
-                type: 'diplomacy'
-              });
+              this.emit('TreatyFormed', { proposalId: proposal1.id, proposer: tribe1, recipient: tribe2, treatyType: proposal1.type });
             }
           }
 
@@ -894,15 +1094,7 @@ export class GameEngine {
             const evaluation = this.diplomacySystem.evaluateProposal(proposal2, 0);
             if (evaluation.accept) {
               this.diplomacySystem.respondToProposal(proposal2.id, true);
-              this.addMessage({
-                id: `diplomacy-${proposal2.id}`,
-                agentId: 'system',
-                agentName: 'System',
-                tribe: tribe2,
-                content: `🤝 ${tribe2} and ${tribe1} have formed a ${proposal2.type.replace('_', ' ')}!`,
-                timestamp: this.state.day,
-                type: 'diplomacy'
-              });
+              this.emit('TreatyFormed', { proposalId: proposal2.id, proposer: tribe2, recipient: tribe1, treatyType: proposal2.type });
             }
           }
         }
@@ -913,15 +1105,7 @@ export class GameEngine {
     if (this.state.day % 20 === 0) {
       const orgEvents = this.organizationSystem.updateOrganizations(this.state.day);
       for (const event of orgEvents.events) {
-        this.addMessage({
-          id: `org-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: 'Global',
-          content: event,
-          timestamp: this.state.day,
-          type: 'celebration'
-        });
+        this.emit('SystemNotice', { source: 'organization', text: event });
       }
     }
 
@@ -942,26 +1126,34 @@ export class GameEngine {
         // Update approval rating
         this.governanceSystem.updateApproval(tribe, prosperity, security);
 
-        // Collect taxes
-        const collected = this.governanceSystem.collectTaxes(tribe, tribeAgents);
+        // Income and wealth taxes; this also closes the tribe's budget period
+        const rates = this.getTaxRates(tribe);
+        const taxes = this.fiscalSystem.collectTaxes(tribe, tribeAgents, rates, this.state.day);
+        this.governanceSystem.reactToTaxes(tribe, rates.income);
+        this.governanceSystem.reactToCrowding(tribe, this.carryingCapacitySystem.getTribeCapacity(tribe)?.load ?? 0);
+        if (taxes.income + taxes.wealth > 0) {
+          this.emit('TaxesCollected', {
+            tribe,
+            income: taxes.income,
+            wealth: taxes.wealth,
+            taxpayers: taxes.taxpayers,
+            treasury: this.tokenSystem.getTreasuryBalance(tribe)
+          });
+        }
+
+        // The government spends its share of the treasury for the next period and offers credit
+        this.runBudget(tribe, tribeAgents);
+        this.offerTreasuryCredit(tribe);
 
         // Check for government transitions
-        if (gov.approvalRating < 30 && Math.random() < 0.05) {
+        if (gov.approvalRating < 30 && this.random.next() < 0.05) {
           const oldGovName = gov.name;
           const evolutionOptions = this.governanceSystem.getEvolutionOptions(tribe);
           if (evolutionOptions.length > 0) {
-            const option = evolutionOptions[Math.floor(Math.random() * evolutionOptions.length)];
+            const option = evolutionOptions[Math.floor(this.random.next() * evolutionOptions.length)];
             if (this.governanceSystem.transitionGovernment(tribe, option.type)) {
               const newGov = this.governanceSystem.getGovernment(tribe);
-              this.addMessage({
-                id: `gov-transition-${Date.now()}-${tribe}`,
-                agentId: 'system',
-                agentName: 'System',
-                tribe,
-                content: `🏛️ ${tribe} government transitioned from ${oldGovName} to ${newGov.icon} ${newGov.name}!`,
-                timestamp: this.state.day,
-                type: 'celebration'
-              });
+              this.emit('GovernmentChanged', { tribe, from: oldGovName, to: newGov.name, icon: newGov.icon, via: 'transition' });
             }
           }
         }
@@ -971,26 +1163,17 @@ export class GameEngine {
           const daysSinceElection = this.state.day - gov.lastElectionDay;
           if (daysSinceElection >= gov.electionCycle) {
             const electionResult = this.governanceSystem.holdElections(tribe);
-            if (electionResult && electionResult.governmentChanged) {
+            if (electionResult) {
               const newGov = this.governanceSystem.getGovernment(tribe);
-              this.addMessage({
-                id: `election-${Date.now()}-${tribe}`,
-                agentId: 'system',
-                agentName: 'System',
-                tribe,
-                content: `🗳️ ${tribe} elections resulted in government change to ${newGov.icon} ${newGov.name}!`,
-                timestamp: this.state.day,
-                type: 'celebration'
-              });
-            } else if (electionResult) {
-              this.addMessage({
-                id: `election-${Date.now()}-${tribe}`,
-                agentId: 'system',
-                agentName: 'System',
+              if (electionResult.governmentChanged) {
+                this.emit('GovernmentChanged', { tribe, from: gov.name, to: newGov.name, icon: newGov.icon, via: 'election' });
+              }
+              this.emit('ElectionHeld', {
                 tribe,
-                content: `🗳️ ${tribe} elections held. Incumbent ${gov.leaderTitle} retains power.`,
-                timestamp: this.state.day,
-                type: 'celebration'
+                governmentChanged: electionResult.governmentChanged,
+                government: newGov.name,
+                icon: newGov.icon,
+                leaderTitle: gov.leaderTitle
               });
             }
           }
@@ -1001,15 +1184,7 @@ export class GameEngine {
     // Update spy missions (every day)
     const spyUpdateResult = this.spySystem.updateMissions(this.state.day, this.state);
     for (const event of spyUpdateResult.events) {
-      this.addMessage({
-        id: `spy-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: event,
-        timestamp: this.state.day,
-        type: 'combat'
-      });
+      this.emit('SystemNotice', { source: 'spy', text: event });
     }
 
     // Clean up old intel reports periodically
@@ -1020,15 +1195,7 @@ export class GameEngine {
     // Update festivals
     const festivalUpdate = this.festivalSystem.updateFestivals(this.state.day);
     for (const message of festivalUpdate.messages) {
-      this.addMessage({
-        id: `festival-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: message,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('SystemNotice', { source: 'festival', text: message });
     }
 
     // Clean up old festivals periodically
@@ -1040,62 +1207,31 @@ export class GameEngine {
     if (this.state.day % 5 === 0) {
       const religionUpdate = this.religionSystem.updateReligionStatuses();
       for (const event of religionUpdate.events) {
-        this.addMessage({
-          id: `religion-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: 'Global',
-          content: event,
-          timestamp: this.state.day,
-          type: 'celebration'
-        });
+        this.emit('SystemNotice', { source: 'religion', text: event });
       }
     }
 
     // Update diseases
     const diseaseUpdate = this.diseaseSystem.updateDiseases(this.state.agents, this.state.day);
     for (const event of diseaseUpdate.events) {
-      this.addMessage({
-        id: `disease-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: event,
-        timestamp: this.state.day,
-        type: 'combat'
-      });
+      this.emit('SystemNotice', { source: 'disease', text: event });
     }
 
     // Spread diseases between nearby agents
     for (const disease of this.diseaseSystem.getActiveDiseases()) {
-      const spreadResult = this.diseaseSystem.spreadDisease(disease.id, this.state.agents, this.state.day);
+      const spreadResult = this.diseaseSystem.spreadDisease(disease.id, this.state.agents, this.state.day,
+        agent => this.carryingCapacitySystem.getTransmissionModifier(agent));
       if (spreadResult.newInfections.length > 0) {
-        this.addMessage({
-          id: `disease-spread-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: 'Global',
-          content: `🦠 ${disease.name} has infected ${spreadResult.newInfections.length} agent(s)!`,
-          timestamp: this.state.day,
-          type: 'combat'
-        });
+        this.emit('DiseaseSpread', { diseaseId: disease.id, name: disease.name, infected: spreadResult.newInfections });
       }
     }
 
     // Random disease outbreak chance (0.5% per day)
-    if (Math.random() < 0.005) {
-      const randomTribe = this.TRIBES[Math.floor(Math.random() * this.TRIBES.length)];
+    if (this.random.next() < 0.005) {
+      const randomTribe = this.TRIBES[Math.floor(this.random.next() * this.TRIBES.length)];
       const outbreak = this.diseaseSystem.triggerOutbreak(randomTribe);
       if (outbreak) {
-        this.addMessage({
-          id: `outbreak-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'System',
-          tribe: randomTribe,
-          content: `⚠️ OUTBREAK: ${outbreak.icon} ${outbreak.name} has emerged in ${randomTribe}!`,
-          timestamp: this.state.day,
-          type: 'combat'
-        });
+        this.emit('OutbreakStarted', { diseaseId: outbreak.id, name: outbreak.name, icon: outbreak.icon, tribe: randomTribe });
       }
     }
 
@@ -1107,36 +1243,30 @@ export class GameEngine {
     // Update wonders
     const wonderUpdate = this.wonderSystem.updateWonders(this.state.day);
     for (const event of wonderUpdate.events) {
-      this.addMessage({
-        id: `wonder-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: event,
-        timestamp: this.state.day,
-        type: 'celebration'
-      });
+      this.emit('SystemNotice', { source: 'wonder', text: event });
     }
 
     // Update trade routes
     const tradeUpdate = this.tradeRouteSystem.updateRoutes(this.state.day);
     for (const incident of tradeUpdate.incidents) {
-      this.addMessage({
-        id: `trade-${Date.now()}`,
-        agentId: 'system',
-        agentName: 'System',
-        tribe: 'Global',
-        content: incident,
-        timestamp: this.state.day,
-        type: 'trade'
-      });
+      this.emit('SystemNotice', { source: 'trade_route', text: incident });
     }
-
-    // Update market prices periodically
-    if (this.state.day % 7 === 0) {
-      this.tradeRouteSystem.updateMarketPrices();
+    for (const delivery of tradeUpdate.deliveries) {
+      this.fiscalSystem.levyTariff(delivery.fromTribe, delivery.toTribe, delivery.value, this.getTaxRates(delivery.toTribe).tariff);
     }
 
+    // Settle the exchange's day and publish prices to the marketplaces
+    this.updateExchange();
+
+    // Pay out fulfilled escrow contracts, refund expired ones and hear disputes
+    this.updateEscrow();
+
+    // Collect loan installments and deal with defaults and bank runs
+    this.updateLending();
+
+    // Resolve prediction markets whose day has come
+    this.updatePredictionMarkets();
+
     // Clean up old trade routes periodically
     if (this.state.day % 200 === 0) {
       this.tradeRouteSystem.cleanupOldRoutes(this.state.day);
@@ -1145,15 +1275,7 @@ export class GameEngine {
     // Update population system
     const ageEvents = this.populationSystem.updateAges(this.state.day, this.state.agents);
     for (const event of ageEvents) {
-      this.addMessage({
-        id: `pop-${event.id}`,
-        agentId: event.agentId,
-        agentName: event.agentName,
-        tribe: event.tribe,
-        content: `${event.icon} ${event.description}`,
-        timestamp: this.state.day,
-        type: event.type === 'birth' ? 'celebration' : 'chat'
-      });
+      this.emitLifeEvent(event);
     }
 
     // Check for births periodically
@@ -1164,25 +1286,21 @@ export class GameEngine {
         const resources = {
           food: tribeAgents.reduce((sum, a) => sum + a.resources.food, 0),
           energy: tribeAgents.reduce((sum, a) => sum + a.resources.energy, 0),
-          materials: tribeAgents.reduce((sum, a) => sum + a.resources.materials, 0)
+          materials: tribeAgents.reduce((sum, a) => sum + a.resources.materials, 0),
+          capacity: this.carryingCapacitySystem.getTribeCapacity(tribe)?.capacity
         };
         tribeResources.set(tribe, resources);
       }
 
       const birthEvents = this.populationSystem.checkBirths(this.state.agents, this.state.day, tribeResources);
       for (const event of birthEvents) {
-        this.addMessage({
-          id: `pop-${event.id}`,
-          agentId: event.agentId,
-          agentName: event.agentName,
-          tribe: event.tribe,
-          content: `${event.icon} ${event.description}`,
-          timestamp: this.state.day,
-          type: 'celebration'
-        });
+        this.emitLifeEvent(event);
       }
     }
 
+    // Deploy queued human agents while tribes have room
+    this.processSpawnQueue();
+
     // Record population trends periodically
     if (this.state.day % 10 === 0) {
       this.populationSystem.recordTrend(this.state.day, this.state.agents);
@@ -1194,14 +1312,13 @@ export class GameEngine {
     for (const quest of expiredQuests) {
       const agent = this.state.agents.find(a => a.id === quest.assignedAgentId);
       if (agent) {
-        this.addMessage({
-          id: `quest-expired-${quest.id}`,
+        this.emit('QuestExpired', {
+          questId: quest.id,
           agentId: quest.assignedAgentId,
           agentName: agent.name,
           tribe: agent.tribe,
-          content: `⏰ Quest Expired: ${quest.icon} ${quest.name} - Time limit exceeded!`,
-          timestamp: this.state.day,
-          type: 'chat'
+          name: quest.name,
+          icon: quest.icon
         });
       }
     }
@@ -1216,17 +1333,17 @@ export class GameEngine {
 
         // Only assign quest if agent doesn't have one and is adult
         const demo = this.populationSystem.getAgentDemographics(agent.id);
-        if (!hasActiveQuest && demo && demo.ageGroup === 'adult' && Math.random() < 0.3) {
+        if (!hasActiveQuest && demo && demo.ageGroup === 'adult' && this.random.next() < 0.3) {
           const newQuest = this.questSystem.generateQuest(agent);
           if (newQuest) {
-            this.addMessage({
-              id: `quest-assigned-${newQuest.id}`,
+            this.emit('QuestAssigned', {
+              questId: newQuest.id,
               agentId: agent.id,
               agentName: agent.name,
               tribe: agent.tribe,
-              content: `📜 New Quest: ${newQuest.icon} ${newQuest.name} - ${newQuest.description}`,
-              timestamp: this.state.day,
-              type: 'chat'
+              name: newQuest.name,
+              icon: newQuest.icon,
+              description: newQuest.description
             });
           }
         }
@@ -1238,15 +1355,7 @@ export class GameEngine {
       for (const tribe of this.TRIBES) {
         const dailyQuest = this.questSystem.generateDailyQuest(tribe, this.state.day);
         if (dailyQuest) {
-          this.addMessage({
-            id: `daily-quest-${dailyQuest.id}`,
-            agentId: 'system',
-            agentName: 'Tribe Council',
-            tribe,
-            content: `📋 Daily Quest Available: ${dailyQuest.icon} ${dailyQuest.name}`,
-            timestamp: this.state.day,
-            type: 'celebration'
-          });
+          this.emit('DailyQuestPosted', { questId: dailyQuest.id, tribe, name: dailyQuest.name, icon: dailyQuest.icon });
         }
       }
     }
@@ -1265,17 +1374,41 @@ export class GameEngine {
     const weatherEvents = this.weatherSystem.updateWeather(this.state.day);
     for (const weather of weatherEvents) {
       if (weather.severity >= 6) {
-        this.addMessage({
-          id: `weather-${Date.now()}`,
-          agentId: 'system',
-          agentName: 'Weather Service',
-          tribe: 'Global',
-          content: `${weather.icon} Weather Alert: ${weather.name} - ${weather.description}`,
-          timestamp: this.state.day,
-          type: weather.severity >= 8 ? 'combat' : 'chat'
+        this.emit('WeatherAlert', {
+          weather: weather.type,
+          name: weather.name,
+          icon: weather.icon,
+          description: weather.description,
+          severity: weather.severity
         });
       }
     }
+
+    this.history.compactIfDue(this.state.day);
+
+    // Tribe views cached while agents acted miss everything since; observations between ticks rebuild them
+    this.tribeViewsDay = -1;
+
+    if (this.debug) {
+      const violations = this.tokenSystem.checkInvariants();
+      if (violations.length > 0) {
+        throw new Error(`$CLAW ledger invariant violated on day ${this.state.day}: ${violations.join('; ')}`);
+      }
+      const escrowHeld = this.tokenSystem.getBalance(EscrowSystem.ESCROW_ACCOUNT);
+      const escrowLocked = this.escrowSystem.getLockedTotal();
+      if (Math.abs(escrowHeld - escrowLocked) > 1e-6 * Math.max(1, escrowLocked)) {
+        throw new Error(`Escrow invariant violated on day ${this.state.day}: account holds ${escrowHeld} but contracts lock ${escrowLocked}`);
+      }
+      const marketHeld = this.tokenSystem.getBalance(PredictionMarketSystem.MARKET_ACCOUNT);
+      const marketLocked = this.predictionMarkets.getLockedTotal();
+      if (Math.abs(marketHeld - marketLocked) > 1e-6 * Math.max(1, marketLocked)) {
+        throw new Error(`Prediction market invariant violated on day ${this.state.day}: account holds ${marketHeld} but markets hold ${marketLocked}`);
+      }
+      const tokenViolations = this.resourceTokenRegistry.checkInvariants();
+      if (tokenViolations.length > 0) {
+        throw new Error(`Resource token invariant violated on day ${this.state.day}: ${tokenViolations.join('; ')}`);
+      }
+    }
   }
 
   private agentAction(agent: Agent): void {
@@ -1286,56 +1419,27 @@ export class GameEngine {
     // Check if agent dies
     if (agent.resources.food <= 0 || agent.resources.energy <= 0) {
       agent.alive = false;
+      this.emit('AgentDied', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, cause: 'starvation' });
       return;
     }
 
-    // Handle interactions with nearby agents
-    this.handleAgentInteractions(agent);
+    // Ask the tribe's policy what to do, then apply whatever is valid
+    const policy = this.getAgentPolicy(agent.tribe);
+    const actions = policy.decide(this.buildObservation(agent));
 
-    // Use special ability
-    this.useSpecialAbility(agent);
-
-    // Determine primary action based on skills
     let primaryAction = 'greeting';
-    if (agent.skills.includes('farming')) {
-      const foodModifier = this.seasonSystem.getResourceModifier('food');
-      const tribeModifier = this.tribeConfigSystem.getResourceModifier(agent.tribe, 'food');
-      const skillAffinity = this.tribeConfigSystem.getSkillModifier(agent.tribe, 'farming');
-      const govEffects = this.governanceSystem.getEffects(agent.tribe);
-      let baseFood = 12 * foodModifier * tribeModifier * skillAffinity * govEffects.productivity;
-      baseFood = this.applyArtifactBonuses(agent.tribe, 'food', baseFood);
-      agent.resources.food += baseFood;
-      primaryAction = 'farming';
-      this.tokenSystem.earnTokens(agent.id, 2, 'farming');
-      this.grantExperience(agent, 2);
-      this.organizationSystem.updateOrgStats(agent.id, 'farming', 'food');
-    }
-    if (agent.skills.includes('mining')) {
-      const materialsModifier = this.seasonSystem.getResourceModifier('materials');
-      const tribeModifier = this.tribeConfigSystem.getResourceModifier(agent.tribe, 'materials');
-      const skillAffinity = this.tribeConfigSystem.getSkillModifier(agent.tribe, 'mining');
-      const govEffects = this.governanceSystem.getEffects(agent.tribe);
-      let baseMaterials = 8 * materialsModifier * tribeModifier * skillAffinity * govEffects.productivity;
-      baseMaterials = this.applyArtifactBonuses(agent.tribe, 'materials', baseMaterials);
-      agent.resources.materials += baseMaterials;
-      primaryAction = 'mining';
-      this.tokenSystem.earnTokens(agent.id, 3, 'mining');
-      this.grantExperience(agent, 3);
-      this.organizationSystem.updateOrgStats(agent.id, 'mining', 'materials');
-    }
-    if (agent.skills.includes('research')) {
-      const knowledgeModifier = this.seasonSystem.getResourceModifier('knowledge');
-      const tribeModifier = this.tribeConfigSystem.getResourceModifier(agent.tribe, 'knowledge');
-      const skillAffinity = this.tribeConfigSystem.getSkillModifier(agent.tribe, 'research');
-      const govEffects = this.governanceSystem.getEffects(agent.tribe);
-      const artifactBonuses = this.artifactSystem.getArtifactBonuses(agent.tribe);
-      let baseKnowledge = 5 * knowledgeModifier * tribeModifier * skillAffinity * govEffects.researchSpeed * artifactBonuses.researchBoost;
-      baseKnowledge = this.applyArtifactBonuses(agent.tribe, 'knowledge', baseKnowledge);
-      agent.resources.knowledge += baseKnowledge;
-      primaryAction = 'research';
-      this.tokenSystem.earnTokens(agent.id, 5, 'research');
-      this.grantExperience(agent, 5);
-      this.organizationSystem.updateOrgStats(agent.id, 'research', 'knowledge');
+    const taken = new Set<string>();
+    for (const action of Array.isArray(actions) ? actions.slice(0, this.MAX_ACTIONS_PER_TICK) : []) {
+      if (!agent.alive) break;
+      if (this.validateAction(agent, action) !== null) continue;
+
+      // At most one action of each kind (per target or resource) per tick
+      const key = `${action.type}:${'targetId' in action ? action.targetId : 'resource' in action ? action.resource : ''}`;
+      if (taken.has(key)) continue;
+      taken.add(key);
+
+      const label = this.applyAction(agent, action);
+      if (label) primaryAction = label;
     }
 
     // Passive regeneration for all agents (keeps game going longer)
@@ -1352,14 +1456,12 @@ export class GameEngine {
       agent.messageTimer = 5; // Show for 5 ticks
 
       // Add to message history
-      this.state.messages.push({
-        id: `msg-${Date.now()}-${agent.id}`,
+      this.emit('AgentSpoke', {
         agentId: agent.id,
         agentName: agent.name,
         tribe: agent.tribe,
-        content: dialogue,
-        timestamp: this.state.day,
-        type: primaryAction === 'combat' ? 'combat' : 'chat'
+        text: dialogue,
+        channel: primaryAction === 'combat' ? 'combat' : 'chat'
       });
 
       // Keep only last 100 messages
@@ -1377,31 +1479,17 @@ export class GameEngine {
       }
     }
 
-    // Move randomly
-    const direction = Math.floor(Math.random() * 4);
-    switch (direction) {
-      case 0: agent.x = Math.max(0, agent.x - 1); break; // left
-      case 1: agent.x = Math.min(this.GRID_SIZE - 1, agent.x + 1); break; // right
-      case 2: agent.y = Math.max(0, agent.y - 1); break; // up
-      case 3: agent.y = Math.min(this.GRID_SIZE - 1, agent.y + 1); break; // down
-    }
-
-    // Claim territory for tribe (5% chance per move)
-    if (Math.random() < 0.05) {
-      this.territorySystem.claimTerritory(agent.x, agent.y, agent.tribe, 10);
-    }
-
     // Small chance to discover artifacts while exploring
     const discoveredArtifact = this.artifactSystem.discoverArtifact(agent.tribe, agent.id);
     if (discoveredArtifact) {
-      this.addMessage({
-        id: `artifact-discovery-${Date.now()}-${agent.id}`,
+      this.emit('ArtifactDiscovered', {
+        artifactId: discoveredArtifact.id,
+        name: discoveredArtifact.name,
+        icon: discoveredArtifact.icon,
+        description: discoveredArtifact.description,
         agentId: agent.id,
         agentName: agent.name,
-        tribe: agent.tribe,
-        content: `🏺 ${agent.name} discovered ${discoveredArtifact.icon} ${discoveredArtifact.name}! ${discoveredArtifact.description}`,
-        timestamp: this.state.day,
-        type: 'celebration'
+        tribe: agent.tribe
       });
 
       // Reward for discovery
@@ -1410,128 +1498,824 @@ export class GameEngine {
     }
   }
 
-  public getState(): GameState {
-    return this.state;
-  }
-
-  public getAliveAgents(): Agent[] {
-    return this.state.agents.filter(a => a.alive);
-  }
+  // Returns null if the action is allowed, otherwise the reason it was rejected
+  private validateAction(agent: Agent, action: AgentAction): string | null {
+    if (!action || !ACTION_TYPES.includes(action.type)) return 'unknown action';
 
-  public getMessages(limit: number = 20): Message[] {
-    return this.state.messages.slice(-limit);
-  }
+    switch (action.type) {
+      case 'idle':
+      case 'ability':
+      case 'claim':
+        return null;
 
-  public addMessage(message: Message): void {
-    this.state.messages.push(message);
-  }
+      case 'move': {
+        const step = this.DIRECTION_STEPS.get(action.direction);
+        if (!step) return 'invalid direction';
+        if (this.movementSystem.getJourney(agent.id)) return 'already travelling';
+        const [dx, dy] = step;
+        return this.getTile(agent.x + dx, agent.y + dy) ? null : 'edge of the map';
+      }
 
-  public getTokenSystem(): TokenSystem {
-    return this.tokenSystem;
-  }
+      case 'travel':
+        if (action.purpose !== undefined && !TRAVEL_PURPOSES.includes(action.purpose)) return 'invalid purpose';
+        if (!Number.isInteger(action.x) || !Number.isInteger(action.y) || !this.getTile(action.x, action.y)) return 'invalid tile';
+        return action.x === agent.x && action.y === agent.y ? 'already there' : null;
+
+      case 'approach': {
+        if (action.purpose !== undefined && !APPROACH_PURPOSES.includes(action.purpose)) return 'invalid purpose';
+        const target = this.state.agents.find(a => a.id === action.targetId);
+        if (!target || !target.alive || target.id === agent.id) return 'invalid target';
+        // Marching to battle ends in an attack, so it's held to the same rule
+        if (action.purpose === 'battle' && !this.canAttack(agent, target)) return 'cannot attack tribe member';
+        const dx = target.worldX - agent.worldX;
+        const dz = target.worldZ - agent.worldZ;
+        return Math.sqrt(dx * dx + dz * dz) > this.INTERACTION_RANGE ? null : 'already in range';
+      }
 
-  public getAgentBalance(agentId: string): number {
-    return this.tokenSystem.getBalance(agentId);
-  }
+      case 'gather':
+        if (action.resource === 'food') return agent.skills.includes('farming') ? null : 'requires farming';
+        if (action.resource === 'materials') {
+          if (!agent.skills.includes('mining')) return 'requires mining';
+          return getMiningYield(this.getTile(agent.x, agent.y)) > 0 ? null : 'deposit exhausted';
+        }
+        return 'invalid resource';
 
-  public getMarketStats() {
-    return this.tokenSystem.getMarketStats();
-  }
+      case 'research': {
+        if (!agent.skills.includes('research')) return 'requires research';
+        if (action.techId !== undefined && !this.techTrees.get(agent.tribe)?.canResearch(action.techId)) {
+          return 'tech not available';
+        }
+        return null;
+      }
 
-  public getTerritorySystem() {
-    return this.territorySystem;
-  }
+      case 'trade':
+      case 'attack':
+      case 'diplomacy': {
+        const target = this.state.agents.find(a => a.id === action.targetId);
+        if (!target || !target.alive || target.id === agent.id) return 'invalid target';
+        const dx = target.worldX - agent.worldX;
+        const dz = target.worldZ - agent.worldZ;
+        if (Math.sqrt(dx * dx + dz * dz) > this.INTERACTION_RANGE) return 'target out of range';
+        if (action.type === 'attack' && !this.canAttack(agent, target)) return 'cannot attack tribe member';
+        return null;
+      }
 
-  // Tech Tree Methods
-  public getTechTree(tribe: string): TechTree | undefined {
-    return this.techTrees.get(tribe);
-  }
+      case 'build':
+        if (!agent.skills.includes('building')) return 'requires building';
+        return this.buildingSystem.getBuildingTypes().includes(action.buildingType) ? null : 'unknown building type';
 
-  public researchTech(tribe: string, techId: string): boolean {
-    const techTree = this.techTrees.get(tribe);
-    if (!techTree) return false;
+      case 'pray':
+        return this.religionSystem.getDominantReligion(agent.tribe) ? null : 'tribe has no religion';
 
-    // Calculate tribe resources with tribe-specific modifier
-    const tribeAgents = this.state.agents.filter(a => a.tribe === tribe && a.alive);
-    const researchMod = this.tribeConfigSystem.getResearchModifier(tribe);
+      case 'spy': {
+        if (action.targetTribe === agent.tribe || !this.TRIBES.includes(action.targetTribe)) return 'invalid target tribe';
+        if (!this.spySystem.isMissionType(action.mission)) return 'unknown mission';
+        const busy = this.spySystem.getMissionsBySpy(agent.id)
+          .some(m => m.status === 'pending' || m.status === 'in_progress');
+        return busy ? 'mission already underway' : null;
+      }
 
-    // Apply tribe research modifier to reduce effective cost
-    const totalResources = {
-      food: tribeAgents.reduce((sum, a) => sum + a.resources.food, 0) * researchMod,
-      knowledge: tribeAgents.reduce((sum, a) => sum + a.resources.knowledge, 0) * researchMod,
-      socialCapital: tribeAgents.reduce((sum, a) => sum + a.resources.socialCapital, 0) * researchMod
-    };
+      case 'order':
+        return this.exchangeSystem.validateOrder(agent.id, action.resource, action.side, action.price, action.quantity);
 
-    const success = techTree.research(techId, totalResources);
-    if (success) {
-      // Deduct resources from tribe agents (actual cost, not modified)
-      const tech = techTree.getTech(techId);
-      if (tech) {
-        // Reverse the modifier for actual cost deduction (tribes pay full price)
-        const perAgentCost = {
-          food: (tech.cost.food / researchMod) / tribeAgents.length,
-          knowledge: (tech.cost.knowledge / researchMod) / tribeAgents.length,
-          socialCapital: (tech.cost.socialCapital / researchMod) / tribeAgents.length
-        };
+      case 'cancel_order':
+        return this.exchangeSystem.getOpenOrders(agent.id).some(o => o.id === action.orderId) ? null : 'not an open order';
 
-        for (const agent of tribeAgents) {
-          agent.resources.food -= perAgentCost.food;
-          agent.resources.knowledge -= perAgentCost.knowledge;
-          agent.resources.socialCapital -= perAgentCost.socialCapital;
-        }
+      case 'launch_token':
+        return this.resourceTokenRegistry.validateLaunch(agent.id, action.launch);
 
-        this.addMessage({
-          id: `tech-${techId}-${Date.now()}`,
-          agentId: tribe,
-          agentName: tribe,
-          tribe,
-          content: `Research complete: ${tech.name}!`,
-          timestamp: this.state.day,
-          type: 'celebration'
-        });
+      case 'mint_token': {
+        const mintable = this.resourceTokenRegistry.getMintable(action.symbol, agent.id, agent, this.state.day);
+        return Number.isInteger(action.amount) && action.amount >= 1 && action.amount <= mintable ? null : 'cannot mint that amount';
       }
-    }
 
-    return success;
-  }
+      case 'transfer_token': {
+        const target = this.state.agents.find(a => a.id === action.targetId);
+        if (!target || !target.alive || target.id === agent.id) return 'invalid target';
+        return this.resourceTokenRegistry.getBalance(action.symbol, agent.id) >= action.amount ? null : 'insufficient balance';
+      }
 
-  public getResourceBonus(tribe: string, resourceType: string): number {
-    const techTree = this.techTrees.get(tribe);
-    const techBonus = techTree ? techTree.getBonus(resourceType) : 1.0;
+      case 'create_escrow': {
+        if (!this.findHolder(action.payeeId)) return 'invalid payee';
+        return this.escrowSystem.validateContract(agent.id, action.payeeId, action.amount, action.condition, action.durationDays);
+      }
 
-    // Add building benefits
-    const buildingBenefits = this.buildingSystem.getTribeBenefits(tribe);
-    const buildingBonus = 1 + (buildingBenefits[resourceType] || 0) * 0.1;
+      case 'deliver': {
+        const contract = this.escrowSystem.getContract(action.contractId);
+        if (!contract || contract.status !== 'open' || contract.payee !== agent.id) return 'not an open contract for this agent';
+        if (contract.condition.type !== 'resource_delivered') return 'contract is not for a delivery';
+        if (!this.findHolder(contract.payer)) return 'payer cannot receive resources';
+        return agent.resources[contract.condition.resource] > 0 ? null : `no ${contract.condition.resource} to deliver`;
+      }
 
-    return techBonus * buildingBonus;
-  }
+      case 'dispute': {
+        const contract = this.escrowSystem.getContract(action.contractId);
+        if (!contract || contract.status !== 'open') return 'not an open contract';
+        return contract.payer === agent.id || contract.payee === agent.id ? null : 'not a party to the contract';
+      }
 
-  // Building System Methods
-  public getBuildingSystem(): BuildingSystem {
-    return this.buildingSystem;
-  }
+      case 'offer_loan':
+        return this.lendingSystem.validateOffer(agent.id, 'agent', this.toLoanTerms(action));
 
-  public startBuilding(tribe: string, buildingType: string, x: number, z: number): boolean {
-    const techTree = this.techTrees.get(tribe);
-    if (!techTree) return false;
+      case 'take_loan': {
+        const appraisal = this.appraiseCollateral(agent, action.offerId, action.collateral ?? null);
+        return appraisal.error ?? this.lendingSystem.validateLoan(agent.id, action.offerId, action.amount, appraisal.value);
+      }
 
-    const researchedTechs = techTree.getResearchedTechs().map(t => t.id);
+      case 'repay_loan': {
+        const loan = this.lendingSystem.getLoan(action.loanId);
+        if (!loan || loan.status !== 'active' || loan.borrower !== agent.id) return 'not an active loan of this agent';
+        return action.amount > 0 && this.tokenSystem.getBalance(agent.id) > 0 ? null : 'nothing to repay with';
+      }
 
-    // Calculate tribe resources
-    const tribeAgents = this.state.agents.filter(a => a.tribe === tribe && a.alive);
-    const totalResources = {
-      food: tribeAgents.reduce((sum, a) => sum + a.resources.food, 0),
-      materials: tribeAgents.reduce((sum, a) => sum + a.resources.materials, 0),
-      knowledge: tribeAgents.reduce((sum, a) => sum + (a.resources.knowledge || 0), 0)
-    };
+      case 'deposit': {
+        const org = this.organizationSystem.getOrganization(action.orgId);
+        if (!org || (org.type !== 'corporation' && org.type !== 'cooperative')) return 'not a lending organization';
+        return action.amount > 0 && this.tokenSystem.getBalance(agent.id) >= action.amount ? null : 'insufficient $CLAW';
+      }
 
-    if (!this.buildingSystem.canBuild(tribe, buildingType, totalResources, researchedTechs)) {
-      return false;
+      case 'withdraw_deposit':
+        return this.lendingSystem.getDeposit(action.orgId, agent.id) > 0 ? null : 'no deposit with this organization';
     }
 
-    // Deduct costs from tribe
-    const type = (this.buildingSystem as any).BUILDING_TYPES[buildingType];
-    if (type) {
+    return 'unknown action';
+  }
+
+  // Applies a validated action; returns the dialogue topic it implies, if any
+  private applyAction(agent: Agent, action: AgentAction): string | null {
+    switch (action.type) {
+      case 'idle':
+        return null;
+
+      case 'move': {
+        // A one-cell journey; rough ground can take more than a day to cross
+        const [dx, dy] = this.DIRECTION_STEPS.get(action.direction)!;
+        this.startJourney(agent, { type: 'tile', x: agent.x + dx, y: agent.y + dy }, 'explore');
+        return null;
+      }
+
+      case 'travel':
+        this.startJourney(agent, { type: 'tile', x: action.x, y: action.y }, action.purpose ?? 'explore');
+        return null;
+
+      case 'approach':
+        this.startJourney(agent, { type: 'agent', agentId: action.targetId }, action.purpose ?? 'meet');
+        return null;
+
+      case 'gather': {
+        const skill = action.resource === 'food' ? 'farming' : 'mining';
+        const base = action.resource === 'food' ? 12 : 8;
+        const seasonModifier = this.seasonSystem.getResourceModifier(action.resource);
+        const tribeModifier = this.tribeConfigSystem.getResourceModifier(agent.tribe, action.resource);
+        const skillAffinity = this.tribeConfigSystem.getSkillModifier(agent.tribe, skill);
+        const govEffects = this.governanceSystem.getEffects(agent.tribe);
+        const tile = this.getTile(agent.x, agent.y);
+        const terrainModifier = action.resource === 'food' ? getFarmingYield(tile) : getMiningYield(tile);
+        const crowdingModifier = this.carryingCapacitySystem.getYieldModifier(agent);
+        let amount = base * terrainModifier * crowdingModifier * seasonModifier * tribeModifier * skillAffinity * govEffects.productivity;
+        amount = this.applyArtifactBonuses(agent.tribe, action.resource, amount);
+        // Miners can't take more than is left in the ground
+        if (action.resource === 'materials') amount = extractDeposit(tile, amount);
+        agent.resources[action.resource] += amount;
+        const reward = action.resource === 'food' ? 2 : 3;
+        this.tokenSystem.earnTokens(agent.id, reward, skill);
+        this.grantExperience(agent, reward);
+        this.organizationSystem.updateOrgStats(agent.id, skill, action.resource);
+        return skill;
+      }
+
+      case 'research': {
+        const knowledgeModifier = this.seasonSystem.getResourceModifier('knowledge');
+        const tribeModifier = this.tribeConfigSystem.getResourceModifier(agent.tribe, 'knowledge');
+        const skillAffinity = this.tribeConfigSystem.getSkillModifier(agent.tribe, 'research');
+        const govEffects = this.governanceSystem.getEffects(agent.tribe);
+        const artifactBonuses = this.artifactSystem.getArtifactBonuses(agent.tribe);
+        let baseKnowledge = 5 * knowledgeModifier * tribeModifier * skillAffinity * govEffects.researchSpeed * artifactBonuses.researchBoost
+          * this.budgetSystem.getResearchBoost(agent.tribe);
+        baseKnowledge = this.applyArtifactBonuses(agent.tribe, 'knowledge', baseKnowledge);
+        agent.resources.knowledge += baseKnowledge;
+        this.tokenSystem.earnTokens(agent.id, 5, 'research');
+        this.grantExperience(agent, 5);
+        this.organizationSystem.updateOrgStats(agent.id, 'research', 'knowledge');
+
+        if (action.techId) {
+          this.researchTech(agent.tribe, action.techId);
+        }
+        return 'research';
+      }
+
+      case 'trade':
+      case 'attack':
+      case 'diplomacy': {
+        const target = this.state.agents.find(a => a.id === action.targetId)!;
+        if (action.type === 'trade') return this.handleTrade(agent, target) ? 'trade' : null;
+        if (action.type === 'attack') return this.handleCombat(agent, target) ? 'combat' : null;
+        this.handleDiplomacy(agent, target);
+        return null;
+      }
+
+      case 'ability':
+        this.useSpecialAbility(agent);
+        return null;
+
+      case 'claim':
+        this.territorySystem.claimTerritory(agent.x, agent.y, agent.tribe, 10);
+        return null;
+
+      case 'build':
+        if (this.startBuilding(agent.tribe, action.buildingType, agent.worldX, agent.worldZ)) {
+          this.grantExperience(agent, 5);
+        }
+        return null;
+
+      case 'pray': {
+        const religion = this.religionSystem.getDominantReligion(agent.tribe)!;
+        const cohesion = religion.coreBeliefs[0]?.effects.socialCohesion || 1.0;
+        agent.resources.socialCapital += 3 * cohesion;
+        agent.resources.energy += 1;
+        this.grantExperience(agent, 1);
+        return null;
+      }
+
+      case 'spy': {
+        if (!this.spySystem.isSpy(agent.id)) {
+          this.spySystem.recruitSpy(agent.id, agent.tribe, 'trader');
+        }
+        const spy = this.spySystem.getSpy(agent.id)!;
+        if (spy.isInfiltrated && spy.infiltratedTribe !== action.targetTribe) {
+          this.spySystem.exfiltrate(agent.id);
+        }
+        this.spySystem.infiltrateTribe(agent.id, action.targetTribe);
+        this.spySystem.createMission(agent.id, action.targetTribe, action.mission);
+        return null;
+      }
+
+      case 'order':
+        return this.submitOrder(agent.id, action.resource, action.side, action.price, action.quantity).fills.length > 0 ? 'trade' : null;
+
+      case 'cancel_order':
+        this.exchangeSystem.cancelOrder(action.orderId);
+        return null;
+
+      case 'launch_token':
+        this.launchResourceToken(agent.id, action.launch);
+        return null;
+
+      case 'mint_token':
+        this.resourceTokenRegistry.mint(action.symbol, agent.id, agent, action.amount, this.state.day);
+        return null;
+
+      case 'transfer_token':
+        this.resourceTokenRegistry.transfer(action.symbol, agent.id, action.targetId, action.amount, `Sent by ${agent.name}`);
+        return 'trade';
+
+      case 'create_escrow':
+        this.createEscrow(agent.id, action.payeeId, action.amount, action.condition, action.durationDays, action.description);
+        return 'trade';
+
+      case 'deliver':
+        this.deliverToEscrow(action.contractId, agent.id);
+        return 'trade';
+
+      case 'dispute':
+        this.disputeEscrow(action.contractId, agent.id);
+        return null;
+
+      case 'offer_loan':
+        this.offerLoan(agent.id, this.toLoanTerms(action));
+        return 'trade';
+
+      case 'take_loan':
+        return this.takeLoan(agent.id, action.offerId, action.amount, action.collateral ?? null).loan ? 'trade' : null;
+
+      case 'repay_loan':
+        this.repayLoan(action.loanId, action.amount);
+        return null;
+
+      case 'deposit':
+        this.lendingSystem.deposit(action.orgId, agent.id, action.amount);
+        return null;
+
+      case 'withdraw_deposit':
+        this.lendingSystem.withdraw(action.orgId, agent.id, action.amount);
+        return null;
+    }
+
+    return null;
+  }
+
+  private buildObservation(agent: Agent): AgentObservation {
+    const nearby = this.getNearbyAgents(agent, this.PERCEPTION_RANGE)
+      .map(other => {
+        const dx = other.worldX - agent.worldX;
+        const dz = other.worldZ - agent.worldZ;
+        return {
+          id: other.id,
+          name: other.name,
+          tribe: other.tribe,
+          distance: Math.sqrt(dx * dx + dz * dz),
+          skills: [...other.skills],
+          specialization: other.specialization,
+          resources: { ...other.resources },
+          isAlly: agent.alliances.has(other.id),
+          isEnemy: agent.enemies.has(other.id),
+          canFight: this.diplomacySystem.canFight(agent.tribe, other.tribe)
+        };
+      })
+      .sort((a, b) => a.distance - b.distance);
+
+    return {
+      day: this.state.day,
+      season: this.seasonSystem.getCurrentSeasonName(),
+      gridSize: this.GRID_SIZE,
+      interactionRange: this.INTERACTION_RANGE,
+      tribes: [...this.TRIBES],
+      self: {
+        id: agent.id,
+        name: agent.name,
+        tribe: agent.tribe,
+        x: agent.x,
+        y: agent.y,
+        worldX: agent.worldX,
+        worldZ: agent.worldZ,
+        resources: { ...agent.resources },
+        skills: [...agent.skills],
+        specialization: agent.specialization,
+        level: agent.level,
+        experience: agent.experience,
+        balance: this.tokenSystem.getBalance(agent.id),
+        isSpy: this.spySystem.isSpy(agent.id),
+        openOrders: this.exchangeSystem.getOpenOrders(agent.id).map(o => ({
+          id: o.id, resource: o.resource, side: o.side, price: o.price, remaining: o.remaining
+        })),
+        tokens: this.resourceTokenRegistry.getBalances(agent.id),
+        escrows: this.escrowSystem.getContractsFor(agent.id)
+          .filter(c => c.status === 'open' || c.status === 'disputed')
+          .map(c => ({
+            id: c.id,
+            role: c.payer === agent.id ? 'payer' as const : 'payee' as const,
+            counterparty: c.payer === agent.id ? c.payee : c.payer,
+            amount: c.amount,
+            condition: c.condition,
+            delivered: c.delivered,
+            deadline: c.deadline,
+            status: c.status
+          })),
+        loans: this.lendingSystem.getLoansFor(agent.id)
+          .filter(l => l.status === 'active')
+          .map(l => ({
+            id: l.id,
+            role: l.lender === agent.id ? 'lender' as const : 'borrower' as const,
+            counterparty: l.lender === agent.id ? l.borrower : l.lender,
+            outstanding: this.lendingSystem.getOutstanding(l),
+            installment: l.installment,
+            nextDueDay: l.nextDueDay,
+            missedPayments: l.missedPayments,
+            status: l.status
+          })),
+        creditScore: this.lendingSystem.getCreditScore(agent.id),
+        deposits: this.lendingSystem.getDepositsOf(agent.id),
+        tile: this.getTileView(agent.x, agent.y),
+        journey: this.getJourneyView(agent),
+        questTargets: this.questSystem.getQuestsByAgent(agent.id)
+          .filter(q => q.status === 'active')
+          .map(q => ({ questId: q.id, destination: this.getQuestDestination(q, agent) }))
+          .filter(q => q.destination !== null)
+          .map(q => ({ questId: q.questId, x: q.destination!.x, y: q.destination!.y }))
+      },
+      tribe: this.getTribeView(agent.tribe),
+      nearby,
+      terrain: this.getTerrainView(agent),
+      market: this.getMarketQuotes(),
+      resourceTokens: this.resourceTokenRegistry.getAllTokens().map(token => ({
+        symbol: token.symbol,
+        name: token.name,
+        issuer: token.issuer,
+        recipe: token.recipe,
+        mintable: this.resourceTokenRegistry.getMintable(token.symbol, agent.id, agent, this.state.day)
+      })),
+      loanOffers: this.lendingSystem.getOffers(agent.tribe).map(o => ({
+        id: o.id,
+        lender: o.lender,
+        lenderKind: o.lenderKind,
+        amount: o.amount,
+        interestRate: o.interestRate,
+        termDays: o.termDays,
+        collateralRatio: o.collateralRatio,
+        minCreditScore: o.minCreditScore
+      }))
+    };
+  }
+
+  // Tribe-level part of the observation, shared by all its agents within a tick
+  private getTribeView(tribe: string): TribeView {
+    if (this.tribeViewsDay !== this.state.day) {
+      this.tribeViews.clear();
+      this.tribeViewsDay = this.state.day;
+    }
+    const cached = this.tribeViews.get(tribe);
+    if (cached) return cached;
+
+    const tribeAgents = this.state.agents.filter(a => a.tribe === tribe && a.alive);
+    const resources = this.getTribeTotalResources(tribe);
+    const techTree = this.techTrees.get(tribe);
+    const researchedTechs = techTree ? techTree.getResearchedTechs().map(t => t.id) : [];
+    const buildableTypes = this.buildingSystem.getBuildingTypes().filter(type =>
+      this.buildingSystem.canBuild(tribe, type, resources, researchedTechs)
+    );
+    const config = this.tribeConfigSystem.getTribeConfig(tribe);
+
+    const view: TribeView = {
+      name: tribe,
+      tendencies: config
+        ? { ...config.tendencies }
+        : { aggression: 50, cooperation: 50, exploration: 50, innovation: 50, trade: 50 },
+      population: tribeAgents.length,
+      resources,
+      availableTechs: techTree ? techTree.getAvailableTechs().map(t => t.id) : [],
+      buildableTypes,
+      religion: this.religionSystem.getDominantReligion(tribe)?.id ?? null,
+      government: this.governanceSystem.getGovernment(tribe).type,
+      taxRates: this.getTaxRates(tribe),
+      territory: this.getTerritoryView(tribe),
+      capacity: this.getCapacityView(tribe)
+    };
+
+    this.tribeViews.set(tribe, view);
+    return view;
+  }
+
+  private getTerritoryView(tribe: string): TribeView['territory'] {
+    const territory = this.territorySystem.getTribeTerritories(tribe);
+    return {
+      cells: territory.cells.length,
+      provinces: territory.provinces.map(p => p.name),
+      borders: territory.borders,
+      frontier: territory.frontier,
+      contested: territory.contested.map(c => ({
+        x: c.x,
+        y: c.y,
+        challenger: c.tribe,
+        owner: this.territorySystem.getTerritory(c.x, c.y)?.tribe ?? null,
+        days: c.days
+      }))
+    };
+  }
+
+  private getCapacityView(tribe: string): TribeView['capacity'] {
+    const capacity = this.carryingCapacitySystem.getTribeCapacity(tribe);
+    return {
+      supported: capacity?.capacity ?? 0,
+      load: capacity?.load ?? 0,
+      overpopulated: capacity?.overpopulated ?? false,
+      crowdedProvinces: (capacity?.regions ?? []).filter(r => r.load > 1).map(r => r.name)
+    };
+  }
+
+  // What the agent's policy would see if it acted now (used by external agents)
+  public getObservation(agentId: string): AgentObservation | null {
+    const agent = this.state.agents.find(a => a.id === agentId);
+    if (!agent || !agent.alive) return null;
+    return this.buildObservation(agent);
+  }
+
+  private createPolicy(name: PolicyName): AgentPolicy {
+    switch (name) {
+      case 'random': return new RandomPolicy(this.random);
+      case 'utility': return new UtilityPolicy(this.random);
+      default: throw new Error(`Unknown policy: ${name}`);
+    }
+  }
+
+  // Replace the decision policy for one tribe, or for every tribe without an override
+  public setAgentPolicy(policy: AgentPolicy | PolicyName, tribe?: string): void {
+    const resolved = typeof policy === 'string' ? this.createPolicy(policy) : policy;
+    if (tribe) {
+      this.tribePolicies.set(tribe, resolved);
+    } else {
+      this.defaultPolicy = resolved;
+    }
+  }
+
+  public getAgentPolicy(tribe: string): AgentPolicy {
+    return this.tribePolicies.get(tribe) ?? this.defaultPolicy;
+  }
+
+  public getState(): GameState {
+    return this.state;
+  }
+
+  public getAliveAgents(): Agent[] {
+    return this.state.agents.filter(a => a.alive);
+  }
+
+  public getMessages(limit: number = 20): Message[] {
+    return this.state.messages.slice(-limit);
+  }
+
+  public addMessage(message: Message): void {
+    this.state.messages.push(message);
+  }
+
+  public getTokenSystem(): Ledger {
+    return this.tokenSystem;
+  }
+
+  public getAgentBalance(agentId: string): number {
+    return this.tokenSystem.getBalance(agentId);
+  }
+
+  public getMarketStats() {
+    return this.tokenSystem.getMarketStats();
+  }
+
+  public getTerritorySystem() {
+    return this.territorySystem;
+  }
+
+  // World Map Methods
+  public getWorldMap(): Tile[][] {
+    return this.state.grid;
+  }
+
+  public getTile(x: number, y: number): Tile | undefined {
+    return getTile(this.state.grid, x, y);
+  }
+
+  // The tile under a world position
+  public getTileAt(worldX: number, worldZ: number): Tile | undefined {
+    const { x, y } = worldToTile(this.world, worldX, worldZ);
+    return this.getTile(x, y);
+  }
+
+  public worldToTile(worldX: number, worldZ: number): TileCoord {
+    return worldToTile(this.world, worldX, worldZ);
+  }
+
+  public getTileBounds(tile: TileCoord): TileBounds {
+    return tileBounds(this.world, clampTile(this.world, tile));
+  }
+
+  public getTileCenter(tile: TileCoord): WorldPoint {
+    return tileCenter(this.world, clampTile(this.world, tile));
+  }
+
+  private getTileView(x: number, y: number): TileView | null {
+    const tile = this.getTile(x, y);
+    return tile ? { biome: tile.biome, elevation: tile.elevation, fertility: tile.fertility, deposit: tile.deposit } : null;
+  }
+
+  // Movement Methods
+  public getMovementSystem(): MovementSystem {
+    return this.movementSystem;
+  }
+
+  public getJourney(agentId: string): Journey | undefined {
+    return this.movementSystem.getJourney(agentId);
+  }
+
+  // The route a member of `tribe` would walk between two cells, or null if there is none
+  public findPath(tribe: string, from: TileCoord, to: TileCoord): TileCoord[] | null {
+    return this.movementSystem.findPath(clampTile(this.world, from), clampTile(this.world, to), this.getStepCost(tribe));
+  }
+
+  // Movement points it costs a member of `tribe` to walk into a cell
+  public getMovementCost(tribe: string, tile: TileCoord): number {
+    return this.getStepCost(tribe)(tile);
+  }
+
+  private startJourney(agent: Agent, goal: JourneyGoal, purpose: JourneyPurpose): string | null {
+    let goalTile: TileCoord;
+    if (goal.type === 'agent') {
+      const target = this.state.agents.find(a => a.id === goal.agentId && a.alive);
+      if (!target) return 'invalid target';
+      goalTile = { x: target.x, y: target.y };
+    } else {
+      goalTile = clampTile(this.world, goal);
+    }
+    return this.movementSystem.startJourney(agent.id, goal, purpose, { x: agent.worldX, z: agent.worldZ }, goalTile,
+      this.getStepCost(agent.tribe), this.state.day);
+  }
+
+  // A tribe's step costs, shared by its observations, journeys and paths within a tick.
+  // Roads only finish in the building update, before anyone acts, so the tick's road set stays current.
+  private getStepCost(tribe: string): StepCost {
+    if (this.stepCostsDay !== this.state.day) this.refreshStepCosts();
+    return this.stepCosts.get(tribe) ?? this.createStepCost(tribe, this.getRoadCells());
+  }
+
+  private refreshStepCosts(): void {
+    const roads = this.getRoadCells();
+    this.stepCosts = new Map(this.TRIBES.map(tribe => [tribe, this.createStepCost(tribe, roads)]));
+    this.stepCostsDay = this.state.day;
+  }
+
+  private getRoadCells(): Set<string> {
+    return new Set(this.buildingSystem.getBuildings()
+      .filter(b => b.type === 'road' && b.constructionProgress >= 100)
+      .map(b => {
+        const tile = worldToTile(this.world, b.x, b.z);
+        return `${tile.x},${tile.y}`;
+      }));
+  }
+
+  // Terrain sets the base cost; finished roads halve it and territory held by a hostile tribe doubles it
+  private createStepCost(tribe: string, roads: Set<string>): StepCost {
+    return (tile: TileCoord) => {
+      const terrain = this.getTile(tile.x, tile.y);
+      if (!terrain) return Infinity;
+      let cost = TERRAIN_COSTS[terrain.biome];
+      if (roads.has(`${tile.x},${tile.y}`)) cost *= ROAD_COST_MULTIPLIER;
+      const owner = this.territorySystem.getTerritory(tile.x, tile.y)?.tribe;
+      if (owner && owner !== tribe) {
+        const status = this.diplomacySystem.getRelationship(tribe, owner)?.status;
+        if (status === 'hostile' || status === 'war') cost *= ENEMY_TERRITORY_COST_MULTIPLIER;
+      }
+      return cost;
+    };
+  }
+
+  // Points a tribe's members can spend walking today: the season's pace, slowed or sped up by the weather over their land
+  private getMovementPoints(tribe: string): number {
+    return this.BASE_MOVEMENT * this.seasonSystem.getMovementModifier() * this.weatherSystem.getTerritoryWeather(tribe).effects.movementSpeed;
+  }
+
+  private updateMovement(): void {
+    const points = new Map(this.TRIBES.map(tribe => [tribe, this.getMovementPoints(tribe)]));
+
+    for (const journey of this.movementSystem.getJourneys()) {
+      const agent = this.state.agents.find(a => a.id === journey.agentId);
+      if (!agent || !agent.alive) {
+        this.movementSystem.cancelJourney(journey.agentId);
+        continue;
+      }
+
+      const goal = journey.goal;
+      const target = goal.type === 'agent' ? this.state.agents.find(a => a.id === goal.agentId && a.alive) : undefined;
+      const result = this.movementSystem.advance(
+        agent.id,
+        { x: agent.worldX, z: agent.worldZ },
+        points.get(agent.tribe) ?? this.BASE_MOVEMENT,
+        this.getStepCost(agent.tribe),
+        target && { x: target.worldX, z: target.worldZ }
+      );
+      this.placeAgent(agent, result.position.x, result.position.z);
+
+      // Whoever marched to a battle fights on arrival
+      if (result.arrived && journey.purpose === 'battle' && target && this.canAttack(agent, target)) {
+        this.handleCombat(agent, target);
+      }
+      if ((result.arrived || result.stuck) && goal.type === 'agent' && agent.targetAgentId === goal.agentId) {
+        agent.targetAgentId = undefined;
+      }
+    }
+
+    this.checkQuestArrivals();
+  }
+
+  // Standing on a quest's destination completes its current 'reach' objective
+  private checkQuestArrivals(): void {
+    for (const quest of this.questSystem.getActiveQuests()) {
+      const agent = this.state.agents.find(a => a.id === quest.assignedAgentId && a.alive);
+      if (!agent) continue;
+      const destination = this.getQuestDestination(quest, agent);
+      if (!destination || destination.x !== agent.x || destination.y !== agent.y) continue;
+      if (!this.questSystem.advanceObjective(quest.id)) continue;
+
+      const tokens = quest.rewards.tokens ?? 0;
+      if (tokens > 0) this.tokenSystem.earnTokens(agent.id, tokens, 'quest');
+      this.grantExperience(agent, quest.rewards.experience ?? 0);
+      quest.dayCompleted = this.state.day;
+      this.emit('QuestCompleted', {
+        questId: quest.id,
+        agentId: agent.id,
+        agentName: agent.name,
+        tribe: agent.tribe,
+        name: quest.name,
+        icon: quest.icon,
+        tokens
+      });
+    }
+  }
+
+  // Where the quest's current 'reach' objective sends the agent: the quest's target location, or home for 'base'
+  private getQuestDestination(quest: Quest, agent: Agent): TileCoord | null {
+    const objective = quest.objectives[quest.currentObjectiveIndex];
+    if (objective?.type !== 'reach') return null;
+    if (objective.unit === 'base') {
+      const center = this.TRIBE_CENTERS.get(agent.tribe);
+      return center ? worldToTile(this.world, center.x, center.z) : null;
+    }
+    return quest.requirements.targetLocation ?? null;
+  }
+
+  private getJourneyView(agent: Agent): JourneyView | null {
+    const journey = this.movementSystem.getJourney(agent.id);
+    if (!journey) return null;
+    const last = journey.path[journey.path.length - 1] ?? { x: agent.x, y: agent.y };
+    return { goal: { ...journey.goal }, purpose: journey.purpose, destination: { x: last.x, y: last.y }, stepsLeft: journey.path.length };
+  }
+
+  private getTerrainView(agent: Agent): TerrainView[] {
+    const cost = this.getStepCost(agent.tribe);
+    const view: TerrainView[] = [];
+    for (let y = agent.y - this.SIGHT_RADIUS; y <= agent.y + this.SIGHT_RADIUS; y++) {
+      for (let x = agent.x - this.SIGHT_RADIUS; x <= agent.x + this.SIGHT_RADIUS; x++) {
+        // Fields copied one by one: spreading a tile view into every entry was most of an observation's cost
+        const tile = this.getTile(x, y);
+        if (!tile) continue;
+        view.push({
+          biome: tile.biome, elevation: tile.elevation, fertility: tile.fertility, deposit: tile.deposit,
+          x, y, moveCost: cost({ x, y }), crowding: this.carryingCapacitySystem.getCrowding({ x, y })
+        });
+      }
+    }
+    const distance = (t: TerrainView) => Math.abs(t.x - agent.x) + Math.abs(t.y - agent.y);
+    return view.sort((a, b) => distance(a) - distance(b));
+  }
+
+  // Tech Tree Methods
+  public getTechTree(tribe: string): TechTree | undefined {
+    return this.techTrees.get(tribe);
+  }
+
+  public researchTech(tribe: string, techId: string): boolean {
+    const techTree = this.techTrees.get(tribe);
+    if (!techTree) return false;
+
+    // Calculate tribe resources with tribe-specific modifier
+    const tribeAgents = this.state.agents.filter(a => a.tribe === tribe && a.alive);
+    const researchMod = this.tribeConfigSystem.getResearchModifier(tribe);
+
+    // Apply tribe research modifier to reduce effective cost
+    const totalResources = {
+      food: tribeAgents.reduce((sum, a) => sum + a.resources.food, 0) * researchMod,
+      knowledge: tribeAgents.reduce((sum, a) => sum + a.resources.knowledge, 0) * researchMod,
+      socialCapital: tribeAgents.reduce((sum, a) => sum + a.resources.socialCapital, 0) * researchMod
+    };
+
+    const success = techTree.research(techId, totalResources);
+    if (success) {
+      // Deduct resources from tribe agents (actual cost, not modified)
+      const tech = techTree.getTech(techId);
+      if (tech) {
+        // Reverse the modifier for actual cost deduction (tribes pay full price)
+        const perAgentCost = {
+          food: (tech.cost.food / researchMod) / tribeAgents.length,
+          knowledge: (tech.cost.knowledge / researchMod) / tribeAgents.length,
+          socialCapital: (tech.cost.socialCapital / researchMod) / tribeAgents.length
+        };
+
+        for (const agent of tribeAgents) {
+          agent.resources.food -= perAgentCost.food;
+          agent.resources.knowledge -= perAgentCost.knowledge;
+          agent.resources.socialCapital -= perAgentCost.socialCapital;
+        }
+
+        this.emit('TechResearched', { tribe, techId, name: tech.name });
+      }
+    }
+
+    return success;
+  }
+
+  public getResourceBonus(tribe: string, resourceType: string): number {
+    const techTree = this.techTrees.get(tribe);
+    const techBonus = techTree ? techTree.getBonus(resourceType) : 1.0;
+
+    // Add building benefits
+    const buildingBenefits = this.buildingSystem.getTribeBenefits(tribe);
+    const buildingBonus = 1 + (buildingBenefits[resourceType] || 0) * 0.1;
+
+    return techBonus * buildingBonus;
+  }
+
+  // Building System Methods
+  public getBuildingSystem(): BuildingSystem {
+    return this.buildingSystem;
+  }
+
+  public startBuilding(tribe: string, buildingType: string, x: number, z: number): boolean {
+    const techTree = this.techTrees.get(tribe);
+    if (!techTree) return false;
+
+    const researchedTechs = techTree.getResearchedTechs().map(t => t.id);
+
+    // Calculate tribe resources
+    const tribeAgents = this.state.agents.filter(a => a.tribe === tribe && a.alive);
+    const totalResources = {
+      food: tribeAgents.reduce((sum, a) => sum + a.resources.food, 0),
+      materials: tribeAgents.reduce((sum, a) => sum + a.resources.materials, 0),
+      knowledge: tribeAgents.reduce((sum, a) => sum + (a.resources.knowledge || 0), 0)
+    };
+
+    if (!this.buildingSystem.canBuild(tribe, buildingType, totalResources, researchedTechs)) {
+      return false;
+    }
+
+    // Deduct costs from tribe
+    const type = (this.buildingSystem as any).BUILDING_TYPES[buildingType];
+    if (type) {
       const perAgentCost = {
         food: type.cost.food / tribeAgents.length,
         materials: type.cost.materials / tribeAgents.length,
@@ -1547,18 +2331,11 @@ export class GameEngine {
       }
     }
 
+    ({ x, z } = clampToWorld(this.world, x, z));
     const building = this.buildingSystem.startConstruction(tribe, buildingType, x, z);
     this.state.buildings.push(building);
 
-    this.addMessage({
-      id: `build-${Date.now()}`,
-      agentId: tribe,
-      agentName: tribe,
-      tribe,
-      content: `Construction started on ${buildingType}!`,
-      timestamp: this.state.day,
-      type: 'celebration'
-    });
+    this.emit('ConstructionStarted', { tribe, buildingId: building.id, buildingType, x, z });
 
     return true;
   }
@@ -1569,13 +2346,88 @@ export class GameEngine {
     return this.state.buildings;
   }
 
-  public getTerritoryStats() {
-    return {
-      Alpha: this.territorySystem.getTerritoryCount('Alpha'),
-      Beta: this.territorySystem.getTerritoryCount('Beta'),
-      Gamma: this.territorySystem.getTerritoryCount('Gamma'),
+  // Cells, provinces, borders, frontier and contests of one tribe
+  public getTribeTerritories(tribe: string): TribeTerritories {
+    return this.territorySystem.getTribeTerritories(tribe);
+  }
+
+  public getProvinces(tribe?: string): Province[] {
+    return this.territorySystem.getProvinces(tribe);
+  }
+
+  private updateTerritory(): void {
+    const sources: InfluenceSource[] = [];
+    for (const agent of this.state.agents) {
+      if (!agent.alive) continue;
+      // A tribe that has outgrown its land leans harder on its borders
+      const pressure = this.carryingCapacitySystem.getExpansionPressure(agent.tribe);
+      sources.push({ tribe: agent.tribe, x: agent.x, y: agent.y, ...this.INFLUENCE.member, strength: this.INFLUENCE.member.strength * pressure });
+    }
+    for (const building of this.buildingSystem.getBuildings()) {
+      if (building.constructionProgress < 100) continue;
+      const { x, y } = worldToTile(this.world, building.x, building.z);
+      const kind = building.type === 'fortress' || building.type === 'road' ? building.type : 'building';
+      sources.push({ tribe: building.tribe, x, y, ...this.INFLUENCE[kind] });
+    }
+
+    const changes = this.territorySystem.updateControl(sources, this.state.grid, this.state.day);
+    for (const change of changes) {
+      if (change.from && change.to) {
+        this.emit('TerritoryCaptured', { x: change.x, y: change.y, from: change.from, to: change.to, province: change.province ?? null });
+      }
+    }
+
+    // The renderer reads owned cells off the game state
+    this.state.territories = new Map(this.TRIBES.map(tribe => [tribe, []]));
+    for (const cell of this.territorySystem.getAllTerritories()) {
+      this.state.territories.get(cell.tribe)?.push([cell.x, cell.y]);
+    }
+  }
+
+  public getTerritoryStats(): { [tribe: string]: number; total: number } {
+    const stats: { [tribe: string]: number; total: number } = {
       total: this.territorySystem.getAllTerritories().length
     };
+    for (const tribe of this.TRIBES) {
+      stats[tribe] = this.territorySystem.getTerritoryCount(tribe);
+    }
+    return stats;
+  }
+
+  // Carrying Capacity Methods
+  public getCarryingCapacitySystem(): CarryingCapacitySystem {
+    return this.carryingCapacitySystem;
+  }
+
+  // How many people a tribe's land feeds, in total and province by province
+  public getTribeCapacity(tribe: string): TribeCapacity | undefined {
+    return this.carryingCapacitySystem.getTribeCapacity(tribe);
+  }
+
+  public getRegionCapacities(tribe?: string): RegionCapacity[] {
+    return this.carryingCapacitySystem.getRegions(tribe);
+  }
+
+  private updateCarryingCapacity(): void {
+    const modifiers = new Map<string, CapacityModifiers>();
+    for (const tribe of this.TRIBES) {
+      modifiers.set(tribe, {
+        zone: this.weatherSystem.getClimate(tribe)?.zone ?? 'temperate',
+        foodBonus: this.techTrees.get(tribe)?.getBonus('food') ?? 1
+      });
+    }
+
+    const changes = this.carryingCapacitySystem.refresh(
+      this.state.grid,
+      this.territorySystem.getAllTerritories(),
+      this.territorySystem.getProvinces(),
+      this.state.agents,
+      this.buildingSystem.getBuildings(),
+      modifiers
+    );
+    for (const change of changes) {
+      this.emit('Overpopulation', change);
+    }
   }
 
   // Achievement System Helpers
@@ -1606,8 +2458,42 @@ export class GameEngine {
     return this.buildingSystem.getBuildingsByTribe(tribe).filter(b => b.constructionProgress >= 100).length;
   }
 
-  public getDay(): number {
-    return this.state.day;
+  public getDay(): number {
+    return this.state.day;
+  }
+
+  public getTribes(): string[] {
+    return [...this.TRIBES];
+  }
+
+  public getWorldConfig(): WorldConfig {
+    return this.world;
+  }
+
+  // Typed feed of everything that happens in the simulation
+  public getEventBus(): EventBus {
+    return this.events;
+  }
+
+  // Every event published so far (subject to retention), unlike the 100-line chat log
+  public getEventHistory(): EventHistory {
+    return this.history;
+  }
+
+  private emit<T extends SimEventType>(type: T, payload: SimEventMap[T]): void {
+    this.events.publish(type, this.state.day, payload);
+  }
+
+  private emitLifeEvent(event: PopulationEvent): void {
+    this.emit('LifeEvent', {
+      eventId: event.id,
+      kind: event.type,
+      agentId: event.agentId,
+      agentName: event.agentName,
+      tribe: event.tribe,
+      icon: event.icon,
+      description: event.description
+    });
   }
 
   public getAllAliveTribes(): string[] {
@@ -1830,8 +2716,8 @@ export class GameEngine {
     return this.religionSystem.convertAgent(agentId, religionId, method as any);
   }
 
-  public buildReligiousBuilding(religionId: string, tribe: string, type: string, location: { x: number; y: number }) {
-    return this.religionSystem.buildReligiousBuilding(religionId, tribe, type as any, location);
+  public buildReligiousBuilding(religionId: string, tribe: string, type: string, location: TileCoord) {
+    return this.religionSystem.buildReligiousBuilding(religionId, tribe, type as any, clampTile(this.world, location));
   }
 
   public createReligiousFigure(religionId: string, tribe: string, name: string, role: string) {
@@ -1886,12 +2772,17 @@ export class GameEngine {
     return this.wonderSystem.getWonder(wonderId);
   }
 
-  public startWonder(tribe: string, wonderName: string, location: { x: number; y: number }) {
-    return this.wonderSystem.startWonder(tribe, wonderName, location);
+  public startWonder(tribe: string, wonderName: string, location: TileCoord) {
+    return this.wonderSystem.startWonder(tribe, wonderName, clampTile(this.world, location));
   }
 
   public contributeToWonder(wonderId: string, tribe: string, resources: any) {
-    return this.wonderSystem.contributeToWonder(wonderId, tribe, resources);
+    const result = this.wonderSystem.contributeToWonder(wonderId, tribe, resources);
+    if (result && result.wonderComplete) {
+      const wonder = this.wonderSystem.getAllWonders().find(w => w.id === wonderId);
+      if (wonder) this.emit('WonderCompleted', { wonderId, name: wonder.name, tribe: wonder.tribe });
+    }
+    return result;
   }
 
   public getWonderInfo(wonderId: string) {
@@ -1923,13 +2814,39 @@ export class GameEngine {
   }
 
   public getMarketPrices() {
-    return this.tradeRouteSystem.updateMarketPrices();
+    return this.tradeRouteSystem.getMarketPrices();
   }
 
   public getTradeStatistics() {
     return this.tradeRouteSystem.getStatistics();
   }
 
+  // Exchange Methods
+  public getExchangeSystem(): ExchangeSystem {
+    return this.exchangeSystem;
+  }
+
+  public getMarketQuotes(): { [resource in ExchangeResource]: ReturnType<ExchangeSystem['getQuote']> } {
+    const quotes = {} as { [resource in ExchangeResource]: ReturnType<ExchangeSystem['getQuote']> };
+    for (const resource of EXCHANGE_RESOURCES) {
+      quotes[resource] = this.exchangeSystem.getQuote(resource);
+    }
+    return quotes;
+  }
+
+  public getOrderBook(resource: ExchangeResource, depth?: number) {
+    return this.exchangeSystem.getOrderBook(resource, depth);
+  }
+
+  public getPriceHistory(resource: ExchangeResource, days?: number) {
+    return this.exchangeSystem.getPriceHistory(resource, days);
+  }
+
+  // Orders placed on behalf of an organization; agents trade through the 'order' action
+  public placeOrder(owner: string, resource: ExchangeResource, side: OrderSide, price: number, quantity: number): PlaceOrderResult {
+    return this.submitOrder(owner, resource, side, price, quantity);
+  }
+
   public getMercenarySystem(): MercenarySystem {
     return this.mercenarySystem;
   }
@@ -2014,6 +2931,120 @@ export class GameEngine {
     return this.inventorySystem.unequipItem(agentId, slot as any);
   }
 
+  // Escrow Methods
+  public getEscrowSystem(): EscrowSystem {
+    return this.escrowSystem;
+  }
+
+  public getEscrowContracts(accountId?: string): EscrowContract[] {
+    return accountId ? this.escrowSystem.getContractsFor(accountId) : this.escrowSystem.getAllContracts();
+  }
+
+  public createEscrow(payer: string, payee: string, amount: number, condition: EscrowCondition, durationDays: number, description: string = ''): CreateEscrowResult {
+    // Human accounts hold only $CLAW, so a delivery to or from one could never be made
+    if (condition?.type === 'resource_delivered' && (!this.findHolder(payer) || !this.findHolder(payee))) {
+      return { contract: null, error: 'resource deliveries need an agent or organization on both sides' };
+    }
+    const tribe = this.getJurisdiction(payer, payee);
+    const result = this.escrowSystem.createContract(payer, payee, amount, condition, durationDays, tribe, this.state.day, description);
+    if (result.contract) {
+      this.emit('EscrowCreated', {
+        contractId: result.contract.id,
+        payer,
+        payee,
+        amount,
+        condition: condition.type,
+        tribe
+      });
+    }
+    return result;
+  }
+
+  // A bounty on a quest pays whoever is assigned to it when the quest completes
+  public postQuestBounty(payer: string, questId: string, amount: number, durationDays: number = 30): CreateEscrowResult {
+    const quest = this.questSystem.getQuest(questId);
+    if (!quest || !quest.assignedAgentId) return { contract: null, error: 'quest has no assigned agent' };
+    return this.createEscrow(payer, quest.assignedAgentId, amount, { type: 'quest_completed', questId }, durationDays, `Bounty: ${quest.name}`);
+  }
+
+  // The payee hands over as much of the contracted resource as it holds, up to what is still owed
+  public deliverToEscrow(contractId: string, from: string): number {
+    const contract = this.escrowSystem.getContract(contractId);
+    if (!contract || contract.status !== 'open' || contract.payee !== from) return 0;
+    if (contract.condition.type !== 'resource_delivered') return 0;
+
+    const payee = this.findHolder(from);
+    const payer = this.findHolder(contract.payer);
+    const resource = contract.condition.resource;
+    // Contracts from older saves weren't checked for a real resource
+    if (!payee || !payer || !EXCHANGE_RESOURCES.includes(resource)) return 0;
+
+    const amount = Math.min(payee.resources[resource], contract.condition.amount - contract.delivered);
+    if (amount <= 0) return 0;
+    payee.resources[resource] -= amount;
+    payer.resources[resource] += amount;
+    this.escrowSystem.recordDelivery(contractId, amount);
+    return amount;
+  }
+
+  public disputeEscrow(contractId: string, by: string): boolean {
+    if (!this.escrowSystem.dispute(contractId, by, this.state.day)) return false;
+    const contract = this.escrowSystem.getContract(contractId)!;
+    const disputant = this.state.agents.find(a => a.id === by);
+    this.emit('EscrowDisputed', {
+      contractId, payer: contract.payer, payee: contract.payee, tribe: contract.tribe, by, byName: disputant ? disputant.name : by
+    });
+    return true;
+  }
+
+  public withdrawEscrow(contractId: string, payee: string): boolean {
+    const settlement = this.escrowSystem.withdraw(contractId, payee, this.state.day);
+    if (!settlement) return false;
+    const { contract } = settlement;
+    this.emit('EscrowSettled', {
+      contractId, payer: contract.payer, payee: contract.payee, amount: contract.amount,
+      tribe: contract.tribe, outcome: settlement.outcome, via: settlement.via
+    });
+    return true;
+  }
+
+  // Resource Token Methods
+  public getResourceTokenRegistry(): ResourceTokenRegistry {
+    return this.resourceTokenRegistry;
+  }
+
+  public getResourceTokens() {
+    return this.resourceTokenRegistry.getAllTokens();
+  }
+
+  // Launch a token for an agent or organization; the launch fee is paid from its $CLAW account
+  public launchResourceToken(issuer: string, launch: ResourceTokenLaunch): LaunchResult {
+    const result = this.resourceTokenRegistry.launch(issuer, launch, this.state.day);
+    if (result.token) {
+      const agent = this.state.agents.find(a => a.id === issuer);
+      const org = agent ? undefined : this.organizationSystem.getOrganization(issuer);
+      this.emit('ResourceTokenLaunched', {
+        symbol: result.token.symbol,
+        name: result.token.name,
+        icon: result.token.icon,
+        issuer,
+        issuerName: agent?.name ?? org?.name ?? issuer,
+        tribe: agent?.tribe ?? org?.tribe ?? 'Global'
+      });
+    }
+    return result;
+  }
+
+  public mintResourceToken(minterId: string, symbol: string, amount: number): MintResult {
+    const minter = this.findHolder(minterId);
+    if (!minter) return { minted: 0, error: 'unknown minter' };
+    return this.resourceTokenRegistry.mint(symbol, minterId, minter, amount, this.state.day);
+  }
+
+  public transferResourceToken(symbol: string, from: string, to: string, amount: number): boolean {
+    return this.resourceTokenRegistry.transfer(symbol, from, to, amount);
+  }
+
   public craftAgentItem(agentId: string, recipeId: string): boolean {
     const agent = this.state.agents.find(a => a.id === agentId);
     if (!agent) return false;
@@ -2061,14 +3092,603 @@ export class GameEngine {
     return this.weatherSystem.getSeasonDescription();
   }
 
+  // Spawn Queue Methods
+  public getSpawnQueue(): SpawnQueue {
+    return this.spawnQueue;
+  }
+
+  // Fiscal Methods
+  public getFiscalSystem(): FiscalSystem {
+    return this.fiscalSystem;
+  }
+
+  public getTaxRates(tribe: string): TaxRates {
+    return this.fiscalSystem.getRates(this.governanceSystem.getEffects(tribe).taxRate, this.governanceSystem.getEnactedPolicies(tribe));
+  }
+
+  public getTribeBudget(tribe: string): TribeBudget {
+    return this.fiscalSystem.getBudget(tribe);
+  }
+
+  // Spend one period's appropriation and pass the funding on to the systems it pays for
+  private runBudget(tribe: string, tribeAgents: Agent[]): void {
+    const gov = this.governanceSystem.getGovernment(tribe);
+    const budget = this.budgetSystem.appropriate(tribe, gov.type, gov.policies);
+    const withSkill = (skill: string) => tribeAgents.filter(a => a.skills.includes(skill)).map(a => a.id);
+
+    // Welfare goes to members who are nearly broke or behind on upkeep
+    const needy = tribeAgents
+      .filter(a => this.tokenSystem.getBalance(a.id) < this.WELFARE_LINE || this.upkeepSystem.getDebt(a.id) > 0)
+      .map(a => a.id);
+    this.budgetSystem.payMembers(tribe, 'welfare', needy, budget.welfare);
+
+    // Research grants pay researchers and speed up knowledge gains
+    const researchers = withSkill('research');
+    const granted = this.budgetSystem.payMembers(tribe, 'research', researchers, budget.research);
+    this.budgetSystem.fundResearch(tribe, granted, researchers.length);
+
+    // Building subsidies pay builders and speed up anything under construction
+    const sites = this.buildingSystem.getBuildingsByTribe(tribe).filter(b => b.constructionProgress < 100).length;
+    const subsidy = sites > 0 ? this.budgetSystem.payMembers(tribe, 'buildings', withSkill('building'), budget.buildings) : 0;
+    this.budgetSystem.fundConstruction(tribe, subsidy, sites);
+
+    // Military pay: mercenary wages come first, soldiers share the rest
+    let militaryFunds = budget.military;
+    for (const contract of this.mercenarySystem.getContractsByTribe(tribe)) {
+      if (contract.status !== 'active') continue;
+      const due = contract.dailyWages * (this.state.day - contract.lastPayDay);
+      if (due <= 0 || due > militaryFunds) continue;
+      if (this.budgetSystem.spend(tribe, 'military', due, `${contract.companyName} wages`) >= due) {
+        this.mercenarySystem.payWages(contract.id, this.state.day);
+        militaryFunds -= due;
+      }
+    }
+    this.budgetSystem.payMembers(tribe, 'military', withSkill('combat'), militaryFunds);
+
+    // Festival money accumulates until it pays for a festival
+    const festivalType = gov.policies.includes('militarism') ? 'military' : gov.type === 'tribal' ? 'harvest' : 'cultural';
+    if (this.budgetSystem.getProgrammes(tribe).festivalFund >= this.FESTIVAL_BUDGET_MIN &&
+        this.festivalSystem.canPlanFestival(tribe, this.state.day + 3)) {
+      const funding = this.budgetSystem.drawFestivalFund(tribe);
+      this.festivalSystem.planFestival(tribe, festivalType, this.state.day + 3, [], funding);
+    }
+  }
+
+  // Budget Methods
+  public getBudgetSystem(): BudgetSystem {
+    return this.budgetSystem;
+  }
+
+  public getBudgetPlan(tribe: string) {
+    const gov = this.governanceSystem.getGovernment(tribe);
+    return this.budgetSystem.getPlan(gov.type, gov.policies);
+  }
+
+  public getTribeProgrammes(tribe: string): TribeProgrammes {
+    return this.budgetSystem.getProgrammes(tribe);
+  }
+
+  public getLastAppropriation(tribe: string): BudgetAllocation {
+    return this.budgetSystem.getProgrammes(tribe).lastAppropriation;
+  }
+
+  // Lending Methods
+  public getLendingSystem(): LendingSystem {
+    return this.lendingSystem;
+  }
+
+  public getLoans(accountId?: string): Loan[] {
+    return accountId ? this.lendingSystem.getLoansFor(accountId) : this.lendingSystem.getAllLoans();
+  }
+
+  public getLoanOffers(tribe?: string): LoanOffer[] {
+    return this.lendingSystem.getOffers(tribe);
+  }
+
+  public getCreditScore(accountId: string): number {
+    return this.lendingSystem.getCreditScore(accountId);
+  }
+
+  // Post a loan offer from a tribe treasury (pass the tribe name), a corporation or cooperative, or a wealthy agent
+  public offerLoan(lender: string, terms: LoanTerms): OfferLoanResult {
+    const resolved = this.resolveLender(lender);
+    if ('error' in resolved) return { offer: null, error: resolved.error };
+    return this.lendingSystem.offerLoan(lender, resolved.kind, resolved.tribe, terms, this.state.day);
+  }
+
+  // Borrow against an offer, pledging collateral the borrower holds. The collateral is held until the loan is repaid.
+  public takeLoan(borrower: string, offerId: string, amount: number, collateral: Collateral | null = null): TakeLoanResult {
+    const holder = this.findHolder(borrower);
+    if (!holder || ('alive' in holder && !holder.alive)) return { loan: null, error: 'unknown borrower' };
+    const appraisal = this.appraiseCollateral(holder, offerId, collateral);
+    if (appraisal.error) return { loan: null, error: appraisal.error };
+    const error = this.lendingSystem.validateLoan(borrower, offerId, amount, appraisal.value);
+    if (error) return { loan: null, error };
+
+    const pledged = collateral ? this.pledgeCollateral(holder, collateral) : null;
+    const result = this.lendingSystem.takeLoan(borrower, holder.tribe, offerId, amount, pledged, appraisal.value, this.state.day);
+    if (!result.loan) {
+      if (pledged) this.returnCollateral(borrower, pledged);
+      return result;
+    }
+
+    const loan = result.loan;
+    if (loan.lenderKind === 'treasury') this.fiscalSystem.recordSpending(loan.lender, 'loans', loan.principal);
+    this.emit('LoanIssued', {
+      loanId: loan.id,
+      lender: loan.lender,
+      lenderKind: loan.lenderKind,
+      borrower,
+      borrowerName: holder.name,
+      amount: loan.principal,
+      interestRate: loan.interestRate,
+      tribe: holder.tribe
+    });
+    return result;
+  }
+
+  // Pay down a loan early; returns what was paid
+  public repayLoan(loanId: string, amount: number): number {
+    const paid = this.lendingSystem.repay(loanId, amount, this.state.day);
+    const loan = this.lendingSystem.getLoan(loanId);
+    if (!loan || !(paid > 0)) return paid;
+
+    if (loan.lenderKind === 'treasury') this.fiscalSystem.recordRevenue(loan.lender, 'loans', paid);
+    if (loan.status === 'repaid') this.closeRepaidLoan(loan);
+    return paid;
+  }
+
+  public depositWith(orgId: string, depositor: string, amount: number): boolean {
+    const org = this.organizationSystem.getOrganization(orgId);
+    if (!org || (org.type !== 'corporation' && org.type !== 'cooperative')) return false;
+    return this.lendingSystem.deposit(orgId, depositor, amount);
+  }
+
+  public withdrawDeposit(orgId: string, depositor: string, amount: number): number {
+    return this.lendingSystem.withdraw(orgId, depositor, amount);
+  }
+
+  // Wind up an insolvent organization: its loans default and creditors seize their collateral, what $CLAW it has
+  // left goes to depositors, loans it made pass to its tribe's treasury, and the organization is dissolved
+  public declareBankruptcy(orgId: string): boolean {
+    const org = this.organizationSystem.getOrganization(orgId);
+    if (!org) return false;
+
+    let debt = 0;
+    for (const loan of this.lendingSystem.getActiveLoans()) {
+      if (loan.borrower !== orgId) continue;
+      debt += this.lendingSystem.getOutstanding(loan);
+      this.lendingSystem.defaultLoan(loan.id, this.state.day);
+      this.handleDefault(loan);
+    }
+    const unpaidDeposits = this.lendingSystem.liquidateDeposits(orgId);
+    this.lendingSystem.assignLoans(orgId, org.tribe);
+    this.exchangeSystem.cancelOrdersWhere(order => order.owner === orgId);
+    this.organizationSystem.dissolveOrganization(orgId);
+
+    this.emit('OrganizationBankrupt', { orgId, orgName: org.name, tribe: org.tribe, debt, unpaidDeposits });
+    return true;
+  }
+
+  private toLoanTerms(action: { amount: number; interestRate: number; termDays: number; collateralRatio?: number }): LoanTerms {
+    return {
+      amount: action.amount,
+      interestRate: action.interestRate,
+      termDays: action.termDays,
+      collateralRatio: action.collateralRatio ?? 1,
+      minCreditScore: 0
+    };
+  }
+
+  private resolveLender(lender: string): { kind: LenderKind; tribe: string } | { error: string } {
+    if (this.TRIBES.includes(lender)) return { kind: 'treasury', tribe: lender };
+    const org = this.organizationSystem.getOrganization(lender);
+    if (org) {
+      if (org.type !== 'corporation' && org.type !== 'cooperative') return { error: 'only corporations and cooperatives lend' };
+      return { kind: 'organization', tribe: org.tribe };
+    }
+    const agent = this.state.agents.find(a => a.id === lender && a.alive);
+    return agent ? { kind: 'agent', tribe: agent.tribe } : { error: 'unknown lender' };
+  }
+
+  // Each period the government offers a slice of its treasury to members as secured loans
+  private offerTreasuryCredit(tribe: string): void {
+    for (const offer of this.lendingSystem.getOffersBy(tribe)) {
+      this.lendingSystem.withdrawOffer(offer.id);
+    }
+    if (this.governanceSystem.getGovernment(tribe).type === 'anarchy') return;
+
+    const amount = Math.floor(this.tokenSystem.getTreasuryBalance(tribe) * this.TREASURY_CREDIT_SHARE);
+    if (amount < 1) return;
+    this.lendingSystem.offerLoan(tribe, 'treasury', tribe, { amount, ...this.TREASURY_LOAN_TERMS }, this.state.day);
+  }
+
+  // What the pledged collateral is worth in $CLAW, or why it can't back a loan from this offer
+  private appraiseCollateral(holder: Agent | Organization, offerId: string, collateral: Collateral | null): { value: number; error?: string } {
+    if (!collateral) return { value: 0 };
+
+    switch (collateral.type) {
+      case 'resource': {
+        if (!EXCHANGE_RESOURCES.includes(collateral.resource)) return { value: 0, error: 'invalid resource' };
+        if (!(collateral.amount > 0) || holder.resources[collateral.resource] < collateral.amount) {
+          return { value: 0, error: `not enough ${collateral.resource}` };
+        }
+        return { value: collateral.amount * this.exchangeSystem.getQuote(collateral.resource).mid };
+      }
+      case 'item': {
+        // Seized items need an inventory to go to, which treasuries don't have
+        if (this.lendingSystem.getOffer(offerId)?.lenderKind === 'treasury') return { value: 0, error: 'treasuries do not take items' };
+        const slot = this.inventorySystem.getInventory(holder.id)?.inventory.find(s => s.item?.id === collateral.itemId);
+        return slot?.item ? { value: slot.item.value } : { value: 0, error: 'item not in inventory' };
+      }
+      case 'artifact': {
+        const artifact = this.artifactSystem.getArtifact(collateral.artifactId);
+        if (!artifact || artifact.tribe !== holder.tribe) return { value: 0, error: "artifact does not belong to the borrower's tribe" };
+        const pledged = this.lendingSystem.getActiveLoans()
+          .some(l => l.collateral?.type === 'artifact' && l.collateral.artifactId === collateral.artifactId);
+        return pledged ? { value: 0, error: 'artifact is already pledged' } : { value: ARTIFACT_COLLATERAL_VALUES[artifact.rarity] };
+      }
+    }
+    return { value: 0, error: 'unknown collateral' };
+  }
+
+  // Take appraised collateral into custody. Artifacts stay with the tribe under a lien.
+  private pledgeCollateral(holder: Agent | Organization, collateral: Collateral): Collateral {
+    switch (collateral.type) {
+      case 'resource':
+        holder.resources[collateral.resource] -= collateral.amount;
+        return { ...collateral };
+      case 'item': {
+        const slot = this.inventorySystem.getInventory(holder.id)!.inventory.find(s => s.item?.id === collateral.itemId)!;
+        const item = { ...slot.item! };
+        this.inventorySystem.removeItem(holder.id, collateral.itemId, 1);
+        return { type: 'item', itemId: collateral.itemId, item };
+      }
+      case 'artifact':
+        return { ...collateral };
+    }
+  }
+
+  private returnCollateral(borrower: string, collateral: Collateral): void {
+    if (collateral.type === 'resource') {
+      const holder = this.findHolder(borrower);
+      if (holder) holder.resources[collateral.resource] += collateral.amount;
+    } else if (collateral.type === 'item' && collateral.item) {
+      this.inventorySystem.addItem(borrower, collateral.item, 1);
+    }
+  }
+
+  // Hand a defaulted loan's collateral to the lender. Treasuries share seized resources among the tribe's
+  // members; organizations take items through their leader. Returns a description for the chat log.
+  private seizeCollateral(loan: Loan): string {
+    const collateral = loan.collateral;
+    if (!collateral) return '';
+
+    switch (collateral.type) {
+      case 'resource': {
+        const recipients: (Agent | Organization)[] = loan.lenderKind === 'treasury'
+          ? this.state.agents.filter(a => a.alive && a.tribe === loan.lenderTribe)
+          : [this.findHolder(loan.lender)].filter((h): h is Agent | Organization => h !== undefined);
+        for (const recipient of recipients) {
+          recipient.resources[collateral.resource] += collateral.amount / recipients.length;
+        }
+        return `${Math.round(collateral.amount)} ${collateral.resource}`;
+      }
+      case 'item': {
+        const recipient = loan.lenderKind === 'organization'
+          ? this.organizationSystem.getOrganization(loan.lender)?.leaderId
+          : loan.lender;
+        if (recipient && collateral.item) this.inventorySystem.addItem(recipient, collateral.item, 1);
+        return collateral.item?.name ?? 'an item';
+      }
+      case 'artifact': {
+        const artifact = this.artifactSystem.getArtifact(collateral.artifactId);
+        if (!artifact) return '';
+        if (artifact.tribe !== loan.lenderTribe) this.artifactSystem.transferArtifact(artifact.id, loan.lenderTribe, 'seizure');
+        return `${artifact.icon} ${artifact.name}`;
+      }
+    }
+    return '';
+  }
+
+  private closeRepaidLoan(loan: Loan): void {
+    if (loan.collateral) this.returnCollateral(loan.borrower, loan.collateral);
+    this.emit('LoanRepaid', { loanId: loan.id, lender: loan.lender, borrower: loan.borrower, amount: loan.totalDue });
+  }
+
+  // Creditors seize the collateral and the borrower's standing suffers
+  private handleDefault(loan: Loan): void {
+    const borrower = this.findHolder(loan.borrower);
+    const seized = this.seizeCollateral(loan);
+    if (borrower) borrower.resources.socialCapital = Math.max(0, borrower.resources.socialCapital - 10);
+    this.emit('LoanDefaulted', {
+      loanId: loan.id,
+      lender: loan.lender,
+      borrower: loan.borrower,
+      borrowerName: borrower?.name ?? loan.borrower,
+      tribe: loan.borrowerTribe,
+      outstanding: this.lendingSystem.getOutstanding(loan),
+      seized
+    });
+  }
+
+  private updateLending(): void {
+    // Loans to agents who died or left and organizations that dissolved default at once;
+    // loans made by dissolved organizations pass to their tribe's treasury
+    for (const loan of this.lendingSystem.getActiveLoans()) {
+      if (loan.lenderKind === 'organization' && !this.organizationSystem.getOrganization(loan.lender)) {
+        this.lendingSystem.assignLoans(loan.lender, loan.lenderTribe);
+      }
+      const borrower = this.findHolder(loan.borrower);
+      if (!borrower || ('alive' in borrower && !borrower.alive)) {
+        this.lendingSystem.defaultLoan(loan.id, this.state.day);
+        this.handleDefault(loan);
+      }
+    }
+
+    const update = this.lendingSystem.update(this.state.day);
+    for (const { loan, amount, missed } of update.payments) {
+      if (loan.lenderKind === 'treasury') this.fiscalSystem.recordRevenue(loan.lender, 'loans', amount);
+      // Missed payments shake an organization's members
+      const org = missed ? this.organizationSystem.getOrganization(loan.borrower) : undefined;
+      if (org) org.stats.stability = Math.max(0, org.stats.stability - 5);
+    }
+    for (const loan of update.repaid) {
+      this.closeRepaidLoan(loan);
+    }
+
+    const bankrupt = new Set<string>();
+    for (const loan of update.defaults) {
+      this.handleDefault(loan);
+      if (this.organizationSystem.getOrganization(loan.borrower)) bankrupt.add(loan.borrower);
+    }
+    for (const run of update.runs) {
+      const org = this.organizationSystem.getOrganization(run.orgId);
+      if (!org) continue;
+      this.emit('BankRun', { orgId: run.orgId, orgName: org.name, tribe: org.tribe, withdrawn: run.withdrawn, shortfall: run.shortfall });
+      if (run.shortfall > 0) bankrupt.add(run.orgId);
+    }
+    for (const orgId of bankrupt) {
+      this.declareBankruptcy(orgId);
+    }
+  }
+
+  // Prediction Market Methods
+  public getPredictionMarketSystem(): PredictionMarketSystem {
+    return this.predictionMarkets;
+  }
+
+  public getPredictionMarkets(): PredictionMarket[] {
+    return this.predictionMarkets.getAllMarkets();
+  }
+
+  public getPredictionMarket(marketId: string): PredictionMarket | undefined {
+    return this.predictionMarkets.getMarket(marketId);
+  }
+
+  public getPredictionPrices(marketId: string): number[] {
+    return this.predictionMarkets.getPrices(marketId);
+  }
+
+  // Humans trade in their own account namespace; returns the account id
+  public openHumanAccount(humanId: string): string {
+    return this.tokenSystem.openHumanAccount(humanId);
+  }
+
+  // Open a market on a question the engine can answer from its own state. The creator funds the market maker.
+  public createPredictionMarket(creator: string, question: MarketQuestion, resolutionDay: number, liquidity: number = 100): CreateMarketResult {
+    const described = this.describeQuestion(question, resolutionDay);
+    if ('error' in described) return { market: null, error: described.error };
+
+    const result = this.predictionMarkets.createMarket(creator, described.title, question, described.outcomes, liquidity, resolutionDay, this.state.day);
+    if (result.market) {
+      this.emit('PredictionMarketCreated', {
+        marketId: result.market.id,
+        title: result.market.title,
+        creator,
+        outcomes: result.market.outcomes,
+        resolutionDay
+      });
+    }
+    return result;
+  }
+
+  // Agents can change the outcomes, so only human accounts may trade
+  public buyPredictionShares(accountId: string, marketId: string, outcome: number, shares: number): TradeResult {
+    if (!this.tokenSystem.isHumanAccount(accountId)) return { trade: null, error: 'only human accounts can trade prediction markets' };
+    return this.reportPredictionTrade(this.predictionMarkets.buy(marketId, accountId, outcome, shares));
+  }
+
+  public sellPredictionShares(accountId: string, marketId: string, outcome: number, shares: number): TradeResult {
+    if (!this.tokenSystem.isHumanAccount(accountId)) return { trade: null, error: 'only human accounts can trade prediction markets' };
+    return this.reportPredictionTrade(this.predictionMarkets.sell(marketId, accountId, outcome, shares));
+  }
+
+  private reportPredictionTrade(result: TradeResult): TradeResult {
+    const trade = result.trade;
+    if (trade) {
+      this.emit('PredictionMarketTraded', {
+        marketId: trade.market.id,
+        trader: trade.accountId,
+        outcome: trade.market.outcomes[trade.outcome],
+        shares: trade.shares,
+        cost: trade.cost
+      });
+    }
+    return result;
+  }
+
+  // Title and outcomes for a question, or why the engine couldn't answer it
+  private describeQuestion(question: MarketQuestion, resolutionDay: number): { title: string; outcomes: string[] } | { error: string } {
+    switch (question?.type) {
+      case 'tech_researched': {
+        if (!this.TRIBES.includes(question.tribe)) return { error: 'unknown tribe' };
+        const tech = this.techTrees.get(question.tribe)?.getTech(question.techId);
+        if (!tech) return { error: 'unknown tech' };
+        return { title: `Will ${question.tribe} research ${tech.name} by day ${resolutionDay}?`, outcomes: YES_NO };
+      }
+      case 'tribe_eliminated':
+        if (question.tribe !== undefined && !this.TRIBES.includes(question.tribe)) return { error: 'unknown tribe' };
+        return { title: `Will ${question.tribe ?? 'any tribe'} be eliminated by day ${resolutionDay}?`, outcomes: YES_NO };
+      case 'first_wonder':
+        if (!Array.isArray(question.wonders) || question.wonders.length === 0) return { error: 'list at least one wonder' };
+        return { title: `Which wonder will be completed first by day ${resolutionDay}?`, outcomes: [...question.wonders, 'Other', 'None'] };
+      case 'largest_population': {
+        const tribes = question.tribes?.length ? question.tribes : this.TRIBES;
+        if (tribes.some(tribe => !this.TRIBES.includes(tribe))) return { error: 'unknown tribe' };
+        return { title: `Which tribe will have the largest population on day ${resolutionDay}?`, outcomes: [...tribes] };
+      }
+    }
+    return { error: 'unknown question' };
+  }
+
+  // Read a market's answer from the current state
+  private resolveQuestion(market: PredictionMarket): number {
+    const question = market.question;
+    const population = (tribe: string) => this.state.agents.filter(a => a.alive && a.tribe === tribe).length;
+
+    switch (question.type) {
+      case 'tech_researched':
+        return this.techTrees.get(question.tribe)?.getTech(question.techId)?.researched ? 0 : 1;
+      case 'tribe_eliminated': {
+        const tribes = question.tribe ? [question.tribe] : this.TRIBES;
+        return tribes.some(tribe => population(tribe) === 0) ? 0 : 1;
+      }
+      case 'first_wonder': {
+        const first = this.wonderSystem.getCompletedWonders().sort((a, b) => a.dayCompleted - b.dayCompleted)[0];
+        if (!first) return market.outcomes.length - 1;
+        const index = market.outcomes.indexOf(first.name);
+        return index >= 0 && index < market.outcomes.length - 2 ? index : market.outcomes.length - 2;
+      }
+      case 'largest_population': {
+        let best = 0;
+        market.outcomes.forEach((tribe, i) => {
+          if (population(tribe) > population(market.outcomes[best])) best = i;
+        });
+        return best;
+      }
+    }
+  }
+
+  private updatePredictionMarkets(): void {
+    const resolutions = this.predictionMarkets.update(this.state.day, market => this.resolveQuestion(market));
+    for (const { market, winner, paidOut } of resolutions) {
+      this.emit('PredictionMarketResolved', { marketId: market.id, title: market.title, outcome: market.outcomes[winner], paidOut });
+    }
+  }
+
+  // Upkeep Methods
+  public getUpkeepSystem(): UpkeepSystem {
+    return this.upkeepSystem;
+  }
+
+  // Government and tribe culture both scale rent and compute
+  public getUpkeepMultiplier(tribe: string): number {
+    const governmentMod = this.governanceSystem.getEffects(tribe).upkeep ?? 1;
+    return governmentMod * this.tribeConfigSystem.getUpkeepModifier(tribe);
+  }
+
+  private runUpkeep(): void {
+    for (const agent of this.state.agents) {
+      if (!agent.alive) {
+        this.upkeepSystem.removeAgent(agent.id);
+        this.fiscalSystem.removeTaxpayer(agent.id);
+        continue;
+      }
+
+      const result = this.upkeepSystem.chargeAgent(agent, this.getUpkeepMultiplier(agent.tribe));
+      this.fiscalSystem.recordRevenue(agent.tribe, 'rent', result.rentPaid);
+      if (result.daysInArrears === 1) {
+        this.emit('AgentInDebt', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, debt: result.debt });
+      }
+      if (result.exiled) {
+        agent.alive = false;
+        agent.exiled = true;
+        this.upkeepSystem.removeAgent(agent.id);
+        this.emit('AgentExiled', { agentId: agent.id, agentName: agent.name, tribe: agent.tribe, debt: result.debt });
+      }
+    }
+  }
+
+  // Add a living agent to the world after initialization
+  public spawnAgent(options: SpawnAgentOptions): Agent {
+    if (!this.TRIBES.includes(options.tribe)) {
+      throw new Error(`Unknown tribe: ${options.tribe}`);
+    }
+    const unknownSkills = (options.skills || []).filter(skill => !this.SKILLS.includes(skill));
+    if (unknownSkills.length > 0) {
+      throw new Error(`Unknown skills: ${unknownSkills.join(', ')}`);
+    }
+
+    const agent = this.createAgent(options, this.state.day);
+    this.state.agents.push(agent);
+    this.agentsById.set(agent.id, agent);
+    this.agentIndex.insert(agent);
+    return agent;
+  }
+
+  // Queue a human-deployed agent; returns null if the submission is rejected
+  public submitAgent(owner: string, name: string, skills: string[], tribePreference: string | null = null): SpawnSubmission | null {
+    if (tribePreference !== null && !this.TRIBES.includes(tribePreference)) return null;
+    if (skills.length > 3 || skills.some(skill => !this.SKILLS.includes(skill))) return null;
+    return this.spawnQueue.submit(owner, name, skills, tribePreference, this.state.day);
+  }
+
+  public upvoteAgent(submissionId: string, voter: string, amount: number): boolean {
+    return this.spawnQueue.upvote(submissionId, voter, amount);
+  }
+
+  public withdrawAgent(submissionId: string, owner: string): boolean {
+    return this.spawnQueue.withdraw(submissionId, owner);
+  }
+
+  // Spawn the top-voted queued agents into tribes that have room
+  private processSpawnQueue(): void {
+    const capacity = new Map<string, number>();
+    for (const tribe of this.TRIBES) {
+      const landCapacity = this.carryingCapacitySystem.getTribeCapacity(tribe)?.capacity;
+      capacity.set(tribe, this.populationSystem.getAvailableCapacity(tribe, this.state.agents, landCapacity));
+    }
+
+    for (const submission of this.spawnQueue.getEligible()) {
+      // Preferred tribe if it has room, otherwise whichever tribe has the most room
+      let tribe = submission.tribePreference;
+      if (tribe === null) {
+        tribe = this.TRIBES.reduce((best, t) => (capacity.get(t)! > capacity.get(best)! ? t : best), this.TRIBES[0]);
+      }
+      if (!tribe || (capacity.get(tribe) || 0) <= 0) continue;
+
+      const agent = this.spawnAgent({
+        tribe,
+        name: submission.name,
+        skills: submission.skills,
+        owner: submission.owner
+      });
+      capacity.set(tribe, capacity.get(tribe)! - 1);
+      this.spawnQueue.markSpawned(submission.id, agent.id, this.state.day);
+
+      this.emit('AgentDeployed', {
+        agentId: agent.id,
+        agentName: agent.name,
+        tribe,
+        submissionId: submission.id,
+        owner: submission.owner,
+        votes: submission.votes
+      });
+    }
+  }
+
   // Save/Load System
   public serialize(): any {
     return {
-      state: this.state,
+      version: SAVE_VERSION,
+      world: this.world,
+      state: encodeState(this.state),
       tokenSystem: this.tokenSystem.serialize(),
       territorySystem: this.territorySystem.serialize(),
       techTrees: Array.from(this.techTrees.entries()).map(([tribe, tree]) => [tribe, tree.serialize()]),
       buildingSystem: this.buildingSystem.serialize(),
+      achievementSystem: this.achievementSystem.serialize(),
       eventSystem: this.eventSystem.serialize(),
       questSystem: this.questSystem.serialize(),
       diplomacySystem: this.diplomacySystem.serialize(),
@@ -2087,13 +3707,37 @@ export class GameEngine {
       populationSystem: this.populationSystem.serialize(),
       inventorySystem: this.inventorySystem.serialize(),
       weatherSystem: this.weatherSystem.serialize(),
+      spawnQueue: this.spawnQueue.serialize(),
+      upkeepSystem: this.upkeepSystem.serialize(),
+      exchangeSystem: this.exchangeSystem.serialize(),
+      resourceTokenRegistry: this.resourceTokenRegistry.serialize(),
+      escrowSystem: this.escrowSystem.serialize(),
+      fiscalSystem: this.fiscalSystem.serialize(),
+      budgetSystem: this.budgetSystem.serialize(),
+      lendingSystem: this.lendingSystem.serialize(),
+      predictionMarkets: this.predictionMarkets.serialize(),
+      movementSystem: this.movementSystem.serialize(),
+      carryingCapacitySystem: this.carryingCapacitySystem.serialize(),
+      eventHistory: this.history.serialize(),
+      nextAgentId: this.nextAgentId,
+      random: this.random.serialize(),
       victoryAchieved: this.victoryAchieved
     };
   }
 
+  // Accepts any save version; older saves are migrated, invalid ones throw SaveFormatError
   public deserialize(data: any): void {
+    data = loadSave(data, this.world);
+
     // Restore state
-    this.state = data.state;
+    const generatedGrid = this.state.grid;
+    this.state = decodeState(data.state);
+    this.tribeViewsDay = -1;
+    this.stepCostsDay = -1;
+    // Saves from before terrain existed keep this engine's generated map
+    if (!this.state.grid) this.state.grid = generatedGrid;
+    this.agentsById = new Map(this.state.agents.map(a => [a.id, a]));
+    this.agentIndex.rebuild(this.state.agents.filter(a => a.alive));
     this.tokenSystem.deserialize(data.tokenSystem);
     this.territorySystem.deserialize(data.territorySystem);
 
@@ -2110,6 +3754,11 @@ export class GameEngine {
       this.buildingSystem.deserialize(data.buildingSystem);
     }
 
+    // Restore achievement progress
+    if (data.achievementSystem) {
+      this.achievementSystem.deserialize(data.achievementSystem);
+    }
+
     // Restore event system
     if (data.eventSystem) {
       this.eventSystem.deserialize(data.eventSystem);
@@ -2200,6 +3849,60 @@ export class GameEngine {
       this.weatherSystem.deserialize(data.weatherSystem);
     }
 
+    // Restore spawn queue
+    if (data.spawnQueue) {
+      this.spawnQueue.deserialize(data.spawnQueue);
+    }
+    if (data.upkeepSystem) {
+      this.upkeepSystem.deserialize(data.upkeepSystem);
+    }
+
+    // Restore exchange order books
+    if (data.exchangeSystem) {
+      this.exchangeSystem.deserialize(data.exchangeSystem);
+    }
+    if (data.resourceTokenRegistry) {
+      this.resourceTokenRegistry.deserialize(data.resourceTokenRegistry);
+    }
+    if (data.escrowSystem) {
+      this.escrowSystem.deserialize(data.escrowSystem);
+    }
+    if (data.fiscalSystem) {
+      this.fiscalSystem.deserialize(data.fiscalSystem);
+    }
+    if (data.budgetSystem) {
+      this.budgetSystem.deserialize(data.budgetSystem);
+    }
+
+    if (data.lendingSystem) {
+      this.lendingSystem.deserialize(data.lendingSystem);
+    }
+
+    if (data.predictionMarkets) {
+      this.predictionMarkets.deserialize(data.predictionMarkets);
+    }
+
+    if (data.movementSystem) {
+      this.movementSystem.deserialize(data.movementSystem);
+    }
+
+    if (data.carryingCapacitySystem) {
+      this.carryingCapacitySystem.deserialize(data.carryingCapacitySystem);
+    }
+
+    // Saves from before the history store start with an empty history
+    if (data.eventHistory) {
+      this.history.deserialize(data.eventHistory);
+    } else {
+      this.history.clear();
+    }
+    this.nextAgentId = data.nextAgentId ?? this.state.agents.length;
+
+    // Restore PRNG so a seeded run continues its original sequence
+    if (data.random) {
+      this.random.deserialize(data.random);
+    }
+
     // Restore victory state
     this.victoryAchieved = data.victoryAchieved || false;
   }
@@ -0,0 +1,140 @@
+// Headless Simulation Runner for ClawCiv
+// Drives GameEngine.tick() without a browser, DOM or WebGL (batch runs, balance sweeps)
+
+import { GameEngine, GameEngineOptions } from './Game.ts';
+import { WorldConfig } from './WorldConfig.ts';
+import { SimEventType } from './SimEvents.ts';
+import { SupplyMode } from '../economy/Token.ts';
+
+export interface RunOptions extends GameEngineOptions {
+  days: number;
+  snapshotEvery?: number; // Days between stat snapshots
+  includeFinalState?: boolean; // Attach engine.serialize() to the result
+  onSnapshot?: (snapshot: RunSnapshot) => void;
+}
+
+export interface TribeStats {
+  population: number;
+  treasury: number;
+  techs: number;
+  buildings: number;
+  territories: number;
+  resources: { food: number; materials: number; knowledge: number; socialCapital: number };
+  government: string;
+}
+
+export interface RunSnapshot {
+  day: number;
+  alive: number;
+  totalSupply: number;
+  rewardPool: number;
+  tribes: { [tribe: string]: TribeStats };
+}
+
+export interface RunResult {
+  config: {
+    seed?: number;
+    world: WorldConfig;
+    policy: string;
+    supplyMode: SupplyMode;
+    days: number;
+  };
+  snapshots: RunSnapshot[];
+  victory: { day: number; winner?: string; reason: string } | null;
+  eventCounts: { [type in SimEventType]?: number };
+  finalState?: any;
+}
+
+export class HeadlessRunner {
+  private engine: GameEngine;
+  private options: RunOptions;
+
+  constructor(options: RunOptions) {
+    this.options = options;
+    this.engine = new GameEngine({
+      seed: options.seed,
+      world: options.world,
+      tribes: options.tribes,
+      agentsPerTribe: options.agentsPerTribe,
+      policy: options.policy,
+      upvoteMode: options.upvoteMode,
+      supplyMode: options.supplyMode,
+      ledger: options.ledger,
+      debug: options.debug
+    });
+  }
+
+  getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  run(): RunResult {
+    const snapshotEvery = Math.max(1, this.options.snapshotEvery ?? 100);
+    const snapshots: RunSnapshot[] = [this.takeSnapshot()];
+    let victory: RunResult['victory'] = null;
+    const eventCounts: RunResult['eventCounts'] = {};
+    const unsubscribe = this.engine.getEventBus().subscribeAll(event => {
+      eventCounts[event.type] = (eventCounts[event.type] || 0) + 1;
+    });
+
+    for (let i = 0; i < this.options.days; i++) {
+      this.engine.tick();
+
+      if (!victory && this.engine.isVictoryAchieved()) {
+        const result = this.engine.getAchievementSystem().checkVictory(this.engine);
+        victory = {
+          day: this.engine.getDay(),
+          winner: result?.winner,
+          reason: result?.reason ?? 'Victory achieved'
+        };
+      }
+
+      const day = this.engine.getDay();
+      if (day % snapshotEvery === 0 || i === this.options.days - 1) {
+        const snapshot = this.takeSnapshot();
+        snapshots.push(snapshot);
+        this.options.onSnapshot?.(snapshot);
+      }
+    }
+    unsubscribe();
+
+    return {
+      config: {
+        seed: this.options.seed,
+        world: this.engine.getWorldConfig(),
+        policy: this.options.policy ?? 'random',
+        supplyMode: this.engine.getTokenSystem().getSupplyMode(),
+        days: this.options.days
+      },
+      snapshots,
+      victory,
+      eventCounts,
+      finalState: this.options.includeFinalState ? this.engine.serialize() : undefined
+    };
+  }
+
+  private takeSnapshot(): RunSnapshot {
+    const tokenSystem = this.engine.getTokenSystem();
+    const tribes: RunSnapshot['tribes'] = {};
+
+    for (const tribe of this.engine.getTribes()) {
+      tribes[tribe] = {
+        population: this.engine.getTribeAgentCount(tribe),
+        treasury: tokenSystem.getTreasuryBalance(tribe),
+        techs: this.engine.getResearchedTechCount(tribe),
+        buildings: this.engine.getTotalBuildingCount(tribe),
+        territories: this.engine.getTerritorySystem().getTerritoryCount(tribe),
+        resources: this.engine.getTribeTotalResources(tribe),
+        government: this.engine.getGovernment(tribe).type
+      };
+    }
+
+    return {
+      day: this.engine.getDay(),
+      alive: this.engine.getAliveAgents().length,
+      totalSupply: tokenSystem.getTotalSupply(),
+      rewardPool: tokenSystem.getRewardPoolBalance(),
+      tribes
+    };
+  }
+}
@@ -0,0 +1,218 @@
+// Message Projection for ClawCiv
+// Turns SimEvents into the chat-log Messages shown in the UI; events with no chat line return null
+
+import type { Message } from './Game.ts';
+import { NoticeSource, SimEvent } from './SimEvents.ts';
+
+const NOTICE_STYLE: { [source in NoticeSource]: { prefix: string; type: Message['type'] } } = {
+  organization: { prefix: 'org', type: 'celebration' },
+  spy: { prefix: 'spy', type: 'combat' },
+  festival: { prefix: 'festival', type: 'celebration' },
+  religion: { prefix: 'religion', type: 'celebration' },
+  disease: { prefix: 'disease', type: 'combat' },
+  wonder: { prefix: 'wonder', type: 'celebration' },
+  trade_route: { prefix: 'trade', type: 'trade' }
+};
+
+// `now` supplies the timestamp part of message ids (the engine's Random clock)
+export function projectMessage(event: SimEvent, now: () => number): Message | null {
+  const system = (id: string, content: string, type: Message['type'], tribe: string = 'Global', agentName: string = 'System'): Message => ({
+    id, agentId: 'system', agentName, tribe, content, timestamp: event.day, type
+  });
+  const agent = (id: string, agentId: string, agentName: string, tribe: string, content: string, type: Message['type']): Message => ({
+    id, agentId, agentName, tribe, content, timestamp: event.day, type
+  });
+
+  switch (event.type) {
+    case 'AchievementUnlocked':
+      return system(`achievement-${event.achievementId}`, `🏆 Achievement Unlocked: ${event.icon} ${event.name} - ${event.description}`, 'celebration');
+
+    case 'VictoryAchieved':
+      return system(`victory-${now()}`, `🎉 VICTORY! ${event.reason}`, 'celebration');
+
+    case 'WorldEventStarted':
+      return system(`event-${event.eventId}-${now()}`, `${event.icon} ${event.name}: ${event.description}`,
+        event.category === 'disaster' ? 'combat' : 'celebration');
+
+    case 'WorldEventEnded':
+      return system(`event-end-${event.eventId}-${now()}`, `${event.icon} The ${event.name} has ended.`, 'celebration');
+
+    case 'SeasonChanged':
+      return system(`season-${now()}`, `🌍 The season has changed to ${event.emoji} ${event.season}!`, 'celebration');
+
+    case 'WeatherChanged':
+      return system(`weather-${now()}`, `🌦️ Weather changed to ${event.emoji} ${event.weather}`, 'celebration');
+
+    case 'WeatherAlert':
+      return system(`weather-${now()}`, `${event.icon} Weather Alert: ${event.name} - ${event.description}`,
+        event.severity >= 8 ? 'combat' : 'chat', 'Global', 'Weather Service');
+
+    case 'AgentSpoke':
+      return agent(`msg-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe, event.text, event.channel);
+
+    case 'AgentLeveledUp':
+      return agent(`levelup-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+        `⬆️ ${event.agentName} reached Level ${event.level}!`, 'celebration');
+
+    case 'AgentDied':
+      // Starvation is silent in the chat log
+      if (event.cause === 'combat') {
+        return agent(`death-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+          `${event.agentName} has fallen in battle!`, 'combat');
+      }
+      if (event.cause === 'event') {
+        return agent(`death-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+          `${event.agentName} perished in the ${event.detail}!`, 'combat');
+      }
+      return null;
+
+    case 'AgentDeployed':
+      return agent(`spawn-${event.submissionId}`, event.agentId, event.agentName, event.tribe,
+        `🚀 ${event.agentName} has been deployed to ${event.tribe} with ${event.votes} $CLAW of support!`, 'celebration');
+
+    case 'AgentInDebt':
+      // Tracked in history only; the exile that may follow gets a chat line
+      return null;
+
+    case 'AgentExiled':
+      return agent(`exile-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+        `🏚️ ${event.agentName} was exiled from ${event.tribe} owing ${Math.round(event.debt)} $CLAW in upkeep`, 'chat');
+
+    case 'TaxesCollected':
+      // Budgets are reported through GameEngine.getTribeBudget
+      return null;
+
+    case 'EscrowCreated':
+      return null;
+
+    case 'EscrowDisputed':
+      return system(`escrow-dispute-${event.contractId}`,
+        `⚖️ ${event.byName} disputed escrow ${event.contractId}; the ${event.tribe} government will rule`, 'diplomacy', event.tribe);
+
+    case 'EscrowSettled':
+      // Routine releases and refunds stay in the history; only rulings are news
+      if (event.via !== 'ruling') return null;
+      return system(`escrow-ruling-${event.contractId}`,
+        `⚖️ ${event.reason}: escrow ${event.contractId} ${event.outcome} (${Math.round(event.amount)} $CLAW)`, 'diplomacy', event.tribe);
+
+    case 'LoanIssued':
+    case 'LoanRepaid':
+      return null;
+
+    case 'LoanDefaulted':
+      return system(`loan-default-${event.loanId}`,
+        `💸 ${event.borrowerName} defaulted owing ${Math.round(event.outstanding)} $CLAW${event.seized ? `; creditors seized ${event.seized}` : ''}`, 'chat', event.tribe);
+
+    case 'BankRun':
+      return system(`bank-run-${event.orgId}-${now()}`, event.shortfall > 0
+        ? `🏦 Depositors ran on ${event.orgName}! ${Math.round(event.shortfall)} $CLAW could not be paid back`
+        : `🏦 Depositors ran on ${event.orgName} and pulled out ${Math.round(event.withdrawn)} $CLAW`, 'combat', event.tribe);
+
+    case 'OrganizationBankrupt':
+      return system(`bankrupt-${event.orgId}`,
+        `📉 ${event.orgName} went bankrupt owing ${Math.round(event.debt + event.unpaidDeposits)} $CLAW and was dissolved`, 'combat', event.tribe);
+
+    case 'PredictionMarketCreated':
+      return system(`prediction-${event.marketId}`, `🔮 New prediction market: ${event.title}`, 'celebration');
+
+    case 'PredictionMarketTraded':
+      return null;
+
+    case 'PredictionMarketResolved':
+      return system(`prediction-resolved-${event.marketId}`,
+        `🔮 ${event.title} Resolved: ${event.outcome} (${Math.round(event.paidOut)} $CLAW paid out)`, 'celebration');
+
+    case 'LifeEvent':
+      return agent(`pop-${event.eventId}`, event.agentId, event.agentName, event.tribe,
+        `${event.icon} ${event.description}`, event.kind === 'birth' ? 'celebration' : 'chat');
+
+    case 'Overpopulation':
+      return system(`overpopulation-${event.tribe}-${now()}`, event.overpopulated
+        ? `🏚️ ${event.tribe} has outgrown its land: ${event.population} people where ${Math.floor(event.capacity)} can be fed`
+        : `🌾 ${event.tribe}'s land can feed its people again`, 'chat', event.tribe);
+
+    case 'CombatResolved':
+      if (event.winner === 'attacker') {
+        return agent(`combat-${now()}-${event.attackerId}`, event.attackerId, event.attackerName, event.attackerTribe,
+          `Defeated ${event.defenderName} in combat and took ${Math.round(event.foodTaken)} food, ${Math.round(event.materialsTaken)} materials!`, 'combat');
+      }
+      return agent(`combat-${now()}-${event.defenderId}`, event.defenderId, event.defenderName, event.defenderTribe,
+        `Successfully defended against ${event.attackerName}!`, 'combat');
+
+    case 'TradeCompleted':
+      return agent(`trade-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe, event.text, 'trade');
+
+    case 'MarketFill':
+      // Every fill is in the history; the chat log only shows the trader's TradeCompleted line
+      return null;
+
+    case 'ResourceTokenLaunched':
+      return system(`token-launch-${event.symbol}`, `${event.icon} ${event.issuerName} launched $${event.symbol} (${event.name})!`,
+        'celebration', event.tribe);
+
+    case 'AllianceFormed':
+      return agent(`diplomacy-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe, event.text, 'diplomacy');
+
+    case 'PeaceMade':
+      return agent(`diplomacy-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+        `Diplomatic success! Peace established with ${event.otherName}.`, 'diplomacy');
+
+    case 'TreatyFormed':
+      return system(`diplomacy-${event.proposalId}`,
+        `🤝 ${event.proposer} and ${event.recipient} have formed a ${event.treatyType.replace('_', ' ')}!`, 'diplomacy', event.proposer);
+
+    case 'GovernmentChanged':
+      // Election results get their own line from ElectionHeld
+      if (event.via === 'election') return null;
+      return system(`gov-transition-${now()}-${event.tribe}`,
+        `🏛️ ${event.tribe} government transitioned from ${event.from} to ${event.icon} ${event.to}!`, 'celebration', event.tribe);
+
+    case 'ElectionHeld':
+      return system(`election-${now()}-${event.tribe}`, event.governmentChanged
+        ? `🗳️ ${event.tribe} elections resulted in government change to ${event.icon} ${event.government}!`
+        : `🗳️ ${event.tribe} elections held. Incumbent ${event.leaderTitle} retains power.`, 'celebration', event.tribe);
+
+    case 'TerritoryCaptured':
+      return system(`territory-${event.x}-${event.y}-${now()}`,
+        `🚩 ${event.to} took (${event.x}, ${event.y})${event.province ? ` into ${event.province}` : ''} from ${event.from}`, 'combat', event.to);
+
+    case 'TechResearched':
+      return agent(`tech-${event.techId}-${now()}`, event.tribe, event.tribe, event.tribe, `Research complete: ${event.name}!`, 'celebration');
+
+    case 'ConstructionStarted':
+      return agent(`build-${now()}`, event.tribe, event.tribe, event.tribe, `Construction started on ${event.buildingType}!`, 'celebration');
+
+    case 'WonderCompleted':
+      return system(`wonder-complete-${event.wonderId}`, `🏛️ ${event.tribe} has completed ${event.name}!`, 'celebration', event.tribe);
+
+    case 'ArtifactDiscovered':
+      return agent(`artifact-discovery-${now()}-${event.agentId}`, event.agentId, event.agentName, event.tribe,
+        `🏺 ${event.agentName} discovered ${event.icon} ${event.name}! ${event.description}`, 'celebration');
+
+    case 'OutbreakStarted':
+      return system(`outbreak-${now()}`, `⚠️ OUTBREAK: ${event.icon} ${event.name} has emerged in ${event.tribe}!`, 'combat', event.tribe);
+
+    case 'DiseaseSpread':
+      return system(`disease-spread-${now()}`, `🦠 ${event.name} has infected ${event.infected.length} agent(s)!`, 'combat');
+
+    case 'QuestAssigned':
+      return agent(`quest-assigned-${event.questId}`, event.agentId, event.agentName, event.tribe,
+        `📜 New Quest: ${event.icon} ${event.name} - ${event.description}`, 'chat');
+
+    case 'QuestExpired':
+      return agent(`quest-expired-${event.questId}`, event.agentId, event.agentName, event.tribe,
+        `⏰ Quest Expired: ${event.icon} ${event.name} - Time limit exceeded!`, 'chat');
+
+    case 'QuestCompleted':
+      return agent(`quest-completed-${event.questId}`, event.agentId, event.agentName, event.tribe,
+        `✅ Quest Complete: ${event.icon} ${event.name} - earned ${event.tokens} $CLAW`, 'celebration');
+
+    case 'DailyQuestPosted':
+      return system(`daily-quest-${event.questId}`, `📋 Daily Quest Available: ${event.icon} ${event.name}`, 'celebration', event.tribe, 'Tribe Council');
+
+    case 'SystemNotice': {
+      const style = NOTICE_STYLE[event.source];
+      return system(`${style.prefix}-${now()}`, event.text, style.type);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// Random Source for ClawCiv
+// Seeded runs are reproducible: same seed + same inputs = same simulation
+
+export class Random {
+  private seed?: number;
+  private state: number;
+  private clock: number = 0;
+
+  constructor(seed?: number) {
+    this.seed = seed;
+    this.state = seed === undefined ? 0 : seed >>> 0;
+  }
+
+  isSeeded(): boolean {
+    return this.seed !== undefined;
+  }
+
+  getSeed(): number | undefined {
+    return this.seed;
+  }
+
+  // Next value in [0, 1) - drop-in replacement for Math.random()
+  next(): number {
+    if (this.seed === undefined) return Math.random();
+
+    // mulberry32
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Timestamp for ids and transaction logs - drop-in replacement for Date.now().
+  // Seeded runs use a logical clock so wall time never leaks into saved state.
+  now(): number {
+    if (this.seed === undefined) return Date.now();
+    return ++this.clock;
+  }
+
+  public serialize(): any {
+    return {
+      seed: this.seed,
+      state: this.state,
+      clock: this.clock
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.seed = data.seed ?? undefined;
+    this.state = data.state || 0;
+    this.clock = data.clock || 0;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from './Game.ts';
+import { SAVE_VERSION, SaveFormatError, loadSave } from './SaveFormat.ts';
+
+// JSON as it would be written to disk, so Sets and Maps that didn't get encoded show up as {}
+function save(engine: GameEngine): any {
+  return JSON.parse(JSON.stringify(engine.serialize()));
+}
+
+function runEngine(seed: number, days: number): GameEngine {
+  const engine = new GameEngine({ seed });
+  for (let i = 0; i < days; i++) engine.tick();
+  return engine;
+}
+
+describe('save round trip', () => {
+  it('restores every system exactly', () => {
+    const original = runEngine(42, 100);
+    const saved = save(original);
+
+    const restored = new GameEngine({ seed: 999 });
+    restored.deserialize(JSON.parse(JSON.stringify(saved)));
+    const resaved = save(restored);
+
+    expect(Object.keys(resaved).sort()).toEqual(Object.keys(saved).sort());
+    for (const section of Object.keys(saved)) {
+      expect(resaved[section], section).toEqual(saved[section]);
+    }
+  });
+
+  it('carries on exactly as the original would', () => {
+    const original = runEngine(7, 60);
+    const restored = new GameEngine({ seed: 1 });
+    restored.deserialize(save(original));
+
+    for (let i = 0; i < 40; i++) {
+      original.tick();
+      restored.tick();
+    }
+    expect(save(restored)).toEqual(save(original));
+  });
+});
+
+describe('old saves', () => {
+  // The original unversioned dump: no version, no world, no RNG, and Sets and Maps flattened to {}
+  function legacySave(): any {
+    const data = save(runEngine(5, 30));
+    delete data.version;
+    delete data.world;
+    delete data.random;
+    data.state.agents.forEach((agent: any) => {
+      agent.alliances = {};
+      agent.enemies = {};
+    });
+    data.state.territories = {};
+    return data;
+  }
+
+  it('migrate to the current version', () => {
+    const migrated = loadSave(legacySave());
+    expect(migrated.version).toBe(SAVE_VERSION);
+    expect(migrated.state.agents.every((a: any) => Array.isArray(a.alliances) && Array.isArray(a.enemies))).toBe(true);
+  });
+
+  it('load and keep running without a saved RNG', () => {
+    const engine = new GameEngine({ seed: 1 });
+    engine.deserialize(legacySave());
+    for (let i = 0; i < 10; i++) engine.tick();
+    expect(engine.getDay()).toBe(40);
+  });
+});
+
+describe('invalid saves', () => {
+  it('report every problem readably', () => {
+    const load = () => new GameEngine({ seed: 1 }).deserialize({ version: 2, state: { day: -1, agents: [{ id: 3 }] } });
+    expect(load).toThrow(SaveFormatError);
+    try {
+      load();
+    } catch (error) {
+      const errors = (error as SaveFormatError).errors;
+      expect(errors).toContain("missing section 'tokenSystem'");
+      expect(errors).toContain('state.day must be a non-negative number');
+      expect(errors).toContain('state.agents[0].id must be a string');
+    }
+  });
+
+  it('reject versions newer than this build', () => {
+    expect(() => loadSave({ version: SAVE_VERSION + 1 })).toThrow(/newer than the supported version/);
+  });
+
+  it('reject saves for a different set of tribes', () => {
+    const data = save(runEngine(3, 5));
+    expect(() => new GameEngine({ seed: 1, world: { tribeCount: 2 } }).deserialize(data)).toThrow(/save is for tribes/);
+  });
+});
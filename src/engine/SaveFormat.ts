@@ -0,0 +1,240 @@
+// Save Format for ClawCiv
+// Versioned save schema: encoders for engine state, step-by-step migrations and validation
+
+import type { Agent, GameState } from './Game.ts';
+import { WorldConfig, createWorldConfig, worldToTile } from './WorldConfig.ts';
+
+// Version 1 is the original unversioned dump of GameEngine.serialize()
+export const SAVE_VERSION = 4;
+
+// Sections every save must contain; saves from before the seeded RNG have no 'random' and load with a fresh one
+const REQUIRED_SECTIONS = ['state', 'tokenSystem', 'territorySystem', 'techTrees'];
+
+export class SaveFormatError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid save:\n  - ${errors.join('\n  - ')}`);
+    this.name = 'SaveFormatError';
+    this.errors = errors;
+  }
+}
+
+interface SaveMigration {
+  from: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+// Each migration upgrades a save from `from` to `from + 1`
+const MIGRATIONS: SaveMigration[] = [
+  {
+    from: 1,
+    description: 'Replace Sets and Maps that JSON flattened to {} with explicit arrays',
+    migrate: (data) => {
+      // The contents of these containers were already lost when the save was written
+      const asArray = (value: any) => (Array.isArray(value) ? value : []);
+      const state = data.state || {};
+
+      return {
+        ...data,
+        state: {
+          ...state,
+          agents: (state.agents || []).map((agent: any) => ({
+            ...agent,
+            alliances: asArray(agent.alliances),
+            enemies: asArray(agent.enemies)
+          })),
+          territories: asArray(state.territories)
+        },
+        organizationSystem: data.organizationSystem && {
+          ...data.organizationSystem,
+          organizations: (data.organizationSystem.organizations || []).map(([id, org]: [string, any]) =>
+            [id, { ...org, members: asArray(org.members) }])
+        },
+        festivalSystem: data.festivalSystem && {
+          ...data.festivalSystem,
+          festivals: (data.festivalSystem.festivals || []).map(([id, festival]: [string, any]) =>
+            [id, { ...festival, attendees: asArray(festival.attendees) }])
+        },
+        religionSystem: data.religionSystem && {
+          ...data.religionSystem,
+          religions: (data.religionSystem.religions || []).map(([id, religion]: [string, any]) =>
+            [id, { ...religion, followers: asArray(religion.followers) }])
+        },
+        wonderSystem: data.wonderSystem && {
+          ...data.wonderSystem,
+          wonders: (data.wonderSystem.wonders || []).map(([id, wonder]: [string, any]) =>
+            [id, { ...wonder, contributors: asArray(wonder.contributors) }])
+        },
+        diseaseSystem: data.diseaseSystem && {
+          ...data.diseaseSystem,
+          diseases: (data.diseaseSystem.diseases || []).map(([id, disease]: [string, any]) => [id, {
+            ...disease,
+            infectedAgents: asArray(disease.infectedAgents),
+            recoveredAgents: asArray(disease.recoveredAgents),
+            deceasedAgents: asArray(disease.deceasedAgents),
+            tribesAffected: asArray(disease.tribesAffected),
+            quarantineZones: asArray(disease.quarantineZones)
+          }]),
+          immuneAgents: (data.diseaseSystem.immuneAgents || []).map(([id, agents]: [string, any]) => [id, asArray(agents)])
+        },
+        version: 2
+      };
+    }
+  },
+  {
+    from: 2,
+    description: 'Drop the unused grid of zeros; the loading engine keeps its generated terrain',
+    migrate: (data) => {
+      const { grid, ...state } = data.state || {};
+      return { ...data, state, version: 3 };
+    }
+  },
+  {
+    from: 3,
+    description: 'Derive each agent\'s grid cell from its world position; the two used to drift apart',
+    migrate: (data) => {
+      // Unversioned saves predate configurable worlds and used the defaults
+      const world = data.world?.gridSize ? data.world as WorldConfig : createWorldConfig();
+      const state = data.state || {};
+      return {
+        ...data,
+        state: {
+          ...state,
+          agents: (state.agents || []).map((agent: any) => (
+            typeof agent?.worldX === 'number' && typeof agent?.worldZ === 'number'
+              ? { ...agent, ...worldToTile(world, agent.worldX, agent.worldZ) }
+              : agent
+          ))
+        },
+        version: 4
+      };
+    }
+  }
+];
+
+export function getSaveVersion(data: any): number {
+  return data && typeof data === 'object' && 'version' in data ? data.version : 1;
+}
+
+// Upgrade a save one version at a time until it matches SAVE_VERSION
+export function migrateSave(data: any): any {
+  let version = getSaveVersion(data);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new SaveFormatError([`version must be a positive integer, got ${JSON.stringify(version)}`]);
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveFormatError([`save version ${version} is newer than the supported version ${SAVE_VERSION}`]);
+  }
+
+  let migrated = data;
+  while (version < SAVE_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new SaveFormatError([`no migration from save version ${version}`]);
+    }
+    migrated = migration.migrate(migrated);
+    version++;
+  }
+  return migrated;
+}
+
+// Returns readable problems with a current-version save; empty when it can be loaded
+export function validateSave(data: any, world?: WorldConfig): string[] {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['save must be an object'];
+  }
+
+  if (data.version !== SAVE_VERSION) {
+    errors.push(`version must be ${SAVE_VERSION}, got ${JSON.stringify(data.version)}`);
+  }
+  for (const section of REQUIRED_SECTIONS) {
+    if (data[section] === undefined || data[section] === null) errors.push(`missing section '${section}'`);
+  }
+  if (!Array.isArray(data.techTrees ?? [])) {
+    errors.push('techTrees must be an array of [tribe, tree] pairs');
+  }
+
+  // Saves record their world; loading into an engine with different tribes would corrupt every system
+  let tribesMatch = true;
+  if (world && data.world) {
+    const savedTribes: string[] = data.world.tribes || [];
+    if (savedTribes.join(',') !== world.tribes.join(',')) {
+      errors.push(`save is for tribes [${savedTribes.join(', ')}] but this engine has [${world.tribes.join(', ')}]`);
+      tribesMatch = false;
+    }
+  }
+
+  const state = data.state;
+  if (state && typeof state === 'object') {
+    if (typeof state.day !== 'number' || state.day < 0) errors.push('state.day must be a non-negative number');
+    if (!Array.isArray(state.messages)) errors.push('state.messages must be an array');
+    if (!Array.isArray(state.territories)) errors.push('state.territories must be an array of [tribe, cells] pairs');
+    if (state.grid !== undefined) {
+      const size = world?.gridSize ?? state.grid?.length;
+      const valid = Array.isArray(state.grid) && state.grid.length === size && state.grid.every((row: any) =>
+        Array.isArray(row) && row.length === size && row.every((tile: any) => tile && typeof tile.biome === 'string'));
+      if (!valid) errors.push(`state.grid must be ${size}x${size} rows of tiles`);
+    }
+
+    if (!Array.isArray(state.agents)) {
+      errors.push('state.agents must be an array');
+    } else {
+      // A world mismatch is already reported once; don't repeat it for every agent
+      const tribes = world && tribesMatch ? new Set(world.tribes) : null;
+      const ids = new Set<string>();
+      state.agents.forEach((agent: any, i: number) => {
+        const where = `state.agents[${i}]`;
+        if (!agent || typeof agent !== 'object') {
+          errors.push(`${where} must be an object`);
+          return;
+        }
+        if (typeof agent.id !== 'string') errors.push(`${where}.id must be a string`);
+        else if (ids.has(agent.id)) errors.push(`${where}.id '${agent.id}' is duplicated`);
+        else ids.add(agent.id);
+        if (tribes && !tribes.has(agent.tribe)) errors.push(`${where}.tribe '${agent.tribe}' is not a tribe in this world`);
+        if (typeof agent.alive !== 'boolean') errors.push(`${where}.alive must be a boolean`);
+        if (!agent.resources || typeof agent.resources !== 'object') errors.push(`${where}.resources must be an object`);
+        if (!Array.isArray(agent.alliances)) errors.push(`${where}.alliances must be an array`);
+        if (!Array.isArray(agent.enemies)) errors.push(`${where}.enemies must be an array`);
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Migrate and validate in one step; throws SaveFormatError with every problem found
+export function loadSave(data: any, world?: WorldConfig): any {
+  const migrated = migrateSave(data);
+  const errors = validateSave(migrated, world);
+  if (errors.length > 0) throw new SaveFormatError(errors);
+  return migrated;
+}
+
+// GameState holds Sets on agents and a Map of territories; saves store them as arrays
+export function encodeState(state: GameState): any {
+  return {
+    ...state,
+    agents: state.agents.map(agent => ({
+      ...agent,
+      alliances: Array.from(agent.alliances),
+      enemies: Array.from(agent.enemies)
+    })),
+    territories: Array.from(state.territories.entries())
+  };
+}
+
+export function decodeState(data: any): GameState {
+  return {
+    ...data,
+    agents: data.agents.map((agent: any): Agent => ({
+      ...agent,
+      alliances: new Set(agent.alliances),
+      enemies: new Set(agent.enemies)
+    })),
+    territories: new Map(data.territories)
+  };
+}
@@ -0,0 +1,157 @@
+// Simulation Events for ClawCiv
+// Typed record of what happened each tick. Chat messages, achievements and exporters are projections of these.
+
+export type DeathCause = 'starvation' | 'combat' | 'event';
+
+// Systems that still report free-text updates rather than structured results
+export type NoticeSource = 'organization' | 'spy' | 'festival' | 'religion' | 'disease' | 'wonder' | 'trade_route';
+
+export type SpeechChannel = 'chat' | 'combat';
+
+// Payload for each event type; every event also carries `type` and `day`
+export interface SimEventMap {
+  AchievementUnlocked: { achievementId: string; name: string; icon: string; description: string };
+  VictoryAchieved: { winner?: string; reason: string };
+
+  WorldEventStarted: { eventId: string; name: string; icon: string; description: string; category: 'disaster' | 'discovery' | 'blessing' | 'conflict' };
+  WorldEventEnded: { eventId: string; name: string; icon: string };
+  SeasonChanged: { season: string; emoji: string };
+  WeatherChanged: { weather: string; emoji: string };
+  WeatherAlert: { weather: string; name: string; icon: string; description: string; severity: number };
+
+  AgentSpoke: { agentId: string; agentName: string; tribe: string; text: string; channel: SpeechChannel };
+  AgentLeveledUp: { agentId: string; agentName: string; tribe: string; level: number };
+  AgentDied: { agentId: string; agentName: string; tribe: string; cause: DeathCause; detail?: string };
+  AgentDeployed: { agentId: string; agentName: string; tribe: string; submissionId: string; owner: string; votes: number };
+  AgentInDebt: { agentId: string; agentName: string; tribe: string; debt: number };
+  AgentExiled: { agentId: string; agentName: string; tribe: string; debt: number };
+  TaxesCollected: { tribe: string; income: number; wealth: number; taxpayers: number; treasury: number };
+  EscrowCreated: { contractId: string; payer: string; payee: string; amount: number; condition: string; tribe: string };
+  EscrowDisputed: { contractId: string; payer: string; payee: string; tribe: string; by: string; byName: string };
+  EscrowSettled: {
+    contractId: string; payer: string; payee: string; amount: number; tribe: string;
+    outcome: 'released' | 'refunded' | 'split';
+    via: 'condition' | 'expiry' | 'ruling' | 'withdrawn';
+    reason?: string;
+  };
+  LoanIssued: { loanId: string; lender: string; lenderKind: 'treasury' | 'organization' | 'agent'; borrower: string; borrowerName: string; amount: number; interestRate: number; tribe: string };
+  LoanRepaid: { loanId: string; lender: string; borrower: string; amount: number };
+  LoanDefaulted: { loanId: string; lender: string; borrower: string; borrowerName: string; tribe: string; outstanding: number; seized: string };
+  BankRun: { orgId: string; orgName: string; tribe: string; withdrawn: number; shortfall: number };
+  OrganizationBankrupt: { orgId: string; orgName: string; tribe: string; debt: number; unpaidDeposits: number };
+  PredictionMarketCreated: { marketId: string; title: string; creator: string; outcomes: string[]; resolutionDay: number };
+  PredictionMarketTraded: { marketId: string; trader: string; outcome: string; shares: number; cost: number };
+  PredictionMarketResolved: { marketId: string; title: string; outcome: string; paidOut: number };
+  LifeEvent: { eventId: string; kind: 'birth' | 'death' | 'marriage' | 'coming_of_age' | 'retirement' | 'milestone'; agentId: string; agentName: string; tribe: string; icon: string; description: string };
+  Overpopulation: { tribe: string; overpopulated: boolean; population: number; capacity: number };
+
+  CombatResolved: {
+    attackerId: string; attackerName: string; attackerTribe: string;
+    defenderId: string; defenderName: string; defenderTribe: string;
+    winner: 'attacker' | 'defender';
+    foodTaken: number; materialsTaken: number;
+  };
+  TradeCompleted: { agentId: string; agentName: string; tribe: string; partnerId: string; partnerName: string; fills: number; text: string };
+  MarketFill: { resource: string; price: number; quantity: number; buyer: string; seller: string; takerSide: 'bid' | 'ask' };
+  ResourceTokenLaunched: { symbol: string; name: string; icon: string; issuer: string; issuerName: string; tribe: string };
+  AllianceFormed: { agentId: string; agentName: string; tribe: string; allyId: string; allyName: string; text: string };
+  PeaceMade: { agentId: string; agentName: string; tribe: string; otherId: string; otherName: string };
+  TreatyFormed: { proposalId: string; proposer: string; recipient: string; treatyType: string };
+
+  GovernmentChanged: { tribe: string; from: string; to: string; icon: string; via: 'transition' | 'election' };
+  ElectionHeld: { tribe: string; governmentChanged: boolean; government: string; icon: string; leaderTitle: string };
+
+  TerritoryCaptured: { x: number; y: number; from: string; to: string; province: string | null };
+
+  TechResearched: { tribe: string; techId: string; name: string };
+  ConstructionStarted: { tribe: string; buildingId: string; buildingType: string; x: number; z: number };
+  WonderCompleted: { wonderId: string; name: string; tribe: string };
+  ArtifactDiscovered: { artifactId: string; name: string; icon: string; description: string; agentId: string; agentName: string; tribe: string };
+
+  OutbreakStarted: { diseaseId: string; name: string; icon: string; tribe: string };
+  DiseaseSpread: { diseaseId: string; name: string; infected: string[] };
+
+  QuestAssigned: { questId: string; agentId: string; agentName: string; tribe: string; name: string; icon: string; description: string };
+  QuestExpired: { questId: string; agentId: string; agentName: string; tribe: string; name: string; icon: string };
+  QuestCompleted: { questId: string; agentId: string; agentName: string; tribe: string; name: string; icon: string; tokens: number };
+  DailyQuestPosted: { questId: string; tribe: string; name: string; icon: string };
+
+  SystemNotice: { source: NoticeSource; text: string };
+}
+
+export type SimEventType = keyof SimEventMap;
+
+export type SimEventOf<T extends SimEventType> = { type: T; day: number } & SimEventMap[T];
+
+export type SimEvent = { [T in SimEventType]: SimEventOf<T> }[SimEventType];
+
+export const SIM_EVENT_TYPES: SimEventType[] = [
+  'AchievementUnlocked', 'VictoryAchieved',
+  'WorldEventStarted', 'WorldEventEnded', 'SeasonChanged', 'WeatherChanged', 'WeatherAlert',
+  'AgentSpoke', 'AgentLeveledUp', 'AgentDied', 'AgentDeployed', 'AgentInDebt', 'AgentExiled', 'TaxesCollected',
+  'EscrowCreated', 'EscrowDisputed', 'EscrowSettled',
+  'LoanIssued', 'LoanRepaid', 'LoanDefaulted', 'BankRun', 'OrganizationBankrupt',
+  'PredictionMarketCreated', 'PredictionMarketTraded', 'PredictionMarketResolved', 'LifeEvent', 'Overpopulation',
+  'CombatResolved', 'TradeCompleted', 'MarketFill', 'ResourceTokenLaunched', 'AllianceFormed', 'PeaceMade', 'TreatyFormed',
+  'GovernmentChanged', 'ElectionHeld', 'TerritoryCaptured',
+  'TechResearched', 'ConstructionStarted', 'WonderCompleted', 'ArtifactDiscovered',
+  'OutbreakStarted', 'DiseaseSpread',
+  'QuestAssigned', 'QuestExpired', 'QuestCompleted', 'DailyQuestPosted',
+  'SystemNotice'
+];
+
+// Coarse grouping used by history queries, e.g. { type: 'combat' }
+export type EventCategory =
+  'achievement' | 'world' | 'chat' | 'agent' | 'death' | 'population' | 'combat' | 'trade' |
+  'diplomacy' | 'politics' | 'progress' | 'disease' | 'quest' | 'economy' | 'notice';
+
+export const SIM_EVENT_CATEGORIES: { [T in SimEventType]: EventCategory } = {
+  AchievementUnlocked: 'achievement',
+  VictoryAchieved: 'achievement',
+  WorldEventStarted: 'world',
+  WorldEventEnded: 'world',
+  SeasonChanged: 'world',
+  WeatherChanged: 'world',
+  WeatherAlert: 'world',
+  AgentSpoke: 'chat',
+  AgentLeveledUp: 'agent',
+  AgentDied: 'death',
+  AgentDeployed: 'agent',
+  AgentInDebt: 'economy',
+  AgentExiled: 'economy',
+  TaxesCollected: 'economy',
+  EscrowCreated: 'economy',
+  EscrowDisputed: 'economy',
+  EscrowSettled: 'economy',
+  LoanIssued: 'economy',
+  LoanRepaid: 'economy',
+  LoanDefaulted: 'economy',
+  BankRun: 'economy',
+  OrganizationBankrupt: 'economy',
+  PredictionMarketCreated: 'economy',
+  PredictionMarketTraded: 'economy',
+  PredictionMarketResolved: 'economy',
+  LifeEvent: 'population',
+  Overpopulation: 'population',
+  CombatResolved: 'combat',
+  TradeCompleted: 'trade',
+  MarketFill: 'trade',
+  ResourceTokenLaunched: 'economy',
+  AllianceFormed: 'diplomacy',
+  PeaceMade: 'diplomacy',
+  TreatyFormed: 'diplomacy',
+  GovernmentChanged: 'politics',
+  ElectionHeld: 'politics',
+  TerritoryCaptured: 'politics',
+  TechResearched: 'progress',
+  ConstructionStarted: 'progress',
+  WonderCompleted: 'progress',
+  ArtifactDiscovered: 'progress',
+  OutbreakStarted: 'disease',
+  DiseaseSpread: 'disease',
+  QuestAssigned: 'quest',
+  QuestExpired: 'quest',
+  QuestCompleted: 'quest',
+  DailyQuestPosted: 'quest',
+  SystemNotice: 'notice'
+};
@@ -0,0 +1,154 @@
+// Spatial Index for ClawCiv
+// Uniform grid over 2D positions so proximity queries only scan nearby cells instead of every agent
+
+export interface SpatialPoint {
+  x: number;
+  z: number;
+}
+
+interface IndexEntry {
+  cell: number;
+  order: number; // Insertion order, used to return results deterministically
+}
+
+export class SpatialIndex<T> {
+  private cells: Map<number, T[]> = new Map();
+  private entries: Map<T, IndexEntry> = new Map();
+  private orderCounter = 0;
+  private readonly cellSize: number;
+  private readonly getPosition: (item: T) => SpatialPoint;
+
+  // Cell keys pack two signed cell coordinates into one number
+  private readonly KEY_STRIDE = 1 << 20;
+
+  constructor(getPosition: (item: T) => SpatialPoint, cellSize: number = 50) {
+    if (!(cellSize > 0)) throw new Error(`Cell size must be positive, got ${cellSize}`);
+    this.getPosition = getPosition;
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  insert(item: T): void {
+    if (this.entries.has(item)) {
+      this.update(item);
+      return;
+    }
+
+    const cell = this.cellOf(this.getPosition(item));
+    this.entries.set(item, { cell, order: this.orderCounter++ });
+    this.addToCell(cell, item);
+  }
+
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) return false;
+
+    this.removeFromCell(entry.cell, item);
+    this.entries.delete(item);
+    return true;
+  }
+
+  // Re-read an item's position; only touches the cells when it crossed a boundary
+  update(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      this.insert(item);
+      return;
+    }
+
+    const cell = this.cellOf(this.getPosition(item));
+    if (cell === entry.cell) return;
+
+    this.removeFromCell(entry.cell, item);
+    this.addToCell(cell, item);
+    entry.cell = cell;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+    this.orderCounter = 0;
+  }
+
+  // Replace the contents with `items`, preserving their order for query results
+  rebuild(items: Iterable<T>): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  // Items within `range` (Euclidean) of a point, in insertion order
+  queryRadius(x: number, z: number, range: number): T[] {
+    const rangeSq = range * range;
+    return this.queryRect(x - range, z - range, x + range, z + range).filter(item => {
+      const pos = this.getPosition(item);
+      const dx = pos.x - x;
+      const dz = pos.z - z;
+      return dx * dx + dz * dz <= rangeSq;
+    });
+  }
+
+  // Items inside an axis-aligned box (inclusive), in insertion order
+  queryRect(minX: number, minZ: number, maxX: number, maxZ: number): T[] {
+    const results: T[] = [];
+    const minCellX = Math.floor(minX / this.cellSize);
+    const maxCellX = Math.floor(maxX / this.cellSize);
+    const minCellZ = Math.floor(minZ / this.cellSize);
+    const maxCellZ = Math.floor(maxZ / this.cellSize);
+
+    for (let cx = minCellX; cx <= maxCellX; cx++) {
+      for (let cz = minCellZ; cz <= maxCellZ; cz++) {
+        const items = this.cells.get(this.key(cx, cz));
+        if (!items) continue;
+
+        for (const item of items) {
+          const pos = this.getPosition(item);
+          if (pos.x >= minX && pos.x <= maxX && pos.z >= minZ && pos.z <= maxZ) {
+            results.push(item);
+          }
+        }
+      }
+    }
+
+    // Cell iteration order depends on movement history; sort so results only depend on membership
+    return results.sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order);
+  }
+
+  private cellOf(pos: SpatialPoint): number {
+    return this.key(Math.floor(pos.x / this.cellSize), Math.floor(pos.z / this.cellSize));
+  }
+
+  private key(cx: number, cz: number): number {
+    return cx * this.KEY_STRIDE + cz;
+  }
+
+  private addToCell(cell: number, item: T): void {
+    const items = this.cells.get(cell);
+    if (items) {
+      items.push(item);
+    } else {
+      this.cells.set(cell, [item]);
+    }
+  }
+
+  private removeFromCell(cell: number, item: T): void {
+    const items = this.cells.get(cell);
+    if (!items) return;
+
+    const index = items.indexOf(item);
+    if (index === -1) return;
+
+    // Swap-remove: order inside a cell doesn't matter since queries sort by insertion order
+    items[index] = items[items.length - 1];
+    items.pop();
+    if (items.length === 0) this.cells.delete(cell);
+  }
+}
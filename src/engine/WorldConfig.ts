@@ -0,0 +1,158 @@
+// World Configuration for ClawCiv
+// Single source of truth for tribes, population and map size - every system reads it
+
+export interface TribeCenter {
+  x: number;
+  z: number;
+}
+
+export interface WorldConfig {
+  tribes: string[];
+  agentsPerTribe: number;
+  gridSize: number;   // Cells per side of the terrain and territory grid
+  worldSize: number;  // Side length of the 3D world, centred on the origin
+  tribeCenters: { [tribe: string]: TribeCenter };
+}
+
+// A point in the 3D world's ground plane
+export interface WorldPoint {
+  x: number;
+  z: number;
+}
+
+// A grid cell: x is the column along world X, y the row along world Z
+export interface TileCoord {
+  x: number;
+  y: number;
+}
+
+export interface TileBounds {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+export interface WorldConfigOptions {
+  tribes?: string[];       // Explicit tribe names (overrides tribeCount)
+  tribeCount?: number;     // Generate this many tribes from TRIBE_NAMES
+  agentsPerTribe?: number;
+  gridSize?: number;
+  worldSize?: number;
+  tribeCenters?: { [tribe: string]: TribeCenter };
+}
+
+export const TRIBE_NAMES = [
+  'Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta',
+  'Eta', 'Theta', 'Iota', 'Kappa', 'Lambda', 'Mu'
+];
+
+export const WORLD_PRESETS: { [name: string]: WorldConfigOptions } = {
+  default: { tribeCount: 3, agentsPerTribe: 20 },
+  spec: { tribeCount: 3, agentsPerTribe: 50 },   // README: 150 agents, 50 per tribe
+  duel: { tribeCount: 2, agentsPerTribe: 20 },
+  crowded: { tribeCount: 8, agentsPerTribe: 15, gridSize: 20, worldSize: 1600 }
+};
+
+const MAX_TRIBES = TRIBE_NAMES.length;
+
+// Tribes sit on a ring around the origin. Three tribes keep the original
+// triangle layout (Alpha NW, Beta NE, Gamma S) so existing saves and visuals match.
+export function generateTribeCenters(tribes: string[], worldSize: number): { [tribe: string]: TribeCenter } {
+  const centers: { [tribe: string]: TribeCenter } = {};
+  const scale = worldSize / 1000;
+
+  if (tribes.length === 3) {
+    const classic = [{ x: -350, z: -350 }, { x: 350, z: -350 }, { x: 0, z: 350 }];
+    tribes.forEach((tribe, i) => {
+      centers[tribe] = { x: classic[i].x * scale, z: classic[i].z * scale };
+    });
+    return centers;
+  }
+
+  const radius = tribes.length === 1 ? 0 : 400 * scale;
+  tribes.forEach((tribe, i) => {
+    const angle = -3 * Math.PI / 4 + (2 * Math.PI * i) / tribes.length;
+    centers[tribe] = {
+      x: Math.round(Math.cos(angle) * radius),
+      z: Math.round(Math.sin(angle) * radius)
+    };
+  });
+  return centers;
+}
+
+export function createWorldConfig(options: WorldConfigOptions = {}): WorldConfig {
+  const tribeCount = options.tribes ? options.tribes.length : options.tribeCount ?? 3;
+  if (!Number.isInteger(tribeCount) || tribeCount < 1) {
+    throw new Error(`World needs at least one tribe, got ${tribeCount}`);
+  }
+  if (!options.tribes && tribeCount > MAX_TRIBES) {
+    throw new Error(`At most ${MAX_TRIBES} generated tribes are supported, got ${tribeCount}`);
+  }
+
+  const tribes = options.tribes ? [...options.tribes] : TRIBE_NAMES.slice(0, tribeCount);
+  if (new Set(tribes).size !== tribes.length) {
+    throw new Error(`Duplicate tribe names: ${tribes.join(', ')}`);
+  }
+
+  const agentsPerTribe = options.agentsPerTribe ?? 20;
+  const gridSize = options.gridSize ?? 10;
+  const worldSize = options.worldSize ?? 1000;
+  if (!(agentsPerTribe >= 0) || !(gridSize >= 1) || !(worldSize > 0)) {
+    throw new Error('agentsPerTribe, gridSize and worldSize must be positive');
+  }
+
+  const tribeCenters = { ...generateTribeCenters(tribes, worldSize), ...(options.tribeCenters || {}) };
+  for (const tribe of Object.keys(options.tribeCenters || {})) {
+    if (!tribes.includes(tribe)) throw new Error(`Center given for unknown tribe: ${tribe}`);
+  }
+
+  return { tribes, agentsPerTribe, gridSize, worldSize, tribeCenters };
+}
+
+// Positions: world coordinates are authoritative. The world is a square of side worldSize centred on the
+// origin, cut into gridSize x gridSize tiles; everything tile-based derives its cell from these helpers.
+
+export function getTileSize(world: WorldConfig): number {
+  return world.worldSize / world.gridSize;
+}
+
+// Keep a world position inside the map
+export function clampToWorld(world: WorldConfig, worldX: number, worldZ: number): WorldPoint {
+  const half = world.worldSize / 2;
+  // The far edge belongs to no tile, so stop just short of it
+  const max = half - 1e-6;
+  return {
+    x: Math.max(-half, Math.min(max, worldX)),
+    z: Math.max(-half, Math.min(max, worldZ))
+  };
+}
+
+export function clampTile(world: WorldConfig, tile: TileCoord): TileCoord {
+  const last = world.gridSize - 1;
+  return {
+    x: Math.max(0, Math.min(last, Math.floor(tile.x))),
+    y: Math.max(0, Math.min(last, Math.floor(tile.y)))
+  };
+}
+
+// The tile containing a world position; positions off the map snap to the nearest edge tile
+export function worldToTile(world: WorldConfig, worldX: number, worldZ: number): TileCoord {
+  const size = getTileSize(world);
+  return clampTile(world, {
+    x: (worldX + world.worldSize / 2) / size,
+    y: (worldZ + world.worldSize / 2) / size
+  });
+}
+
+export function tileBounds(world: WorldConfig, tile: TileCoord): TileBounds {
+  const size = getTileSize(world);
+  const minX = tile.x * size - world.worldSize / 2;
+  const minZ = tile.y * size - world.worldSize / 2;
+  return { minX, minZ, maxX: minX + size, maxZ: minZ + size };
+}
+
+export function tileCenter(world: WorldConfig, tile: TileCoord): WorldPoint {
+  const bounds = tileBounds(world, tile);
+  return { x: (bounds.minX + bounds.maxX) / 2, z: (bounds.minZ + bounds.maxZ) / 2 };
+}
@@ -0,0 +1,170 @@
+// World Map for ClawCiv
+// Seeded terrain for the simulation grid: every tile gets a biome, elevation, fertility and a finite
+// deposit of materials. Farming yields follow fertility and mining draws the deposit down for good.
+
+import { Random } from './Random.ts';
+
+export type Biome = 'plains' | 'forest' | 'mountain' | 'desert' | 'tundra' | 'coast' | 'river';
+
+export interface Tile {
+  x: number;
+  y: number;
+  biome: Biome;
+  elevation: number;   // 0-1
+  fertility: number;   // 0-1, scales farming yields
+  deposit: number;     // Materials left to mine; never replenished
+}
+
+export const BIOMES: Biome[] = ['plains', 'forest', 'mountain', 'desert', 'tundra', 'coast', 'river'];
+
+interface BiomeProfile {
+  fertility: number;   // Before moisture adjusts it
+  deposit: number;     // Typical starting materials
+  richness: number;    // Mining yield multiplier while the deposit lasts
+}
+
+const BIOME_PROFILES: { [biome in Biome]: BiomeProfile } = {
+  plains: { fertility: 0.8, deposit: 6000, richness: 0.8 },
+  forest: { fertility: 0.5, deposit: 8000, richness: 0.9 },
+  mountain: { fertility: 0.15, deposit: 30000, richness: 1.5 },
+  desert: { fertility: 0.1, deposit: 12000, richness: 1.1 },
+  tundra: { fertility: 0.2, deposit: 10000, richness: 1 },
+  coast: { fertility: 0.6, deposit: 4000, richness: 0.7 },
+  river: { fertility: 1, deposit: 4000, richness: 0.7 }
+};
+
+const COAST_ELEVATION = 0.2;
+const MOUNTAIN_ELEVATION = 0.78;
+const TUNDRA_TEMPERATURE = 0.25;
+const DESERT_MOISTURE = 0.3;
+const FOREST_MOISTURE = 0.6;
+
+// Tiles are stored by row: grid[y][x]
+export function generateWorldMap(size: number, random: Random): Tile[][] {
+  const elevation = noiseField(size, random);
+  const moisture = noiseField(size, random);
+  const warmth = noiseField(size, random);
+
+  const grid: Tile[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: Tile[] = [];
+    for (let x = 0; x < size; x++) {
+      const height = elevation[y][x];
+      // High ground is colder
+      const temperature = warmth[y][x] * 0.7 + (1 - height) * 0.3;
+      row.push({
+        x,
+        y,
+        biome: classify(height, moisture[y][x], temperature),
+        elevation: round(height),
+        fertility: 0,
+        deposit: 0
+      });
+    }
+    grid.push(row);
+  }
+
+  carveRivers(grid, random);
+
+  for (const row of grid) {
+    for (const tile of row) {
+      const profile = BIOME_PROFILES[tile.biome];
+      tile.fertility = round(Math.min(1, Math.max(0, profile.fertility + (moisture[tile.y][tile.x] - 0.5) * 0.2)));
+      tile.deposit = Math.round(profile.deposit * (0.5 + random.next()));
+    }
+  }
+  return grid;
+}
+
+export function getTile(grid: Tile[][], x: number, y: number): Tile | undefined {
+  return grid[y]?.[x];
+}
+
+// Multiplier on the base farming yield; plains and rivers beat the average, deserts and peaks fall well short
+export function getFarmingYield(tile: Tile | undefined): number {
+  return tile ? 0.4 + tile.fertility : 1;
+}
+
+// Multiplier on the base mining yield; zero once the deposit is gone
+export function getMiningYield(tile: Tile | undefined): number {
+  if (!tile) return 1;
+  return tile.deposit > 0 ? BIOME_PROFILES[tile.biome].richness : 0;
+}
+
+// Take up to `amount` materials out of the tile; returns what was actually mined
+export function extractDeposit(tile: Tile | undefined, amount: number): number {
+  if (!tile) return amount;
+  const mined = Math.min(amount, tile.deposit);
+  tile.deposit = round(tile.deposit - mined);
+  return mined;
+}
+
+function classify(elevation: number, moisture: number, temperature: number): Biome {
+  if (elevation < COAST_ELEVATION) return 'coast';
+  if (elevation > MOUNTAIN_ELEVATION) return 'mountain';
+  if (temperature < TUNDRA_TEMPERATURE) return 'tundra';
+  if (moisture < DESERT_MOISTURE) return 'desert';
+  if (moisture > FOREST_MOISTURE) return 'forest';
+  return 'plains';
+}
+
+// Rivers rise in the hills and run downhill until they reach the coast, the map edge or a basin
+function carveRivers(grid: Tile[][], random: Random): void {
+  const size = grid.length;
+  const sources = grid.flat().filter(t => t.elevation > 0.55 && t.biome !== 'mountain');
+  const count = Math.min(sources.length, Math.ceil(size / 5));
+
+  for (let i = 0; i < count; i++) {
+    let tile = sources.splice(Math.floor(random.next() * sources.length), 1)[0];
+    for (let steps = 0; steps < size * 2; steps++) {
+      if (tile.biome === 'coast') break;
+      if (tile.biome !== 'mountain') tile.biome = 'river';
+
+      const lower = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+        .map(([dx, dy]) => getTile(grid, tile.x + dx, tile.y + dy))
+        .filter((t): t is Tile => !!t && t.elevation < tile.elevation)
+        .sort((a, b) => a.elevation - b.elevation);
+      if (lower.length === 0) break;
+      tile = lower[0];
+    }
+  }
+}
+
+// Two octaves of value noise, stretched to fill 0-1 so every map has lowlands and peaks
+function noiseField(size: number, random: Random): number[][] {
+  const octaves = [{ spacing: Math.max(2, size / 2.5), weight: 0.65 }, { spacing: Math.max(1, size / 5), weight: 0.35 }];
+  const field = Array.from({ length: size }, () => Array(size).fill(0));
+
+  for (const { spacing, weight } of octaves) {
+    const points = Math.ceil(size / spacing) + 2;
+    const lattice = Array.from({ length: points }, () => Array.from({ length: points }, () => random.next()));
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        field[y][x] += weight * sampleLattice(lattice, x / spacing, y / spacing);
+      }
+    }
+  }
+
+  const values = field.flat();
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  return field.map(row => row.map(v => (v - min) / range));
+}
+
+function sampleLattice(lattice: number[][], x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const sx = smooth(x - x0);
+  const sy = smooth(y - y0);
+  const top = lattice[y0][x0] * (1 - sx) + lattice[y0][x0 + 1] * sx;
+  const bottom = lattice[y0 + 1][x0] * (1 - sx) + lattice[y0 + 1][x0 + 1] * sx;
+  return top * (1 - sy) + bottom * sy;
+}
+
+function smooth(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
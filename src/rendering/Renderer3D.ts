@@ -4,6 +4,8 @@
 import * as THREE from 'three';
 import { Agent, GameState, Message } from '../engine/Game.js';
 import { Building } from '../systems/Buildings.js';
+import { SpatialIndex } from '../engine/SpatialIndex.js';
+import { Biome, Tile } from '../engine/WorldMap.js';
 
 interface AgentMesh extends THREE.Mesh {
   agentData: Agent;
@@ -30,9 +32,11 @@ export class GameRenderer3D {
   private agentMeshes: Map<string, AgentMesh> = new Map();
   private resourceNodes: Map<string, THREE.Mesh> = new Map();
   private territoryZones: Map<string, THREE.Mesh> = new Map();
+  private biomeTiles: Map<string, THREE.Mesh> = new Map();
   private particles: Particle[] = [];
   private particleMeshes: Map<string, THREE.Mesh> = new Map();
   private buildingMeshes: Map<string, THREE.Mesh> = new Map();
+  private agentsById: Map<string, Agent> = new Map(); // Refreshed on every update()
   private readonly GRID_SIZE = 10;
   private readonly CELL_SIZE = 15;
   private readonly WORLD_SIZE = 1000;
@@ -316,7 +320,7 @@ export class GameRenderer3D {
 
     // Draw agents using their actual 3D positions
     for (const [agentId, mesh] of this.agentMeshes) {
-      const agent = state.agents.find(a => a.id === agentId);
+      const agent = this.agentsById.get(agentId);
       if (!agent || !agent.alive) continue;
 
       // Map 3D world position to minimap (world is -500 to 500)
@@ -593,72 +597,118 @@ export class GameRenderer3D {
     return mesh;
   }
 
-  private updateResources(state: GameState): void {
-    // Clear old resource nodes
-    for (const node of this.resourceNodes.values()) {
-      this.scene.remove(node);
-    }
-    this.resourceNodes.clear();
+  // World position of a tile's centre; the grid is stretched over the whole ground plane
+  private tileCenter(tile: Tile, gridSize: number): { x: number; z: number } {
+    const cell = this.WORLD_SIZE / gridSize;
+    return {
+      x: (tile.x + 0.5) * cell - this.WORLD_SIZE / 2,
+      z: (tile.y + 0.5) * cell - this.WORLD_SIZE / 2
+    };
+  }
 
-    // Spawn resource nodes based on game state
-    // Create resources randomly across the map
-    for (let i = 0; i < 100; i++) {
-      const x = (Math.random() - 0.5) * this.WORLD_SIZE * 0.8;
-      const z = (Math.random() - 0.5) * this.WORLD_SIZE * 0.8;
-      const types = ['food', 'energy', 'materials', 'knowledge', 'social'];
-      const type = types[Math.floor(Math.random() * types.length)];
+  // Tint the ground under each tile by biome; terrain never changes, so this runs once
+  private updateBiomes(state: GameState): void {
+    if (this.biomeTiles.size > 0 || state.grid.length === 0) return;
+
+    const colors: { [biome in Biome]: number } = {
+      plains: 0x84cc16,
+      forest: 0x166534,
+      mountain: 0x78716c,
+      desert: 0xd6b36a,
+      tundra: 0xe2e8f0,
+      coast: 0x0ea5e9,
+      river: 0x2563eb
+    };
+    const cell = this.WORLD_SIZE / state.grid.length;
 
-      const node = this.createResourceNode(x, z, type);
-      this.scene.add(node);
-      this.resourceNodes.set(`${i}`, node);
+    for (const tile of state.grid.flat()) {
+      const { x, z } = this.tileCenter(tile, state.grid.length);
+      const geometry = new THREE.PlaneGeometry(cell, cell);
+      const material = new THREE.MeshStandardMaterial({
+        color: colors[tile.biome],
+        transparent: true,
+        opacity: 0.18 + tile.elevation * 0.12,
+        roughness: 0.9
+      });
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.set(x, -0.4, z);
+      mesh.receiveShadow = true;
+      this.scene.add(mesh);
+      this.biomeTiles.set(`${tile.x},${tile.y}`, mesh);
     }
   }
 
-  private updateTerritory(state: GameState): void {
-    // Clear old territory zones
-    for (const zone of this.territoryZones.values()) {
-      this.scene.remove(zone);
-    }
-    this.territoryZones.clear();
+  // One node per fertile tile and per tile with materials left; nodes disappear as deposits run out
+  private updateResources(state: GameState): void {
+    const wanted = new Set<string>();
 
-    // Group agents by tribe and calculate centers
-    const tribeCenters = new Map<string, THREE.Vector3>();
+    for (const tile of state.grid.flat()) {
+      const { x, z } = this.tileCenter(tile, state.grid.length);
+      const nodes: [string, boolean, number][] = [
+        ['food', tile.fertility >= 0.6, -10],
+        ['materials', tile.deposit > 0, 10]
+      ];
+      for (const [type, present, offset] of nodes) {
+        if (!present) continue;
+        const key = `${tile.x},${tile.y}:${type}`;
+        wanted.add(key);
+        if (this.resourceNodes.has(key)) continue;
+
+        const node = this.createResourceNode(x + offset, z + offset, type);
+        this.scene.add(node);
+        this.resourceNodes.set(key, node);
+      }
+    }
 
-    for (const agent of state.agents) {
-      if (!agent.alive) continue;
+    for (const [key, node] of this.resourceNodes) {
+      if (wanted.has(key)) continue;
+      this.scene.remove(node);
+      this.resourceNodes.delete(key);
+    }
+  }
 
-      const mesh = this.agentMeshes.get(agent.id);
-      if (!mesh) continue;
+  // Tint every held cell in its tribe's colour, stronger along the borders
+  private updateTerritory(state: GameState): void {
+    const gridSize = state.grid.length;
+    if (gridSize === 0) return;
 
-      if (!tribeCenters.has(agent.tribe)) {
-        tribeCenters.set(agent.tribe, new THREE.Vector3());
-      }
-      tribeCenters.get(agent.tribe)!.add(mesh.position);
+    const owners = new Map<string, string>();
+    for (const [tribe, cells] of state.territories) {
+      for (const [x, y] of cells) owners.set(`${x},${y}`, tribe);
     }
 
-    // Average positions to find tribe centers
-    for (const [tribe, pos] of tribeCenters) {
-      const count = state.agents.filter(a => a.alive && a.tribe === tribe).length;
-      if (count > 0) {
-        pos.divideScalar(count);
-      }
+    // Drop cells that are no longer held
+    for (const [key, zone] of this.territoryZones) {
+      if (owners.has(key)) continue;
+      this.scene.remove(zone);
+      this.territoryZones.delete(key);
     }
 
-    // Create territory zones around tribe centers
-    for (const [tribe, center] of tribeCenters) {
-      const geometry = new THREE.CircleGeometry(80, 32);
-      const material = new THREE.MeshBasicMaterial({
-        color: this.getTribeColor(tribe),
-        transparent: true,
-        opacity: 0.15,
-        side: THREE.DoubleSide
+    const cell = this.WORLD_SIZE / gridSize;
+    for (const [key, tribe] of owners) {
+      const [x, y] = key.split(',').map(Number);
+      const border = [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        return nx >= 0 && ny >= 0 && nx < gridSize && ny < gridSize && owners.get(`${nx},${ny}`) !== tribe;
       });
 
-      const zone = new THREE.Mesh(geometry, material);
-      zone.rotation.x = -Math.PI / 2;
-      zone.position.set(center.x, 0.1, center.z);
-      this.scene.add(zone);
-      this.territoryZones.set(tribe, zone);
+      let zone = this.territoryZones.get(key);
+      if (!zone) {
+        const geometry = new THREE.PlaneGeometry(cell * 0.96, cell * 0.96);
+        const material = new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide });
+        zone = new THREE.Mesh(geometry, material);
+        const center = this.tileCenter(state.grid[y][x], gridSize);
+        zone.rotation.x = -Math.PI / 2;
+        zone.position.set(center.x, 0.1, center.z);
+        this.scene.add(zone);
+        this.territoryZones.set(key, zone);
+      }
+
+      const material = zone.material as THREE.MeshBasicMaterial;
+      material.color.setHex(this.getTribeColor(tribe));
+      material.opacity = border ? 0.3 : 0.12;
     }
   }
 
@@ -731,6 +781,9 @@ export class GameRenderer3D {
       case 'fortress':
         geometry = new THREE.BoxGeometry(12, 8, 12);
         break;
+      case 'road':
+        geometry = new THREE.BoxGeometry(20, 0.5, 6);
+        break;
       default:
         geometry = new THREE.BoxGeometry(6, 6, 6);
     }
@@ -757,7 +810,7 @@ export class GameRenderer3D {
     const containerRect = this.canvas.getBoundingClientRect();
 
     for (const [agentId, mesh] of this.agentMeshes) {
-      const agent = state.agents.find(a => a.id === agentId);
+      const agent = this.agentsById.get(agentId);
       if (!agent || !agent.alive || !agent.currentMessage) continue;
 
       // Project 3D position to 2D screen space
@@ -815,7 +868,10 @@ export class GameRenderer3D {
   }
 
   public update(state: GameState): void {
-    // Update resources
+    this.agentsById = new Map(state.agents.map(a => [a.id, a]));
+
+    // Update terrain and resources
+    this.updateBiomes(state);
     this.updateResources(state);
 
     // Update territory visualization
@@ -829,7 +885,7 @@ export class GameRenderer3D {
 
     // Remove old agent meshes
     for (const [id, mesh] of this.agentMeshes) {
-      const agent = state.agents.find(a => a.id === id);
+      const agent = this.agentsById.get(id);
       if (!agent || !agent.alive) {
         // Remove DOM elements
         if (mesh.nameElement) mesh.nameElement.remove();
@@ -856,8 +912,8 @@ export class GameRenderer3D {
         mesh.agentData = agent;
 
         // Use agent's world position from game state
-        const x = (agent as any).worldX || 0;
-        const z = (agent as any).worldZ || 0;
+        const x = agent.worldX;
+        const z = agent.worldZ;
         mesh.currentPosition = new THREE.Vector3(x, 3, z);
         mesh.targetPosition = new THREE.Vector3(x, 3, z);
         mesh.position.copy(mesh.currentPosition);
@@ -867,43 +923,8 @@ export class GameRenderer3D {
         this.agentMeshes.set(agent.id, mesh);
       }
 
-      // Move agents based on game events or targets
-      if (agent.targetAgentId) {
-        // Agent has a combat target - move toward them
-        const targetMesh = this.agentMeshes.get(agent.targetAgentId);
-        if (targetMesh) {
-          const dx = targetMesh.position.x - mesh.position.x;
-          const dz = targetMesh.position.z - mesh.position.z;
-          const distance = Math.sqrt(dx * dx + dz * dz);
-
-          // Move toward target if far enough
-          if (distance > 15) {
-            const moveDistance = 12;
-            const newX = mesh.targetPosition.x + (dx / distance) * moveDistance;
-            const newZ = mesh.targetPosition.z + (dz / distance) * moveDistance;
-
-            mesh.targetPosition.set(newX, 3, newZ);
-          }
-        }
-      } else if (agent.currentMessage || agent.resources.food < 10 || agent.resources.energy < 5) {
-        // Agents with messages or low resources move more randomly
-        const moveDistance = 8;
-        const angle = Math.random() * Math.PI * 2;
-        const newX = mesh.targetPosition.x + Math.cos(angle) * moveDistance;
-        const newZ = mesh.targetPosition.z + Math.sin(angle) * moveDistance;
-
-        // Keep within world bounds
-        const halfWorld = this.WORLD_SIZE * 0.4;
-        mesh.targetPosition.set(
-          Math.max(-halfWorld, Math.min(halfWorld, newX)),
-          3,
-          Math.max(-halfWorld, Math.min(halfWorld, newZ))
-        );
-      }
-
-      // Update agent's world position for game interactions
-      (agent as any).worldX = mesh.targetPosition.x;
-      (agent as any).worldZ = mesh.targetPosition.z;
+      // The engine owns positions; meshes just glide toward wherever the simulation put the agent
+      mesh.targetPosition.set(agent.worldX, 3, agent.worldZ);
 
       mesh.agentData = agent;
     }
@@ -917,7 +938,7 @@ export class GameRenderer3D {
 
   private updateNameLabels(state: GameState): void {
     for (const [agentId, mesh] of this.agentMeshes) {
-      const agent = state.agents.find(a => a.id === agentId);
+      const agent = this.agentsById.get(agentId);
       if (!agent || !agent.alive) continue;
 
       // Create name element if it doesn't exist
@@ -1070,22 +1091,24 @@ export class GameRenderer3D {
     }
 
     // Smooth interpolation for all agents
-    const agentPositions: THREE.Vector3[] = [];
+    const meshes = Array.from(this.agentMeshes.values());
+    // Collect positions for collision avoidance
+    const agentPositions = meshes.map(mesh => mesh.currentPosition.clone());
 
-    for (const mesh of this.agentMeshes.values()) {
-      // Collect positions for collision avoidance
-      agentPositions.push(mesh.currentPosition.clone());
-    }
+    // Index positions so each agent only checks its neighbours instead of every agent
+    const minDistance = 15;
+    const positionIndex = new SpatialIndex<number>(j => ({ x: agentPositions[j].x, z: agentPositions[j].z }), minDistance);
+    agentPositions.forEach((_, j) => positionIndex.insert(j));
 
-    for (let i = 0; i < this.agentMeshes.size; i++) {
-      const mesh = [...this.agentMeshes.values()][i];
+    for (let i = 0; i < meshes.length; i++) {
+      const mesh = meshes[i];
 
       // Basic lerp towards target
       mesh.currentPosition.lerp(mesh.targetPosition, 0.02);
 
       // Collision avoidance - push away from nearby agents
-      const minDistance = 15;
-      for (let j = 0; j < agentPositions.length; j++) {
+      const neighbours = positionIndex.queryRadius(mesh.currentPosition.x, mesh.currentPosition.z, minDistance);
+      for (const j of neighbours) {
         if (i === j) continue;
 
         const otherPos = agentPositions[j];
@@ -1099,12 +1122,6 @@ export class GameRenderer3D {
       }
 
       mesh.position.copy(mesh.currentPosition);
-
-      // Update agent's world position for game interactions
-      if (mesh.agentData) {
-        (mesh.agentData as any).worldX = mesh.currentPosition.x;
-        (mesh.agentData as any).worldZ = mesh.currentPosition.z;
-      }
     }
 
     // Update selection ring position
@@ -1326,12 +1343,16 @@ export class GameRenderer3D {
     for (const zone of this.territoryZones.values()) {
       this.scene.remove(zone);
     }
+    for (const tile of this.biomeTiles.values()) {
+      this.scene.remove(tile);
+    }
     for (const mesh of this.buildingMeshes.values()) {
       this.scene.remove(mesh);
     }
     this.agentMeshes.clear();
     this.resourceNodes.clear();
     this.territoryZones.clear();
+    this.biomeTiles.clear();
     this.buildingMeshes.clear();
     this.particleMeshes.clear();
     this.particles = [];
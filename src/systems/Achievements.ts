@@ -1,5 +1,8 @@
 // Achievement and Victory System for ClawCiv
 
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+import type { EventBus } from '../engine/EventBus.ts';
+
 export interface Achievement {
   id: string;
   name: string;
@@ -15,8 +18,11 @@ export interface Achievement {
 
 export class AchievementSystem {
   private achievements: Map<string, Achievement> = new Map();
+  private world: WorldConfig;
+  private combatCount = 0;
 
-  constructor() {
+  constructor(world: WorldConfig = createWorldConfig()) {
+    this.world = world;
     this.initializeAchievements();
   }
 
@@ -100,7 +106,7 @@ export class AchievementSystem {
     this.addAchievement({
       id: 'golden_age',
       name: 'Golden Age',
-      description: 'All 60 agents alive on day 50',
+      description: 'Keep a tribe at full strength until day 50',
       icon: '🌟',
       unlocked: false,
       requirement: () => this.checkGoldenAge()
@@ -151,15 +157,21 @@ export class AchievementSystem {
     return newlyUnlocked;
   }
 
+  // Count engine events that achievements depend on
+  subscribe(events: EventBus): () => void {
+    return events.subscribe('CombatResolved', () => {
+      this.combatCount++;
+    });
+  }
+
   // Private helper methods
   private getCombatCount(): number {
-    // This is now tracked via messages
-    return 0; // Will be set dynamically
+    return this.combatCount;
   }
 
   private checkDaySurvival(day: number, minAgents: number): boolean {
     // Check if any tribe has survived to this day with minimum agents
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     for (const tribe of tribes) {
       if (this.getTribeAgentCount(tribe) >= minAgents && this.getCurrentDay() >= day) {
         return true;
@@ -170,7 +182,7 @@ export class AchievementSystem {
 
   private checkTreasuryAmount(amount: number): boolean {
     // Check if any tribe has accumulated sufficient resources
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     for (const tribe of tribes) {
       const resources = this.getTribeResources(tribe);
       if (resources.food >= amount) {
@@ -182,7 +194,7 @@ export class AchievementSystem {
 
   private getResearchedTechCount(): number {
     // Return max tech count across all tribes
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     let maxCount = 0;
     for (const tribe of tribes) {
       const count = this.getTribeTechCount(tribe);
@@ -193,7 +205,7 @@ export class AchievementSystem {
 
   private getBuildingCount(): number {
     // Return max building count across all tribes
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     let maxCount = 0;
     for (const tribe of tribes) {
       const count = this.getTribeBuildingCount(tribe);
@@ -204,7 +216,7 @@ export class AchievementSystem {
 
   private getTerritoryCount(): number {
     // Return max territory count across all tribes
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     let maxCount = 0;
     for (const tribe of tribes) {
       const count = this.getTribeTerritoryCount(tribe);
@@ -215,7 +227,7 @@ export class AchievementSystem {
 
   private checkWorldDomination(): boolean {
     // Check if only one tribe remains
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     let aliveCount = 0;
     for (const tribe of tribes) {
       if (this.getTribeAgentCount(tribe) > 0) aliveCount++;
@@ -224,10 +236,10 @@ export class AchievementSystem {
   }
 
   private checkGoldenAge(): boolean {
-    // All 60 agents alive on day 50 (or any tribe with all agents)
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    // Any tribe still at full starting strength on day 50
+    const tribes = this.world.tribes;
     for (const tribe of tribes) {
-      if (this.getTribeAgentCount(tribe) >= 20 && this.getCurrentDay() >= 50) {
+      if (this.getTribeAgentCount(tribe) >= this.world.agentsPerTribe && this.getCurrentDay() >= 50) {
         return true;
       }
     }
@@ -241,7 +253,7 @@ export class AchievementSystem {
 
   private checkEconomicPower(): boolean {
     // All tribes have 5000+ food
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     for (const tribe of tribes) {
       const resources = this.getTribeResources(tribe);
       if (resources.food < 5000) return false;
@@ -296,7 +308,7 @@ export class AchievementSystem {
     }
 
     // Condition 2: Tech Victory - research all techs
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
+    const tribes = this.world.tribes;
     for (const tribe of tribes) {
       const techCount = this.getTribeTechCount(tribe);
       if (techCount >= 13) {
@@ -322,4 +334,20 @@ export class AchievementSystem {
 
     return null;
   }
+
+  // Requirements are closures over the engine, so only progress is saved
+  public serialize(): any {
+    return {
+      unlocked: this.getUnlockedAchievements().map(a => a.id),
+      combatCount: this.combatCount
+    };
+  }
+
+  public deserialize(data: any): void {
+    const unlocked = new Set<string>(data.unlocked || []);
+    for (const achievement of this.achievements.values()) {
+      achievement.unlocked = unlocked.has(achievement.id);
+    }
+    this.combatCount = data.combatCount || 0;
+  }
 }
@@ -3,6 +3,8 @@
 // Provide tribe-wide bonuses and special abilities
 // Sets grant synergy bonuses when collected together
 
+import { Random } from '../engine/Random.ts';
+
 export type ArtifactRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 export type ArtifactType = 'weapon' | 'tool' | 'relic' | 'artifact' | 'wonder' | 'consumable';
 export type ArtifactCategory = 'combat' | 'resource' | 'knowledge' | 'social' | 'defense' | 'utility';
@@ -51,6 +53,7 @@ export interface ArtifactSet {
 }
 
 export class ArtifactSystem {
+  private random: Random;
   private artifacts: Map<string, Artifact> = new Map();
   private artifactSets: Map<string, ArtifactSet> = new Map();
   private artifactIdCounter = 0;
@@ -84,7 +87,8 @@ export class ArtifactSystem {
     'Created through an alchemical accident.'
   ];
 
-  constructor() {
+  constructor(random: Random = new Random()) {
+    this.random = random;
     this.initializeArtifactSets();
   }
 
@@ -192,22 +196,22 @@ export class ArtifactSystem {
     const artifactSet = this.assignSet(artifactType, artifactRarity);
 
     const artifact: Artifact = {
-      id: `artifact-${this.artifactIdCounter++}-${Date.now()}`,
+      id: `artifact-${this.artifactIdCounter++}-${this.random.now()}`,
       name,
       type: artifactType,
       category: this.getCategoryFromType(artifactType),
       rarity: artifactRarity,
       icon: this.getArtifactIcon(artifactType, artifactRarity),
       description: this.generateDescription(artifactType, artifactRarity),
-      lore: this.loreTemplates[Math.floor(Math.random() * this.loreTemplates.length)],
+      lore: this.loreTemplates[Math.floor(this.random.next() * this.loreTemplates.length)],
       tribe,
       bonuses,
       set: artifactSet,
-      dayCreated: Date.now(),
-      dayFound: Date.now(),
+      dayCreated: this.random.now(),
+      dayFound: this.random.now(),
       isActive: true,
       durability: artifactType === 'weapon' || artifactType === 'tool' ? 100 : undefined,
-      charges: artifactType === 'consumable' ? Math.floor(Math.random() * 3) + 1 : undefined,
+      charges: artifactType === 'consumable' ? Math.floor(this.random.next() * 3) + 1 : undefined,
       stolenCount: 0,
       transferHistory: []
     };
@@ -217,7 +221,7 @@ export class ArtifactSystem {
   }
 
   private rollRarity(): ArtifactRarity {
-    const roll = Math.random() * 100;
+    const roll = this.random.next() * 100;
     if (roll < 50) return 'common';
     if (roll < 75) return 'uncommon';
     if (roll < 90) return 'rare';
@@ -227,16 +231,16 @@ export class ArtifactSystem {
 
   private getRandomType(): ArtifactType {
     const types: ArtifactType[] = ['weapon', 'tool', 'relic', 'artifact', 'wonder', 'consumable'];
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(this.random.next() * types.length)];
   }
 
   private generateArtifactName(type: ArtifactType, rarity: ArtifactRarity): string {
-    const usePrefix = rarity !== 'common' && Math.random() > 0.5;
+    const usePrefix = rarity !== 'common' && this.random.next() > 0.5;
     const names = this.artifactNames[type];
-    const baseName = names[Math.floor(Math.random() * names.length)];
+    const baseName = names[Math.floor(this.random.next() * names.length)];
 
     if (usePrefix) {
-      const prefix = this.artifactPrefixes[Math.floor(Math.random() * this.artifactPrefixes.length)];
+      const prefix = this.artifactPrefixes[Math.floor(this.random.next() * this.artifactPrefixes.length)];
       return `${prefix} ${baseName}`;
     }
     return baseName;
@@ -260,7 +264,7 @@ export class ArtifactSystem {
       consumable: 'consumable of great potency'
     };
 
-    const adjective = rarityAdjectives[rarity][Math.floor(Math.random() * 3)];
+    const adjective = rarityAdjectives[rarity][Math.floor(this.random.next() * 3)];
     return `${adjective} ${typeDescriptions[type]}.`;
   }
 
@@ -295,7 +299,7 @@ export class ArtifactSystem {
     };
 
     const possibleTypes = types[type];
-    return possibleTypes[Math.floor(Math.random() * possibleTypes.length)] as ArtifactBonus['type'];
+    return possibleTypes[Math.floor(this.random.next() * possibleTypes.length)] as ArtifactBonus['type'];
   }
 
   private createBonus(type: ArtifactBonus['type'], multiplier: number): ArtifactBonus {
@@ -306,45 +310,45 @@ export class ArtifactSystem {
       case 'resource_multiplier':
         return {
           type,
-          resource: resources[Math.floor(Math.random() * resources.length)],
-          value: 1 + (Math.random() * 0.1 + 0.05) * multiplier,
+          resource: resources[Math.floor(this.random.next() * resources.length)],
+          value: 1 + (this.random.next() * 0.1 + 0.05) * multiplier,
           description: 'Resource production bonus'
         };
 
       case 'flat_bonus':
         return {
           type,
-          resource: resources[Math.floor(Math.random() * resources.length)],
-          value: Math.floor((5 + Math.random() * 10) * multiplier),
+          resource: resources[Math.floor(this.random.next() * resources.length)],
+          value: Math.floor((5 + this.random.next() * 10) * multiplier),
           description: 'Flat resource bonus'
         };
 
       case 'skill_boost':
         return {
           type,
-          skill: skills[Math.floor(Math.random() * skills.length)],
-          value: 1 + (Math.random() * 0.15 + 0.05) * multiplier,
+          skill: skills[Math.floor(this.random.next() * skills.length)],
+          value: 1 + (this.random.next() * 0.15 + 0.05) * multiplier,
           description: 'Skill effectiveness bonus'
         };
 
       case 'combat_boost':
         return {
           type,
-          value: 1 + (Math.random() * 0.1 + 0.05) * multiplier,
+          value: 1 + (this.random.next() * 0.1 + 0.05) * multiplier,
           description: 'Combat power bonus'
         };
 
       case 'defense_boost':
         return {
           type,
-          value: 1 + (Math.random() * 0.1 + 0.05) * multiplier,
+          value: 1 + (this.random.next() * 0.1 + 0.05) * multiplier,
           description: 'Defense bonus'
         };
 
       case 'research_boost':
         return {
           type,
-          value: 1 + (Math.random() * 0.1 + 0.05) * multiplier,
+          value: 1 + (this.random.next() * 0.1 + 0.05) * multiplier,
           description: 'Research speed bonus'
         };
 
@@ -412,7 +416,7 @@ export class ArtifactSystem {
   }
 
   // Transfer artifact between tribes
-  transferArtifact(artifactId: string, newTribe: string, method: 'trade' | 'theft' | 'conquest' | 'gift'): boolean {
+  transferArtifact(artifactId: string, newTribe: string, method: 'trade' | 'theft' | 'conquest' | 'gift' | 'seizure'): boolean {
     const artifact = this.artifacts.get(artifactId);
     if (!artifact) return false;
 
@@ -422,7 +426,7 @@ export class ArtifactSystem {
     artifact.transferHistory.push({
       from: oldTribe,
       to: newTribe,
-      day: Date.now(),
+      day: this.random.now(),
       method
     });
 
@@ -553,7 +557,7 @@ export class ArtifactSystem {
   // Random discovery chance during exploration
   discoverArtifact(tribe: string, agentId: string): Artifact | null {
     // 5% chance of discovery
-    if (Math.random() > 0.05) return null;
+    if (this.random.next() > 0.05) return null;
 
     const artifact = this.generateArtifact(tribe);
     if (artifact) {
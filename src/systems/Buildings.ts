@@ -1,5 +1,7 @@
 // Building System for ClawCiv
 
+import { Random } from '../engine/Random.ts';
+
 export interface Building {
   id: string;
   type: string;
@@ -21,6 +23,7 @@ export interface Building {
 }
 
 export class BuildingSystem {
+  private random: Random;
   private buildings: Map<string, Building> = new Map();
 
   private readonly BUILDING_TYPES = {
@@ -94,6 +97,13 @@ export class BuildingSystem {
       benefits: { socialCapital: 5 },
       requiredTech: 'engineering'
     },
+    road: {
+      name: 'Road',
+      cost: { food: 10, materials: 20, knowledge: 0 },
+      health: 60,
+      benefits: {}, // Halves the cost of walking through its grid cell
+      requiredTech: 'tool_making'
+    },
     wonder: {
       name: 'Great Wonder',
       cost: { food: 500, materials: 500, knowledge: 400 },
@@ -103,6 +113,10 @@ export class BuildingSystem {
     }
   };
 
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
   canBuild(tribe: string, buildingType: string, resources: { food: number; materials: number; knowledge: number }, researchedTechs: string[]): boolean {
     const type = this.BUILDING_TYPES[buildingType as keyof typeof this.BUILDING_TYPES];
     if (!type) return false;
@@ -127,7 +141,7 @@ export class BuildingSystem {
     if (!type) throw new Error(`Invalid building type: ${buildingType}`);
 
     const building: Building = {
-      id: `building-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `building-${this.random.now()}-${this.random.next().toString(36).substr(2, 9)}`,
       type: buildingType,
       name: type.name,
       tribe,
@@ -144,6 +158,10 @@ export class BuildingSystem {
     return building;
   }
 
+  getBuildingTypes(): string[] {
+    return Object.keys(this.BUILDING_TYPES);
+  }
+
   getBuildings(): Building[] {
     return Array.from(this.buildings.values());
   }
@@ -156,13 +174,14 @@ export class BuildingSystem {
     return this.buildings.get(id);
   }
 
-  updateBuilding(id: string): boolean {
+  // `speed` scales construction progress (treasury subsidies)
+  updateBuilding(id: string, speed: number = 1): boolean {
     const building = this.buildings.get(id);
     if (!building) return false;
 
     // Construction progress
     if (building.constructionProgress < 100) {
-      building.constructionProgress += 10;
+      building.constructionProgress += 10 * speed;
       if (building.constructionProgress >= 100) {
         building.constructionProgress = 100;
         building.health = building.maxHealth;
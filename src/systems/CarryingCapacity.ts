@@ -0,0 +1,224 @@
+// Carrying Capacity System for ClawCiv
+// How many people the land can feed: each grid cell supports a number of agents set by its fertility, the holding
+// tribe's climate, its farms and granaries and its food techs. Provinces and whole tribes add up their cells.
+// Crowded cells yield less and spread disease faster; a tribe that outgrows its land loses approval and pushes out.
+
+import { WorldConfig, TileCoord, createWorldConfig, worldToTile } from '../engine/WorldConfig.ts';
+import { Tile, getTile, getFarmingYield } from '../engine/WorldMap.ts';
+import { Territory, Province } from './Territory.ts';
+import { Building } from './Buildings.ts';
+import { ClimateZone } from './Weather.ts';
+
+// What a tribe brings to the cells it holds
+export interface CapacityModifiers {
+  zone: ClimateZone;
+  foodBonus: number;      // TechTree.getBonus('food')
+}
+
+export interface CellCapacity {
+  x: number;
+  y: number;
+  capacity: number;       // Agents the cell can feed
+  population: number;     // Living agents standing in it, any tribe
+  load: number;           // population / capacity; over 1 is crowded
+}
+
+// A province's share of its tribe's land and people
+export interface RegionCapacity {
+  provinceId: string;
+  name: string;
+  tribe: string;
+  capacity: number;
+  population: number;     // Members standing in the province
+  load: number;
+}
+
+export interface TribeCapacity {
+  tribe: string;
+  capacity: number;       // Held cells plus unclaimed cells members stand on
+  population: number;
+  load: number;
+  overpopulated: boolean;
+  regions: RegionCapacity[];
+}
+
+// A tribe outgrowing its land, or getting back under its limit
+export interface CapacityChange {
+  tribe: string;
+  overpopulated: boolean;
+  population: number;
+  capacity: number;
+}
+
+// Agents a cell of middling fertility feeds before climate, buildings and techs
+const CELL_CAPACITY = 2;
+
+const CLIMATE_CAPACITY: { [zone in ClimateZone]: number } = {
+  temperate: 1,
+  tropical: 1.1,
+  continental: 0.9,
+  arid: 0.7,
+  arctic: 0.6
+};
+
+// Extra agents fed by each completed building of these types on the cell, up to MAX_BUILDING_CAPACITY in all
+const BUILDING_CAPACITY: { [type: string]: number } = {
+  farm: 2,
+  granary: 4
+};
+const MAX_BUILDING_CAPACITY = 6;
+
+const MIN_YIELD = 0.25;             // Crowding never takes more than this off a gather
+const MAX_TRANSMISSION = 3;         // Disease spreads at most this many times faster in a crowd
+const MAX_EXPANSION_PRESSURE = 2;   // Overpopulated tribes project at most this much more influence
+const OVERPOPULATION_DAYS = 5;      // Days in a row over the limit before a tribe counts as overpopulated
+const RELIEF_LOAD = 0.9;            // An overpopulated tribe is relieved once back under this load
+
+export class CarryingCapacitySystem {
+  private readonly world: WorldConfig;
+  private cells: Map<string, CellCapacity> = new Map();
+  private tribes: Map<string, TribeCapacity> = new Map();
+  private daysOver: Map<string, number> = new Map();
+  private overpopulated: Set<string> = new Set();
+
+  constructor(world: WorldConfig = createWorldConfig()) {
+    this.world = world;
+  }
+
+  // Agents one cell feeds; wild land gets no climate or tech modifiers
+  getCellCapacity(tile: Tile | undefined, buildings: Building[], modifiers?: CapacityModifiers): number {
+    const land = CELL_CAPACITY * getFarmingYield(tile) * (modifiers ? CLIMATE_CAPACITY[modifiers.zone] : 1);
+    const stores = Math.min(MAX_BUILDING_CAPACITY, buildings.reduce((sum, b) => sum + (BUILDING_CAPACITY[b.type] || 0), 0));
+    return (land + stores) * (modifiers ? modifiers.foodBonus : 1);
+  }
+
+  // Recomputes every cell, province and tribe from the day's positions and borders.
+  // Returns the tribes that have just outgrown their land or come back under it.
+  refresh(
+    grid: Tile[][],
+    territories: Territory[],
+    provinces: Province[],
+    agents: any[],
+    buildings: Building[],
+    modifiers: Map<string, CapacityModifiers>
+  ): CapacityChange[] {
+    const key = (x: number, y: number) => `${x},${y}`;
+    const owners = new Map(territories.map(t => [key(t.x, t.y), t.tribe]));
+
+    const buildingsByCell = new Map<string, Building[]>();
+    for (const building of buildings) {
+      if (building.constructionProgress < 100) continue;
+      const { x, y } = worldToTile(this.world, building.x, building.z);
+      const list = buildingsByCell.get(key(x, y)) ?? [];
+      list.push(building);
+      buildingsByCell.set(key(x, y), list);
+    }
+
+    const living = agents.filter(a => a.alive);
+    const standing = new Map<string, number>();
+    for (const agent of living) {
+      standing.set(key(agent.x, agent.y), (standing.get(key(agent.x, agent.y)) || 0) + 1);
+    }
+
+    this.cells.clear();
+    for (let y = 0; y < this.world.gridSize; y++) {
+      for (let x = 0; x < this.world.gridSize; x++) {
+        const owner = owners.get(key(x, y));
+        const capacity = this.getCellCapacity(getTile(grid, x, y), buildingsByCell.get(key(x, y)) ?? [], owner ? modifiers.get(owner) : undefined);
+        const population = standing.get(key(x, y)) || 0;
+        this.cells.set(key(x, y), { x, y, capacity, population, load: this.load(population, capacity) });
+      }
+    }
+
+    const changes: CapacityChange[] = [];
+    this.tribes.clear();
+    for (const tribe of modifiers.keys()) {
+      const members = living.filter(a => a.tribe === tribe);
+
+      // Held land, plus unclaimed cells members are living off
+      const land = new Set(territories.filter(t => t.tribe === tribe).map(t => key(t.x, t.y)));
+      for (const member of members) {
+        if (!owners.has(key(member.x, member.y))) land.add(key(member.x, member.y));
+      }
+      const capacity = Array.from(land).reduce((sum, cell) => sum + (this.cells.get(cell)?.capacity || 0), 0);
+
+      const regions = provinces.filter(p => p.tribe === tribe).map(province => {
+        const cells = new Set(province.cells.map(c => key(c.x, c.y)));
+        const regionCapacity = province.cells.reduce((sum, c) => sum + (this.cells.get(key(c.x, c.y))?.capacity || 0), 0);
+        const population = members.filter(m => cells.has(key(m.x, m.y))).length;
+        return { provinceId: province.id, name: province.name, tribe, capacity: regionCapacity, population, load: this.load(population, regionCapacity) };
+      });
+
+      // A tribe has to stay over the limit for days before it counts as overpopulated, and get back under it with
+      // some slack before it's relieved, so a crowded first day and births and deaths at the limit don't flap
+      const load = this.load(members.length, capacity);
+      const daysOver = load > 1 ? (this.daysOver.get(tribe) || 0) + 1 : 0;
+      this.daysOver.set(tribe, daysOver);
+      const was = this.overpopulated.has(tribe);
+      const overpopulated = members.length > 0 && (was ? load > RELIEF_LOAD : daysOver >= OVERPOPULATION_DAYS);
+      if (overpopulated) this.overpopulated.add(tribe);
+      else this.overpopulated.delete(tribe);
+      if (overpopulated !== was) changes.push({ tribe, overpopulated, population: members.length, capacity });
+
+      this.tribes.set(tribe, { tribe, capacity, population: members.length, load, overpopulated, regions });
+    }
+
+    return changes;
+  }
+
+  getCell(x: number, y: number): CellCapacity | undefined {
+    return this.cells.get(`${x},${y}`);
+  }
+
+  getTribeCapacity(tribe: string): TribeCapacity | undefined {
+    return this.tribes.get(tribe);
+  }
+
+  getRegions(tribe?: string): RegionCapacity[] {
+    const all = Array.from(this.tribes.values()).flatMap(t => t.regions);
+    return tribe ? all.filter(r => r.tribe === tribe) : all;
+  }
+
+  isOverpopulated(tribe: string): boolean {
+    return this.overpopulated.has(tribe);
+  }
+
+  // How crowded a cell is; 0 before the first refresh
+  getCrowding(cell: TileCoord): number {
+    return this.getCell(cell.x, cell.y)?.load ?? 0;
+  }
+
+  // Gather multiplier: too many hands on the same ground split what it gives
+  getYieldModifier(cell: TileCoord): number {
+    const load = this.getCrowding(cell);
+    return load > 1 ? Math.max(MIN_YIELD, 1 / load) : 1;
+  }
+
+  // Disease transmission multiplier for someone standing in the cell
+  getTransmissionModifier(cell: TileCoord): number {
+    return 1 + Math.min(MAX_TRANSMISSION - 1, Math.max(0, this.getCrowding(cell) - 1));
+  }
+
+  // Influence multiplier for a tribe's members; above 1 only once the tribe has outgrown its land
+  getExpansionPressure(tribe: string): number {
+    const load = this.tribes.get(tribe)?.load ?? 0;
+    return this.isOverpopulated(tribe) ? Math.min(MAX_EXPANSION_PRESSURE, Math.max(1, load)) : 1;
+  }
+
+  private load(population: number, capacity: number): number {
+    // Every cell feeds someone, so capacity is only 0 for a tribe with no land and no members
+    return capacity > 0 ? population / capacity : population;
+  }
+
+  public serialize(): any {
+    return {
+      daysOver: Array.from(this.daysOver.entries()),
+      overpopulated: Array.from(this.overpopulated)
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.daysOver = new Map(data.daysOver || []);
+    this.overpopulated = new Set(data.overpopulated || []);
+  }
+}
@@ -1,6 +1,9 @@
 // Tribe Diplomacy System for ClawCiv
 // Handles relationships between tribes at a macro level
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export interface TribeRelationship {
   tribe: string;
   otherTribe: string;
@@ -28,12 +31,15 @@ export interface DiplomaticProposal {
 }
 
 export class DiplomacySystem {
+  private random: Random;
   private relationships: Map<string, TribeRelationship> = new Map();
   private proposals: Map<string, DiplomaticProposal> = new Map();
   private proposalIdCounter = 0;
-  private readonly TRIBES = ['Alpha', 'Beta', 'Gamma'];
+  private readonly TRIBES: string[];
 
-  constructor() {
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.TRIBES = [...world.tribes];
     this.initializeRelationships();
   }
 
@@ -111,13 +117,13 @@ export class DiplomacySystem {
 
   createProposal(fromTribe: string, toTribe: string, type: DiplomaticProposal['type'], terms?: any): DiplomaticProposal {
     const proposal: DiplomaticProposal = {
-      id: `proposal-${this.proposalIdCounter++}-${Date.now()}`,
+      id: `proposal-${this.proposalIdCounter++}-${this.random.now()}`,
       fromTribe,
       toTribe,
       type,
       terms: terms || {},
       status: 'pending',
-      proposedDay: Date.now()
+      proposedDay: this.random.now()
     };
 
     this.proposals.set(proposal.id, proposal);
@@ -263,7 +269,7 @@ export class DiplomacySystem {
     if (!rel) return null;
 
     // Random chance to make proposal based on relationship
-    const roll = Math.random() * 100;
+    const roll = this.random.next() * 100;
 
     if (rel.status === 'war') {
       if (roll < 15) {
@@ -1,6 +1,9 @@
 // Disease/Plague System for ClawCiv
 // Illness spreads between agents, tribes can implement quarantines, and cures can be researched
 
+import { Random } from '../engine/Random.ts';
+import { SpatialIndex } from '../engine/SpatialIndex.ts';
+
 export type DiseaseSeverity = 'mild' | 'moderate' | 'severe' | 'deadly' | 'pandemic';
 export type DiseaseStatus = 'active' | 'quarantined' | 'cured' | 'contained' | 'extinct';
 
@@ -47,12 +50,15 @@ export interface Disease {
 }
 
 export class DiseaseSystem {
+  private random: Random;
   private diseases: Map<string, Disease> = new Map();
   private diseaseIdCounter = 0;
   private quarantinedAgents: Map<string, string> = new Map(); // Agent ID -> disease ID
   private immuneAgents: Map<string, Set<string>> = new Map(); // Disease ID -> immune agent IDs
 
-  constructor() {}
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
 
   // Create a new disease
   createDisease(
@@ -63,14 +69,14 @@ export class DiseaseSystem {
     const diseaseSeverity = severity || this.rollSeverity();
 
     const disease: Disease = {
-      id: `disease-${this.diseaseIdCounter++}-${Date.now()}`,
+      id: `disease-${this.diseaseIdCounter++}-${this.random.now()}`,
       name,
       severity: diseaseSeverity,
       status: 'active',
       icon: this.getDiseaseIcon(diseaseSeverity),
       description: this.generateDescription(diseaseSeverity),
       origin,
-      dayDiscovered: Date.now(),
+      dayDiscovered: this.random.now(),
       symptoms: this.generateSymptoms(diseaseSeverity),
       transmissionRate: this.getTransmissionRate(diseaseSeverity),
       incubationPeriod: this.getIncubationPeriod(diseaseSeverity),
@@ -93,7 +99,7 @@ export class DiseaseSystem {
   }
 
   private rollSeverity(): DiseaseSeverity {
-    const roll = Math.random() * 100;
+    const roll = this.random.next() * 100;
     if (roll < 40) return 'mild';
     if (roll < 70) return 'moderate';
     if (roll < 90) return 'severe';
@@ -225,8 +231,8 @@ export class DiseaseSystem {
     return true;
   }
 
-  // Spread disease between nearby agents
-  spreadDisease(diseaseId: string, agents: any[], currentDay: number): {
+  // Spread disease between nearby agents; `crowding` scales the chance for an exposed agent (crowded cells spread faster)
+  spreadDisease(diseaseId: string, agents: any[], currentDay: number, crowding: (agent: any) => number = () => 1): {
     newInfections: string[];
     deaths: string[];
   } {
@@ -238,14 +244,21 @@ export class DiseaseSystem {
     const newInfections: string[] = [];
     const deaths: string[] = [];
 
+    // Index living agents by grid cell so each carrier only checks its neighbourhood
+    const agentsById = new Map<string, any>();
+    const index = new SpatialIndex<any>(a => ({ x: a.x, z: a.y }), 2);
+    for (const agent of agents) {
+      agentsById.set(agent.id, agent);
+      if (agent.alive) index.insert(agent);
+    }
+
     for (const infectedId of disease.infectedAgents) {
-      const infectedAgent = agents.find(a => a.id === infectedId);
+      const infectedAgent = agentsById.get(infectedId);
       if (!infectedAgent || !infectedAgent.alive) continue;
 
       // Find nearby agents
-      const nearbyAgents = agents.filter(a =>
+      const nearbyAgents = index.queryRect(infectedAgent.x - 2, infectedAgent.y - 2, infectedAgent.x + 2, infectedAgent.y + 2).filter(a =>
         a.id !== infectedId &&
-        a.alive &&
         !disease.infectedAgents.has(a.id) &&
         !this.isAgentImmune(a.id, diseaseId) &&
         this.calculateDistance(infectedAgent, a) <= 2 // Within 2 grid spaces
@@ -253,7 +266,7 @@ export class DiseaseSystem {
 
       for (const nearbyAgent of nearbyAgents) {
         // Transmission check
-        if (Math.random() * 100 < disease.transmissionRate) {
+        if (this.random.next() * 100 < disease.transmissionRate * crowding(nearbyAgent)) {
           this.infectAgent(nearbyAgent.id, diseaseId, currentDay);
           newInfections.push(nearbyAgent.id);
         }
@@ -282,6 +295,7 @@ export class DiseaseSystem {
     const recovered: string[] = [];
     const deaths: string[] = [];
     const events: string[] = [];
+    const agentsById = new Map<string, any>(agents.map(a => [a.id, a]));
 
     for (const disease of this.diseases.values()) {
       if (disease.status !== 'active') continue;
@@ -290,7 +304,7 @@ export class DiseaseSystem {
       const agentsToDie: string[] = [];
 
       for (const agentId of disease.infectedAgents) {
-        const agent = agents.find(a => a.id === agentId);
+        const agent = agentsById.get(agentId);
         if (!agent || !agent.alive) {
           agentsToDie.push(agentId);
           continue;
@@ -305,7 +319,7 @@ export class DiseaseSystem {
               break;
 
             case 'mortality':
-              if (Math.random() * 100 < disease.mortalityRate * 0.01) {
+              if (this.random.next() * 100 < disease.mortalityRate * 0.01) {
                 agentsToDie.push(agentId);
               }
               break;
@@ -320,7 +334,7 @@ export class DiseaseSystem {
         const daysInfected = currentDay - disease.dayDiscovered;
         if (daysInfected > disease.contagiousPeriod) {
           // 70% chance to recover each day after contagious period
-          if (Math.random() < 0.7) {
+          if (this.random.next() < 0.7) {
             agentsToRecover.push(agentId);
           }
         }
@@ -482,12 +496,12 @@ export class DiseaseSystem {
 
     // Mutation can increase or rarely decrease severity
     let newSeverity = parent.severity;
-    if (Math.random() < 0.3) {
+    if (this.random.next() < 0.3) {
       // Increase severity
       if (currentSeverityIndex < severityMutation.length - 1) {
         newSeverity = severityMutation[currentSeverityIndex + 1] as DiseaseSeverity;
       }
-    } else if (Math.random() < 0.1) {
+    } else if (this.random.next() < 0.1) {
       // Decrease severity
       if (currentSeverityIndex > 0) {
         newSeverity = severityMutation[currentSeverityIndex - 1] as DiseaseSeverity;
@@ -518,7 +532,7 @@ export class DiseaseSystem {
     };
 
     const names = diseaseNames[severity || this.rollSeverity()];
-    const name = names[Math.floor(Math.random() * names.length)];
+    const name = names[Math.floor(this.random.next() * names.length)];
 
     return this.createDisease(name, tribe, severity);
   }
@@ -577,10 +591,17 @@ export class DiseaseSystem {
 
   public serialize(): any {
     return {
-      diseases: Array.from(this.diseases.entries()),
+      diseases: Array.from(this.diseases.entries()).map(([id, disease]) => [id, {
+        ...disease,
+        infectedAgents: Array.from(disease.infectedAgents),
+        recoveredAgents: Array.from(disease.recoveredAgents),
+        deceasedAgents: Array.from(disease.deceasedAgents),
+        tribesAffected: Array.from(disease.tribesAffected),
+        quarantineZones: Array.from(disease.quarantineZones.entries())
+      }]),
       diseaseIdCounter: this.diseaseIdCounter,
       quarantinedAgents: Array.from(this.quarantinedAgents.entries()),
-      immuneAgents: Array.from(this.immuneAgents.entries())
+      immuneAgents: Array.from(this.immuneAgents.entries()).map(([id, agents]) => [id, Array.from(agents)])
     };
   }
 
@@ -608,6 +629,9 @@ export class DiseaseSystem {
       if (Array.isArray(disease.tribesAffected)) {
         disease.tribesAffected = new Set(disease.tribesAffected);
       }
+      if (Array.isArray(disease.quarantineZones)) {
+        disease.quarantineZones = new Map(disease.quarantineZones);
+      }
     }
   }
 }
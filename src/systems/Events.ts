@@ -1,6 +1,10 @@
 // Random Event System for ClawCiv
 // Adds unpredictability and excitement to the simulation
 
+import { Random } from '../engine/Random.ts';
+import type { EventHistory } from '../engine/EventHistory.ts';
+import type { SimEventOf } from '../engine/SimEvents.ts';
+
 export interface GameEvent {
   id: string;
   name: string;
@@ -22,12 +26,14 @@ export interface GameEvent {
 }
 
 export class EventSystem {
+  private random: Random;
   private events: GameEvent[] = [];
   private activeEvents: Map<string, GameEvent & { remainingTicks: number }> = new Map();
   private lastEventDay = 0;
   private readonly EVENT_COOLDOWN = 10; // Minimum days between events
 
-  constructor() {
+  constructor(random: Random = new Random()) {
+    this.random = random;
     this.initializeEvents();
   }
 
@@ -231,7 +237,7 @@ export class EventSystem {
     }
 
     // 10% chance of event each eligible day
-    if (Math.random() > 0.10) {
+    if (this.random.next() > 0.10) {
       return null;
     }
 
@@ -244,7 +250,7 @@ export class EventSystem {
 
     // Weighted random selection
     const totalWeight = availableEvents.reduce((sum, e) => sum + e.weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = this.random.next() * totalWeight;
 
     for (const event of availableEvents) {
       random -= event.weight;
@@ -282,7 +288,7 @@ export class EventSystem {
       if (event.effects.socialCapital) agent.resources.socialCapital += event.effects.socialCapital;
 
       // Apply agent damage (casualties)
-      if (event.effects.agentDamage && Math.random() * 100 < event.effects.agentDamage) {
+      if (event.effects.agentDamage && this.random.next() * 100 < event.effects.agentDamage) {
         agent.resources.food = 0; // Kill by starvation
         casualties.push(agent.id);
       } else {
@@ -322,9 +328,11 @@ export class EventSystem {
     return this.events;
   }
 
-  getEventHistory(): GameEvent[] {
-    // Could be expanded to track past events
-    return [];
+  // Past world events, oldest first, read from the engine's event history
+  getEventHistory(history: EventHistory): GameEvent[] {
+    return history.query({ type: 'WorldEventStarted' })
+      .map(event => this.events.find(e => e.id === (event as SimEventOf<'WorldEventStarted'>).eventId))
+      .filter((event): event is GameEvent => event !== undefined);
   }
 
   public serialize(): any {
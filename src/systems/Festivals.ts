@@ -1,6 +1,8 @@
 // Festival/Celebration System for ClawCiv
 // Tribes can host festivals for temporary bonuses and social cohesion
 
+import { Random } from '../engine/Random.ts';
+
 export type FestivalType = 'harvest' | 'religious' | 'cultural' | 'military' | 'trade' | 'grand';
 export type FestivalStatus = 'planning' | 'ongoing' | 'completed' | 'failed' | 'cancelled';
 
@@ -45,22 +47,27 @@ export interface Festival {
   success: number; // 0-100, calculated at end
   popularity: number; // 0-100, attendee satisfaction
   legacyBonus?: FestivalBonus; // Long-term bonus from successful festival
+  funding?: number; // $CLAW the host treasury put in
 }
 
 export class FestivalSystem {
+  private random: Random;
   private festivals: Map<string, Festival> = new Map();
   private activeFestivalIds: Set<string> = new Set();
   private festivalIdCounter = 0;
   private cooldowns: Map<string, number> = new Map(); // Tribe -> last festival day
 
-  constructor() {}
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
 
   // Plan a new festival
   planFestival(
     tribe: string,
     type: FestivalType,
     plannedDay: number,
-    coHostTribes: string[] = []
+    coHostTribes: string[] = [],
+    funding: number = 0
   ): Festival | null {
     // Check cooldown (can't have festivals too frequently)
     const lastFestivalDay = this.cooldowns.get(tribe) || 0;
@@ -76,6 +83,7 @@ export class FestivalSystem {
     }
 
     const festival = this.createFestival(tribe, type, plannedDay, coHostTribes);
+    if (funding > 0) festival.funding = funding;
     this.festivals.set(festival.id, festival);
     return festival;
   }
@@ -90,7 +98,7 @@ export class FestivalSystem {
     const duration = this.getFestivalDuration(type, coHostTribes.length > 0);
 
     const festival: Festival = {
-      id: `festival-${this.festivalIdCounter++}-${Date.now()}`,
+      id: `festival-${this.festivalIdCounter++}-${this.random.now()}`,
       name: this.generateFestivalName(type, tribe),
       type,
       hostTribe: tribe,
@@ -227,12 +235,17 @@ export class FestivalSystem {
       grand: ['Grand Festival', 'Unity Celebration', 'Great Gathering']
     };
 
-    const adj = adjectives[type][Math.floor(Math.random() * adjectives[type].length)];
-    const noun = nouns[type][Math.floor(Math.random() * nouns[type].length)];
+    const adj = adjectives[type][Math.floor(this.random.next() * adjectives[type].length)];
+    const noun = nouns[type][Math.floor(this.random.next() * nouns[type].length)];
 
     return `${tribe} ${adj} ${noun}`;
   }
 
+  // Can this tribe plan a festival on this day (30 days since its last one)?
+  canPlanFestival(tribe: string, plannedDay: number): boolean {
+    return plannedDay - (this.cooldowns.get(tribe) || 0) >= 30 && !this.hasActiveFestival(tribe);
+  }
+
   // Start a planned festival
   startFestival(festivalId: string, currentDay: number): boolean {
     const festival = this.festivals.get(festivalId);
@@ -265,7 +278,7 @@ export class FestivalSystem {
     if (!festival || festival.status !== 'ongoing') return null;
 
     // 20% chance of an event per day
-    if (Math.random() > 0.2) return null;
+    if (this.random.next() > 0.2) return null;
 
     const eventTypes = [
       { type: 'discovery', weight: 15 },
@@ -278,7 +291,7 @@ export class FestivalSystem {
 
     // Weighted random selection
     const totalWeight = eventTypes.reduce((sum, e) => sum + e.weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = this.random.next() * totalWeight;
     let selectedType = eventTypes[0].type;
 
     for (const event of eventTypes) {
@@ -335,7 +348,7 @@ export class FestivalSystem {
     };
 
     const options = descriptions[type] || descriptions.achievement;
-    return options[Math.floor(Math.random() * options.length)];
+    return options[Math.floor(this.random.next() * options.length)];
   }
 
   // End a festival and calculate results
@@ -352,6 +365,9 @@ export class FestivalSystem {
 
     let success = Math.min(100, (totalAttendees / expectedAttendees) * 100);
 
+    // Treasury funding makes up for thin attendance: 20 $CLAW per point, up to 40 points
+    success += Math.min(40, (festival.funding || 0) / 20);
+
     // Adjust based on events (positive events increase, conflicts decrease)
     for (const event of festival.events) {
       if (event.type === 'conflict') {
@@ -364,7 +380,7 @@ export class FestivalSystem {
     festival.success = Math.max(0, Math.min(100, success));
 
     // Calculate popularity
-    festival.popularity = Math.min(100, festival.success + Math.random() * 20 - 10);
+    festival.popularity = Math.min(100, festival.success + this.random.next() * 20 - 10);
 
     // Generate legacy bonus for very successful festivals
     if (festival.success >= 90) {
@@ -543,7 +559,10 @@ export class FestivalSystem {
 
   public serialize(): any {
     return {
-      festivals: Array.from(this.festivals.entries()),
+      festivals: Array.from(this.festivals.entries()).map(([id, festival]) => [id, {
+        ...festival,
+        attendees: Array.from(festival.attendees.entries())
+      }]),
       activeFestivalIds: Array.from(this.activeFestivalIds),
       festivalIdCounter: this.festivalIdCounter,
       cooldowns: Array.from(this.cooldowns.entries())
@@ -1,6 +1,9 @@
 // Governance System for ClawCiv
 // Tribes can develop different forms of government with mechanical effects
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export type GovType = 'tribal' | 'chiefdom' | 'democracy' | 'republic' | 'technocracy' | 'dictatorship' | 'monarchy' | 'anarchy';
 
 export interface Government {
@@ -18,6 +21,7 @@ export interface Government {
     innovation: number;         // Chance of new discoveries (0.5 to 2.0)
     stability: number;          // Resistance to unrest/rebellion (0 to 100)
     taxRate: number;           // Resources taken by government (0.0 to 0.5)
+    upkeep: number;            // Multiplier for agents' daily $CLAW rent and compute (0.5 to 2.0)
   };
   electionCycle?: number;       // Days between elections (for democracies/republics)
   lastElectionDay: number;
@@ -40,25 +44,28 @@ export interface Policy {
     innovation?: number;
     stability?: number;
     taxRate?: number;
+    upkeep?: number;
   };
   supportRequired: number;     // Minimum approval to enact
   support: number;             // Current support level
 }
 
 export class GovernanceSystem {
+  private random: Random;
   private tribalGovernments: Map<string, Government> = new Map();
   private availablePolicies: Map<string, Policy> = new Map();
 
-  constructor() {
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
     this.initializePolicies();
-    this.initializeGovernments();
+    this.initializeGovernments(world.tribes);
   }
 
-  private initializeGovernments(): void {
+  private initializeGovernments(tribes: string[]): void {
     // Start all tribes with tribal governance
-    this.tribalGovernments.set('Alpha', this.getGovernmentDefaults('tribal'));
-    this.tribalGovernments.set('Beta', this.getGovernmentDefaults('tribal'));
-    this.tribalGovernments.set('Gamma', this.getGovernmentDefaults('tribal'));
+    for (const tribe of tribes) {
+      this.tribalGovernments.set(tribe, this.getGovernmentDefaults('tribal'));
+    }
   }
 
   private getGovernmentDefaults(type: GovType): Government {
@@ -76,7 +83,8 @@ export class GovernanceSystem {
           socialCohesion: 1.2,
           innovation: 0.7,
           stability: 60,
-          taxRate: 0.0
+          taxRate: 0.0,
+          upkeep: 1.0
         },
         approvalRating: 70,
         policies: [],
@@ -96,7 +104,8 @@ export class GovernanceSystem {
           socialCohesion: 1.0,
           innovation: 0.8,
           stability: 70,
-          taxRate: 0.05
+          taxRate: 0.05,
+          upkeep: 1.0
         },
         approvalRating: 65,
         policies: [],
@@ -116,7 +125,8 @@ export class GovernanceSystem {
           socialCohesion: 1.3,
           innovation: 1.3,
           stability: 50,
-          taxRate: 0.15
+          taxRate: 0.15,
+          upkeep: 0.9
         },
         electionCycle: 30,
         lastElectionDay: 0,
@@ -138,7 +148,8 @@ export class GovernanceSystem {
           socialCohesion: 1.1,
           innovation: 1.2,
           stability: 65,
-          taxRate: 0.12
+          taxRate: 0.12,
+          upkeep: 0.9
         },
         electionCycle: 40,
         lastElectionDay: 0,
@@ -160,7 +171,8 @@ export class GovernanceSystem {
           socialCohesion: 0.9,
           innovation: 1.5,
           stability: 55,
-          taxRate: 0.10
+          taxRate: 0.10,
+          upkeep: 0.8
         },
         approvalRating: 70,
         policies: [],
@@ -180,7 +192,8 @@ export class GovernanceSystem {
           socialCohesion: 0.6,
           innovation: 0.7,
           stability: 40,
-          taxRate: 0.25
+          taxRate: 0.25,
+          upkeep: 1.2
         },
         approvalRating: 40,
         policies: [],
@@ -200,7 +213,8 @@ export class GovernanceSystem {
           socialCohesion: 1.2,
           innovation: 0.8,
           stability: 75,
-          taxRate: 0.20
+          taxRate: 0.20,
+          upkeep: 1.1
         },
         approvalRating: 55,
         policies: [],
@@ -220,7 +234,8 @@ export class GovernanceSystem {
           socialCohesion: 0.5,
           innovation: 1.4,
           stability: 20,
-          taxRate: 0.0
+          taxRate: 0.0,
+          upkeep: 1.3
         },
         approvalRating: 50,
         policies: [],
@@ -270,7 +285,8 @@ export class GovernanceSystem {
       effects: {
         socialCohesion: 1.3,
         stability: 1.1,
-        taxRate: 0.15
+        taxRate: 0.15,
+        upkeep: 0.6
       },
       supportRequired: 50,
       support: 0
@@ -283,7 +299,8 @@ export class GovernanceSystem {
       icon: '✂️',
       effects: {
         stability: 0.9,
-        taxRate: -0.1
+        taxRate: -0.1,
+        upkeep: 1.2
       },
       supportRequired: 35,
       support: 0
@@ -438,17 +455,20 @@ export class GovernanceSystem {
 
     let effects = { ...gov.effects };
 
-    // Apply policy effects
+    // Apply policy effects. Tax rate changes are added (e.g. austerity's -0.1); the rest are multipliers.
     for (const policyId of gov.policies) {
       const policy = this.availablePolicies.get(policyId);
       if (policy && policy.effects) {
         for (const [key, value] of Object.entries(policy.effects)) {
-          if (key in effects && typeof effects[key as keyof typeof effects] === 'number') {
+          if (key === 'taxRate') {
+            effects.taxRate += value;
+          } else if (key in effects && typeof effects[key as keyof typeof effects] === 'number') {
             (effects[key as keyof typeof effects] as number) *= value;
           }
         }
       }
     }
+    effects.taxRate = Math.max(0, Math.min(0.5, effects.taxRate));
 
     return effects;
   }
@@ -512,14 +532,14 @@ export class GovernanceSystem {
     }
 
     // Check for revolution
-    if (gov.revolutionRisk > 70 && Math.random() < 0.1) {
+    if (gov.revolutionRisk > 70 && this.random.next() < 0.1) {
       this.triggerRevolution(tribe);
     }
   }
 
   private formGovernmentFromAnarchy(tribe: string): void {
     const possibleGovs: GovType[] = ['chiefdom', 'democracy', 'republic', 'technocracy'];
-    const newType = possibleGovs[Math.floor(Math.random() * possibleGovs.length)];
+    const newType = possibleGovs[Math.floor(this.random.next() * possibleGovs.length)];
 
     const newGov = this.getGovernmentDefaults(newType);
     this.tribalGovernments.set(tribe, newGov);
@@ -544,7 +564,7 @@ export class GovernanceSystem {
     };
 
     const possible = transitions[current.type] || ['democracy', 'anarchy'];
-    const newType = possible[Math.floor(Math.random() * possible.length)];
+    const newType = possible[Math.floor(this.random.next() * possible.length)];
 
     this.transitionGovernment(tribe, newType);
   }
@@ -555,13 +575,13 @@ export class GovernanceSystem {
     if (!gov) return null;
     if (gov.type !== 'democracy' && gov.type !== 'republic') return null;
 
-    gov.lastElectionDay = Date.now();
+    gov.lastElectionDay = this.random.now();
 
     // 30% chance of government change if approval is low
-    if (gov.approvalRating < 40 && Math.random() < 0.3) {
+    if (gov.approvalRating < 40 && this.random.next() < 0.3) {
       // Change to different government type
       const alternatives = gov.type === 'democracy' ? ['republic', 'technocracy'] : ['democracy', 'monarchy'];
-      const newType = alternatives[Math.floor(Math.random() * alternatives.length)];
+      const newType = alternatives[Math.floor(this.random.next() * alternatives.length)];
       this.transitionGovernment(tribe, newType);
       return { governmentChanged: true };
     }
@@ -570,41 +590,71 @@ export class GovernanceSystem {
     return { winner: 'incumbent', governmentChanged: false };
   }
 
-  // Collect taxes (reduces agent resources, increases treasury)
-  collectTaxes(tribe: string, agents: any[]): { collected: { [key: string]: number } } {
+  // Rule on an escrow dispute. `progress` is how much of the deliverable was done (0 to 1).
+  // Each government weighs the evidence differently; low stability makes rulings less predictable.
+  resolveDispute(tribe: string, progress: number): { ruling: 'release' | 'refund' | 'split'; reason: string } {
     const gov = this.tribalGovernments.get(tribe);
-    if (!gov) return { collected: {} };
-
-    const taxRate = gov.effects.taxRate;
-    const collected: { [key: string]: number } = {
-      food: 0,
-      materials: 0,
-      knowledge: 0
-    };
-
-    for (const agent of agents) {
-      if (agent.tribe !== tribe || !agent.alive) continue;
+    if (!gov) return { ruling: 'refund', reason: 'No government to hear the case' };
+
+    const evidence = Math.max(0, Math.min(1, progress));
+    const noise = (this.random.next() - 0.5) * (100 - gov.stability) / 100;
+
+    switch (gov.type) {
+      case 'technocracy':
+        // Judged strictly on the work delivered
+        if (evidence >= 0.9) return { ruling: 'release', reason: `The ${gov.leaderTitle} found the work complete` };
+        if (evidence >= 0.4) return { ruling: 'split', reason: `The ${gov.leaderTitle} found the work partly done` };
+        return { ruling: 'refund', reason: `The ${gov.leaderTitle} found the work not done` };
+
+      case 'democracy':
+      case 'republic': {
+        // A jury weighs the evidence, swayed by the public mood
+        const verdict = evidence + noise + (gov.approvalRating - 50) / 500;
+        if (verdict >= 0.7) return { ruling: 'release', reason: 'The jury sided with the payee' };
+        if (verdict <= 0.3) return { ruling: 'refund', reason: 'The jury sided with the payer' };
+        return { ruling: 'split', reason: 'The jury split the difference' };
+      }
 
-      // Collect from resources
-      const foodTax = Math.floor(agent.resources.food * taxRate);
-      const materialsTax = Math.floor(agent.resources.materials * taxRate);
-      const knowledgeTax = Math.floor((agent.resources.knowledge || 0) * taxRate);
+      case 'dictatorship':
+      case 'monarchy':
+        // The ruler decides, and isn't bound by the evidence
+        if (this.random.next() < 0.5 + (evidence - 0.5) * 0.6) {
+          return { ruling: 'release', reason: `The ${gov.leaderTitle} ruled for the payee` };
+        }
+        return { ruling: 'refund', reason: `The ${gov.leaderTitle} ruled for the payer` };
 
-      agent.resources.food -= foodTax;
-      agent.resources.materials -= materialsTax;
-      agent.resources.knowledge = (agent.resources.knowledge || 0) - knowledgeTax;
+      case 'anarchy':
+        // Nobody enforces anything, so the money goes back where it came from
+        return { ruling: 'refund', reason: 'No authority would hear the case' };
 
-      collected.food += foodTax;
-      collected.materials += materialsTax;
-      collected.knowledge += knowledgeTax;
+      default:
+        // Tribal elders and chiefs favour compromise unless the case is clear
+        if (evidence + noise >= 0.9) return { ruling: 'release', reason: `The ${gov.leaderTitle} ruled for the payee` };
+        if (evidence + noise <= 0.1) return { ruling: 'refund', reason: `The ${gov.leaderTitle} ruled for the payer` };
+        return { ruling: 'split', reason: `The ${gov.leaderTitle} ordered a split` };
     }
+  }
+
+  // Public mood after a round of taxation; `incomeRate` is the income tax the tribe just levied
+  reactToTaxes(tribe: string, incomeRate: number): void {
+    const gov = this.tribalGovernments.get(tribe);
+    if (!gov) return;
 
-    // Low taxation increases approval
-    if (taxRate < 0.1) {
+    // Low taxation increases approval, heavy taxation erodes it
+    if (incomeRate < 0.1) {
       gov.approvalRating = Math.min(100, gov.approvalRating + 2);
+    } else if (incomeRate > 0.2) {
+      gov.approvalRating = Math.max(0, gov.approvalRating - 1);
     }
+  }
+
+  // Public mood in a tribe that has outgrown its land; `load` is population over carrying capacity
+  reactToCrowding(tribe: string, load: number): void {
+    const gov = this.tribalGovernments.get(tribe);
+    if (!gov || load <= 1) return;
 
-    return { collected };
+    // Hungry, crowded people blame their rulers, the more so the further over the limit they are
+    gov.approvalRating = Math.max(0, gov.approvalRating - Math.min(5, (load - 1) * 10));
   }
 
   // Get available policies
@@ -1,6 +1,9 @@
 // Inventory & Equipment System for ClawCiv
 // Agents can collect, craft, and equip items to enhance their abilities
 
+import { Random } from '../engine/Random.ts';
+import type { ResourceTokenRegistry } from '../economy/ResourceTokens.ts';
+
 export type ItemType = 'weapon' | 'armor' | 'accessory' | 'tool' | 'consumable' | 'material';
 export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 export type EquipmentSlot = 'mainhand' | 'offhand' | 'armor' | 'accessory1' | 'accessory2' | 'tool';
@@ -55,6 +58,7 @@ export interface CraftingRecipe {
   id: string;
   resultItem: Partial<Item>;
   materials: { [key: string]: number };
+  tokens?: { [symbol: string]: number }; // Resource tokens ($WHEAT, $BREAD) burned when crafting
   craftingTime: number; // In ticks
   requiredLevel: number;
   requiredSkills?: string[];
@@ -69,14 +73,26 @@ export interface AgentInventory {
 }
 
 export class InventorySystem {
+  private random: Random;
   private inventories: Map<string, AgentInventory> = new Map();
   private itemIdCounter = 0;
   private recipes: CraftingRecipe[] = [];
+  private tokenRegistry: ResourceTokenRegistry | null = null;
 
-  constructor() {
+  constructor(random: Random = new Random()) {
+    this.random = random;
     this.initializeRecipes();
   }
 
+  // Recipes that call for resource tokens can only be crafted once a registry is attached
+  setTokenRegistry(registry: ResourceTokenRegistry): void {
+    this.tokenRegistry = registry;
+  }
+
+  getRecipes(): CraftingRecipe[] {
+    return [...this.recipes];
+  }
+
   // Create inventory for an agent
   createInventory(agentId: string, initialItems: Item[] = []): AgentInventory {
     const inventory: AgentInventory = {
@@ -107,14 +123,14 @@ export class InventorySystem {
   generateItem(level: number, rarity?: ItemRarity, type?: ItemType): Item {
     const selectedRarity = rarity || this.randomRarity(level);
     const itemTypes: ItemType[] = ['weapon', 'armor', 'accessory', 'tool', 'consumable'];
-    const selectedType = type || itemTypes[Math.floor(Math.random() * itemTypes.length)];
+    const selectedType = type || itemTypes[Math.floor(this.random.next() * itemTypes.length)];
 
     const baseStats = this.getBaseStatsForType(selectedType);
     const rarityMultiplier = this.getRarityMultiplier(selectedRarity);
     const levelBonus = level * 2;
 
     const item: Item = {
-      id: `item-${this.itemIdCounter++}-${Date.now()}`,
+      id: `item-${this.itemIdCounter++}-${this.random.now()}`,
       name: this.generateItemName(selectedType, selectedRarity),
       description: this.generateItemDescription(selectedType, selectedRarity),
       type: selectedType,
@@ -133,7 +149,7 @@ export class InventorySystem {
     // Apply stats based on rarity and type
     for (const [stat, baseValue] of Object.entries(baseStats)) {
       const variance = 0.2; // 20% variance
-      const randomMult = 1 + (Math.random() * variance * 2 - variance);
+      const randomMult = 1 + (this.random.next() * variance * 2 - variance);
       const finalValue = Math.floor(baseValue * rarityMultiplier * randomMult + levelBonus * 0.5);
       if (finalValue > 0) {
         (item.stats as any)[stat] = finalValue;
@@ -144,7 +160,7 @@ export class InventorySystem {
   }
 
   private randomRarity(level: number): ItemRarity {
-    const roll = Math.random() * 100;
+    const roll = this.random.next() * 100;
     if (roll < 50) return 'common';
     if (roll < 75) return 'uncommon';
     if (roll < 90) return 'rare';
@@ -181,7 +197,7 @@ export class InventorySystem {
 
   private randomBonusStat(): string {
     const stats = ['attack', 'defense', 'craftingSpeed', 'researchSpeed', 'diplomacyBonus', 'tradeBonus'];
-    return stats[Math.floor(Math.random() * stats.length)];
+    return stats[Math.floor(this.random.next() * stats.length)];
   }
 
   private generateItemName(type: ItemType, rarity: ItemRarity): string {
@@ -203,7 +219,7 @@ export class InventorySystem {
     };
 
     const names = typeNames[type] || typeNames.weapon;
-    const baseName = names[Math.floor(Math.random() * names.length)];
+    const baseName = names[Math.floor(this.random.next() * names.length)];
     return rarityPrefix[rarity] + baseName;
   }
 
@@ -252,7 +268,7 @@ export class InventorySystem {
       const emptySlot = inv.inventory.find(s => s.item === null);
       if (!emptySlot) return false; // Inventory full
 
-      const itemToAdd = { ...item, id: item.stackable ? item.id : `item-${this.itemIdCounter++}-${Date.now()}` };
+      const itemToAdd = { ...item, id: item.stackable ? item.id : `item-${this.itemIdCounter++}-${this.random.now()}` };
       emptySlot.item = itemToAdd;
       emptySlot.quantity = item.stackable ? Math.min(quantity, item.maxStack) : 1;
       quantity -= item.stackable ? emptySlot.quantity : 1;
@@ -380,14 +396,26 @@ export class InventorySystem {
       }
     }
 
-    // Consume materials
+    // Check resource tokens
+    const tokens = Object.entries(recipe.tokens || {});
+    if (tokens.length > 0) {
+      if (!this.tokenRegistry) return false;
+      for (const [symbol, amount] of tokens) {
+        if (this.tokenRegistry.getBalance(symbol, agentId) < amount) return false;
+      }
+    }
+
+    // Consume materials and burn tokens
     for (const [material, amount] of Object.entries(recipe.materials)) {
       this.consumeMaterial(agentId, material, amount);
     }
+    for (const [symbol, amount] of tokens) {
+      this.tokenRegistry!.burn(symbol, agentId, amount, `Crafted ${recipe.resultItem.name || recipe.id}`);
+    }
 
     // Create result item
     const resultItem: Item = {
-      id: `item-${this.itemIdCounter++}-${Date.now()}`,
+      id: `item-${this.itemIdCounter++}-${this.random.now()}`,
       name: recipe.resultItem.name || 'Crafted Item',
       description: recipe.resultItem.description || 'Crafted by hand',
       type: recipe.resultItem.type || 'weapon',
@@ -595,6 +623,24 @@ export class InventorySystem {
         craftingTime: 6,
         requiredLevel: 3,
         requiredSkills: ['crafting']
+      },
+      {
+        id: 'bread_ration',
+        resultItem: {
+          name: 'Bread Ration',
+          description: 'Baked from $BREAD, keeps a traveller going',
+          type: 'consumable',
+          rarity: 'common',
+          icon: '🍞',
+          stats: { health: 20, speed: 2 },
+          value: 12,
+          stackable: true,
+          maxStack: 10
+        },
+        materials: {},
+        tokens: { BREAD: 2 }, // Needs someone to have launched $BREAD
+        craftingTime: 1,
+        requiredLevel: 1
       }
     ];
   }
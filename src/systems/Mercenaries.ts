@@ -1,6 +1,8 @@
 // Mercenary/Hiring System for ClawCiv
 // Hire temporary soldiers for gold/tokens with contracts and loyalty mechanics
 
+import { Random } from '../engine/Random.ts';
+
 export type MercenaryType = 'infantry' | 'archer' | 'cavalry' | 'siege' | 'elite' | 'specialist';
 export type ContractStatus = 'active' | 'deserted' | 'completed' | 'terminated' | 'expired';
 export type CompanyReputation = 'dubious' | 'reliable' | 'honorable' | 'legendary';
@@ -81,13 +83,15 @@ export interface MercenaryRoster {
 }
 
 export class MercenarySystem {
+  private random: Random;
   private contracts: Map<string, MercenaryContract> = new Map();
   private companies: Map<string, MercenaryCompany> = new Map();
   private rosters: Map<string, MercenaryRoster> = new Map();
   private contractIdCounter = 0;
   private companyIdCounter = 0;
 
-  constructor() {
+  constructor(random: Random = new Random()) {
+    this.random = random;
     this.initializeCompanies();
   }
 
@@ -182,7 +186,7 @@ export class MercenarySystem {
 
     for (const config of companyConfigs) {
       const company: MercenaryCompany = {
-        id: `company-${this.companyIdCounter++}-${Date.now()}`,
+        id: `company-${this.companyIdCounter++}-${this.random.now()}`,
         ...config,
         availableUnits: config.maxUnits,
         totalContracts: 0,
@@ -225,7 +229,7 @@ export class MercenarySystem {
 
     // Create contract
     const contract: MercenaryContract = {
-      id: `contract-${this.contractIdCounter++}-${Date.now()}`,
+      id: `contract-${this.contractIdCounter++}-${this.random.now()}`,
       companyId,
       companyName: company.name,
       employerTribe,
@@ -240,9 +244,9 @@ export class MercenarySystem {
       dailyWages,
       signingBonus: company.signingBonus,
       combatPower: this.calculateCombatPower(mercenaryType, unitCount, company.baseSkill),
-      skill: company.baseSkill + Math.floor(Math.random() * 10) - 5,
-      morale: 70 + Math.floor(Math.random() * 20),
-      loyalty: company.baseLoyalty + Math.floor(Math.random() * 10) - 5,
+      skill: company.baseSkill + Math.floor(this.random.next() * 10) - 5,
+      morale: 70 + Math.floor(this.random.next() * 20),
+      loyalty: company.baseLoyalty + Math.floor(this.random.next() * 10) - 5,
       battlesFought: 0,
       enemiesDefeated: 0,
       casualties: 0,
@@ -362,7 +366,7 @@ export class MercenarySystem {
         }
 
         // Check for desertion
-        if (contract.loyalty <= 0 && Math.random() < 0.3) {
+        if (contract.loyalty <= 0 && this.random.next() < 0.3) {
           this.desertContract(contract.id);
           deserted.push(contract);
           continue;
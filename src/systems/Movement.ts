@@ -0,0 +1,235 @@
+// Movement System for ClawCiv
+// Agents walk to where they're going instead of hopping: A* finds the cheapest route over grid cells and each
+// day's movement points carry the agent part of the way, so a journey across mountains takes days.
+
+import { Biome } from '../engine/WorldMap.ts';
+import { WorldConfig, WorldPoint, TileCoord, createWorldConfig, worldToTile, tileCenter } from '../engine/WorldConfig.ts';
+
+export type JourneyPurpose = 'explore' | 'gather' | 'quest' | 'migrate' | 'meet' | 'battle';
+
+export type JourneyGoal =
+  | { type: 'tile'; x: number; y: number }   // Walk to the centre of a grid cell
+  | { type: 'agent'; agentId: string };      // Walk until within reach of another agent, following them as they move
+
+export interface Journey {
+  agentId: string;
+  goal: JourneyGoal;
+  purpose: JourneyPurpose;
+  path: TileCoord[];    // Cells still to enter, next first
+  progress: number;     // Movement points already spent toward path[0]
+  from: WorldPoint;     // Where the current step started
+  startedDay: number;
+}
+
+export interface MoveResult {
+  position: WorldPoint;
+  arrived: boolean;
+  stuck: boolean;       // No route is left to the goal; the journey is dropped
+}
+
+// Movement points it costs to enter a cell; Infinity when it can't be entered
+export type StepCost = (tile: TileCoord) => number;
+
+// Points to enter a cell of each biome before roads, borders and weather
+export const TERRAIN_COSTS: { [biome in Biome]: number } = {
+  plains: 1,
+  coast: 1.2,
+  forest: 1.5,
+  desert: 1.5,
+  river: 2,
+  tundra: 2,
+  mountain: 4
+};
+
+export const ROAD_COST_MULTIPLIER = 0.5;
+export const ENEMY_TERRITORY_COST_MULTIPLIER = 2;
+
+// Cheapest any cell can be to enter (a road across plains); keeps the A* heuristic admissible
+const MIN_STEP_COST = TERRAIN_COSTS.plains * ROAD_COST_MULTIPLIER;
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export class MovementSystem {
+  private readonly world: WorldConfig;
+  private readonly reach: number;
+  private journeys: Map<string, Journey> = new Map();
+
+  // `reach` is how close an agent goal has to be before the journey ends
+  constructor(world: WorldConfig = createWorldConfig(), reach: number = 1) {
+    this.world = world;
+    this.reach = reach;
+  }
+
+  // Cheapest route from `start` to `goal` as the cells to enter in order; [] when already there, null when unreachable
+  findPath(start: TileCoord, goal: TileCoord, cost: StepCost): TileCoord[] | null {
+    const size = this.world.gridSize;
+    const key = (tile: TileCoord) => tile.y * size + tile.x;
+    const heuristic = (tile: TileCoord) => (Math.abs(tile.x - goal.x) + Math.abs(tile.y - goal.y)) * MIN_STEP_COST;
+
+    const spent = new Map<number, number>([[key(start), 0]]);
+    const cameFrom = new Map<number, TileCoord>();
+    const open: { tile: TileCoord; estimate: number }[] = [{ tile: start, estimate: heuristic(start) }];
+    const closed = new Set<number>();
+
+    while (open.length > 0) {
+      // The grid is small, so a linear scan beats keeping a heap in order
+      let best = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (open[i].estimate < open[best].estimate) best = i;
+      }
+      const { tile } = open.splice(best, 1)[0];
+      const tileKey = key(tile);
+      if (closed.has(tileKey)) continue;
+      closed.add(tileKey);
+
+      if (tile.x === goal.x && tile.y === goal.y) {
+        const path: TileCoord[] = [];
+        for (let step: TileCoord | undefined = tile; step && key(step) !== key(start); step = cameFrom.get(key(step))) {
+          path.unshift(step);
+        }
+        return path;
+      }
+
+      for (const [dx, dy] of NEIGHBOURS) {
+        const next = { x: tile.x + dx, y: tile.y + dy };
+        if (next.x < 0 || next.y < 0 || next.x >= size || next.y >= size || closed.has(key(next))) continue;
+        const stepCost = cost(next);
+        if (!Number.isFinite(stepCost)) continue;
+
+        const total = spent.get(tileKey)! + stepCost;
+        if (total >= (spent.get(key(next)) ?? Infinity)) continue;
+        spent.set(key(next), total);
+        cameFrom.set(key(next), tile);
+        open.push({ tile: next, estimate: total + heuristic(next) });
+      }
+    }
+
+    return null;
+  }
+
+  // Sets the agent on its way; heading for the goal it already has keeps the progress made so far.
+  // Returns why the journey can't start, or null if it has.
+  startJourney(
+    agentId: string,
+    goal: JourneyGoal,
+    purpose: JourneyPurpose,
+    position: WorldPoint,
+    goalTile: TileCoord,
+    cost: StepCost,
+    currentDay: number
+  ): string | null {
+    const current = this.journeys.get(agentId);
+    if (current && this.sameGoal(current.goal, goal)) {
+      current.purpose = purpose;
+      return null;
+    }
+
+    const path = this.findPath(worldToTile(this.world, position.x, position.z), goalTile, cost);
+    if (!path) return 'no route';
+
+    this.journeys.set(agentId, { agentId, goal, purpose, path, progress: 0, from: { ...position }, startedDay: currentDay });
+    return null;
+  }
+
+  getJourney(agentId: string): Journey | undefined {
+    return this.journeys.get(agentId);
+  }
+
+  getJourneys(): Journey[] {
+    return Array.from(this.journeys.values());
+  }
+
+  cancelJourney(agentId: string): void {
+    this.journeys.delete(agentId);
+  }
+
+  // Spends a day's movement points along the journey. `target` is where an agent goal stands now,
+  // or undefined if it's gone. Finished and stuck journeys are dropped.
+  advance(agentId: string, position: WorldPoint, points: number, cost: StepCost, target?: WorldPoint): MoveResult {
+    const journey = this.journeys.get(agentId);
+    if (!journey) return { position, arrived: false, stuck: false };
+
+    let here = { ...position };
+    if (journey.goal.type === 'agent') {
+      if (!target) return this.drop(agentId, here, false);
+      if (this.distance(here, target) <= this.reach) return this.drop(agentId, here, true);
+
+      // Follow the target if it has moved to another cell
+      const goalTile = worldToTile(this.world, target.x, target.z);
+      const end = journey.path[journey.path.length - 1] ?? worldToTile(this.world, here.x, here.z);
+      if (end.x !== goalTile.x || end.y !== goalTile.y) {
+        const path = this.findPath(worldToTile(this.world, here.x, here.z), goalTile, cost);
+        if (!path) return this.drop(agentId, here, false);
+        journey.path = path;
+        journey.progress = 0;
+        journey.from = here;
+      }
+    }
+
+    let budget = points;
+    while (journey.path.length > 0 && budget > 0) {
+      const next = journey.path[0];
+      const stepCost = cost(next);
+      if (!Number.isFinite(stepCost)) return this.drop(agentId, here, false);
+
+      const center = tileCenter(this.world, next);
+      const spend = Math.min(budget, stepCost - journey.progress);
+      journey.progress += spend;
+      budget -= spend;
+
+      if (journey.progress >= stepCost - 1e-9) {
+        here = { x: center.x, z: center.z };
+        journey.path.shift();
+        journey.progress = 0;
+        journey.from = here;
+      } else {
+        // Part of the way there: somewhere on the line between where the step began and the cell's centre
+        const share = journey.progress / stepCost;
+        here = {
+          x: journey.from.x + (center.x - journey.from.x) * share,
+          z: journey.from.z + (center.z - journey.from.z) * share
+        };
+      }
+    }
+
+    if (journey.path.length > 0) return { position: here, arrived: false, stuck: false };
+
+    // In the goal's cell: close the last stretch, paid for like a step across this cell
+    const dest = journey.goal.type === 'tile' ? tileCenter(this.world, journey.goal) : target!;
+    const stop = journey.goal.type === 'tile' ? 0 : this.reach / 2;
+    const gap = this.distance(here, dest);
+    const stride = budget / Math.max(MIN_STEP_COST, cost(worldToTile(this.world, here.x, here.z))) * this.world.worldSize / this.world.gridSize;
+    if (stride >= gap - stop) {
+      const share = gap > 0 ? (gap - stop) / gap : 0;
+      return this.drop(agentId, { x: here.x + (dest.x - here.x) * share, z: here.z + (dest.z - here.z) * share }, true);
+    }
+    const share = stride / gap;
+    journey.from = { x: here.x + (dest.x - here.x) * share, z: here.z + (dest.z - here.z) * share };
+    return { position: journey.from, arrived: false, stuck: false };
+  }
+
+  private drop(agentId: string, position: WorldPoint, arrived: boolean): MoveResult {
+    this.journeys.delete(agentId);
+    return { position, arrived, stuck: !arrived };
+  }
+
+  private sameGoal(a: JourneyGoal, b: JourneyGoal): boolean {
+    if (a.type === 'tile' && b.type === 'tile') return a.x === b.x && a.y === b.y;
+    if (a.type === 'agent' && b.type === 'agent') return a.agentId === b.agentId;
+    return false;
+  }
+
+  private distance(a: WorldPoint, b: WorldPoint): number {
+    return Math.sqrt((a.x - b.x) ** 2 + (a.z - b.z) ** 2);
+  }
+
+  public serialize(): any {
+    return {
+      journeys: Array.from(this.journeys.entries())
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.journeys = new Map(data.journeys || []);
+  }
+}
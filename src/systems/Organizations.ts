@@ -1,6 +1,8 @@
 // Organization System for ClawCiv
 // Agents can form corporations, guilds, DAOs, cooperatives, etc.
 
+import { Random } from '../engine/Random.ts';
+
 export type OrgType = 'corporation' | 'guild' | 'dao' | 'cooperative' | 'union' | 'religion' | 'cult';
 
 export interface Organization {
@@ -40,10 +42,13 @@ export interface Organization {
 }
 
 export class OrganizationSystem {
+  private random: Random;
   private organizations: Map<string, Organization> = new Map();
   private orgIdCounter = 0;
 
-  constructor() {}
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
 
   // Create a new organization
   createOrganization(
@@ -62,7 +67,7 @@ export class OrganizationSystem {
     }
 
     const org: Organization = {
-      id: `org-${this.orgIdCounter++}-${Date.now()}`,
+      id: `org-${this.orgIdCounter++}-${this.random.now()}`,
       name,
       type,
       tribe,
@@ -70,7 +75,7 @@ export class OrganizationSystem {
       icon: this.getOrgIcon(type),
       leaderId,
       members: new Set(foundingMembers),
-      foundedDay: Date.now(),
+      foundedDay: this.random.now(),
       resources: {
         treasury: 100,
         food: 50,
@@ -265,6 +270,15 @@ export class OrganizationSystem {
     return true;
   }
 
+  // Dissolve an organization outright, e.g. on bankruptcy. Returns it so callers can settle its assets.
+  dissolveOrganization(orgId: string): Organization | null {
+    const org = this.organizations.get(orgId);
+    if (!org) return null;
+
+    this.organizations.delete(orgId);
+    return org;
+  }
+
   // Split an organization (creates new org with portion of members)
   splitOrganization(orgId: string, newLeaderId: string, splitPercent: number = 0.5): Organization | null {
     const org = this.organizations.get(orgId);
@@ -284,7 +298,7 @@ export class OrganizationSystem {
         org.members.delete(memberId);
         transferredMembers.push(memberId);
         count++;
-      } else if (Math.random() < splitPercent && count < membersToTransfer - 1) {
+      } else if (this.random.next() < splitPercent && count < membersToTransfer - 1) {
         org.members.delete(memberId);
         transferredMembers.push(memberId);
         count++;
@@ -368,8 +382,8 @@ export class OrganizationSystem {
       org.stats.productivity = Math.min(100, org.stats.productivity + productivityGain * 0.1);
 
       // Approval changes slowly
-      if (Math.random() < 0.05) {
-        const change = Math.floor(Math.random() * 10) - 3; // -3 to +6
+      if (this.random.next() < 0.05) {
+        const change = Math.floor(this.random.next() * 10) - 3; // -3 to +6
         org.stats.approval = Math.max(0, Math.min(100, org.stats.approval + change));
       }
     }
@@ -449,7 +463,7 @@ export class OrganizationSystem {
         // Find a member to lead the split
         const members = Array.from(org.members).filter(m => m !== org.leaderId);
         if (members.length > 0) {
-          const newLeader = members[Math.floor(Math.random() * members.length)];
+          const newLeader = members[Math.floor(this.random.next() * members.length)];
           const splinter = this.splitOrganization(org.id, newLeader, 0.3);
           if (splinter) {
             events.push(`⚡ ${org.name} split! ${splinter.name} formed with ${splinter.members.size} members.`);
@@ -471,8 +485,8 @@ export class OrganizationSystem {
           o.stats.influence < org.stats.influence * 0.5
         );
 
-        if (smallerOrgs.length > 0 && Math.random() < 0.05) {
-          const target = smallerOrgs[Math.floor(Math.random() * smallerOrgs.length)];
+        if (smallerOrgs.length > 0 && this.random.next() < 0.05) {
+          const target = smallerOrgs[Math.floor(this.random.next() * smallerOrgs.length)];
           if (this.hostileTakeover(target.id, org.id)) {
             events.push(`🏢 ${org.name} has acquired ${target.name}!`);
           }
@@ -485,7 +499,10 @@ export class OrganizationSystem {
 
   public serialize(): any {
     return {
-      organizations: Array.from(this.organizations.entries()),
+      organizations: Array.from(this.organizations.entries()).map(([id, org]) => [id, {
+        ...org,
+        members: Array.from(org.members)
+      }]),
       orgIdCounter: this.orgIdCounter
     };
   }
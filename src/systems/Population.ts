@@ -1,6 +1,9 @@
 // Population/Demographics System for ClawCiv
 // Tracks age groups, birth rates, death rates, and population dynamics
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export type AgeGroup = 'child' | 'adult' | 'elder' | 'ancient';
 export type LifeStage = 'infant' | 'child' | 'teenager' | 'young_adult' | 'adult' | 'middle_aged' | 'elder' | 'ancient';
 
@@ -57,6 +60,7 @@ export interface PopulationTrend {
 }
 
 export class PopulationSystem {
+  private random: Random;
   private demographics: Map<string, AgentDemographics> = new Map();
   private events: PopulationEvent[] = [];
   private statistics: Map<string, PopulationStatistics> = new Map();
@@ -70,8 +74,16 @@ export class PopulationSystem {
   private readonly MATURITY_AGE = 60; // days until adulthood
   private readonly ELDER_AGE = 300; // days until elder status
   private readonly ANCIENT_AGE = 450; // days until ancient status
+  private readonly POPULATION_HEADROOM = 2; // Tribes take in deployments up to this many times their founding size
+  private readonly MAX_TRIBE_POPULATION: number;
+
+  private readonly TRIBES: string[];
 
-  constructor() {}
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.TRIBES = [...world.tribes];
+    this.MAX_TRIBE_POPULATION = world.agentsPerTribe * this.POPULATION_HEADROOM;
+  }
 
   // Register a new agent (born or created)
   registerAgent(
@@ -102,8 +114,8 @@ export class PopulationSystem {
     this.birthsToday.set(tribe, this.birthsToday.get(tribe)! + 1);
 
     // Record birth event
-    this.recordEvent({
-      id: `event-${this.eventIdCounter++}-${Date.now()}`,
+    this.events.push({
+      id: `event-${this.eventIdCounter++}-${this.random.now()}`,
       type: 'birth',
       agentId,
       agentName: 'New Agent',
@@ -120,16 +132,17 @@ export class PopulationSystem {
   private calculateLifespan(): number {
     // Lifespan varies between 400-600 days (random factor)
     const base = this.BASE_LIFESPAN;
-    const variation = Math.random() * 200 - 100; // -100 to +100
+    const variation = this.random.next() * 200 - 100; // -100 to +100
     return Math.floor(base + variation);
   }
 
   // Update agent age and check for age-based events
   updateAges(currentDay: number, agents: any[]): PopulationEvent[] {
     const newEvents: PopulationEvent[] = [];
+    const agentsById = new Map<string, any>(agents.map(a => [a.id, a]));
 
     for (const [agentId, demo] of this.demographics) {
-      const agent = agents.find(a => a.id === agentId);
+      const agent = agentsById.get(agentId);
       if (!agent || !agent.alive) {
         // Agent died, continue
         continue;
@@ -148,7 +161,7 @@ export class PopulationSystem {
       // Check for coming of age
       if (oldAgeGroup === 'child' && demo.ageGroup === 'adult') {
         const event: PopulationEvent = {
-          id: `event-${this.eventIdCounter++}-${Date.now()}`,
+          id: `event-${this.eventIdCounter++}-${this.random.now()}`,
           type: 'coming_of_age',
           agentId,
           agentName: agent.name,
@@ -165,7 +178,7 @@ export class PopulationSystem {
       // Check for elder status
       if (oldAgeGroup === 'adult' && demo.ageGroup === 'elder') {
         const event: PopulationEvent = {
-          id: `event-${this.eventIdCounter++}-${Date.now()}`,
+          id: `event-${this.eventIdCounter++}-${this.random.now()}`,
           type: 'retirement',
           agentId,
           agentName: agent.name,
@@ -185,7 +198,7 @@ export class PopulationSystem {
       // Check for milestone ages
       if (demo.age % 100 === 0 && demo.age > 0) {
         const event: PopulationEvent = {
-          id: `event-${this.eventIdCounter++}-${Date.now()}`,
+          id: `event-${this.eventIdCounter++}-${this.random.now()}`,
           type: 'milestone',
           agentId,
           agentName: agent.name,
@@ -205,7 +218,7 @@ export class PopulationSystem {
         this.deathsToday.set(agent.tribe, (this.deathsToday.get(agent.tribe) || 0) + 1);
 
         const event: PopulationEvent = {
-          id: `event-${this.eventIdCounter++}-${Date.now()}`,
+          id: `event-${this.eventIdCounter++}-${this.random.now()}`,
           type: 'death',
           agentId,
           agentName: agent.name,
@@ -257,9 +270,7 @@ export class PopulationSystem {
   // Check for births (procreation)
   checkBirths(agents: any[], currentDay: number, tribeResources: Map<string, any>): PopulationEvent[] {
     const newEvents: PopulationEvent[] = [];
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
-
-    for (const tribe of tribes) {
+    for (const tribe of this.TRIBES) {
       // Get tribe resources
       const resources = tribeResources.get(tribe);
       if (!resources) continue;
@@ -270,19 +281,20 @@ export class PopulationSystem {
         return demo && demo.ageGroup === 'adult' && demo.fertility > 30;
       });
 
-      // Birth chance depends on food and population
+      // Birth chance depends on food and population; none once the tribe's land can't feed another mouth
       const food = resources.food || 0;
       const population = tribeAgents.length;
+      if (resources.capacity !== undefined && population >= resources.capacity) continue;
       const birthChance = (food / 1000) * (adults.length / population) * 0.02;
 
-      if (Math.random() < birthChance && adults.length >= 2) {
+      if (this.random.next() < birthChance && adults.length >= 2) {
         // Select parents
-        const father = adults[Math.floor(Math.random() * adults.length)];
-        const mother = adults[Math.floor(Math.random() * adults.length)];
+        const father = adults[Math.floor(this.random.next() * adults.length)];
+        const mother = adults[Math.floor(this.random.next() * adults.length)];
 
         if (father.id !== mother.id) {
           // Create baby
-          const babyId = `agent-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+          const babyId = `agent-${this.random.now()}-${Math.floor(this.random.next() * 10000)}`;
           const baby = this.registerAgent(babyId, tribe, currentDay, {
             father: father.id,
             mother: mother.id
@@ -296,7 +308,7 @@ export class PopulationSystem {
 
           // Record birth event
           const event: PopulationEvent = {
-            id: `event-${this.eventIdCounter++}-${Date.now()}`,
+            id: `event-${this.eventIdCounter++}-${this.random.now()}`,
             type: 'birth',
             agentId: babyId,
             agentName: 'Newborn',
@@ -315,6 +327,13 @@ export class PopulationSystem {
     return newEvents;
   }
 
+  // How many more agents a tribe can take in right now; `landCapacity` is how many its land feeds, when known
+  getAvailableCapacity(tribe: string, agents: any[], landCapacity?: number): number {
+    const population = agents.filter(a => a.tribe === tribe && a.alive).length;
+    const limit = landCapacity === undefined ? this.MAX_TRIBE_POPULATION : Math.min(this.MAX_TRIBE_POPULATION, Math.floor(landCapacity));
+    return Math.max(0, limit - population);
+  }
+
   // Record a marriage between two agents
   recordMarriage(agent1Id: string, agent2Id: string, day: number, agents: any[]): boolean {
     const demo1 = this.demographics.get(agent1Id);
@@ -332,7 +351,7 @@ export class PopulationSystem {
     demo2.spouse = agent1Id;
 
     const event: PopulationEvent = {
-      id: `event-${this.eventIdCounter++}-${Date.now()}`,
+      id: `event-${this.eventIdCounter++}-${this.random.now()}`,
       type: 'marriage',
       agentId: agent1Id,
       agentName: agent1.name,
@@ -409,7 +428,7 @@ export class PopulationSystem {
 
   // Get all statistics
   getAllStatistics(agents: any[]): Map<string, PopulationStatistics> {
-    for (const tribe of ['Alpha', 'Beta', 'Gamma']) {
+    for (const tribe of this.TRIBES) {
       this.getPopulationStatistics(tribe, agents);
     }
     return this.statistics;
@@ -427,7 +446,7 @@ export class PopulationSystem {
 
   // Record a population trend (for historical tracking)
   recordTrend(day: number, agents: any[]): void {
-    for (const tribe of ['Alpha', 'Beta', 'Gamma']) {
+    for (const tribe of this.TRIBES) {
       const tribeAgents = agents.filter(a => a.tribe === tribe && a.alive);
       const demographics = tribeAgents
         .map(a => this.demographics.get(a.id))
@@ -530,7 +549,9 @@ export class PopulationSystem {
       events: this.events,
       statistics: Array.from(this.statistics.entries()),
       trends: this.trends,
-      eventIdCounter: this.eventIdCounter
+      eventIdCounter: this.eventIdCounter,
+      birthsToday: Array.from(this.birthsToday.entries()),
+      deathsToday: Array.from(this.deathsToday.entries())
     };
   }
 
@@ -540,5 +561,7 @@ export class PopulationSystem {
     this.statistics = new Map(data.statistics || []);
     this.trends = data.trends || [];
     this.eventIdCounter = data.eventIdCounter || 0;
+    this.birthsToday = new Map(data.birthsToday || []);
+    this.deathsToday = new Map(data.deathsToday || []);
   }
 }
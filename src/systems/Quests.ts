@@ -1,6 +1,9 @@
 // Quest/Mission System for ClawCiv
 // Agents can be assigned missions to complete for rewards
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, TileCoord, createWorldConfig, clampTile } from '../engine/WorldConfig.ts';
+
 export type QuestType = 'gather' | 'combat' | 'research' | 'build' | 'explore' | 'trade' | 'diplomacy' | 'hunting' | 'rescue' | 'escort';
 export type QuestDifficulty = 'trivial' | 'easy' | 'normal' | 'hard' | 'extreme' | 'legendary';
 export type QuestStatus = 'available' | 'active' | 'completed' | 'failed' | 'abandoned' | 'expired';
@@ -33,7 +36,7 @@ export interface Quest {
     targetAgentId?: string;
     targetAmount?: number;
     targetResource?: string;
-    targetLocation?: { x: number; y: number };
+    targetLocation?: TileCoord;
     targetTech?: string;
     targetTribe?: string;
     minLevel?: number;
@@ -63,6 +66,7 @@ export interface Quest {
 }
 
 export class QuestSystem {
+  private random: Random;
   private quests: Map<string, Quest> = new Map();
   private questIdCounter = 0;
   private questChains: Map<string, Quest[]> = new Map();
@@ -71,6 +75,15 @@ export class QuestSystem {
   private dailyQuests: Map<string, Quest> = new Map(); // tribe -> daily quest
   private lastDailyReset: number = 0;
 
+  private readonly TRIBES: string[];
+  private readonly world: WorldConfig;
+
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.TRIBES = [...world.tribes];
+    this.world = world;
+  }
+
   generateQuest(agent: any): Quest | null {
     // Quests have specific requirements based on agent skills and tribe
     if (!agent.alive) return null;
@@ -84,8 +97,8 @@ export class QuestSystem {
         icon: '📦',
         canAssign: (a: any) => a.skills.includes('farming') || a.skills.includes('mining'),
         generateRequirements: (a: any) => ({
-          targetResource: Math.random() > 0.5 ? 'food' : 'materials',
-          targetAmount: 50 + Math.floor(Math.random() * 100)
+          targetResource: this.random.next() > 0.5 ? 'food' : 'materials',
+          targetAmount: 50 + Math.floor(this.random.next() * 100)
         }),
         rewards: { tokens: 25, experience: 30 }
       },
@@ -98,7 +111,8 @@ export class QuestSystem {
         canAssign: (a: any) => a.skills.includes('combat'),
         generateRequirements: (a: any) => ({
           targetAgentId: null, // Will be set by game engine
-          targetTribe: a.tribe === 'Alpha' ? 'Beta' : a.tribe === 'Beta' ? 'Gamma' : 'Alpha'
+          // Target the next tribe round the world list
+          targetTribe: this.TRIBES[(this.TRIBES.indexOf(a.tribe) + 1) % this.TRIBES.length]
         }),
         rewards: { tokens: 50, experience: 75 }
       },
@@ -111,7 +125,7 @@ export class QuestSystem {
         canAssign: (a: any) => a.skills.includes('research'),
         generateRequirements: (a: any) => ({
           targetResource: 'knowledge',
-          targetAmount: 30 + Math.floor(Math.random() * 50)
+          targetAmount: 30 + Math.floor(this.random.next() * 50)
         }),
         rewards: { tokens: 35, experience: 50, resources: { knowledge: 20 } }
       },
@@ -124,7 +138,7 @@ export class QuestSystem {
         canAssign: (a: any) => a.skills.includes('building'),
         generateRequirements: (a: any) => ({
           targetResource: 'materials',
-          targetAmount: 80 + Math.floor(Math.random() * 120)
+          targetAmount: 80 + Math.floor(this.random.next() * 120)
         }),
         rewards: { tokens: 40, experience: 60 }
       },
@@ -136,7 +150,7 @@ export class QuestSystem {
         icon: '🗺️',
         canAssign: (a: any) => a.skills.includes('trade') || a.skills.includes('diplomacy'),
         generateRequirements: (a: any) => ({
-          targetAmount: 3 + Math.floor(Math.random() * 5) // Territories to claim
+          targetAmount: 3 + Math.floor(this.random.next() * 5) // Territories to claim
         }),
         rewards: { tokens: 30, experience: 40, resources: { socialCapital: 15 } }
       },
@@ -148,7 +162,7 @@ export class QuestSystem {
         icon: '💰',
         canAssign: (a: any) => a.skills.includes('trade'),
         generateRequirements: (a: any) => ({
-          targetAmount: 2 + Math.floor(Math.random() * 3) // Trades to complete
+          targetAmount: 2 + Math.floor(this.random.next() * 3) // Trades to complete
         }),
         rewards: { tokens: 45, experience: 50, resources: { socialCapital: 25 } }
       },
@@ -160,7 +174,7 @@ export class QuestSystem {
         icon: '🤝',
         canAssign: (a: any) => a.skills.includes('diplomacy'),
         generateRequirements: (a: any) => ({
-          targetAmount: 2 + Math.floor(Math.random() * 2) // Alliances to form
+          targetAmount: 2 + Math.floor(this.random.next() * 2) // Alliances to form
         }),
         rewards: { tokens: 60, experience: 80, resources: { socialCapital: 40 } }
       },
@@ -173,7 +187,7 @@ export class QuestSystem {
         icon: '🏹',
         canAssign: (a: any) => a.skills.includes('combat'),
         generateRequirements: (a: any) => ({
-          targetAmount: 3 + Math.floor(Math.random() * 5)
+          targetAmount: 3 + Math.floor(this.random.next() * 5)
         }),
         rewards: { tokens: 40, experience: 45, resources: { food: 30 } }
       },
@@ -197,11 +211,11 @@ export class QuestSystem {
     if (availableTypes.length === 0) return null;
 
     // Randomly select a quest type
-    const selectedType = availableTypes[Math.floor(Math.random() * availableTypes.length)];
+    const selectedType = availableTypes[Math.floor(this.random.next() * availableTypes.length)];
     const requirements = selectedType.generateRequirements(agent);
 
     // Determine if this should be a hero quest (legendary difficulty)
-    const isHeroQuest = agent.level >= 10 && Math.random() < 0.1;
+    const isHeroQuest = agent.level >= 10 && this.random.next() < 0.1;
 
     // Generate quest details
     const questDetails = this.generateQuestDetails(selectedType, agent, requirements, isHeroQuest);
@@ -217,7 +231,7 @@ export class QuestSystem {
     const timeLimit = timeLimits[selectedType.difficulty];
 
     const quest: Quest = {
-      id: `quest-${this.questIdCounter++}-${Date.now()}`,
+      id: `quest-${this.questIdCounter++}-${this.random.now()}`,
       name: questDetails.name,
       description: questDetails.description,
       type: selectedType.type,
@@ -226,10 +240,10 @@ export class QuestSystem {
       rewards,
       requirements: {
         ...requirements,
-        targetLocation: {
-          x: Math.floor(Math.random() * 10),
-          y: Math.floor(Math.random() * 10)
-        },
+        targetLocation: clampTile(this.world, {
+          x: this.random.next() * this.world.gridSize,
+          y: this.random.next() * this.world.gridSize
+        }),
         minLevel: isHeroQuest ? 10 : undefined,
         requiredSkills: selectedType.canAssign(agent) ? [agent.skills.find((s: string) => selectedType.canAssign({ skills: [s] }))] : undefined
       },
@@ -240,7 +254,7 @@ export class QuestSystem {
       assignedAgentId: agent.id,
       status: 'active',
       timeLimit,
-      startTime: Date.now(),
+      startTime: this.random.now(),
       failures: 0,
       maxFailures: this.getMaxFailures(isHeroQuest ? 'legendary' : selectedType.difficulty),
       isChainQuest: false,
@@ -289,7 +303,7 @@ export class QuestSystem {
       case 'gather':
       case 'research':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: `收集/生产${requirements.targetAmount}个${this.getResourceName(requirements.targetResource)}`,
           type: 'collect',
           target: requirements.targetResource,
@@ -301,7 +315,7 @@ export class QuestSystem {
 
       case 'build':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: '建造建筑',
           type: 'build',
           target: requirements.targetResource,
@@ -313,7 +327,7 @@ export class QuestSystem {
 
       case 'explore':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: `探索${requirements.targetAmount}个新区域`,
           type: 'explore',
           target: requirements.targetAmount,
@@ -325,7 +339,7 @@ export class QuestSystem {
 
       case 'trade':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: `完成${requirements.targetAmount}次交易`,
           type: 'trade',
           target: requirements.targetAmount,
@@ -337,7 +351,7 @@ export class QuestSystem {
 
       case 'diplomacy':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: `建立${requirements.targetAmount}个外交关系`,
           type: 'talk_to',
           target: requirements.targetAmount,
@@ -350,7 +364,7 @@ export class QuestSystem {
       case 'combat':
       case 'hunting':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: type.type === 'hunting' ? '击败野兽' : '击败敌人',
           type: 'defeat',
           target: requirements.targetAmount,
@@ -362,7 +376,7 @@ export class QuestSystem {
 
       case 'rescue':
         objectives.push({
-          id: `obj-${Date.now()}-1`,
+          id: `obj-${this.random.now()}-1`,
           description: '营救盟友',
           type: 'reach',
           target: 1,
@@ -371,7 +385,7 @@ export class QuestSystem {
           unit: 'agent'
         });
         objectives.push({
-          id: `obj-${Date.now()}-2`,
+          id: `obj-${this.random.now()}-2`,
           description: '返回基地',
           type: 'reach',
           target: 1,
@@ -456,10 +470,10 @@ export class QuestSystem {
 
     // Generate a simple daily quest
     const dailyQuestTypes: QuestType[] = ['gather', 'explore'];
-    const selectedType = dailyQuestTypes[Math.floor(Math.random() * dailyQuestTypes.length)];
+    const selectedType = dailyQuestTypes[Math.floor(this.random.next() * dailyQuestTypes.length)];
 
     const quest: Quest = {
-      id: `daily-${this.questIdCounter++}-${Date.now()}`,
+      id: `daily-${this.questIdCounter++}-${this.random.now()}`,
       name: `日常任务：${selectedType === 'gather' ? '资源收集' : '领土探索'}`,
       description: selectedType === 'gather' ? '为部落收集基本资源。' : '探索周边区域，扩大领地。',
       type: selectedType,
@@ -474,7 +488,7 @@ export class QuestSystem {
         targetAmount: selectedType === 'explore' ? 2 : 25
       },
       objectives: [{
-        id: `obj-${Date.now()}-1`,
+        id: `obj-${this.random.now()}-1`,
         description: selectedType === 'gather' ? '收集25个食物' : '探索2个区域',
         type: selectedType === 'gather' ? 'collect' : 'explore',
         target: selectedType === 'gather' ? 'food' : 2,
@@ -488,7 +502,7 @@ export class QuestSystem {
       assignedAgentId: '', // Available to any agent
       status: 'available',
       timeLimit: 7, // 7 days to complete daily quest
-      startTime: Date.now(),
+      startTime: this.random.now(),
       failures: 0,
       maxFailures: 3,
       isChainQuest: false,
@@ -528,6 +542,19 @@ export class QuestSystem {
     return false;
   }
 
+  // Counts toward the current objective, moving on to the next once it's met; returns true when the quest completes
+  advanceObjective(questId: string, amount: number = 1): boolean {
+    const quest = this.quests.get(questId);
+    if (!quest || quest.status !== 'active') return false;
+
+    const objective = quest.objectives[quest.currentObjectiveIndex];
+    if (objective) {
+      objective.current = Math.min(objective.required, objective.current + amount);
+      if (objective.current >= objective.required) quest.currentObjectiveIndex++;
+    }
+    return this.updateQuest(questId, amount);
+  }
+
   completeQuest(questId: string): Quest | undefined {
     const quest = this.quests.get(questId);
     if (!quest) return undefined;
@@ -567,7 +594,7 @@ export class QuestSystem {
   }
 
   cleanupOldQuests(maxAge: number = 500): void {
-    const now = Date.now();
+    const now = this.random.now();
     for (const [id, quest] of this.quests) {
       const age = now - quest.startTime;
       if (age > maxAge && quest.status !== 'active') {
@@ -1,6 +1,9 @@
 // Religion/Culture System for ClawCiv
 // Multiple faiths with unique beliefs, conversion, and conflicts
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, TileCoord, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export type ReligionType = 'polytheistic' | 'monotheistic' | 'animistic' | 'philosophical' | 'mystical';
 export type ReligionStatus = 'emerging' | 'established' | 'dominant' | 'state_religion' | 'persecuted' | 'extinct';
 
@@ -24,7 +27,7 @@ export interface ReligiousBuilding {
   type: 'shrine' | 'temple' | 'church' | 'monastery' | 'cathedral' | 'holy_site';
   religion: string;
   tribe: string;
-  location: { x: number; y: number };
+  location: TileCoord;
   followers: number; // Capacity for worshippers
   influence: number;  // Conversion power in area
   constructionProgress: number; // 0-100
@@ -93,39 +96,35 @@ export interface Religion {
 }
 
 export class ReligionSystem {
+  private random: Random;
   private religions: Map<string, Religion> = new Map();
   private religionIdCounter = 0;
 
-  constructor() {
-    this.initializeDefaultReligions();
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.initializeDefaultReligions(world.tribes);
   }
 
-  private initializeDefaultReligions(): void {
-    // Ancient Pantheon (Polytheistic)
-    this.createReligion({
-      name: 'Ancient Pantheon',
-      type: 'polytheistic',
-      tribe: 'Alpha',
-      founder: 'system',
-      description: 'Worship of multiple gods governing natural forces'
-    });
-
-    // The One Truth (Monotheistic)
-    this.createReligion({
-      name: 'The One Truth',
-      type: 'monotheistic',
-      tribe: 'Beta',
-      founder: 'system',
-      description: 'Devotion to a single supreme deity'
-    });
+  private initializeDefaultReligions(tribes: string[]): void {
+    // Each tribe starts with one of the ancient faiths, cycling through them
+    const faiths: { name: string; type: ReligionType; description: string }[] = [
+      // Ancient Pantheon (Polytheistic)
+      { name: 'Ancient Pantheon', type: 'polytheistic', description: 'Worship of multiple gods governing natural forces' },
+      // The One Truth (Monotheistic)
+      { name: 'The One Truth', type: 'monotheistic', description: 'Devotion to a single supreme deity' },
+      // Spirit Way (Animistic)
+      { name: 'Spirit Way', type: 'animistic', description: 'Belief that spirits inhabit all things' }
+    ];
 
-    // Spirit Way (Animistic)
-    this.createReligion({
-      name: 'Spirit Way',
-      type: 'animistic',
-      tribe: 'Gamma',
-      founder: 'system',
-      description: 'Belief that spirits inhabit all things'
+    tribes.forEach((tribe, i) => {
+      const faith = faiths[i % faiths.length];
+      this.createReligion({
+        name: i < faiths.length ? faith.name : `${faith.name} of ${tribe}`,
+        type: faith.type,
+        tribe,
+        founder: 'system',
+        description: faith.description
+      });
     });
   }
 
@@ -137,13 +136,13 @@ export class ReligionSystem {
     description: string;
   }): Religion | null {
     const religion: Religion = {
-      id: `religion-${this.religionIdCounter++}-${Date.now()}`,
+      id: `religion-${this.religionIdCounter++}-${this.random.now()}`,
       name: params.name,
       type: params.type,
       status: 'emerging',
       icon: this.getReligionIcon(params.type),
       description: params.description,
-      foundingDay: Date.now(),
+      foundingDay: this.random.now(),
       founder: params.founder,
       coreBeliefs: this.generateBeliefs(params.type),
       tenets: this.generateTenets(params.type),
@@ -313,7 +312,7 @@ export class ReligionSystem {
     // Reduce by target's religion resistance
     // (Would need to check agent's current religion)
 
-    if (Math.random() > baseChance) return false;
+    if (this.random.next() > baseChance) return false;
 
     // Add to followers
     religion.conversions++;
@@ -326,7 +325,7 @@ export class ReligionSystem {
     religionId: string,
     tribe: string,
     type: ReligiousBuilding['type'],
-    location: { x: number; y: number }
+    location: TileCoord
   ): ReligiousBuilding | null {
     const religion = this.religions.get(religionId);
     if (!religion) return null;
@@ -334,7 +333,7 @@ export class ReligionSystem {
     const buildingConfig = this.getBuildingConfig(type);
 
     const building: ReligiousBuilding = {
-      id: `religious-building-${Date.now()}-${Math.random()}`,
+      id: `religious-building-${this.random.now()}-${this.random.next()}`,
       type,
       religion: religionId,
       tribe,
@@ -377,14 +376,14 @@ export class ReligionSystem {
     if (!religion) return null;
 
     const figure: ReligiousFigure = {
-      id: `figure-${Date.now()}-${Math.random()}`,
+      id: `figure-${this.random.now()}-${this.random.next()}`,
       name,
       religion: religionId,
       tribe,
       role,
       influence: 50,
       followers: 10,
-      power: Math.floor(Math.random() * 50) + 20,
+      power: Math.floor(this.random.next() * 50) + 20,
       isAlive: true
     };
 
@@ -401,12 +400,12 @@ export class ReligionSystem {
     if (!figure) return null;
 
     const miracle: Miracle = {
-      id: `miracle-${Date.now()}-${Math.random()}`,
+      id: `miracle-${this.random.now()}-${this.random.next()}`,
       name: this.generateMiracleName(),
       description: this.generateMiracleDescription(religion.type),
       religion: religionId,
       power: figure.power,
-      duration: Math.floor(Math.random() * 10) + 5,
+      duration: Math.floor(this.random.next() * 10) + 5,
       effects: {}
     };
 
@@ -421,7 +420,7 @@ export class ReligionSystem {
       'Divine Healing', 'Holy Fire', 'Sacred Protection', 'Blessed Rain',
       'Prophetic Vision', 'Miraculous Provision', 'Spiritual Shield', 'Heavenly Light'
     ];
-    return names[Math.floor(Math.random() * names.length)];
+    return names[Math.floor(this.random.next() * names.length)];
   }
 
   private generateMiracleDescription(type: ReligionType): string {
@@ -502,7 +501,7 @@ export class ReligionSystem {
     religion.totalFollowers -= lostFollowers;
     religion.followers.set(persecutorTribe, tribeFollowers - lostFollowers);
 
-    religion.martyrs += Math.floor(Math.random() * 5) + 1;
+    religion.martyrs += Math.floor(this.random.next() * 5) + 1;
     religion.orthodoxy = Math.max(0, religion.orthodoxy - 10);
 
     // Check for extinction
@@ -545,7 +544,7 @@ export class ReligionSystem {
   }
 
   // Get active bonuses from religious buildings for a location
-  getBuildingBonuses(location: { x: number; y: number }): {
+  getBuildingBonuses(location: TileCoord): {
     conversionBonus: number;
     socialCohesionBonus: number;
     fervorBonus: number;
@@ -625,7 +624,10 @@ export class ReligionSystem {
 
   public serialize(): any {
     return {
-      religions: Array.from(this.religions.entries()),
+      religions: Array.from(this.religions.entries()).map(([id, religion]) => [id, {
+        ...religion,
+        followers: Array.from(religion.followers.entries())
+      }]),
       religionIdCounter: this.religionIdCounter
     };
   }
@@ -1,6 +1,8 @@
 // Seasonal and Weather System for ClawCiv
 // Adds temporal variety with seasons and dynamic weather
 
+import { Random } from '../engine/Random.ts';
+
 export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
 export type Weather = 'sunny' | 'cloudy' | 'rainy' | 'stormy' | 'snowy';
 
@@ -35,6 +37,7 @@ export interface WeatherConfig {
 }
 
 export class SeasonSystem {
+  private random: Random;
   private currentSeason: Season = 'spring';
   private currentWeather: Weather = 'sunny';
   private dayInSeason: number = 0;
@@ -186,6 +189,10 @@ export class SeasonSystem {
     }
   };
 
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
   getCurrentSeason(): SeasonConfig {
     return this.seasons[this.currentSeason];
   }
@@ -252,7 +259,7 @@ export class SeasonSystem {
 
       // Reset weather when season changes
       this.currentWeather = this.selectWeatherForSeason(this.currentSeason);
-      this.weatherDuration = 3 + Math.floor(Math.random() * 5); // 3-7 days
+      this.weatherDuration = 3 + Math.floor(this.random.next() * 5); // 3-7 days
 
       return {
         seasonChanged: true,
@@ -267,7 +274,7 @@ export class SeasonSystem {
     if (this.weatherDuration <= 0) {
       const oldWeather = this.currentWeather;
       this.currentWeather = this.selectWeatherForSeason(this.currentSeason);
-      this.weatherDuration = 2 + Math.floor(Math.random() * 6); // 2-7 days
+      this.weatherDuration = 2 + Math.floor(this.random.next() * 6); // 2-7 days
 
       return {
         seasonChanged: false,
@@ -284,7 +291,7 @@ export class SeasonSystem {
     const chances = seasonConfig.weatherChances;
 
     const total = Object.values(chances).reduce((sum, val) => sum + val, 0);
-    let random = Math.random() * total;
+    let random = this.random.next() * total;
 
     for (const [weather, chance] of Object.entries(chances)) {
       random -= chance;
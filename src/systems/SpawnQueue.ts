@@ -0,0 +1,145 @@
+// Spawn Queue System for ClawCiv
+// Humans queue agents for deployment; $CLAW upvotes decide who spawns next
+
+import { Random } from '../engine/Random.ts';
+import { Ledger } from '../economy/Ledger.ts';
+
+export type UpvoteMode = 'burn' | 'escrow';
+
+export interface SpawnSubmission {
+  id: string;
+  name: string;
+  tribePreference: string | null; // null = any tribe with room
+  skills: string[];
+  owner: string;                  // Token account that submitted (and will own) the agent
+  votes: number;                  // Total $CLAW committed by upvotes
+  voters: { [account: string]: number };
+  submittedDay: number;
+  status: 'queued' | 'spawned' | 'withdrawn';
+  agentId?: string;
+  spawnedDay?: number;
+}
+
+export class SpawnQueue {
+  private random: Random;
+  private tokenSystem: Ledger;
+  private submissions: Map<string, SpawnSubmission> = new Map();
+  private submissionIdCounter = 0;
+  private readonly mode: UpvoteMode;
+
+  public static readonly ESCROW_ACCOUNT = 'SPAWN_QUEUE_ESCROW';
+  private readonly MAX_QUEUED_PER_OWNER = 5;
+  private readonly MIN_VOTES_TO_SPAWN = 10;
+
+  constructor(tokenSystem: Ledger, mode: UpvoteMode = 'escrow', random: Random = new Random()) {
+    this.random = random;
+    this.tokenSystem = tokenSystem;
+    this.mode = mode;
+    this.tokenSystem.openAccount(SpawnQueue.ESCROW_ACCOUNT);
+  }
+
+  getMode(): UpvoteMode {
+    return this.mode;
+  }
+
+  // Queue a new agent; the engine validates skills and tribe before calling this
+  submit(owner: string, name: string, skills: string[], tribePreference: string | null, day: number): SpawnSubmission | null {
+    if (!this.tokenSystem.getAccount(owner)) return null;
+    if (!name.trim() || skills.length === 0) return null;
+
+    const queuedByOwner = this.getQueue().filter(s => s.owner === owner).length;
+    if (queuedByOwner >= this.MAX_QUEUED_PER_OWNER) return null;
+
+    const submission: SpawnSubmission = {
+      id: `spawn-${this.submissionIdCounter++}-${this.random.now()}`,
+      name: name.trim(),
+      tribePreference,
+      skills: [...new Set(skills)],
+      owner,
+      votes: 0,
+      voters: {},
+      submittedDay: day,
+      status: 'queued'
+    };
+
+    this.submissions.set(submission.id, submission);
+    return submission;
+  }
+
+  // Commit $CLAW behind a submission: burned outright, or held in escrow until it spawns
+  upvote(submissionId: string, voter: string, amount: number): boolean {
+    const submission = this.submissions.get(submissionId);
+    if (!submission || submission.status !== 'queued') return false;
+    if (!(amount > 0)) return false;
+
+    const paid = this.mode === 'burn'
+      ? this.tokenSystem.burn(voter, amount, `Spawn queue upvote: ${submission.name}`)
+      : this.tokenSystem.transfer(voter, SpawnQueue.ESCROW_ACCOUNT, amount, `Spawn queue upvote: ${submission.name}`);
+    if (!paid) return false;
+
+    submission.votes += amount;
+    submission.voters[voter] = (submission.voters[voter] || 0) + amount;
+    return true;
+  }
+
+  // Owner pulls a queued agent; escrowed upvotes are refunded to each voter
+  withdraw(submissionId: string, owner: string): boolean {
+    const submission = this.submissions.get(submissionId);
+    if (!submission || submission.status !== 'queued' || submission.owner !== owner) return false;
+
+    if (this.mode === 'escrow') {
+      for (const [voter, amount] of Object.entries(submission.voters)) {
+        this.tokenSystem.transfer(SpawnQueue.ESCROW_ACCOUNT, voter, amount, `Spawn queue refund: ${submission.name}`);
+      }
+    }
+
+    submission.status = 'withdrawn';
+    return true;
+  }
+
+  // Highest-voted first; earlier submissions win ties
+  getQueue(): SpawnSubmission[] {
+    return Array.from(this.submissions.values())
+      .filter(s => s.status === 'queued')
+      .sort((a, b) => b.votes - a.votes || a.submittedDay - b.submittedDay);
+  }
+
+  // Entries with enough support to spawn, in spawn order
+  getEligible(): SpawnSubmission[] {
+    return this.getQueue().filter(s => s.votes >= this.MIN_VOTES_TO_SPAWN);
+  }
+
+  // Record a spawn; escrowed upvotes become the new agent's starting stake
+  markSpawned(submissionId: string, agentId: string, day: number): void {
+    const submission = this.submissions.get(submissionId);
+    if (!submission || submission.status !== 'queued') return;
+
+    if (this.mode === 'escrow' && submission.votes > 0) {
+      this.tokenSystem.transfer(SpawnQueue.ESCROW_ACCOUNT, agentId, submission.votes, `Spawn stake: ${submission.name}`);
+    }
+
+    submission.status = 'spawned';
+    submission.agentId = agentId;
+    submission.spawnedDay = day;
+  }
+
+  getSubmission(submissionId: string): SpawnSubmission | undefined {
+    return this.submissions.get(submissionId);
+  }
+
+  getSubmissionsByOwner(owner: string): SpawnSubmission[] {
+    return Array.from(this.submissions.values()).filter(s => s.owner === owner);
+  }
+
+  public serialize(): any {
+    return {
+      submissions: Array.from(this.submissions.entries()),
+      submissionIdCounter: this.submissionIdCounter
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.submissions = new Map(data.submissions || []);
+    this.submissionIdCounter = data.submissionIdCounter || 0;
+  }
+}
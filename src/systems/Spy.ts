@@ -1,6 +1,8 @@
 // Spy/Intelligence System for ClawCiv
 // Agents can conduct espionage, steal technology, sabotage, and gather intelligence
 
+import { Random } from '../engine/Random.ts';
+
 export interface SpyMission {
   id: string;
   type: 'steal_tech' | 'sabotage_building' | 'gather_intel' | 'assassinate' | 'disinformation' | 'counter_spy';
@@ -43,13 +45,25 @@ export interface Spy {
 }
 
 export class SpySystem {
+  private random: Random;
   private spies: Map<string, Spy> = new Map();
   private activeMissions: Map<string, SpyMission> = new Map();
   private intelligenceReports: Map<string, IntelligenceReport> = new Map();
   private missionIdCounter = 0;
   private reportIdCounter = 0;
 
-  constructor() {}
+  private readonly MISSION_CONFIGS: { [type in SpyMission['type']]: { baseDuration: number; baseReward: number } } = {
+    steal_tech: { baseDuration: 15, baseReward: 100 },
+    sabotage_building: { baseDuration: 10, baseReward: 80 },
+    gather_intel: { baseDuration: 5, baseReward: 50 },
+    assassinate: { baseDuration: 8, baseReward: 150 },
+    disinformation: { baseDuration: 7, baseReward: 70 },
+    counter_spy: { baseDuration: 12, baseReward: 90 }
+  };
+
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
 
   // Recruit an agent as a spy
   recruitSpy(agentId: string, tribe: string, coverRole: Spy['coverRole']): boolean {
@@ -104,13 +118,15 @@ export class SpySystem {
     const spy = this.spies.get(spyId);
     if (!spy || spy.coverBlown) return null;
 
+    if (!this.isMissionType(missionType)) return null;
+
     // Calculate mission parameters based on type
     const missionConfig = this.getMissionConfig(missionType);
     const risk = this.calculateMissionRisk(spy, targetTribe, missionType);
-    const duration = missionConfig.baseDuration + (Math.random() * 5);
+    const duration = missionConfig.baseDuration + (this.random.next() * 5);
 
     const mission: SpyMission = {
-      id: `mission-${this.missionIdCounter++}-${Date.now()}`,
+      id: `mission-${this.missionIdCounter++}-${this.random.now()}`,
       type: missionType,
       spyId,
       targetTribe,
@@ -119,7 +135,7 @@ export class SpySystem {
       progress: 0,
       risk,
       reward: missionConfig.baseReward * spy.skillLevel,
-      startDay: Date.now(),
+      startDay: this.random.now(),
       duration,
     };
 
@@ -128,15 +144,12 @@ export class SpySystem {
   }
 
   private getMissionConfig(type: SpyMission['type']): { baseDuration: number; baseReward: number } {
-    const configs = {
-      steal_tech: { baseDuration: 15, baseReward: 100 },
-      sabotage_building: { baseDuration: 10, baseReward: 80 },
-      gather_intel: { baseDuration: 5, baseReward: 50 },
-      assassinate: { baseDuration: 8, baseReward: 150 },
-      disinformation: { baseDuration: 7, baseReward: 70 },
-      counter_spy: { baseDuration: 12, baseReward: 90 }
-    };
-    return configs[type];
+    return this.MISSION_CONFIGS[type];
+  }
+
+  // Whether `type` is a mission spies can be sent on
+  isMissionType(type: string): type is SpyMission['type'] {
+    return Object.prototype.hasOwnProperty.call(this.MISSION_CONFIGS, type);
   }
 
   private calculateMissionRisk(spy: Spy, targetTribe: string, missionType: SpyMission['type']): number {
@@ -187,7 +200,7 @@ export class SpySystem {
       mission.progress = Math.min(100, mission.progress + progressIncrement);
 
       // Check for detection
-      if (Math.random() * 100 < mission.risk * 0.1) {
+      if (this.random.next() * 100 < mission.risk * 0.1) {
         mission.status = 'detained';
         mission.result = { detected: true };
         spy.coverBlown = true;
@@ -280,7 +293,7 @@ export class SpySystem {
 
     // Create intelligence report
     const report: IntelligenceReport = {
-      id: `intel-${this.reportIdCounter++}-${Date.now()}`,
+      id: `intel-${this.reportIdCounter++}-${this.random.now()}`,
       tribe: spyTribe,
       sourceTribe: spyTribe,
       targetTribe,
@@ -289,8 +302,8 @@ export class SpySystem {
         agentCount: this.getTribeAgentCount(targetTribe, gameState),
         estimatedResources: this.estimateTribeResources(targetTribe, gameState)
       },
-      accuracy: 70 + Math.random() * 20,
-      timestamp: Date.now(),
+      accuracy: 70 + this.random.next() * 20,
+      timestamp: this.random.now(),
       day: gameState.day
     };
 
@@ -317,7 +330,7 @@ export class SpySystem {
     const spyTribe = this.getSpyTribe(mission.spyId, gameState);
 
     // 70% success chance for assassination
-    if (Math.random() < 0.7) {
+    if (this.random.next() < 0.7) {
       return {
         success: true,
         targetEliminated: mission.targetId,
@@ -266,8 +266,5 @@ export class TechTree {
 
   public deserialize(data: any): void {
     this.technologies = new Map(data.technologies);
-    for (const [id, tech] of this.technologies) {
-      tech.researched = false;
-    }
   }
 }
@@ -1,39 +1,146 @@
 // ClawCiv Territory System
-// Tribes can claim and control grid cells
+// Tribes control grid cells through influence: population, buildings and fortresses radiate it and claims add to it.
+// A cell changes hands only after a rival has out-pressured its owner there for days on end, contiguous cells
+// form named provinces, and each tribe's borders and frontier are exposed for AI and rendering.
+
+import { WorldConfig, TileCoord, createWorldConfig } from '../engine/WorldConfig.ts';
+import { Tile, Biome, getTile } from '../engine/WorldMap.ts';
 
 export interface Territory {
   x: number;
   y: number;
   tribe: string;
-  strength: number;
+  strength: number;       // Owner's influence here, smoothed from day to day
   structures: string[];
+  province?: string;      // Id of the province the cell belongs to
+}
+
+// A rival out-pressuring a cell's owner, or tribes pressing into unclaimed land
+export interface Contest {
+  x: number;
+  y: number;
+  tribe: string;          // Challenger
+  pressure: number;       // Influence it has held over the owner, summed over the contest
+  days: number;           // Consecutive days it has dominated
+}
+
+export interface Province {
+  id: string;
+  name: string;
+  tribe: string;
+  cells: TileCoord[];
+  capital: TileCoord;     // Strongest cell
+  foundedDay: number;
+}
+
+export interface TribeTerritories {
+  tribe: string;
+  cells: Territory[];
+  provinces: Province[];
+  borders: TileCoord[];   // Owned cells next to land the tribe doesn't hold
+  frontier: TileCoord[];  // Cells outside the tribe's land that touch it
+  contested: Contest[];   // Contests over the tribe's cells or led by the tribe
+}
+
+// Something that projects a tribe's influence: strength at its own cell, falling off with distance up to `radius`
+export interface InfluenceSource {
+  tribe: string;
+  x: number;
+  y: number;
+  strength: number;
+  radius: number;
+}
+
+export interface TerritoryChange {
+  x: number;
+  y: number;
+  from: string | null;
+  to: string | null;
+  province?: string;      // Name of the province the cell now belongs to
 }
 
+const PROVINCE_TERRAIN: { [biome in Biome]: string } = {
+  plains: 'Plains',
+  forest: 'Weald',
+  mountain: 'Heights',
+  desert: 'Wastes',
+  tundra: 'Frostlands',
+  coast: 'Shore',
+  river: 'Vale'
+};
+
+const NUMERALS = ['', ' II', ' III', ' IV', ' V', ' VI', ' VII', ' VIII', ' IX', ' X'];
+
 export class TerritorySystem {
   private territories: Map<string, Territory> = new Map();
-  private readonly GRID_SIZE = 10;
+  private claims: Map<string, { x: number; y: number; tribe: string; strength: number }> = new Map();
+  private contests: Map<string, Contest> = new Map();
+  private provinces: Map<string, Province> = new Map();
+  private provinceIdCounter = 0;
+  private readonly GRID_SIZE: number;
+
+  private readonly CLAIM_INFLUENCE = 0.2;   // Influence per point of claim strength
+  private readonly CLAIM_DECAY = 0.5;       // Claim strength lost per day
+  private readonly MAX_CLAIM = 30;
+  private readonly DOMINANCE = 1.5;         // A challenger needs this many times the owner's influence...
+  private readonly MIN_LEAD = 0.5;          // ...plus this much
+  private readonly SETTLE_DAYS = 2;         // Days of uncontested presence to take unclaimed land
+  private readonly FLIP_DAYS = 7;           // Days of dominance to take a cell from its owner
+  private readonly ABANDON_STRENGTH = 0.2;  // Cells whose owner no longer projects any influence fall away below this
+  private readonly SMOOTHING = 0.2;         // Share of today's influence that goes into a cell's strength
+
+  constructor(world: WorldConfig = createWorldConfig()) {
+    this.GRID_SIZE = world.gridSize;
+  }
 
+  // Stakes a claim: lasting influence at the cell (and a little around it) that fades over the following days
   public claimTerritory(x: number, y: number, tribe: string, strength: number = 10): void {
-    const key = `${x},${y}`;
-    const existing = this.territories.get(key);
-
-    if (!existing || strength > existing.strength) {
-      this.territories.set(key, {
-        x,
-        y,
-        tribe,
-        strength,
-        structures: []
-      });
-    }
+    const key = `${x},${y},${tribe}`;
+    const existing = this.claims.get(key);
+    this.claims.set(key, { x, y, tribe, strength: Math.min(this.MAX_CLAIM, (existing?.strength ?? 0) + strength) });
   }
 
   public getTerritory(x: number, y: number): Territory | undefined {
     return this.territories.get(`${x},${y}`);
   }
 
-  public getTribeTerritories(tribe: string): Territory[] {
-    return Array.from(this.territories.values()).filter(t => t.tribe === tribe);
+  public getTribeTerritories(tribe: string): TribeTerritories {
+    const cells = this.getAllTerritories().filter(t => t.tribe === tribe);
+    const borders: TileCoord[] = [];
+    const frontier = new Map<string, TileCoord>();
+
+    for (const cell of cells) {
+      let border = false;
+      for (const next of this.neighbours(cell)) {
+        if (this.getTerritory(next.x, next.y)?.tribe === tribe) continue;
+        border = true;
+        frontier.set(`${next.x},${next.y}`, next);
+      }
+      if (border) borders.push({ x: cell.x, y: cell.y });
+    }
+
+    return {
+      tribe,
+      cells,
+      provinces: this.getProvinces(tribe),
+      borders,
+      frontier: Array.from(frontier.values()),
+      contested: Array.from(this.contests.values())
+        .filter(c => c.tribe === tribe || this.getTerritory(c.x, c.y)?.tribe === tribe)
+    };
+  }
+
+  public getProvinces(tribe?: string): Province[] {
+    const provinces = Array.from(this.provinces.values());
+    return tribe ? provinces.filter(p => p.tribe === tribe) : provinces;
+  }
+
+  public getProvince(id: string): Province | undefined {
+    return this.provinces.get(id);
+  }
+
+  public getContest(x: number, y: number): Contest | undefined {
+    return this.contests.get(`${x},${y}`);
   }
 
   public addStructure(x: number, y: number, structure: string): boolean {
@@ -46,30 +153,220 @@ export class TerritorySystem {
   }
 
   public getTerritoryCount(tribe: string): number {
-    return this.getTribeTerritories(tribe).length;
+    return this.getAllTerritories().filter(t => t.tribe === tribe).length;
   }
 
   public getAllTerritories(): Territory[] {
     return Array.from(this.territories.values());
   }
 
-  public decayTerritories(): void {
-    // Slowly decay territory strength
-    for (const [key, territory] of this.territories) {
-      territory.strength = Math.max(0, territory.strength - 0.1);
-      if (territory.strength <= 0) {
+  // Each tribe's influence over every cell it reaches, from the sources given plus standing claims
+  public computeInfluence(sources: InfluenceSource[]): Map<string, Map<string, number>> {
+    const influence = new Map<string, Map<string, number>>();
+    const claimSources = Array.from(this.claims.values())
+      .map(c => ({ tribe: c.tribe, x: c.x, y: c.y, strength: c.strength * this.CLAIM_INFLUENCE, radius: 1 }));
+
+    for (const source of [...sources, ...claimSources]) {
+      for (let y = source.y - source.radius; y <= source.y + source.radius; y++) {
+        for (let x = source.x - source.radius; x <= source.x + source.radius; x++) {
+          const distance = Math.abs(x - source.x) + Math.abs(y - source.y);
+          if (distance > source.radius || !this.inBounds(x, y)) continue;
+          const key = `${x},${y}`;
+          const cell = influence.get(key) ?? new Map<string, number>();
+          cell.set(source.tribe, (cell.get(source.tribe) ?? 0) + source.strength / (1 + distance));
+          influence.set(key, cell);
+        }
+      }
+    }
+    return influence;
+  }
+
+  // Called once per day: settle unclaimed land, advance contests, flip cells after sustained dominance,
+  // drop land nobody projects influence over any more, then regroup provinces. Returns every change of hands.
+  public updateControl(sources: InfluenceSource[], grid: Tile[][], currentDay: number): TerritoryChange[] {
+    const influence = this.computeInfluence(sources);
+    const changes: TerritoryChange[] = [];
+    const keys = new Set([...influence.keys(), ...this.territories.keys(), ...this.contests.keys()]);
+
+    for (const key of keys) {
+      const [x, y] = key.split(',').map(Number);
+      const here = influence.get(key) ?? new Map<string, number>();
+      const owned = this.territories.get(key);
+
+      // The strongest challenger, and what it has to beat: the owner, or on open land the runner-up
+      let leader: string | null = null;
+      let lead = 0;
+      let runnerUp = 0;
+      for (const [tribe, amount] of here) {
+        if (tribe === owned?.tribe) continue;
+        if (amount > lead) {
+          runnerUp = lead;
+          leader = tribe;
+          lead = amount;
+        } else if (amount > runnerUp) {
+          runnerUp = amount;
+        }
+      }
+
+      const defence = owned ? here.get(owned.tribe) ?? 0 : runnerUp;
+      if (owned) owned.strength = owned.strength * (1 - this.SMOOTHING) + defence * this.SMOOTHING;
+
+      // Only unclaimed land and an owner's border cells can be fought over
+      const dominant = leader !== null && lead > defence * this.DOMINANCE + this.MIN_LEAD;
+      if (dominant && (!owned || this.isBorder(owned))) {
+        const contest = this.contests.get(key);
+        const current = contest && contest.tribe === leader ? contest : { x, y, tribe: leader!, pressure: 0, days: 0 };
+        current.pressure += lead - defence;
+        current.days++;
+        this.contests.set(key, current);
+
+        if (current.days >= (owned ? this.FLIP_DAYS : this.SETTLE_DAYS)) {
+          this.territories.set(key, { x, y, tribe: leader!, strength: lead, structures: owned ? owned.structures : [] });
+          this.contests.delete(key);
+          changes.push({ x, y, from: owned?.tribe ?? null, to: leader });
+        }
+        continue;
+      }
+
+      // Dominance has to be unbroken; a lapse sets the challenger back
+      const contest = this.contests.get(key);
+      if (contest) {
+        contest.days = 0;
+        contest.pressure /= 2;
+        if (contest.pressure < 0.1) this.contests.delete(key);
+      }
+
+      if (owned && !here.get(owned.tribe) && owned.strength < this.ABANDON_STRENGTH) {
         this.territories.delete(key);
+        changes.push({ x, y, from: owned.tribe, to: null });
+      }
+    }
+
+    for (const [key, claim] of this.claims) {
+      claim.strength -= this.CLAIM_DECAY;
+      if (claim.strength <= 0) this.claims.delete(key);
+    }
+
+    this.regroupProvinces(grid, currentDay);
+    for (const change of changes) {
+      const province = this.getTerritory(change.x, change.y)?.province;
+      if (province) change.province = this.provinces.get(province)?.name;
+    }
+    return changes;
+  }
+
+  // Contiguous cells of one tribe form a province. Provinces keep their id and name while most of their land
+  // stays together; a split-off piece or newly joined land gets a new name.
+  private regroupProvinces(grid: Tile[][], currentDay: number): void {
+    const previous = this.provinces;
+    const claimed = new Set<string>();
+    const names = new Set(Array.from(previous.values()).map(p => p.name));
+    this.provinces = new Map();
+
+    const regions = this.findRegions().sort((a, b) => b.length - a.length);
+    for (const region of regions) {
+      const tribe = this.getTerritory(region[0].x, region[0].y)!.tribe;
+
+      // The earlier province this region overlaps most keeps its identity
+      const overlap = new Map<string, number>();
+      for (const cell of region) {
+        const id = this.getTerritory(cell.x, cell.y)!.province;
+        if (id && previous.get(id)?.tribe === tribe && !claimed.has(id)) overlap.set(id, (overlap.get(id) ?? 0) + 1);
+      }
+      let heir: Province | undefined;
+      for (const [id, count] of overlap) {
+        if (!heir || count > (overlap.get(heir.id) ?? 0)) heir = previous.get(id);
       }
+
+      const capital = region.reduce((best, cell) =>
+        this.getTerritory(cell.x, cell.y)!.strength > this.getTerritory(best.x, best.y)!.strength ? cell : best);
+      const province: Province = heir
+        ? { ...heir, cells: region, capital }
+        : { id: `province-${this.provinceIdCounter++}`, name: this.nameProvince(region, grid, names), tribe, cells: region, capital, foundedDay: currentDay };
+      names.add(province.name);
+      claimed.add(province.id);
+      this.provinces.set(province.id, province);
+      for (const cell of region) this.getTerritory(cell.x, cell.y)!.province = province.id;
     }
   }
 
+  private findRegions(): TileCoord[][] {
+    const seen = new Set<string>();
+    const regions: TileCoord[][] = [];
+
+    for (const start of this.territories.values()) {
+      if (seen.has(`${start.x},${start.y}`)) continue;
+      const region: TileCoord[] = [];
+      const queue: TileCoord[] = [{ x: start.x, y: start.y }];
+      seen.add(`${start.x},${start.y}`);
+      while (queue.length > 0) {
+        const cell = queue.shift()!;
+        region.push(cell);
+        for (const next of this.neighbours(cell)) {
+          const key = `${next.x},${next.y}`;
+          if (seen.has(key) || this.territories.get(key)?.tribe !== start.tribe) continue;
+          seen.add(key);
+          queue.push(next);
+        }
+      }
+      regions.push(region);
+    }
+    return regions;
+  }
+
+  // Named for where it lies on the map and its most common terrain, e.g. "Northern Weald"
+  private nameProvince(region: TileCoord[], grid: Tile[][], taken: Set<string>): string {
+    const centre = (this.GRID_SIZE - 1) / 2;
+    const dx = region.reduce((sum, c) => sum + c.x, 0) / region.length - centre;
+    const dy = region.reduce((sum, c) => sum + c.y, 0) / region.length - centre;
+    const quarter = Math.max(Math.abs(dx), Math.abs(dy)) < this.GRID_SIZE / 6 ? 'Central'
+      : Math.abs(dy) >= Math.abs(dx) ? (dy < 0 ? 'Northern' : 'Southern')
+      : (dx < 0 ? 'Western' : 'Eastern');
+
+    const biomes = new Map<Biome, number>();
+    for (const cell of region) {
+      const biome = getTile(grid, cell.x, cell.y)?.biome;
+      if (biome) biomes.set(biome, (biomes.get(biome) ?? 0) + 1);
+    }
+    let terrain: Biome = 'plains';
+    for (const [biome, count] of biomes) {
+      if (count > (biomes.get(terrain) ?? 0)) terrain = biome;
+    }
+
+    const base = `${quarter} ${PROVINCE_TERRAIN[terrain]}`;
+    const numeral = NUMERALS.find(n => !taken.has(base + n));
+    return numeral !== undefined ? base + numeral : `${base} ${this.provinceIdCounter}`;
+  }
+
+  private isBorder(cell: Territory): boolean {
+    return this.neighbours(cell).some(next => this.getTerritory(next.x, next.y)?.tribe !== cell.tribe);
+  }
+
+  private neighbours(cell: TileCoord): TileCoord[] {
+    return [[1, 0], [-1, 0], [0, 1], [0, -1]]
+      .map(([dx, dy]) => ({ x: cell.x + dx, y: cell.y + dy }))
+      .filter(next => this.inBounds(next.x, next.y));
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.GRID_SIZE && y < this.GRID_SIZE;
+  }
+
   public serialize(): any {
     return {
-      territories: Array.from(this.territories.entries())
+      territories: Array.from(this.territories.entries()),
+      claims: Array.from(this.claims.entries()),
+      contests: Array.from(this.contests.entries()),
+      provinces: Array.from(this.provinces.entries()),
+      provinceIdCounter: this.provinceIdCounter
     };
   }
 
   public deserialize(data: any): void {
     this.territories = new Map(data.territories);
+    this.claims = new Map(data.claims || []);
+    this.contests = new Map(data.contests || []);
+    this.provinces = new Map(data.provinces || []);
+    this.provinceIdCounter = data.provinceIdCounter || 0;
   }
 }
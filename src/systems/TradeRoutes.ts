@@ -1,6 +1,9 @@
 // Market/Trade Route System for ClawCiv
 // Permanent trade routes provide ongoing economic benefits
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, TribeCenter, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export type RouteType = 'land' | 'sea' | 'caravan' | 'diplomatic';
 export type RouteStatus = 'active' | 'inactive' | 'embargoed' | 'blocked' | 'destroyed';
 
@@ -59,6 +62,14 @@ export interface TradeRoute {
   incidents: number;
 }
 
+// A caravan that reached its destination; `value` is what it carried, in $CLAW
+export interface RouteDelivery {
+  routeId: string;
+  fromTribe: string;
+  toTribe: string;
+  value: number;
+}
+
 export interface Marketplace {
   tribe: string;
   location: { x: number; y: number };
@@ -71,12 +82,13 @@ export interface Marketplace {
 }
 
 export class TradeRouteSystem {
+  private random: Random;
   private routes: Map<string, TradeRoute> = new Map();
   private marketplaces: Map<string, Marketplace> = new Map();
   private routeIdCounter = 0;
   private marketplaceIdCounter = 0;
 
-  // Global market prices
+  // Global market prices, kept in sync with the exchange mid prices
   private marketPrices: { [key: string]: number } = {
     food: 2,
     energy: 3,
@@ -86,7 +98,12 @@ export class TradeRouteSystem {
     tokens: 1
   };
 
-  constructor() {}
+  private tribeCenters: { [tribe: string]: TribeCenter };
+
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.tribeCenters = world.tribeCenters;
+  }
 
   // Establish a new trade route
   establishRoute(
@@ -106,7 +123,7 @@ export class TradeRouteSystem {
     const routeConfig = this.getRouteConfig(type);
 
     const route: TradeRoute = {
-      id: `route-${this.routeIdCounter++}-${Date.now()}`,
+      id: `route-${this.routeIdCounter++}-${this.random.now()}`,
       name: this.generateRouteName(fromTribe, toTribe, type),
       type,
       status: 'active',
@@ -127,7 +144,7 @@ export class TradeRouteSystem {
       escorts: 0,
       level: 1,
       bonuses: [],
-      dayEstablished: Date.now(),
+      dayEstablished: this.random.now(),
       totalTrips: 0,
       totalRevenue: 0,
       incidents: 0
@@ -138,15 +155,9 @@ export class TradeRouteSystem {
   }
 
   private calculateDistance(tribe1: string, tribe2: string): number {
-    // Simplified distance calculation
-    const tribePositions: { [key: string]: { x: number; z: number } } = {
-      Alpha: { x: -350, z: -350 },
-      Beta: { x: 350, z: -350 },
-      Gamma: { x: 0, z: 350 }
-    };
-
-    const pos1 = tribePositions[tribe1];
-    const pos2 = tribePositions[tribe2];
+    // Simplified distance calculation between tribe centers
+    const pos1 = this.tribeCenters[tribe1];
+    const pos2 = this.tribeCenters[tribe2];
 
     return Math.sqrt(Math.pow(pos2.x - pos1.x, 2) + Math.pow(pos2.z - pos1.z, 2)) / 100;
   }
@@ -274,9 +285,11 @@ export class TradeRouteSystem {
   updateRoutes(currentDay: number): {
     revenue: number;
     incidents: string[];
+    deliveries: RouteDelivery[];
   } {
     let totalRevenue = 0;
     const incidents: string[] = [];
+    const deliveries: RouteDelivery[] = [];
 
     for (const route of this.routes.values()) {
       if (route.status !== 'active') continue;
@@ -295,14 +308,15 @@ export class TradeRouteSystem {
           route.totalTrips++;
           route.lastCaravanDay = currentDay;
           route.caravansEnRoute--;
+          deliveries.push({ routeId: route.id, fromTribe: route.fromTribe, toTribe: route.toTribe, value: route.dailyIncome * route.caravanSpeed });
 
           // Check for incidents
-          if (Math.random() * 100 < route.riskLevel) {
+          if (this.random.next() * 100 < route.riskLevel) {
             route.incidents++;
 
             // Different incident types
             const incidentTypes = ['piracy', 'banditry', 'storm', 'accident'];
-            const incident = incidentTypes[Math.floor(Math.random() * incidentTypes.length)];
+            const incident = incidentTypes[Math.floor(this.random.next() * incidentTypes.length)];
 
             if (incident === 'piracy' && route.type === 'sea') {
               route.pirates++;
@@ -322,13 +336,13 @@ export class TradeRouteSystem {
       }
 
       // Launch new caravans periodically
-      if (route.caravansEnRoute === 0 && Math.random() < 0.3) {
+      if (route.caravansEnRoute === 0 && this.random.next() < 0.3) {
         route.caravansEnRoute = 1;
         route.lastCaravanDay = currentDay;
       }
     }
 
-    return { revenue, incidents };
+    return { revenue: totalRevenue, incidents, deliveries };
   }
 
   // Upgrade a trade route
@@ -431,23 +445,25 @@ export class TradeRouteSystem {
     };
   }
 
-  // Get market price with fluctuation
+  // Get the current market price of a resource
   getMarketPrice(resource: string): number {
-    // Add random fluctuation (-10% to +10%)
-    const fluctuation = (Math.random() - 0.5) * 0.2;
-    return this.marketPrices[resource] * (1 + fluctuation);
+    return this.marketPrices[resource];
   }
 
-  // Update market prices (supply and demand)
-  updateMarketPrices(): { [resource: string]: number } {
-    // Random price changes
-    for (const resource of Object.keys(this.marketPrices)) {
-      const change = (Math.random() - 0.5) * 0.1; // -5% to +5%
-      this.marketPrices[resource] *= (1 + change);
-      this.marketPrices[resource] = Math.max(0.5, this.marketPrices[resource]);
+  getMarketPrices(): { [resource: string]: number } {
+    return { ...this.marketPrices };
+  }
+
+  // Prices come from the exchange: every marketplace quotes the order book's mid price
+  setMarketPrices(prices: { [resource: string]: number }): void {
+    for (const [resource, price] of Object.entries(prices)) {
+      this.marketPrices[resource] = price;
     }
 
-    return { ...this.marketPrices };
+    for (const marketplace of this.marketplaces.values()) {
+      marketplace.resources.buying = { ...this.marketPrices };
+      marketplace.resources.selling = { ...this.marketPrices };
+    }
   }
 
   // Get trade statistics
@@ -1,6 +1,9 @@
 // Tribe Differentiation System for ClawCiv
 // Each tribe has unique traits, culture, advantages, and tendencies
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export interface TribeConfig {
   id: string;
   name: string;
@@ -29,6 +32,7 @@ export interface TribeConfig {
   researchModifier: number;     // Research speed
   buildingModifier: number;     // Construction speed/cost
   diplomacyModifier: number;    // Relationship change speed
+  upkeepModifier: number;       // Daily $CLAW rent and compute cost
   specialAbility: {
     name: string;
     description: string;
@@ -50,10 +54,53 @@ export interface TribeConfig {
 }
 
 export class TribeConfigSystem {
+  private random: Random;
   private tribes: Map<string, TribeConfig> = new Map();
 
-  constructor() {
+  // Colors for tribes beyond the original three
+  private readonly EXTRA_COLORS = [
+    '#22c55e', '#a855f7', '#f97316', '#14b8a6', '#ec4899', '#84cc16', '#6366f1', '#78716c', '#0ea5e9'
+  ];
+
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
     this.initializeTribes();
+    this.applyWorld(world.tribes);
+  }
+
+  // Keep only the world's tribes; unknown names inherit the Warriors, Merchants
+  // and Scholars archetypes in turn so every tribe has a distinct playstyle
+  private applyWorld(tribes: string[]): void {
+    const archetypes = Array.from(this.tribes.values());
+    const configs = new Map<string, TribeConfig>();
+    let extraCount = 0;
+
+    tribes.forEach((tribe, i) => {
+      const existing = this.tribes.get(tribe);
+      if (existing) {
+        configs.set(tribe, existing);
+        return;
+      }
+
+      const archetype = archetypes[i % archetypes.length];
+      configs.set(tribe, {
+        ...archetype,
+        id: tribe,
+        name: tribe,
+        color: this.EXTRA_COLORS[extraCount++ % this.EXTRA_COLORS.length],
+        startingBonus: { ...archetype.startingBonus },
+        skillAffinity: { ...archetype.skillAffinity },
+        resourceModifiers: { ...archetype.resourceModifiers },
+        specialAbility: {
+          ...archetype.specialAbility,
+          description: archetype.specialAbility.description.replace(archetype.name, tribe)
+        },
+        tendencies: { ...archetype.tendencies },
+        weaknesses: { ...archetype.weaknesses }
+      });
+    });
+
+    this.tribes = configs;
   }
 
   private initializeTribes(): void {
@@ -94,6 +141,7 @@ export class TribeConfigSystem {
       researchModifier: 0.7,   // -30% research speed
       buildingModifier: 0.9,   // -10% building speed
       diplomacyModifier: 0.8,  // Relationships change slower
+      upkeepModifier: 1.0,
       specialAbility: {
         name: 'Battle Cry',
         description: 'All Alpha agents gain +50% combat effectiveness for 5 days',
@@ -102,7 +150,7 @@ export class TribeConfigSystem {
         lastUsed: -100,
         effect: (tribe, agents, gameState) => {
           // Would apply temporary buff
-          console.log('Battle Cry activated for Alpha tribe!');
+          console.log(`Battle Cry activated for ${tribe} tribe!`);
         }
       },
       tendencies: {
@@ -156,6 +204,7 @@ export class TribeConfigSystem {
       researchModifier: 1.0,
       buildingModifier: 1.0,
       diplomacyModifier: 1.3,   // +30% relationship changes
+      upkeepModifier: 0.9,      // -10% upkeep, merchants drive a hard bargain
       specialAbility: {
         name: 'Trade Boom',
         description: 'All Beta agents earn +100% trade income for 5 days',
@@ -163,7 +212,7 @@ export class TribeConfigSystem {
         cooldown: 20,
         lastUsed: -100,
         effect: (tribe, agents, gameState) => {
-          console.log('Trade Boom activated for Beta tribe!');
+          console.log(`Trade Boom activated for ${tribe} tribe!`);
         }
       },
       tendencies: {
@@ -217,6 +266,7 @@ export class TribeConfigSystem {
       researchModifier: 1.6,  // +60% research speed
       buildingModifier: 1.1,
       diplomacyModifier: 1.2,
+      upkeepModifier: 1.2,    // +20% upkeep, research burns compute
       specialAbility: {
         name: 'Enlightenment',
         description: 'Research speed doubled for 5 days',
@@ -224,7 +274,7 @@ export class TribeConfigSystem {
         cooldown: 20,
         lastUsed: -100,
         effect: (tribe, agents, gameState) => {
-          console.log('Enlightenment activated for Gamma tribe!');
+          console.log(`Enlightenment activated for ${tribe} tribe!`);
         }
       },
       tendencies: {
@@ -276,6 +326,11 @@ export class TribeConfigSystem {
     return config ? config.tradeModifier : 1.0;
   }
 
+  getUpkeepModifier(tribeId: string): number {
+    const config = this.tribes.get(tribeId);
+    return config?.upkeepModifier ?? 1.0;
+  }
+
   // Get research modifier for tribe
   getResearchModifier(tribeId: string): number {
     const config = this.tribes.get(tribeId);
@@ -313,27 +368,27 @@ export class TribeConfigSystem {
   // Determine tribe behavior based on tendencies
   shouldInitiateConflict(tribeId: string): boolean {
     const aggression = this.getTendency(tribeId, 'aggression');
-    return Math.random() * 100 < aggression;
+    return this.random.next() * 100 < aggression;
   }
 
   shouldFormAlliance(tribeId: string): boolean {
     const cooperation = this.getTendency(tribeId, 'cooperation');
-    return Math.random() * 100 < cooperation;
+    return this.random.next() * 100 < cooperation;
   }
 
   shouldExplore(tribeId: string): boolean {
     const exploration = this.getTendency(tribeId, 'exploration');
-    return Math.random() * 100 < exploration;
+    return this.random.next() * 100 < exploration;
   }
 
   shouldResearch(tribeId: string): boolean {
     const innovation = this.getTendency(tribeId, 'innovation');
-    return Math.random() * 100 < innovation;
+    return this.random.next() * 100 < innovation;
   }
 
   shouldTrade(tribeId: string): boolean {
     const trade = this.getTendency(tribeId, 'trade');
-    return Math.random() * 100 < trade;
+    return this.random.next() * 100 < trade;
   }
 
   public serialize(): any {
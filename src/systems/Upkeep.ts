@@ -0,0 +1,135 @@
+// Upkeep System for ClawCiv
+// Agents pay $CLAW every day for rent and compute; unpaid upkeep becomes debt, then penalties, then exile
+
+import { Ledger } from '../economy/Ledger.ts';
+
+export interface UpkeepCosts {
+  rent: number;     // Paid to the agent's tribe treasury
+  compute: number;  // Spent via TokenSystem.spendTokens (recycled to the reward pool, or burned)
+}
+
+export interface UpkeepAccount {
+  debt: number;           // Unpaid upkeep owed to the tribe treasury
+  daysInArrears: number;  // Consecutive days ending with debt
+  totalPaid: number;
+}
+
+export interface UpkeepResult {
+  agentId: string;
+  paid: number;
+  rentPaid: number;       // The part of `paid` that went to the tribe treasury
+  shortfall: number;
+  debt: number;
+  daysInArrears: number;
+  penalized: boolean;
+  exiled: boolean;
+}
+
+export const DEFAULT_UPKEEP: UpkeepCosts = { rent: 2, compute: 3 };
+
+export class UpkeepSystem {
+  private tokenSystem: Ledger;
+  private costs: UpkeepCosts;
+  private accounts: Map<string, UpkeepAccount> = new Map();
+
+  private readonly PENALTY_AFTER_DAYS = 3;   // Grace period before resources suffer
+  private readonly EXILE_AFTER_DAYS = 20;    // Tribes stop housing agents this far behind
+  private readonly ENERGY_PENALTY = 2;       // Per day in arrears past the grace period, capped below
+  private readonly MAX_ENERGY_PENALTY = 10;
+  private readonly SOCIAL_PENALTY = 1;
+
+  constructor(tokenSystem: Ledger, costs: UpkeepCosts = DEFAULT_UPKEEP) {
+    this.tokenSystem = tokenSystem;
+    this.costs = { ...costs };
+  }
+
+  getCosts(): UpkeepCosts {
+    return { ...this.costs };
+  }
+
+  // Daily cost for one agent; `multiplier` combines government and tribe modifiers
+  getDailyCost(multiplier: number = 1): UpkeepCosts {
+    return {
+      rent: Math.round(this.costs.rent * multiplier * 100) / 100,
+      compute: Math.round(this.costs.compute * multiplier * 100) / 100
+    };
+  }
+
+  getAccount(agentId: string): UpkeepAccount {
+    return this.accounts.get(agentId) || { debt: 0, daysInArrears: 0, totalPaid: 0 };
+  }
+
+  getDebt(agentId: string): number {
+    return this.accounts.get(agentId)?.debt || 0;
+  }
+
+  getTotalDebt(tribe: string, agents: any[]): number {
+    return agents
+      .filter(a => a.tribe === tribe && a.alive)
+      .reduce((sum, a) => sum + this.getDebt(a.id), 0);
+  }
+
+  // Charge one agent for the day. Compute is paid first, then old debt and rent go to the treasury.
+  // Whatever can't be covered is added to the agent's debt.
+  chargeAgent(agent: any, multiplier: number = 1): UpkeepResult {
+    const account = this.accounts.get(agent.id) || { debt: 0, daysInArrears: 0, totalPaid: 0 };
+    const cost = this.getDailyCost(multiplier);
+
+    let computePaid = Math.min(cost.compute, this.tokenSystem.getBalance(agent.id));
+    if (computePaid > 0 && !this.tokenSystem.spendTokens(agent.id, computePaid, 'Compute upkeep')) {
+      computePaid = 0;
+    }
+
+    // Unpaid compute is fronted by the tribe, so it joins the debt owed to the treasury
+    const owed = account.debt + cost.rent + (cost.compute - computePaid);
+    let rentPaid = Math.min(owed, this.tokenSystem.getBalance(agent.id));
+    if (rentPaid > 0 && !this.tokenSystem.payTreasury(agent.id, agent.tribe, rentPaid, 'Rent upkeep')) {
+      rentPaid = 0;
+    }
+
+    const paid = computePaid + rentPaid;
+    const shortfall = owed - rentPaid;
+    account.debt = Math.round(shortfall * 100) / 100;
+    account.daysInArrears = account.debt > 0 ? account.daysInArrears + 1 : 0;
+    account.totalPaid += paid;
+    this.accounts.set(agent.id, account);
+
+    // Escalation: a grace period, then growing resource penalties, then exile
+    let penalized = false;
+    if (account.daysInArrears > this.PENALTY_AFTER_DAYS) {
+      const overdue = account.daysInArrears - this.PENALTY_AFTER_DAYS;
+      agent.resources.energy -= Math.min(this.MAX_ENERGY_PENALTY, this.ENERGY_PENALTY * overdue);
+      agent.resources.socialCapital = Math.max(0, agent.resources.socialCapital - this.SOCIAL_PENALTY);
+      penalized = true;
+    }
+    const exiled = account.daysInArrears >= this.EXILE_AFTER_DAYS;
+
+    return {
+      agentId: agent.id,
+      paid,
+      rentPaid,
+      shortfall,
+      debt: account.debt,
+      daysInArrears: account.daysInArrears,
+      penalized,
+      exiled
+    };
+  }
+
+  // Forget an agent that died or left; its debt is written off
+  removeAgent(agentId: string): void {
+    this.accounts.delete(agentId);
+  }
+
+  public serialize(): any {
+    return {
+      costs: this.costs,
+      accounts: Array.from(this.accounts.entries())
+    };
+  }
+
+  public deserialize(data: any): void {
+    this.costs = { ...DEFAULT_UPKEEP, ...(data.costs || {}) };
+    this.accounts = new Map(data.accounts || []);
+  }
+}
@@ -1,6 +1,9 @@
 // Weather & Climate System for ClawCiv
 // Dynamic weather affecting gameplay, resources, and agent activities
 
+import { Random } from '../engine/Random.ts';
+import { WorldConfig, createWorldConfig } from '../engine/WorldConfig.ts';
+
 export type WeatherType = 'sunny' | 'rainy' | 'stormy' | 'snowy' | 'foggy' | 'drought' | 'heatwave';
 export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
 export type ClimateZone = 'temperate' | 'tropical' | 'arid' | 'arctic' | 'continental';
@@ -53,6 +56,7 @@ export interface WeatherAlert {
 }
 
 export class WeatherSystem {
+  private random: Random;
   private currentWeather: Weather;
   private weatherHistory: Weather[] = [];
   private forecasts: WeatherForecast[] = [];
@@ -65,35 +69,44 @@ export class WeatherSystem {
   private seasonStartDay: number = 0;
   private readonly SEASON_LENGTH = 100; // Days per season
 
-  constructor() {
+  private readonly TRIBES: string[];
+
+  constructor(random: Random = new Random(), world: WorldConfig = createWorldConfig()) {
+    this.random = random;
+    this.TRIBES = [...world.tribes];
     this.initializeTerritoryClimates();
     this.currentWeather = this.generateWeather('spring');
   }
 
-  // Initialize climate zones for each tribe's territory
+  // Initialize climate zones for each tribe's territory (temperate, tropical, arctic in turn)
   private initializeTerritoryClimates(): void {
-    this.territoryClimates.set('Alpha', {
-      zone: 'temperate',
-      baseTemperature: 15,
-      humidity: 60,
-      typicalWeather: ['sunny', 'rainy', 'foggy'],
-      seasonalVariation: 20
-    });
-
-    this.territoryClimates.set('Beta', {
-      zone: 'tropical',
-      baseTemperature: 28,
-      humidity: 80,
-      typicalWeather: ['sunny', 'rainy', 'stormy'],
-      seasonalVariation: 5
-    });
+    const climates: ClimateData[] = [
+      {
+        zone: 'temperate',
+        baseTemperature: 15,
+        humidity: 60,
+        typicalWeather: ['sunny', 'rainy', 'foggy'],
+        seasonalVariation: 20
+      },
+      {
+        zone: 'tropical',
+        baseTemperature: 28,
+        humidity: 80,
+        typicalWeather: ['sunny', 'rainy', 'stormy'],
+        seasonalVariation: 5
+      },
+      {
+        zone: 'arctic',
+        baseTemperature: -5,
+        humidity: 40,
+        typicalWeather: ['sunny', 'snowy', 'foggy'],
+        seasonalVariation: 15
+      }
+    ];
 
-    this.territoryClimates.set('Gamma', {
-      zone: 'arctic',
-      baseTemperature: -5,
-      humidity: 40,
-      typicalWeather: ['sunny', 'snowy', 'foggy'],
-      seasonalVariation: 15
+    this.TRIBES.forEach((tribe, i) => {
+      const climate = climates[i % climates.length];
+      this.territoryClimates.set(tribe, { ...climate, typicalWeather: [...climate.typicalWeather] });
     });
   }
 
@@ -123,7 +136,7 @@ export class WeatherSystem {
   }
 
   private selectWeightedWeather(types: WeatherType[]): WeatherType {
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(this.random.next() * types.length)];
   }
 
   private getWeatherByType(type: WeatherType): Weather {
@@ -277,7 +290,7 @@ export class WeatherSystem {
       heatwave: 6
     };
 
-    const variation = Math.floor(Math.random() * 3) - 1; // -1, 0, or +1
+    const variation = Math.floor(this.random.next() * 3) - 1; // -1, 0, or +1
     return Math.max(2, baseDurations[type] + variation);
   }
 
@@ -293,7 +306,7 @@ export class WeatherSystem {
     };
 
     const [min, max] = severityRanges[type];
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(this.random.next() * (max - min + 1)) + min;
   }
 
   // Update weather and check for changes
@@ -352,14 +365,13 @@ export class WeatherSystem {
   }
 
   private generateWeatherAlert(weather: Weather, day: number): void {
-    const tribes = ['Alpha', 'Beta', 'Gamma'];
-    const affectedTribes = tribes.filter(() => Math.random() > 0.3); // 70% chance each
+    const affectedTribes = this.TRIBES.filter(() => this.random.next() > 0.3); // 70% chance each
 
     const alertTypes = ['advisory', 'watch', 'warning'] as const;
     const alertType = weather.severity >= 8 ? 'warning' : weather.severity >= 6 ? 'watch' : 'advisory';
 
     const alert: WeatherAlert = {
-      id: `alert-${this.alertIdCounter++}-${Date.now()}`,
+      id: `alert-${this.alertIdCounter++}-${this.random.now()}`,
       type: alertType,
       severity: weather.severity,
       weather: weather.type,
@@ -391,13 +403,13 @@ export class WeatherSystem {
     const extremeEvents: Weather[] = [];
 
     // Small chance for extreme weather to develop
-    if (Math.random() < 0.02) {
+    if (this.random.next() < 0.02) {
       const extremeTypes: WeatherType[] = ['stormy', 'heatwave', 'drought'];
-      const extremeType = extremeTypes[Math.floor(Math.random() * extremeTypes.length)];
+      const extremeType = extremeTypes[Math.floor(this.random.next() * extremeTypes.length)];
 
       const extremeWeather = this.getWeatherByType(extremeType);
       extremeWeather.severity = 10;
-      extremeWeather.duration = 3 + Math.floor(Math.random() * 4);
+      extremeWeather.duration = 3 + Math.floor(this.random.next() * 4);
       extremeWeather.description = `EXTREME: ${extremeWeather.description}`;
 
       extremeEvents.push(extremeWeather);
@@ -524,6 +536,11 @@ export class WeatherSystem {
     return this.currentWeather.severity >= 6;
   }
 
+  // Get the climate of a tribe's territory
+  getClimate(tribe: string): ClimateData | undefined {
+    return this.territoryClimates.get(tribe);
+  }
+
   // Get temperature for a territory
   getTemperature(tribe: string): number {
     const climate = this.territoryClimates.get(tribe);
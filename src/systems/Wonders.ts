@@ -1,6 +1,8 @@
 // World Wonder/Monument System for ClawCiv
 // Massive construction projects that provide permanent, powerful bonuses
 
+import { Random } from '../engine/Random.ts';
+
 export type WonderStatus = 'planning' | 'under_construction' | 'completed' | 'abandoned' | 'destroyed';
 export type WonderCategory = 'ancient' | 'economic' | 'military' | 'cultural' | 'religious' | 'scientific';
 
@@ -81,11 +83,13 @@ export interface Wonder {
 }
 
 export class WonderSystem {
+  private random: Random;
   private wonders: Map<string, Wonder> = new Map();
   private wonderIdCounter = 0;
   private availableWonders: Wonder[] = [];
 
-  constructor() {
+  constructor(random: Random = new Random()) {
+    this.random = random;
     this.initializeAvailableWonders();
   }
 
@@ -124,7 +128,7 @@ export class WonderSystem {
     }
 
     const wonder: Wonder = {
-      id: `wonder-${this.wonderIdCounter++}-${Date.now()}`,
+      id: `wonder-${this.wonderIdCounter++}-${this.random.now()}`,
       name: wonderTemplate.name,
       category: wonderTemplate.category,
       status: 'under_construction',
@@ -133,7 +137,7 @@ export class WonderSystem {
       lore: wonderTemplate.lore,
       tribe,
       location,
-      dayStarted: Date.now(),
+      dayStarted: this.random.now(),
       dayCompleted: 0,
       constructionProgress: 0,
       stages: wonderTemplate.stages,
@@ -217,7 +221,7 @@ export class WonderSystem {
     const wonderComplete = wonder.constructionProgress >= 100;
     if (wonderComplete) {
       wonder.status = 'completed';
-      wonder.dayCompleted = Date.now();
+      wonder.dayCompleted = this.random.now();
     }
 
     return {
@@ -655,7 +659,10 @@ export class WonderSystem {
 
   public serialize(): any {
     return {
-      wonders: Array.from(this.wonders.entries()),
+      wonders: Array.from(this.wonders.entries()).map(([id, wonder]) => [id, {
+        ...wonder,
+        contributors: Array.from(wonder.contributors.entries())
+      }]),
       wonderIdCounter: this.wonderIdCounter
     };
   }
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vite';
+
+export default defineConfig(({ isSsrBuild }) => ({
+  build: {
+    // The headless CLI bundle (npm run build:cli) doesn't need the static assets
+    copyPublicDir: !isSsrBuild
+  }
+}));